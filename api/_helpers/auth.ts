@@ -0,0 +1,235 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { getSupabaseClient } from './supabase.js';
+
+// Session tokens (signed JWTs) for coaches and athletes. Mirrors server/src/services/authService.ts.
+
+const authSecret = process.env.AUTH_SECRET || '';
+
+if (!authSecret) {
+  throw new Error('Missing AUTH_SECRET environment variable: required to sign session tokens');
+}
+
+export type SessionRole = 'admin' | 'user';
+
+// How the session was started; only link and password sessions can set a first password
+export type LoginMethod = 'password' | 'link' | 'name';
+
+export interface SessionClaims {
+  sub: string; // coach or athlete ID
+  role: SessionRole;
+  name: string;
+  method?: LoginMethod; // missing from sessions issued before it was recorded
+  iat: number;
+  exp: number;
+}
+
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Sessions from a single-use login link last longer, so the athlete isn't sent a new link every week
+export const DEVICE_SESSION_TTL_SECONDS = 90 * 24 * 60 * 60;
+export const MIN_PASSWORD_LENGTH = 8;
+
+function sign(data: string): string {
+  return createHmac('sha256', authSecret).update(data).digest('base64url');
+}
+
+// Stored as scrypt:<salt>:<hash>, both hex
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string | null | undefined): boolean {
+  const [scheme, saltHex, hashHex] = (stored || '').split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Returns an error message when a new password isn't a string of at least MIN_PASSWORD_LENGTH
+// characters, or null
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// The athletes.sessions_valid_after to set when an athlete's password changes, ending every earlier
+// session. iat is in whole seconds, so this is the start of the current second: the session issued to
+// whoever changed the password, right after, still counts.
+export function passwordChangeSessionCutoff(): string {
+  return new Date(Math.floor(Date.now() / 1000) * 1000).toISOString();
+}
+
+// The first coach account can only be created with the COACH_SETUP_SECRET code, so whoever reaches
+// a new deployment first can't claim it. Without the variable, first-run setup is off. Returns an
+// error message, or null.
+export function validateSetupSecret(setupSecret: unknown): string | null {
+  const expected = process.env.COACH_SETUP_SECRET;
+  if (!expected) {
+    return 'Set COACH_SETUP_SECRET on the server to create the first coach account';
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (typeof setupSecret !== 'string' || !timingSafeEqual(digest(setupSecret), digest(expected))) {
+    return 'Incorrect setup code';
+  }
+  return null;
+}
+
+export function signSessionToken(
+  user: { id: string; name: string; role: SessionRole },
+  method: LoginMethod,
+  ttlSeconds = SESSION_TTL_SECONDS
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    sub: user.id,
+    role: user.role,
+    name: user.name,
+    method,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const body = `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${body}.${sign(body)}`;
+}
+
+function verifySessionToken(token: string): SessionClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+    if (!claims.sub || (claims.role !== 'admin' && claims.role !== 'user')) return null;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// An athlete's sessions end when their login link is revoked or replaced after the session was
+// issued, or when they're deleted. iat is in whole seconds, so a session issued in the same second
+// as a revocation is rejected too.
+async function isAthleteSessionCurrent(claims: SessionClaims): Promise<boolean> {
+  const { data: athlete, error } = await getSupabaseClient()
+    .from('athletes')
+    .select('sessions_valid_after')
+    .eq('id', claims.sub)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!athlete) return false;
+  return !athlete.sessions_valid_after || claims.iat * 1000 >= Date.parse(athlete.sessions_valid_after);
+}
+
+// The session from the request's Authorization: Bearer header, or null
+export async function getSession(req: VercelRequest): Promise<SessionClaims | null> {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  const claims = verifySessionToken(header.slice('Bearer '.length).trim());
+  if (claims?.role === 'user' && !(await isAthleteSessionCurrent(claims))) return null;
+  return claims;
+}
+
+/**
+ * The session of any signed-in user (coach or athlete). Otherwise responds 401 and returns null,
+ * so handlers can `if (!(await requireAuth(req, res))) return;`
+ */
+export async function requireAuth(req: VercelRequest, res: VercelResponse): Promise<SessionClaims | null> {
+  const session = await getSession(req);
+  if (!session) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+  return session;
+}
+
+// Like requireAuth, but coaches only (403 for athletes)
+export async function requireCoach(req: VercelRequest, res: VercelResponse): Promise<SessionClaims | null> {
+  const session = await requireAuth(req, res);
+  if (!session) return null;
+  if (session.role !== 'admin') {
+    res.status(403).json({ error: 'Coach access required' });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * The athlete whose logs the request may read: a signed-in athlete only their own (the athleteId
+ * query parameter defaults to them), a coach whichever athlete they name. Otherwise responds
+ * 401/403/400 and returns null.
+ */
+export async function authorizeAthleteRead(req: VercelRequest, res: VercelResponse): Promise<string | null> {
+  const session = await requireAuth(req, res);
+  if (!session) return null;
+
+  const requested = typeof req.query.athleteId === 'string' ? req.query.athleteId : undefined;
+  if (session.role === 'user') {
+    if (requested && requested !== session.sub) {
+      res.status(403).json({ error: 'You can only view your own training' });
+      return null;
+    }
+    return session.sub;
+  }
+
+  if (!requested) {
+    res.status(400).json({ error: 'athleteId query parameter is required' });
+    return null;
+  }
+  return requested;
+}
+
+/**
+ * Authorizes a read of the athlete named in the path: a signed-in athlete only their own, a coach
+ * any. Otherwise responds 401/403 and returns null.
+ */
+export async function authorizeAthletePathRead(
+  req: VercelRequest,
+  res: VercelResponse,
+  athleteId: string
+): Promise<SessionClaims | null> {
+  const session = await requireAuth(req, res);
+  if (!session) return null;
+
+  if (session.role === 'user' && athleteId !== session.sub) {
+    res.status(403).json({ error: 'You can only view your own training' });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * The signed-in athlete a write (sets, notes, feedback, check-ins) is for. Coaches can't log for
+ * athletes, and an athleteId naming anyone else (in the body, or passed in from the path) is
+ * rejected. Otherwise responds 401/403 and returns null.
+ */
+export async function authorizeAthleteWrite(
+  req: VercelRequest,
+  res: VercelResponse,
+  athleteId?: string
+): Promise<string | null> {
+  const session = await requireAuth(req, res);
+  if (!session) return null;
+
+  if (session.role !== 'user') {
+    res.status(403).json({ error: 'Only athletes can log their own training' });
+    return null;
+  }
+
+  const requested = athleteId ?? req.body?.athleteId;
+  if (requested && requested !== session.sub) {
+    res.status(403).json({ error: 'You can only log your own training' });
+    return null;
+  }
+  return session.sub;
+}
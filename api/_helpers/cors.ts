@@ -3,7 +3,7 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 export function setCorsHeaders(res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
 }
 
 export function handleCors(req: VercelRequest, res: VercelResponse): boolean {
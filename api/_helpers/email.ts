@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// Outgoing email. Mirrors server/src/services/emailService.ts: a pluggable transport, with
+// console and file stand-ins for development.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Sequence <no-reply@localhost>';
+
+export const consoleTransport: EmailTransport = {
+  async send(message) {
+    console.log(`[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+  },
+};
+
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`);
+      await fs.writeFile(file, `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`, 'utf8');
+      console.log(`[email] Wrote "${message.subject}" for ${message.to} to ${file}`);
+    },
+  };
+}
+
+// EMAIL_TRANSPORT=file writes emails to EMAIL_OUTBOX_DIR (default /tmp/outbox, the only writable
+// directory on Vercel); anything else logs them. Both would leave reset codes readable in logs or
+// files, so in production email is off until a real transport is set with setEmailTransport.
+const IS_PRODUCTION = process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
+let transport: EmailTransport | null = IS_PRODUCTION
+  ? null
+  : process.env.EMAIL_TRANSPORT === 'file'
+    ? createFileTransport(process.env.EMAIL_OUTBOX_DIR || '/tmp/outbox')
+    : consoleTransport;
+
+export function setEmailTransport(emailTransport: EmailTransport) {
+  transport = emailTransport;
+}
+
+export function isEmailAvailable(): boolean {
+  return transport !== null;
+}
+
+export async function sendEmail(message: EmailMessage) {
+  if (!transport) throw new Error('No email transport is set up');
+  await transport.send({ from: EMAIL_FROM, ...message });
+}
@@ -0,0 +1,42 @@
+import { VercelRequest } from '@vercel/node';
+
+// Long enough to cover an athlete's phone staying offline for a few days
+const KEY_RETENTION_DAYS = 7;
+
+export function getIdempotencyKey(req: VercelRequest): string | undefined {
+  const header = req.headers['idempotency-key'];
+  const key = Array.isArray(header) ? header[0] : header;
+  return key || undefined;
+}
+
+/**
+ * The stored response for a write the athlete already applied under this idempotency key, or
+ * undefined. Keys are scoped to the athlete, so one athlete's key never returns another's response.
+ */
+export async function getIdempotentResponse(supabase: any, athleteId: string, key: string): Promise<any | undefined> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .select('response')
+    .eq('athlete_id', athleteId)
+    .eq('key', key)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined;
+    throw error;
+  }
+  return data?.response;
+}
+
+// Record a successful write's response; old keys are pruned at the same time. Failures are only
+// logged - the write itself has already succeeded.
+export async function saveIdempotentResponse(supabase: any, athleteId: string, key: string, response: unknown) {
+  const cutoff = new Date(Date.now() - KEY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error: pruneError } = await supabase.from('idempotency_keys').delete().lt('created_at', cutoff);
+  if (pruneError) console.error('Error pruning idempotency keys:', pruneError);
+
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .upsert({ athlete_id: athleteId, key, response }, { onConflict: 'athlete_id,key' });
+  if (error) console.error('Error saving idempotency key:', error);
+}
@@ -1,6 +1,8 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { hashPassword, requireCoach, validatePassword } from '../_helpers/auth.js';
+import { pinColumns, validatePin } from '../auth/_nameLogin.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   console.log(`[Athletes ID] ${req.method} ${req.url}`, { query: req.query, method: req.method });
@@ -8,6 +10,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can edit or remove athletes
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
   const { id } = req.query;
 
@@ -21,7 +26,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Get single athlete
       const { data, error } = await supabase
         .from('athletes')
-        .select('id, name, email, created_at, login_token')
+        .select('id, name, email, created_at, login_pin_hash')
         .eq('id', id)
         .single();
 
@@ -34,22 +39,37 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         name: data.name,
         email: data.email,
         createdAt: data.created_at,
-        loginToken: data.login_token || null,
+        hasPin: !!data.login_pin_hash,
       });
     } else if (req.method === 'PUT') {
       // Update athlete
-      const { name, email, password } = req.body;
+      const { name, email, password, pin } = req.body;
+
+      const pinError = pin !== undefined ? validatePin(pin) : null;
+      if (pinError) {
+        return res.status(400).json({ error: pinError });
+      }
+      const passwordError = password ? validatePassword(password) : null;
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
 
       const updates: any = {};
       if (name !== undefined) updates.name = name;
       if (email !== undefined) updates.email = email;
-      if (password !== undefined) updates.password_hash = password;
+      // A new password signs the athlete out everywhere
+      if (password) {
+        updates.password_hash = hashPassword(password);
+        updates.sessions_valid_after = new Date().toISOString();
+      }
+      // Name-link PIN; null or '' removes it
+      if (pin !== undefined) Object.assign(updates, pinColumns(pin || null));
 
       const { data, error } = await supabase
         .from('athletes')
         .update(updates)
         .eq('id', id)
-        .select('id, name, email, created_at, login_token')
+        .select('id, name, email, created_at, login_pin_hash')
         .single();
 
       if (error) {
@@ -67,7 +87,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         name: data.name,
         email: data.email,
         createdAt: data.created_at,
-        loginToken: data.login_token || null,
+        hasPin: !!data.login_pin_hash,
       });
     } else if (req.method === 'DELETE') {
       // Delete athlete
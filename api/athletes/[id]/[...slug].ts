@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../../_helpers/cors.js';
+import { authorizeAthletePathRead, authorizeAthleteWrite, requireCoach } from '../../_helpers/auth.js';
+import { getAthleteRecords } from '../../workouts/_records.js';
+import { getExerciseHistory } from '../../workouts/_history.js';
+import { getAthleteSessions } from '../../workouts/_sessions.js';
+import { getDailyLoads, isDateParam } from '../../workouts/_load.js';
+import { getWorkoutCompliance, summarizeCompliance } from '../../workouts/_compliance.js';
+import { getAthleteCheckins, getAthleteWellnessQuestions, saveCheckin, validateWellnessCheckin } from '../../teams/_wellness.js';
+import { getLoginTokens, issueLoginToken, revokeLoginTokens, validateLoginLinkOptions } from '../_loginTokens.js';
+
+const MAX_TYPES = ['tested', 'estimated'];
+const MAX_UNITS = ['lb', 'kg'];
+
+// Map an athlete_maxes row to API shape
+function mapMaxRow(row: any) {
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    exerciseId: row.exercise_id || undefined,
+    exerciseName: row.exercise_name,
+    value: Number(row.value),
+    unit: row.unit,
+    type: row.type,
+    date: row.date,
+    createdAt: row.created_at,
+  };
+}
+
+// Returns an error message for an invalid max body, or null
+function validateMax(max: any): string | null {
+  if (!max.exerciseName || typeof max.exerciseName !== 'string') return 'Exercise is required';
+  if (typeof max.value !== 'number' || !(max.value > 0)) return 'Max must be a positive number';
+  if (max.unit !== undefined && !MAX_UNITS.includes(max.unit)) return 'Unit must be lb or kg';
+  if (!MAX_TYPES.includes(max.type)) return 'Type must be tested or estimated';
+  if (!max.date || !/^\d{4}-\d{2}-\d{2}$/.test(max.date)) return 'Date is required (YYYY-MM-DD)';
+  return null;
+}
+
+// Row values for a max, linked to its library exercise (by ID, falling back to the name)
+async function toMaxRow(supabase: any, body: any) {
+  const { data: libraryId, error } = await supabase.rpc('resolve_library_exercise', {
+    p_exercise_id: body.exerciseId || null,
+    p_exercise_name: body.exerciseName,
+  });
+  if (error) throw error;
+
+  let exerciseName = body.exerciseName.trim();
+  if (libraryId) {
+    const { data: libraryExercise } = await supabase
+      .from('exercises')
+      .select('name')
+      .eq('id', libraryId)
+      .single();
+    if (libraryExercise) exerciseName = libraryExercise.name;
+  }
+
+  return {
+    exercise_id: libraryId || null,
+    exercise_name: exerciseName,
+    value: body.value,
+    unit: body.unit || 'lb',
+    type: body.type,
+    date: body.date,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  const supabase = getSupabaseClient();
+  const { id, slug } = req.query;
+
+  // Parse slug array - ['maxes'], ['maxes', 'maxId'], ['records'], ['history'], ['sessions'], ['load'],
+  // ['compliance'], ['wellness'], ['wellness', 'questions'], ['login-links'] or ['login-link']
+  const slugArray = Array.isArray(slug) ? slug : slug ? [slug] : [];
+  const resource = slugArray[0];
+  const maxId = slugArray[1] || null;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Athlete ID is required' });
+  }
+
+  // Every read here is of this athlete's training: their own, or any athlete's for a coach
+  if (req.method === 'GET' && !(await authorizeAthletePathRead(req, res, id))) return;
+
+  try {
+    // Handle GET /api/athletes/:id/records?workoutId=xxx (PR history, newest first)
+    if (resource === 'records') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { workoutId } = req.query;
+      return res.json(
+        await getAthleteRecords(supabase, id, typeof workoutId === 'string' ? workoutId : undefined)
+      );
+    }
+
+    // Handle GET /api/athletes/:id/history?exerciseId=xxx&exerciseName=xxx&excludeWorkoutId=xxx&limit=3
+    if (resource === 'history') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { exerciseId, exerciseName, excludeWorkoutId, limit } = req.query;
+      if (typeof exerciseId !== 'string' && typeof exerciseName !== 'string') {
+        return res.status(400).json({ error: 'exerciseId or exerciseName query parameter is required' });
+      }
+
+      return res.json(
+        await getExerciseHistory(supabase, id, {
+          exerciseId: typeof exerciseId === 'string' ? exerciseId : undefined,
+          exerciseName: typeof exerciseName === 'string' ? exerciseName : undefined,
+          excludeWorkoutId: typeof excludeWorkoutId === 'string' ? excludeWorkoutId : undefined,
+          limit: typeof limit === 'string' ? parseInt(limit) || undefined : undefined,
+        })
+      );
+    }
+
+    // Handle GET /api/athletes/:id/sessions?from=YYYY-MM-DD&to=YYYY-MM-DD (completed workouts with sRPE load)
+    if (resource === 'sessions') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { from, to } = req.query;
+      return res.json(
+        await getAthleteSessions(supabase, id, {
+          from: typeof from === 'string' ? from : undefined,
+          to: typeof to === 'string' ? to : undefined,
+        })
+      );
+    }
+
+    // Handle GET /api/athletes/:id/load?from=YYYY-MM-DD&to=YYYY-MM-DD (daily sRPE load and tonnage)
+    if (resource === 'load') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { from, to } = req.query;
+      if (!isDateParam(from) || !isDateParam(to)) {
+        return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+      }
+
+      const loads = await getDailyLoads(supabase, [id], from, to);
+      return res.json(loads.get(id) || []);
+    }
+
+    // Handle GET /api/athletes/:id/compliance?from=YYYY-MM-DD&to=YYYY-MM-DD (assigned workouts and how much was done)
+    if (resource === 'compliance') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { from, to } = req.query;
+      if (!isDateParam(from) || !isDateParam(to)) {
+        return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+      }
+
+      const workouts = (await getWorkoutCompliance(supabase, [id], from, to)).get(id) || [];
+      return res.json({ ...summarizeCompliance(workouts), workouts });
+    }
+
+    // Handle GET /api/athletes/:id/wellness/questions (questions the athlete's teams ask)
+    if (resource === 'wellness' && slugArray[1] === 'questions') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      return res.json(await getAthleteWellnessQuestions(supabase, id));
+    }
+
+    // Handle GET/POST /api/athletes/:id/wellness (check-ins, newest first / save a day's check-in)
+    if (resource === 'wellness' && slugArray.length === 1) {
+      if (req.method === 'GET') {
+        const { from, to } = req.query;
+        return res.json(
+          await getAthleteCheckins(supabase, id, {
+            from: typeof from === 'string' ? from : undefined,
+            to: typeof to === 'string' ? to : undefined,
+          })
+        );
+      }
+
+      if (req.method === 'POST') {
+        if (!(await authorizeAthleteWrite(req, res, id))) return;
+
+        const { data: athlete } = await supabase.from('athletes').select('id').eq('id', id).single();
+        if (!athlete) {
+          return res.status(404).json({ error: 'Athlete not found' });
+        }
+
+        const validationError = validateWellnessCheckin(req.body);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+
+        return res.json(await saveCheckin(supabase, id, req.body));
+      }
+
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    // Handle GET /api/athletes/:id/login-links (the athlete's login links, newest first, with when each was last used)
+    if (resource === 'login-links') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      if (!(await requireCoach(req, res))) return;
+
+      const { data: athlete } = await supabase.from('athletes').select('id').eq('id', id).single();
+      if (!athlete) {
+        return res.status(404).json({ error: 'Athlete not found' });
+      }
+
+      return res.json(await getLoginTokens(supabase, id));
+    }
+
+    // Handle POST/DELETE /api/athletes/:id/login-link (issue a new link, so the old one stops working / revoke it)
+    if (resource === 'login-link') {
+      if (req.method !== 'POST' && req.method !== 'DELETE') {
+        res.setHeader('Allow', ['POST', 'DELETE']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      if (!(await requireCoach(req, res))) return;
+
+      const { data: athlete } = await supabase.from('athletes').select('id').eq('id', id).single();
+      if (!athlete) {
+        return res.status(404).json({ error: 'Athlete not found' });
+      }
+
+      if (req.method === 'DELETE') {
+        await revokeLoginTokens(supabase, id);
+        return res.status(204).end();
+      }
+
+      const validationError = validateLoginLinkOptions(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { singleUse, expiresInDays } = req.body || {};
+      return res.status(201).json(await issueLoginToken(supabase, id, { singleUse, expiresInDays }));
+    }
+
+    if (resource !== 'maxes') {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    // Maxes are entered by coaches
+    if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
+    // Handle GET /api/athletes/:id/maxes (newest first, so the first per exercise is current)
+    if (!maxId && req.method === 'GET') {
+      const { data: athlete } = await supabase.from('athletes').select('id').eq('id', id).single();
+      if (!athlete) {
+        return res.status(404).json({ error: 'Athlete not found' });
+      }
+
+      const { data, error } = await supabase
+        .from('athlete_maxes')
+        .select('*')
+        .eq('athlete_id', id)
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return res.json((data || []).map(mapMaxRow));
+    }
+
+    // Handle POST /api/athletes/:id/maxes
+    if (!maxId && req.method === 'POST') {
+      const validationError = validateMax(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data, error } = await supabase
+        .from('athlete_maxes')
+        .insert({ id: randomUUID(), athlete_id: id, ...(await toMaxRow(supabase, req.body)) })
+        .select('*')
+        .single();
+
+      if (error) {
+        if (error.code === '23503') {
+          return res.status(404).json({ error: 'Athlete not found' });
+        }
+        throw error;
+      }
+      return res.status(201).json(mapMaxRow(data));
+    }
+
+    if (!maxId) {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    // Handle /api/athletes/:id/maxes/:maxId
+    if (req.method === 'PUT') {
+      const validationError = validateMax(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data, error } = await supabase
+        .from('athlete_maxes')
+        .update(await toMaxRow(supabase, req.body))
+        .eq('id', maxId)
+        .eq('athlete_id', id)
+        .select('*')
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: 'Max not found' });
+        }
+        throw error;
+      }
+      return res.json(mapMaxRow(data));
+    } else if (req.method === 'DELETE') {
+      const { data, error } = await supabase
+        .from('athlete_maxes')
+        .delete()
+        .eq('id', maxId)
+        .eq('athlete_id', id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        return res.status(404).json({ error: 'Max not found' });
+      }
+      return res.status(204).end();
+    } else {
+      res.setHeader('Allow', ['PUT', 'DELETE']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error: any) {
+    console.error('Error in athlete API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+
+// Athlete login links. Mirrors server/src/services/loginTokenService.ts: one active token per
+// athlete (also kept in athletes.login_token), each with an expiry, optionally single-use, and
+// the replaced ones kept so coaches can see when each was last used. Revoking or replacing a link
+// ends the athlete's sessions (the issue_login_token and revoke_login_tokens functions).
+
+export const DEFAULT_LINK_DAYS = 30;
+export const DEFAULT_MAGIC_LINK_DAYS = 1;
+export const MAX_LINK_DAYS = 365;
+
+function getStatus(row: any, now: string): 'active' | 'used' | 'expired' | 'revoked' {
+  if (row.revoked_at) return 'revoked';
+  if (row.single_use && row.last_used_at) return 'used';
+  if (new Date(row.expires_at).toISOString() <= now) return 'expired';
+  return 'active';
+}
+
+// Map an athlete_login_tokens row to API shape; only the active link's token is returned
+function mapTokenRow(row: any, now: string) {
+  const status = getStatus(row, now);
+  return {
+    token: status === 'active' ? row.token : undefined,
+    tokenPreview: `${row.token.slice(0, 8)}…`,
+    singleUse: !!row.single_use,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+    status,
+  };
+}
+
+// Returns an error message when the link options are invalid, or null
+export function validateLoginLinkOptions(options: any): string | null {
+  if (options?.singleUse !== undefined && typeof options.singleUse !== 'boolean') {
+    return 'singleUse must be true or false';
+  }
+  const days = options?.expiresInDays;
+  if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_LINK_DAYS)) {
+    return `expiresInDays must be a whole number between 1 and ${MAX_LINK_DAYS}`;
+  }
+  return null;
+}
+
+// Revoke the athlete's current login link and issue a new one, atomically
+export async function issueLoginToken(
+  supabase: any,
+  athleteId: string,
+  options: { singleUse?: boolean; expiresInDays?: number } = {}
+) {
+  const singleUse = options.singleUse === true;
+  const days = options.expiresInDays ?? (singleUse ? DEFAULT_MAGIC_LINK_DAYS : DEFAULT_LINK_DAYS);
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .rpc('issue_login_token', {
+      p_athlete_id: athleteId,
+      p_token: randomUUID(),
+      p_single_use: singleUse,
+      p_expires_at: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .single();
+
+  if (error) throw error;
+  return mapTokenRow(data, now.toISOString());
+}
+
+// Revoke the athlete's login link without issuing another
+export async function revokeLoginTokens(supabase: any, athleteId: string) {
+  const { error } = await supabase.rpc('revoke_login_tokens', { p_athlete_id: athleteId });
+  if (error) throw error;
+}
+
+/**
+ * The athlete a login token belongs to while it's usable, or null. With `redeem`, the use is
+ * recorded (which is what uses up a single-use token).
+ */
+export async function findLoginToken(
+  supabase: any,
+  token: string,
+  { redeem = false } = {}
+): Promise<{ athleteId: string; singleUse: boolean } | null> {
+  const now = new Date().toISOString();
+  const { data: row } = await supabase
+    .from('athlete_login_tokens')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (!row || getStatus(row, now) !== 'active') return null;
+
+  if (redeem) {
+    // Conditional update, so two requests racing on a single-use token can't both redeem it
+    const { data: redeemed, error } = await supabase
+      .from('athlete_login_tokens')
+      .update({ last_used_at: now })
+      .eq('token', token)
+      .or('single_use.eq.false,last_used_at.is.null')
+      .select('token');
+
+    if (error) throw error;
+    if (!redeemed || redeemed.length === 0) return null;
+  }
+
+  return { athleteId: row.athlete_id, singleUse: !!row.single_use };
+}
+
+// Every login link the athlete has had, newest first, with when each was last used
+export async function getLoginTokens(supabase: any, athleteId: string) {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('athlete_login_tokens')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row: any) => mapTokenRow(row, now));
+}
@@ -2,11 +2,16 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 import { randomUUID } from 'crypto';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { hashPassword, requireCoach, validatePassword } from '../_helpers/auth.js';
+import { issueLoginToken } from './_loginTokens.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can add athletes
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
 
   try {
@@ -14,7 +19,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Get all athletes
       const { data, error } = await supabase
         .from('athletes')
-        .select('id, name, email, created_at, login_token')
+        .select('id, name, email, created_at, login_pin_hash')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -24,7 +29,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         name: athlete.name,
         email: athlete.email,
         createdAt: athlete.created_at,
-        loginToken: athlete.login_token || null,
+        hasPin: !!athlete.login_pin_hash,
       }));
 
       res.json(athletes);
@@ -36,9 +41,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'Name and email are required' });
       }
 
+      // Optional: athletes can set their own password from a login link later
+      const passwordError = password ? validatePassword(password) : null;
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
+
       const id = randomUUID();
-      const password_hash = password || null;
-      const loginToken = randomUUID();
+      const password_hash = password ? hashPassword(password) : null;
 
       const { data, error } = await supabase
         .from('athletes')
@@ -47,9 +57,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           name,
           email,
           password_hash,
-          login_token: loginToken,
         })
-        .select('id, name, email, created_at, login_token')
+        .select('id, name, email, created_at')
         .single();
 
       if (error) {
@@ -60,12 +69,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         throw error;
       }
 
+      // Their first login link
+      await issueLoginToken(supabase, id);
+
       res.status(201).json({
         id: data.id,
         name: data.name,
         email: data.email,
         createdAt: data.created_at,
-        loginToken: data.login_token || null,
+        hasPin: false,
       });
     } else {
       res.setHeader('Allow', ['GET', 'POST']);
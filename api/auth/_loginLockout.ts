@@ -0,0 +1,71 @@
+import { verifyPassword } from '../_helpers/auth.js';
+
+// Email-and-password sign-ins lock the account for a while after repeated wrong passwords. Mirrors
+// the lockout in server/src/services/authService.ts.
+
+const MAX_LOGIN_ATTEMPTS = 10;
+const LOGIN_LOCKOUT_MINUTES = 15;
+
+export type PasswordLoginResult<T> = { account: T } | { status: number; error: string };
+
+export const INVALID_LOGIN = { status: 401, error: 'Invalid email or password' };
+
+/**
+ * Check the password of a coach or athlete signing in. Every guess counts against the account before
+ * the password is checked: the update is conditioned on the count it read, so parallel guesses can't
+ * share an attempt, and one that loses the race reads again. The guess that uses up the last of
+ * MAX_LOGIN_ATTEMPTS locks the account straight away; a correct password lifts the lockout and resets
+ * the count. `account` is the row with its id, password_hash and lockout columns. Returns an error, or
+ * null.
+ */
+export async function checkLoginPassword(
+  supabase: any,
+  table: 'coaches' | 'athletes',
+  account: any,
+  password: string
+): Promise<{ status: number; error: string } | null> {
+  let row = account;
+  for (;;) {
+    const now = new Date();
+    if (row.login_locked_until && new Date(row.login_locked_until) > now) {
+      return { status: 429, error: 'Too many failed sign-ins. Try again later.' };
+    }
+
+    const attempts = (row.failed_login_attempts || 0) + 1;
+    const { data: counted, error } = await supabase
+      .from(table)
+      .update(
+        attempts >= MAX_LOGIN_ATTEMPTS
+          ? {
+              failed_login_attempts: 0,
+              login_locked_until: new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000).toISOString(),
+            }
+          : { failed_login_attempts: attempts }
+      )
+      .eq('id', account.id)
+      .eq('failed_login_attempts', row.failed_login_attempts || 0)
+      .select('id');
+
+    if (error) throw error;
+    if (counted && counted.length > 0) break;
+
+    const { data: latest, error: readError } = await supabase
+      .from(table)
+      .select('failed_login_attempts, login_locked_until')
+      .eq('id', account.id)
+      .single();
+
+    if (readError) throw readError;
+    row = latest;
+  }
+
+  if (!verifyPassword(password, account.password_hash)) return INVALID_LOGIN;
+
+  const { error: resetError } = await supabase
+    .from(table)
+    .update({ failed_login_attempts: 0, login_locked_until: null })
+    .eq('id', account.id);
+
+  if (resetError) throw resetError;
+  return null;
+}
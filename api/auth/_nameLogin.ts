@@ -0,0 +1,153 @@
+import { hashPassword, verifyPassword } from '../_helpers/auth.js';
+
+// Name links (?mode=player&player=Name). Mirrors server/src/services/nameLoginService.ts: an
+// optional per-athlete PIN with a lockout after repeated wrong guesses, and a per-team switch
+// that turns name links off.
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 15;
+// Each lockout in a row doubles the next, up to a day, until the right PIN is entered or a coach
+// sets a new one
+const MAX_PIN_LOCKOUT_MINUTES = 24 * 60;
+
+type NameLoginResult =
+  | { athlete: { id: string; name: string; email: string } }
+  | { status: number; error: string; pinRequired?: boolean };
+
+// Returns an error message when the PIN is invalid, or null. null/'' clears the PIN.
+export function validatePin(pin: any): string | null {
+  if (pin === null || pin === '') return null;
+  if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) {
+    return 'PIN must be 4 to 8 digits';
+  }
+  return null;
+}
+
+// Athlete columns that set the name-link PIN, or clear it with null/''
+export function pinColumns(pin: string | null) {
+  return {
+    login_pin_hash: pin ? hashPassword(pin) : null,
+    pin_failed_attempts: 0,
+    pin_lockouts: 0,
+    pin_locked_until: null,
+  };
+}
+
+function getPinLockoutMinutes(previousLockouts: number): number {
+  return Math.min(PIN_LOCKOUT_MINUTES * 2 ** previousLockouts, MAX_PIN_LOCKOUT_MINUTES);
+}
+
+/**
+ * Count a PIN guess before it's checked. The update is conditioned on the counts it read, so parallel
+ * guesses can't share an attempt; one that loses the race reads again. The guess that uses up the
+ * last attempt locks the athlete out straight away ('lockedOut'), and the caller lifts the lockout
+ * again if that PIN turns out to be right. Returns 'locked' when a lockout is already running.
+ */
+async function recordPinAttempt(supabase: any, athlete: any): Promise<'counted' | 'lockedOut' | 'locked'> {
+  let row = athlete;
+  for (;;) {
+    const now = new Date();
+    if (row.pin_locked_until && new Date(row.pin_locked_until) > now) return 'locked';
+
+    const attempts = (row.pin_failed_attempts || 0) + 1;
+    const lockedOut = attempts >= MAX_PIN_ATTEMPTS;
+    const { data: counted, error } = await supabase
+      .from('athletes')
+      .update(
+        lockedOut
+          ? {
+              pin_failed_attempts: 0,
+              pin_lockouts: (row.pin_lockouts || 0) + 1,
+              pin_locked_until: new Date(
+                now.getTime() + getPinLockoutMinutes(row.pin_lockouts || 0) * 60 * 1000
+              ).toISOString(),
+            }
+          : { pin_failed_attempts: attempts }
+      )
+      .eq('id', athlete.id)
+      .eq('pin_failed_attempts', row.pin_failed_attempts || 0)
+      .eq('pin_lockouts', row.pin_lockouts || 0)
+      .select('id');
+
+    if (error) throw error;
+    if (counted && counted.length > 0) return lockedOut ? 'lockedOut' : 'counted';
+
+    const { data: latest, error: readError } = await supabase
+      .from('athletes')
+      .select('pin_failed_attempts, pin_lockouts, pin_locked_until')
+      .eq('id', athlete.id)
+      .single();
+
+    if (readError) throw readError;
+    row = latest;
+  }
+}
+
+// Name links work for the athlete unless one of their teams has turned them off
+async function isNameLoginEnabled(supabase: any, athleteId: string): Promise<boolean> {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('teams!inner(name_login_enabled)')
+    .eq('athlete_id', athleteId)
+    .eq('teams.name_login_enabled', false)
+    .limit(1);
+
+  if (error) throw error;
+  return !memberships || memberships.length === 0;
+}
+
+/**
+ * Sign in by name, case-insensitively (one query on the indexed name_lower column), checking the
+ * PIN when the athlete has one. Every guess counts towards a lockout that grows with each one in a
+ * row; a correct PIN resets both.
+ */
+export async function authenticateByName(supabase: any, name: string, pin?: string): Promise<NameLoginResult> {
+  const { data: matches, error } = await supabase
+    .from('athletes')
+    .select('id, name, email, login_pin_hash, pin_failed_attempts, pin_lockouts, pin_locked_until')
+    .eq('name_lower', name.trim().toLowerCase())
+    .limit(2);
+
+  if (error) throw error;
+
+  if (!matches || matches.length === 0) {
+    return { status: 401, error: 'Athlete not found' };
+  }
+  if (matches.length > 1) {
+    return { status: 409, error: 'More than one athlete has this name. Use your login link instead.' };
+  }
+
+  const athlete = matches[0];
+  if (!(await isNameLoginEnabled(supabase, athlete.id))) {
+    return { status: 403, error: 'Name links are turned off for your team. Use your login link instead.' };
+  }
+
+  if (athlete.login_pin_hash) {
+    if (athlete.pin_locked_until && new Date(athlete.pin_locked_until) > new Date()) {
+      return { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true };
+    }
+    if (!pin) {
+      return { status: 401, error: 'PIN required', pinRequired: true };
+    }
+
+    const attempt = await recordPinAttempt(supabase, athlete);
+    if (attempt === 'locked') {
+      return { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true };
+    }
+    if (!verifyPassword(pin, athlete.login_pin_hash)) {
+      return attempt === 'lockedOut'
+        ? { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true }
+        : { status: 401, error: 'Incorrect PIN', pinRequired: true };
+    }
+
+    const { error: resetError } = await supabase
+      .from('athletes')
+      .update({ pin_failed_attempts: 0, pin_lockouts: 0, pin_locked_until: null })
+      .eq('id', athlete.id);
+
+    if (resetError) throw resetError;
+  }
+
+  return { athlete: { id: athlete.id, name: athlete.name, email: athlete.email } };
+}
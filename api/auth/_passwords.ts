@@ -0,0 +1,169 @@
+import { randomInt, randomUUID } from 'crypto';
+import { SessionClaims, hashPassword, passwordChangeSessionCutoff, verifyPassword } from '../_helpers/auth.js';
+import { sendEmail } from '../_helpers/email.js';
+import { INVALID_LOGIN, PasswordLoginResult, checkLoginPassword } from './_loginLockout.js';
+
+// Athlete passwords and emailed reset codes. Mirrors the athlete half of
+// server/src/services/authService.ts and server/src/services/passwordResetService.ts.
+
+const RESET_CODE_MINUTES = 15;
+const MAX_RESET_ATTEMPTS = 5;
+// How soon another code can be sent to the same athlete
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// Emails are matched case-insensitively, through the indexed email_lower column
+async function findAthleteByEmail(supabase: any, email: string) {
+  const { data, error } = await supabase
+    .from('athletes')
+    .select('id, name, email, password_hash, failed_login_attempts, login_locked_until')
+    .eq('email_lower', email.trim().toLowerCase())
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Setting a first password turns a session into lasting email and password access, so it takes a
+// session from a login link (or a password); name links are often shared and may have no PIN.
+// Athletes who only have a name link can use the emailed reset code instead.
+export function canSetFirstPassword(session: SessionClaims) {
+  return session.method === 'link' || session.method === 'password';
+}
+
+// Setting a password signs the athlete out everywhere; the caller issues whoever set it a new session.
+// Returns the athlete.
+export async function setAthletePassword(supabase: any, athleteId: string, password: string) {
+  const { data, error } = await supabase
+    .from('athletes')
+    .update({ password_hash: hashPassword(password), sessions_valid_after: passwordChangeSessionCutoff() })
+    .eq('id', athleteId)
+    .select('id, name, email')
+    .single();
+
+  if (error) throw error;
+  return data as { id: string; name: string; email: string };
+}
+
+// Sign an athlete in by email and the password they've set
+export async function authenticateAthlete(
+  supabase: any,
+  email: string,
+  password: string
+): Promise<PasswordLoginResult<{ id: string; name: string; email: string }>> {
+  const athlete = await findAthleteByEmail(supabase, email);
+  if (!athlete || !athlete.password_hash) return INVALID_LOGIN;
+  return (await checkLoginPassword(supabase, 'athletes', athlete, password))
+    || { account: { id: athlete.id, name: athlete.name, email: athlete.email } };
+}
+
+/**
+ * Whether the athlete's password is `password`. When they haven't set one yet, `hasPassword` is
+ * false and there's nothing to check.
+ */
+export async function checkCurrentPassword(supabase: any, athleteId: string, password: unknown) {
+  const { data: athlete, error } = await supabase
+    .from('athletes')
+    .select('id, password_hash')
+    .eq('id', athleteId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!athlete?.password_hash) return { hasPassword: false, matches: false };
+  return {
+    hasPassword: true,
+    matches: typeof password === 'string' && verifyPassword(password, athlete.password_hash),
+  };
+}
+
+/**
+ * Email a reset code to the athlete with this email, if there is one. Callers respond the same
+ * way either way, so the endpoint doesn't reveal which emails have accounts.
+ */
+export async function requestPasswordReset(supabase: any, email: string) {
+  const athlete = await findAthleteByEmail(supabase, email);
+  if (!athlete) return;
+
+  const now = new Date();
+  const { data: recent, error: recentError } = await supabase
+    .from('password_reset_codes')
+    .select('id')
+    .eq('athlete_id', athlete.id)
+    .gt('created_at', new Date(now.getTime() - RESEND_COOLDOWN_SECONDS * 1000).toISOString())
+    .limit(1);
+
+  if (recentError) throw recentError;
+  if (recent && recent.length > 0) return;
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  const { error: deleteError } = await supabase.from('password_reset_codes').delete().eq('athlete_id', athlete.id);
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase.from('password_reset_codes').insert({
+    id: randomUUID(),
+    athlete_id: athlete.id,
+    code_hash: hashPassword(code),
+    expires_at: new Date(now.getTime() + RESET_CODE_MINUTES * 60 * 1000).toISOString(),
+    created_at: now.toISOString(),
+  });
+  if (insertError) throw insertError;
+
+  await sendEmail({
+    to: athlete.email,
+    subject: 'Your Sequence password reset code',
+    text: `Hi ${athlete.name},\n\nYour password reset code is ${code}. It expires in ${RESET_CODE_MINUTES} minutes.\n\nIf you didn't ask to reset your password, you can ignore this email.`,
+  });
+}
+
+/**
+ * Set a new password with a code from requestPasswordReset. Returns the athlete, or null when the
+ * code is wrong, expired or out of guesses. A code works once.
+ */
+export async function confirmPasswordReset(supabase: any, email: string, code: string, newPassword: string) {
+  const athlete = await findAthleteByEmail(supabase, email);
+  if (!athlete) return null;
+
+  // Each guess uses up an attempt before the code is checked. The update is conditioned on the
+  // count it read, so parallel guesses can't share an attempt; one that loses the race reads again.
+  let row: any;
+  for (;;) {
+    const { data, error } = await supabase
+      .from('password_reset_codes')
+      .select('*')
+      .eq('athlete_id', athlete.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || new Date(data.expires_at) <= new Date() || data.attempts >= MAX_RESET_ATTEMPTS) return null;
+
+    const { data: claimed, error: attemptError } = await supabase
+      .from('password_reset_codes')
+      .update({ attempts: data.attempts + 1 })
+      .eq('id', data.id)
+      .eq('attempts', data.attempts)
+      .select('id');
+
+    if (attemptError) throw attemptError;
+    if (claimed && claimed.length > 0) {
+      row = data;
+      break;
+    }
+  }
+
+  if (!verifyPassword(code.trim(), row.code_hash)) return null;
+
+  // Deleting the code claims it, so it can only be used once
+  const { data: used, error: deleteError } = await supabase
+    .from('password_reset_codes')
+    .delete()
+    .eq('id', row.id)
+    .select('id');
+
+  if (deleteError) throw deleteError;
+  if (!used || used.length === 0) return null;
+
+  await setAthletePassword(supabase, athlete.id, newPassword);
+
+  return { id: athlete.id, name: athlete.name, email: athlete.email };
+}
@@ -0,0 +1,40 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { signSessionToken } from '../_helpers/auth.js';
+import { authenticateAthlete } from './_passwords.js';
+
+// POST /api/auth/athlete-login - Athlete login with email and the password they've set
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { email, password } = req.body || {};
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const result = await authenticateAthlete(supabase, email, password);
+    if (!('account' in result)) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    const user = {
+      ...result.account,
+      role: 'user' as const,
+    };
+    res.json({ user, token: signSessionToken(user, 'password') });
+  } catch (error: any) {
+    console.error('Error in athlete login API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
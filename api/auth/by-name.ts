@@ -1,64 +1,55 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { signSessionToken } from '../_helpers/auth.js';
+import { authenticateByName } from './_nameLogin.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', ['GET']);
+  const supabase = getSupabaseClient();
+  let playerName: string | undefined;
+  let pin: string | undefined;
+
+  if (req.method === 'GET') {
+    // GET /api/auth/by-name?player=Name - athletes without a PIN
+    const player = req.query.player;
+    if (typeof player === 'string' && player) {
+      // Decode the player name (handle + as spaces)
+      try {
+        playerName = decodeURIComponent(player.replace(/\+/g, '%20'));
+      } catch {
+        playerName = player;
+      }
+    }
+  } else if (req.method === 'POST') {
+    // POST /api/auth/by-name - { player, pin } for athletes with a PIN
+    const { player, pin: bodyPin } = req.body || {};
+    playerName = typeof player === 'string' ? player : undefined;
+    pin = typeof bodyPin === 'string' ? bodyPin : undefined;
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
     return res.status(405).json({ error: `Method ${req.method} not allowed` });
   }
 
-  const supabase = getSupabaseClient();
-  const playerName = req.query.player as string;
-
   if (!playerName) {
     return res.status(400).json({ error: 'Player name is required' });
   }
 
   try {
-    // Decode the player name (handle + as spaces)
-    const decodedName = decodeURIComponent(playerName.replace(/\+/g, '%20'));
-
-    // Get all athletes from Supabase
-    const { data: athletes, error: fetchError } = await supabase
-      .from('athletes')
-      .select('id, name, email');
-
-    if (fetchError) {
-      console.error('Error fetching athletes:', fetchError);
-      return res.status(500).json({ error: 'Failed to fetch athletes' });
-    }
-
-    if (!athletes || athletes.length === 0) {
-      return res.status(401).json({ error: 'Athlete not found' });
+    const result = await authenticateByName(supabase, playerName, pin);
+    if (!('athlete' in result)) {
+      return res.status(result.status).json({ error: result.error, pinRequired: result.pinRequired });
     }
 
-    // Find athlete by exact name match (case-insensitive)
-    const athlete = athletes.find(a => 
-      a.name.toLowerCase() === decodedName.toLowerCase()
-    );
-
-    if (!athlete) {
-      return res.status(401).json({ error: 'Athlete not found' });
-    }
-
-    res.json({
-      user: {
-        id: athlete.id,
-        name: athlete.name,
-        email: athlete.email,
-        role: 'user' as const,
-      },
-    });
+    const user = {
+      ...result.athlete,
+      role: 'user' as const,
+    };
+    res.json({ user, token: signSessionToken(user, 'name') });
   } catch (error: any) {
     console.error('Error in auth by-name API:', error);
     res.status(500).json({ error: error.message || 'Failed to process request' });
   }
 }
-
-
-
-
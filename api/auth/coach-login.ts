@@ -0,0 +1,53 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { signSessionToken } from '../_helpers/auth.js';
+import { checkLoginPassword } from './_loginLockout.js';
+
+// POST /api/auth/coach-login - Coach login with email and password
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { email, password } = req.body || {};
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const { data: coach, error } = await supabase
+      .from('coaches')
+      .select('id, name, email, password_hash, failed_login_attempts, login_locked_until')
+      .eq('email', email.trim().toLowerCase())
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!coach) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+    const loginError = await checkLoginPassword(supabase, 'coaches', coach, password);
+    if (loginError) {
+      return res.status(loginError.status).json({ error: loginError.error });
+    }
+
+    const user = {
+      id: coach.id,
+      name: coach.name,
+      email: coach.email,
+      role: 'admin' as const,
+    };
+    res.json({ user, token: signSessionToken(user, 'password') });
+  } catch (error: any) {
+    console.error('Error in coach login API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
@@ -0,0 +1,87 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import {
+  hashPassword,
+  requireCoach,
+  signSessionToken,
+  validatePassword,
+  validateSetupSecret,
+} from '../_helpers/auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { count, error: countError } = await supabase
+      .from('coaches')
+      .select('id', { count: 'exact', head: true });
+
+    if (countError) throw countError;
+    const firstRun = (count || 0) === 0;
+
+    // GET /api/auth/coaches - Whether the first coach account still needs to be created
+    if (req.method === 'GET') {
+      return res.json({ needsSetup: firstRun });
+    }
+
+    // POST /api/auth/coaches - Create a coach account. While there are no coaches this is first-run
+    // setup, which takes the COACH_SETUP_SECRET code (setupSecret) and signs the new coach in;
+    // after that a signed-in coach has to add others.
+    if (req.method === 'POST') {
+      const { name, email, password, setupSecret } = req.body || {};
+      if (firstRun) {
+        const setupError = validateSetupSecret(setupSecret);
+        if (setupError) {
+          return res.status(403).json({ error: setupError });
+        }
+      } else if (!(await requireCoach(req, res))) {
+        return;
+      }
+
+      if (typeof name !== 'string' || typeof email !== 'string' || !name.trim() || !email.trim() || !password) {
+        return res.status(400).json({ error: 'Name, email and password are required' });
+      }
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
+
+      const { data: coach, error } = await supabase
+        .from('coaches')
+        .insert({
+          id: randomUUID(),
+          name: name.trim(),
+          email: email.trim().toLowerCase(),
+          password_hash: hashPassword(password),
+        })
+        .select('id, name, email')
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return res.status(409).json({ error: 'A coach with this email already exists' });
+        }
+        throw error;
+      }
+
+      const user = {
+        id: coach.id,
+        name: coach.name,
+        email: coach.email,
+        role: 'admin' as const,
+      };
+      return res.status(201).json(firstRun ? { user, token: signSessionToken(user, 'password') } : { user });
+    }
+
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  } catch (error: any) {
+    console.error('Error in coaches API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
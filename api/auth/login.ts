@@ -1,26 +1,34 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { DEVICE_SESSION_TTL_SECONDS, signSessionToken } from '../_helpers/auth.js';
+import { findLoginToken } from '../athletes/_loginTokens.js';
 
+// Every use of a login link is logged; a single-use (magic) link is used up here and traded for a
+// longer device session instead
 async function validateTokenAndGetUser(token: string, supabase: any) {
+  const link = await findLoginToken(supabase, token, { redeem: true });
+  if (!link) {
+    return null;
+  }
+
   const { data: athlete, error } = await supabase
     .from('athletes')
     .select('id, name, email')
-    .eq('login_token', token)
+    .eq('id', link.athleteId)
     .single();
 
   if (error || !athlete) {
     return null;
   }
 
-  return {
-    user: {
-      id: athlete.id,
-      name: athlete.name,
-      email: athlete.email,
-      role: 'user' as const,
-    },
+  const user = {
+    id: athlete.id,
+    name: athlete.name,
+    email: athlete.email,
+    role: 'user' as const,
   };
+  return { user, token: signSessionToken(user, 'link', link.singleUse ? DEVICE_SESSION_TTL_SECONDS : undefined) };
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -36,7 +44,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // POST /api/auth/login - token in request body
       token = req.body?.token;
     } else if (req.method === 'GET') {
-      // GET /api/auth/login?token=xxx - token in query params (for validation)
+      // GET /api/auth/login?token=xxx - token in query params (what login links use)
       token = req.query.token as string;
     } else {
       res.setHeader('Allow', ['GET', 'POST']);
@@ -50,7 +58,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const result = await validateTokenAndGetUser(token, supabase);
 
     if (!result) {
-      return res.status(401).json({ error: 'Invalid token' });
+      return res.status(401).json({ error: 'Invalid or expired login link' });
     }
 
     res.json(result);
@@ -0,0 +1,53 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireAuth } from '../_helpers/auth.js';
+import { canSetFirstPassword } from './_passwords.js';
+
+// GET /api/auth/me - The user signed in with the request's session token
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const isAthlete = session.role === 'user';
+    const { data: account, error } = await supabase
+      .from(isAthlete ? 'athletes' : 'coaches')
+      .select('id, name, email, password_hash')
+      .eq('id', session.sub)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!account) {
+      return res.status(401).json({ error: 'Account no longer exists' });
+    }
+
+    res.json({
+      user: {
+        id: account.id,
+        name: account.name,
+        email: account.email,
+        role: session.role,
+      },
+      // Whether the athlete can also sign in with email and password, and whether this session may set one
+      ...(isAthlete && {
+        hasPassword: !!account.password_hash,
+        canSetPassword: !!account.password_hash || canSetFirstPassword(session),
+      }),
+    });
+  } catch (error: any) {
+    console.error('Error in auth me API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
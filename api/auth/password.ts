@@ -0,0 +1,54 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireAuth, signSessionToken, validatePassword } from '../_helpers/auth.js';
+import { canSetFirstPassword, checkCurrentPassword, setAthletePassword } from './_passwords.js';
+
+// PUT /api/auth/password - Signed-in athlete sets their password (currentPassword is needed to change one).
+// Their other sessions end, and this one is replaced by a password session.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', ['PUT']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  if (session.role !== 'user') {
+    return res.status(403).json({ error: 'Only athletes can set a password here' });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { currentPassword, newPassword } = req.body || {};
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const current = await checkCurrentPassword(supabase, session.sub, currentPassword);
+    if (current.hasPassword && !current.matches) {
+      return res.status(403).json({ error: 'Current password is incorrect' });
+    }
+    if (!current.hasPassword && !canSetFirstPassword(session)) {
+      return res.status(403).json({
+        error: 'Open your login link to set a password, or reset it with a code sent to your email',
+      });
+    }
+
+    const athlete = await setAthletePassword(supabase, session.sub, newPassword);
+    const user = {
+      ...athlete,
+      role: 'user' as const,
+    };
+    res.json({ user, token: signSessionToken(user, 'password') });
+  } catch (error: any) {
+    console.error('Error in auth password API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
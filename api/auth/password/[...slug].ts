@@ -0,0 +1,66 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../../_helpers/cors.js';
+import { signSessionToken, validatePassword } from '../../_helpers/auth.js';
+import { isEmailAvailable } from '../../_helpers/email.js';
+import { confirmPasswordReset, requestPasswordReset } from '../_passwords.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  // Parse slug array - ['reset'] or ['reset', 'confirm']
+  const { slug } = req.query;
+  const slugArray = Array.isArray(slug) ? slug : slug ? [slug] : [];
+
+  if (slugArray[0] !== 'reset' || slugArray.length > 2 || (slugArray[1] && slugArray[1] !== 'confirm')) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    // Handle POST /api/auth/password/reset (email a reset code; same response whether or not the email has an account)
+    if (slugArray.length === 1) {
+      const { email } = req.body || {};
+      if (typeof email !== 'string' || !email.trim()) {
+        return res.status(400).json({ error: 'Email is required' });
+      }
+      if (!isEmailAvailable()) {
+        return res.status(503).json({ error: 'Password reset by email is not set up on this server' });
+      }
+
+      await requestPasswordReset(supabase, email);
+      return res.status(202).json({ message: 'If an account uses that email, a reset code is on its way' });
+    }
+
+    // Handle POST /api/auth/password/reset/confirm (set a new password with an emailed code, and sign in)
+    const { email, code, newPassword } = req.body || {};
+    if (typeof email !== 'string' || typeof code !== 'string' || !email.trim() || !code.trim()) {
+      return res.status(400).json({ error: 'Email and code are required' });
+    }
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const athlete = await confirmPasswordReset(supabase, email, code, newPassword);
+    if (!athlete) {
+      return res.status(400).json({ error: 'Invalid or expired code' });
+    }
+
+    const user = {
+      ...athlete,
+      role: 'user' as const,
+    };
+    res.json({ user, token: signSessionToken(user, 'password') });
+  } catch (error: any) {
+    console.error('Error in auth password reset API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
@@ -1,6 +1,7 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireCoach } from '../_helpers/auth.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   console.log(`[Exercises ID] ${req.method} ${req.url}`, { query: req.query, method: req.method });
@@ -8,6 +9,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can edit or remove library exercises
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
   const { id } = req.query;
 
@@ -62,6 +66,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         throw error;
       }
 
+      // Workouts reference the library by ID, so renames show up everywhere
+      if (name !== undefined) {
+        const { error: renameError } = await supabase
+          .from('block_exercises')
+          .update({ exercise_name: data.name })
+          .eq('exercise_id', id);
+
+        if (renameError) throw renameError;
+      }
+
       res.json({
         id: data.id,
         name: data.name,
@@ -83,29 +97,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         throw error;
       }
 
-      // Re-index remaining exercises to be sequential
-      const { data: allExercises } = await supabase
-        .from('exercises')
-        .select('*')
-        .order('id', { ascending: true });
-
-      if (allExercises && allExercises.length > 0) {
-        const updates = allExercises.map((ex, index) => ({
-          id: ex.id,
-          newId: (index + 1).toString(),
-        }));
-
-        // Update IDs sequentially
-        for (const update of updates) {
-          if (update.id !== update.newId) {
-            await supabase
-              .from('exercises')
-              .update({ id: update.newId })
-              .eq('id', update.id);
-          }
-        }
-      }
-
+      // IDs stay as they are: workouts, maxes and PRs link to the library by ID, and the foreign
+      // keys unlink this one's rows (they keep the name)
       res.status(204).end();
     } else {
       res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
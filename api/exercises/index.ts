@@ -1,11 +1,15 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireCoach } from '../_helpers/auth.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can add to the exercise library
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
 
   try {
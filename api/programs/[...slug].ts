@@ -0,0 +1,175 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireCoach } from '../_helpers/auth.js';
+import {
+  buildAssignmentWorkouts,
+  getProgram,
+  mapProgramRow,
+  saveProgram,
+  validateAssignment,
+  validateProgram,
+} from './_helpers.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  // Only coaches can change programs or assign them
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
+  const supabase = getSupabaseClient();
+  const { slug } = req.query;
+
+  // Parse slug array - can be empty [], ['programId'], ['programId', 'assign']
+  const slugArray = Array.isArray(slug) ? slug : slug ? [slug] : [];
+  const programId = slugArray[0] || null;
+  const isAssignRoute = slugArray[1] === 'assign';
+
+  try {
+    // Handle GET /api/programs (all programs)
+    if (slugArray.length === 0 && req.method === 'GET') {
+      const { data: programs, error } = await supabase
+        .from('programs')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const programIds = (programs || []).map((p: any) => p.id);
+      const { data: days, error: daysError } = await supabase
+        .from('program_days')
+        .select('*')
+        .in('program_id', programIds.length > 0 ? programIds : [''])
+        .order('week', { ascending: true })
+        .order('day', { ascending: true });
+
+      if (daysError) throw daysError;
+
+      return res.json(
+        (programs || []).map((program: any) =>
+          mapProgramRow(program, (days || []).filter((d: any) => d.program_id === program.id))
+        )
+      );
+    }
+
+    // Handle POST /api/programs (create program)
+    if (slugArray.length === 0 && req.method === 'POST') {
+      const validationError = validateProgram(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const created = await saveProgram(supabase, Date.now().toString(), req.body, true);
+      return res.status(201).json(created);
+    }
+
+    if (slugArray.length === 0) {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    // Handle routes with program ID
+    if (!programId || typeof programId !== 'string') {
+      return res.status(400).json({ error: 'Program ID is required' });
+    }
+
+    // Handle POST /api/programs/:id/assign - materialize dated workouts for an athlete or team
+    if (isAssignRoute) {
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', ['POST']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const program = await getProgram(supabase, programId);
+      if (!program) {
+        return res.status(404).json({ error: 'Program not found' });
+      }
+
+      const validationError = validateAssignment(program, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { athleteId, teamId, startDate, weekdays } = req.body;
+      const assignmentId = Date.now().toString();
+      const workouts = await buildAssignmentWorkouts(
+        supabase,
+        program,
+        { athleteId, teamId, startDate, weekdays },
+        assignmentId
+      );
+      if (!workouts) {
+        return res.status(400).json({ error: 'Training days must fall within a single week, in day order' });
+      }
+
+      const { error } = await supabase.rpc('assign_program', {
+        p_assignment: {
+          id: assignmentId,
+          programId,
+          athleteId: athleteId || null,
+          teamId: teamId || null,
+          startDate,
+          weekdays,
+        },
+        p_workouts: workouts,
+      });
+
+      if (error) {
+        if (error.code === '23503') {
+          return res.status(404).json({ error: athleteId ? 'Athlete not found' : 'Team not found' });
+        }
+        throw error;
+      }
+
+      return res.status(201).json({
+        id: assignmentId,
+        programId,
+        athleteId: athleteId || undefined,
+        teamId: teamId || undefined,
+        startDate,
+        weekdays,
+        workoutIds: workouts.map((w) => w.id),
+      });
+    }
+
+    // Handle /api/programs/:id
+    if (req.method === 'GET') {
+      const program = await getProgram(supabase, programId);
+      if (!program) {
+        return res.status(404).json({ error: 'Program not found' });
+      }
+      return res.json(program);
+    } else if (req.method === 'PUT') {
+      const validationError = validateProgram(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const updated = await saveProgram(supabase, programId, req.body);
+      if (!updated) {
+        return res.status(404).json({ error: 'Program not found' });
+      }
+      return res.json(updated);
+    } else if (req.method === 'DELETE') {
+      // Workouts already materialized from the program are kept
+      const { error } = await supabase
+        .from('programs')
+        .delete()
+        .eq('id', programId);
+
+      if (error) throw error;
+
+      return res.status(204).end();
+    } else {
+      res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error: any) {
+    console.error('Error in programs API:', error);
+    if (error?.code === '23503') {
+      return res.status(400).json({ error: 'A program day references a workout that does not exist' });
+    }
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
@@ -0,0 +1,166 @@
+import { getWorkoutWithBlocks } from '../workouts/_helpers.js';
+import { applyProgressionToBlocks, validateDeload } from './_progression.js';
+
+export const MAX_PROGRAM_WEEKS = 52;
+
+// Map a programs row and its program_days rows to API shape
+export function mapProgramRow(program: any, days: any[]) {
+  return {
+    id: program.id,
+    name: program.name,
+    description: program.description || undefined,
+    weeks: program.weeks,
+    daysPerWeek: program.days_per_week,
+    deload: program.deload || undefined,
+    days: days
+      .map((d: any) => ({ week: d.week, day: d.day, workoutId: d.workout_id }))
+      .filter((d) => d.workoutId),
+    createdAt: program.created_at,
+    updatedAt: program.updated_at,
+  };
+}
+
+// Helper function to get a program with its day grid
+export async function getProgram(supabase: any, programId: string) {
+  const { data: program, error } = await supabase
+    .from('programs')
+    .select('*')
+    .eq('id', programId)
+    .single();
+
+  if (error || !program) return null;
+
+  const { data: days, error: daysError } = await supabase
+    .from('program_days')
+    .select('*')
+    .eq('program_id', programId)
+    .order('week', { ascending: true })
+    .order('day', { ascending: true });
+
+  if (daysError) throw daysError;
+
+  return mapProgramRow(program, days || []);
+}
+
+// Returns an error message for an invalid program body, or null
+export function validateProgram(program: any): string | null {
+  if (!program.name) return 'Program name is required';
+  if (!Number.isInteger(program.weeks) || program.weeks < 1 || program.weeks > MAX_PROGRAM_WEEKS) {
+    return `Weeks must be between 1 and ${MAX_PROGRAM_WEEKS}`;
+  }
+  if (!Number.isInteger(program.daysPerWeek) || program.daysPerWeek < 1 || program.daysPerWeek > 7) {
+    return 'Days per week must be between 1 and 7';
+  }
+  return validateDeload(program.deload);
+}
+
+// Helper function to create (create = true) or update a program and its day grid in one
+// transaction (see save_program). Returns null when updating a program that doesn't exist.
+export async function saveProgram(supabase: any, programId: string, program: any, create = false) {
+  const { error } = await supabase.rpc('save_program', {
+    p_program_id: programId,
+    p_program: {
+      name: program.name,
+      description: program.description || null,
+      weeks: program.weeks,
+      daysPerWeek: program.daysPerWeek,
+      deload: program.deload || null,
+      days: program.days || [],
+    },
+    p_create: create,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return null;
+    throw error;
+  }
+
+  return getProgram(supabase, programId);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Dates for each training day of each week (dates[week - 1][day - 1]). Week 1's first day is the
+// first of its weekday on or after startDate, each following day is the next of its weekday, and
+// later weeks repeat week 1 shifted by 7 days. Returns null if the weekdays don't fit in a week.
+export function getProgramDates(startDate: string, weeks: number, weekdays: number[]): string[][] | null {
+  const firstWeek: Date[] = [];
+  let cursor = new Date(`${startDate}T00:00:00Z`);
+  for (const weekday of weekdays) {
+    const date = new Date(cursor);
+    date.setUTCDate(date.getUTCDate() + ((weekday - cursor.getUTCDay() + 7) % 7));
+    firstWeek.push(date);
+    cursor = new Date(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  const span = firstWeek.length > 0
+    ? (firstWeek[firstWeek.length - 1].getTime() - firstWeek[0].getTime()) / 86400000
+    : 0;
+  if (span >= 7) return null;
+
+  return Array.from({ length: weeks }, (_, weekIndex) =>
+    firstWeek.map((date) => {
+      const shifted = new Date(date);
+      shifted.setUTCDate(shifted.getUTCDate() + weekIndex * 7);
+      return formatDate(shifted);
+    })
+  );
+}
+
+// Returns an error message for an invalid assignment of this program, or null
+export function validateAssignment(program: { daysPerWeek: number }, assignment: any): string | null {
+  const { athleteId, teamId, startDate, weekdays } = assignment;
+  if (!athleteId === !teamId) return 'Assign the program to either an athlete or a team';
+  if (!startDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return 'Start date is required (YYYY-MM-DD)';
+  if (
+    !Array.isArray(weekdays) ||
+    weekdays.length !== program.daysPerWeek ||
+    weekdays.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6) ||
+    new Set(weekdays).size !== weekdays.length
+  ) {
+    return `Pick a different weekday for each of the ${program.daysPerWeek} training days`;
+  }
+  return null;
+}
+
+// Build the dated workouts for an assignment from the program's template workouts, applying
+// each exercise's progression rule and the program's deload for the day's week. Days without a template (or whose template no longer exists) are skipped.
+export async function buildAssignmentWorkouts(
+  supabase: any,
+  program: { weeks: number; deload?: any; days: Array<{ week: number; day: number; workoutId: string }> },
+  assignment: { athleteId?: string; teamId?: string; startDate: string; weekdays: number[] },
+  idPrefix: string
+) {
+  const dates = getProgramDates(assignment.startDate, program.weeks, assignment.weekdays);
+  if (!dates) return null;
+
+  const templateIds = [...new Set(program.days.map((d) => d.workoutId))];
+  const templates = new Map<string, any>();
+  await Promise.all(
+    templateIds.map(async (workoutId) => {
+      const template = await getWorkoutWithBlocks(supabase, workoutId);
+      if (template) templates.set(workoutId, template);
+    })
+  );
+
+  const workouts: any[] = [];
+  program.days.forEach((programDay) => {
+    const template = templates.get(programDay.workoutId);
+    const date = dates[programDay.week - 1]?.[programDay.day - 1];
+    if (!template || !date) return;
+
+    workouts.push({
+      id: `${idPrefix}_${workouts.length + 1}`,
+      name: template.name,
+      date,
+      athleteId: assignment.athleteId || null,
+      teamId: assignment.teamId || null,
+      blocks: applyProgressionToBlocks(template.blocks, programDay.week, program.deload),
+    });
+  });
+
+  return workouts.sort((a, b) => a.date.localeCompare(b.date));
+}
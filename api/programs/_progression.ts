@@ -0,0 +1,166 @@
+// Week-over-week progression for program assignments. Each exercise's rule lives in its
+// prescription ("progression" key); the program's deload reduces every Nth week.
+// Mirrors src/utils/progression.ts, which previews the same weeks in the assign dialog.
+
+export function isDeloadWeek(week: number, deload?: any): boolean {
+  return !!deload && deload.every > 1 && week % deload.every === 0;
+}
+
+// Deload weeks don't advance progression: they repeat the previous week's step, reduced
+export function getProgressionStep(week: number, deload?: any): number {
+  if (!deload || deload.every <= 1) return week - 1;
+  return week - 1 - Math.floor(week / deload.every);
+}
+
+function addToLoads(prescription: any, delta: number) {
+  if (!prescription.loadType || delta === 0) return prescription;
+  const add = (value: number) => Math.round((value + delta) * 100) / 100;
+  return {
+    ...prescription,
+    load: prescription.load !== undefined ? add(prescription.load) : undefined,
+    setLoads: prescription.setLoads?.map(add),
+  };
+}
+
+// Scaled weights snap to plate jumps (5 lb / 2.5 kg), percentages to half a point
+function scaleLoads(prescription: any, factor: number) {
+  if (!prescription.loadType) return prescription;
+  const step = prescription.loadType === 'percent1RM' ? 0.5 : prescription.unit === 'kg' ? 2.5 : 5;
+  const scale = (value: number) => Math.round((value * factor) / step) * step;
+  return {
+    ...prescription,
+    load: prescription.load !== undefined ? scale(prescription.load) : undefined,
+    setLoads: prescription.setLoads?.map(scale),
+  };
+}
+
+function topReps(prescription: any): number | undefined {
+  if (prescription.kind === 'reps') return prescription.reps;
+  if (prescription.kind === 'range') return prescription.repsMax;
+  if (prescription.kind === 'scheme' && prescription.scheme?.length > 0) return Math.max(...prescription.scheme);
+  return undefined;
+}
+
+function addReps(prescription: any, delta: number) {
+  if (delta === 0) return prescription;
+  switch (prescription.kind) {
+    case 'reps':
+      return { ...prescription, reps: (prescription.reps || 0) + delta };
+    case 'range':
+      return {
+        ...prescription,
+        repsMin: prescription.repsMin !== undefined ? prescription.repsMin + delta : undefined,
+        repsMax: prescription.repsMax !== undefined ? prescription.repsMax + delta : undefined,
+      };
+    case 'scheme':
+      return { ...prescription, scheme: prescription.scheme?.map((reps: number) => reps + delta) };
+    default:
+      return prescription;
+  }
+}
+
+function applyProgressionRule(prescription: any, rule: any, step: number) {
+  if (step <= 0) return prescription;
+
+  switch (rule.type) {
+    case 'load':
+      return addToLoads(prescription, rule.increment * step);
+    case 'reps': {
+      const startReps = topReps(prescription);
+      if (startReps === undefined) return addToLoads(prescription, rule.increment * step);
+      const cycleLength = Math.max(1, rule.ceiling - startReps + 1);
+      const cycles = Math.floor(step / cycleLength);
+      return addToLoads(addReps(prescription, step % cycleLength), rule.increment * cycles);
+    }
+    case 'wave': {
+      if (!rule.percents?.length) return prescription;
+      const percent = rule.percents[step % rule.percents.length];
+      const waveIncrease = (rule.increment || 0) * Math.floor(step / rule.percents.length);
+      if (prescription.loadType === 'percent1RM') {
+        const top = prescription.setLoads?.length > 0 ? Math.max(...prescription.setLoads) : prescription.load;
+        return top === undefined ? prescription : addToLoads(prescription, percent + waveIncrease - top);
+      }
+      return addToLoads(scaleLoads(prescription, percent / 100), waveIncrease);
+    }
+    default:
+      return prescription;
+  }
+}
+
+function formatReps(prescription: any): string {
+  switch (prescription.kind) {
+    case 'reps':
+      return `${prescription.reps ?? ''}`;
+    case 'range':
+      return `${prescription.repsMin ?? ''}-${prescription.repsMax ?? ''}`;
+    case 'scheme':
+      return (prescription.scheme || []).join('/');
+    case 'amrap':
+      return 'AMRAP';
+    case 'time': {
+      const seconds = prescription.seconds || 0;
+      if (seconds < 60) return `${seconds}s`;
+      const rest = seconds % 60;
+      return rest === 0
+        ? `${Math.floor(seconds / 60)} min`
+        : `${Math.floor(seconds / 60)}:${rest.toString().padStart(2, '0')}`;
+    }
+    case 'distance':
+      return `${prescription.distance ?? ''}${prescription.distanceUnit || 'm'}`;
+    default:
+      return '';
+  }
+}
+
+function formatLoad(prescription: any): string {
+  const values = prescription.setLoads?.length > 0
+    ? prescription.setLoads.join('/')
+    : prescription.load !== undefined ? `${prescription.load}` : '';
+  if (!values || !prescription.loadType) return '';
+  if (prescription.loadType === 'percent1RM') return `${values}% 1RM`;
+  return prescription.unit ? `${values} ${prescription.unit}` : values;
+}
+
+// An exercise's sets, reps/weight text and prescription for a (1-based) program week.
+// The rule itself is dropped: scheduled workouts hold concrete targets.
+export function applyProgression(exercise: any, week: number, deload?: any) {
+  const rule = exercise.prescription?.progression;
+  const deloading = isDeloadWeek(week, deload);
+  if (!exercise.prescription || (!rule && !deloading)) return exercise;
+
+  const { progression: _rule, ...base } = exercise.prescription;
+  let prescription = rule ? applyProgressionRule(base, rule, getProgressionStep(week, deload)) : base;
+  let sets = exercise.sets;
+  if (deloading) {
+    prescription = scaleLoads(prescription, deload.loadPercent / 100);
+    sets = Math.max(1, Math.round((exercise.sets * deload.setsPercent) / 100));
+  }
+
+  return {
+    ...exercise,
+    sets,
+    reps: formatReps(prescription),
+    weight: formatLoad(prescription) || undefined,
+    prescription,
+  };
+}
+
+export function applyProgressionToBlocks(blocks: any[], week: number, deload?: any) {
+  return blocks.map((block: any) => ({
+    ...block,
+    exercises: (block.exercises || []).map((exercise: any) => applyProgression(exercise, week, deload)),
+  }));
+}
+
+// Returns an error message for an invalid deload body, or null (no deload is valid)
+export function validateDeload(deload: any): string | null {
+  if (deload === undefined || deload === null) return null;
+  if (!Number.isInteger(deload.every) || deload.every < 2) return 'Deload must repeat every 2 or more weeks';
+  if (typeof deload.loadPercent !== 'number' || deload.loadPercent <= 0 || deload.loadPercent > 100) {
+    return 'Deload load must be between 1 and 100%';
+  }
+  if (typeof deload.setsPercent !== 'number' || deload.setsPercent <= 0 || deload.setsPercent > 100) {
+    return 'Deload sets must be between 1 and 100%';
+  }
+  return null;
+}
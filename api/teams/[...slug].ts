@@ -1,6 +1,15 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
+import { requireCoach } from '../_helpers/auth.js';
+import {
+  getTeamWellness,
+  getTeamWellnessQuestions,
+  setTeamWellnessQuestions,
+  validateWellnessQuestions,
+} from './_wellness.js';
+import { getTeamLoads, isDateParam } from '../workouts/_load.js';
+import { getTeamCompliance } from '../workouts/_compliance.js';
 
 async function getWorkoutWithBlocks(supabase: any, workoutId: string) {
   const { data: workout, error: workoutError } = await supabase
@@ -32,12 +41,18 @@ async function getWorkoutWithBlocks(supabase: any, workoutId: string) {
       return {
         id: block.id,
         name: block.name,
+        groups: block.exercise_groups || undefined,
+        restSeconds: block.rest_seconds ?? undefined,
         exercises: (exercises || []).map((ex: any) => ({
           id: ex.id,
+          exerciseId: ex.exercise_id || undefined,
           exerciseName: ex.exercise_name,
           sets: ex.sets,
           reps: ex.reps,
           weight: ex.weight || undefined,
+          prescription: ex.prescription || undefined,
+          groupId: ex.group_id || undefined,
+          restSeconds: ex.rest_seconds ?? undefined,
         })),
       };
     })
@@ -57,10 +72,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can change teams, their rosters or their wellness questions (or read the team's
+  // wellness, load and compliance, below)
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
   const { slug } = req.query;
   
-  // Parse slug array - can be empty [], ['teamId'], ['teamId', 'athletes']
+  // Parse slug array - can be empty [], ['teamId'], ['teamId', 'athletes'], ['teamId', 'load'],
+  // ['teamId', 'compliance'], ['teamId', 'wellness'] or ['teamId', 'wellness', 'questions']
   const slugArray = Array.isArray(slug) ? slug : slug ? [slug] : [];
   const teamId = slugArray[0] || null;
   const isAthletesRoute = slugArray[1] === 'athletes';
@@ -103,6 +123,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             id: team.id,
             name: team.name,
             description: team.description,
+            nameLoginEnabled: team.name_login_enabled !== false,
             createdAt: team.created_at,
             athletes: (athletes || []).map((a: any) => ({
               id: a.id,
@@ -144,6 +165,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         id: data.id,
         name: data.name,
         description: data.description,
+        nameLoginEnabled: data.name_login_enabled !== false,
         createdAt: data.created_at,
         athletes: [],
         workouts: [],
@@ -155,6 +177,94 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Team ID is required' });
     }
 
+    // Handle GET /api/teams/:id/wellness?date=YYYY-MM-DD (each athlete's check-in for a day)
+    if (slugArray[1] === 'wellness' && slugArray.length === 2) {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      // Every athlete's entries: coaches only
+      if (!(await requireCoach(req, res))) return;
+
+      const questions = await getTeamWellnessQuestions(supabase, teamId);
+      if (!questions) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const { date } = req.query;
+      if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+        return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      }
+      const day = typeof date === 'string' ? date : new Date().toISOString().split('T')[0];
+
+      return res.json({ date: day, questions, athletes: await getTeamWellness(supabase, teamId, day) });
+    }
+
+    // Handle GET /api/teams/:id/load?from=YYYY-MM-DD&to=YYYY-MM-DD (each athlete's daily sRPE load and tonnage)
+    if (slugArray[1] === 'load') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      // Every athlete's entries: coaches only
+      if (!(await requireCoach(req, res))) return;
+
+      const { data: team } = await supabase.from('teams').select('id').eq('id', teamId).single();
+      if (!team) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const { from, to } = req.query;
+      if (!isDateParam(from) || !isDateParam(to)) {
+        return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+      }
+
+      return res.json({ from, to, athletes: await getTeamLoads(supabase, teamId, from, to) });
+    }
+
+    // Handle GET /api/teams/:id/compliance?from=YYYY-MM-DD&to=YYYY-MM-DD (each athlete's completed workouts, sets and missed sessions)
+    if (slugArray[1] === 'compliance') {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      // Every athlete's entries: coaches only
+      if (!(await requireCoach(req, res))) return;
+
+      const { data: team } = await supabase.from('teams').select('id').eq('id', teamId).single();
+      if (!team) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const { from, to } = req.query;
+      if (!isDateParam(from) || !isDateParam(to)) {
+        return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+      }
+
+      return res.json({ from, to, athletes: await getTeamCompliance(supabase, teamId, from, to) });
+    }
+
+    // Handle PUT /api/teams/:id/wellness/questions (which questions the team's athletes are asked)
+    if (slugArray[1] === 'wellness' && slugArray[2] === 'questions') {
+      if (req.method !== 'PUT') {
+        res.setHeader('Allow', ['PUT']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      if (!(await getTeamWellnessQuestions(supabase, teamId))) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const { questions } = req.body;
+      const validationError = validateWellnessQuestions(questions);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      await setTeamWellnessQuestions(supabase, teamId, questions);
+      return res.json(await getTeamWellnessQuestions(supabase, teamId));
+    }
+
     // Handle /api/teams/:id/athletes
     if (isAthletesRoute) {
       if (req.method === 'POST') {
@@ -265,6 +375,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         id: team.id,
         name: team.name,
         description: team.description,
+        nameLoginEnabled: team.name_login_enabled !== false,
         createdAt: team.created_at,
         athletes: (athletes || []).map((a: any) => ({
           id: a.id,
@@ -275,11 +386,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         workouts: workouts.filter(Boolean),
       });
     } else if (req.method === 'PUT') {
-      const { name, description } = req.body;
+      const { name, description, nameLoginEnabled } = req.body;
+
+      if (nameLoginEnabled !== undefined && typeof nameLoginEnabled !== 'boolean') {
+        return res.status(400).json({ error: 'nameLoginEnabled must be true or false' });
+      }
 
       const updates: any = {};
       if (name !== undefined) updates.name = name;
       if (description !== undefined) updates.description = description;
+      // Whether the team's athletes can sign in with name links
+      if (nameLoginEnabled !== undefined) updates.name_login_enabled = nameLoginEnabled;
 
       if (Object.keys(updates).length === 0) {
         const { data: team } = await supabase
@@ -296,6 +413,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           id: team.id,
           name: team.name,
           description: team.description,
+          nameLoginEnabled: team.name_login_enabled !== false,
           createdAt: team.created_at,
           athletes: [],
           workouts: [],
@@ -342,6 +460,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         id: data.id,
         name: data.name,
         description: data.description,
+        nameLoginEnabled: data.name_login_enabled !== false,
         createdAt: data.created_at,
         athletes: (athletes || []).map((a: any) => ({
           id: a.id,
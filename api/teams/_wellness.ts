@@ -0,0 +1,201 @@
+// Daily wellness check-ins and per-team question config. Mirrors server/src/services/wellnessService.ts.
+
+export const WELLNESS_QUESTIONS = ['sleepHours', 'sleepQuality', 'soreness', 'stress', 'mood', 'energy', 'painLocation'];
+
+// 1-5 answers. Soreness and stress are worse when higher; the others are better when higher.
+const SCALE_QUESTIONS = [
+  { key: 'sleepQuality', higherIsBetter: true },
+  { key: 'soreness', higherIsBetter: false },
+  { key: 'stress', higherIsBetter: false },
+  { key: 'mood', higherIsBetter: true },
+  { key: 'energy', higherIsBetter: true },
+];
+
+// Readiness below this (0-100) is flagged to coaches
+const LOW_READINESS_THRESHOLD = 60;
+
+// Returns an error message for an invalid question list, or null
+export function validateWellnessQuestions(questions: any): string | null {
+  if (!Array.isArray(questions) || questions.length === 0) return 'At least one question is required';
+  if (questions.some((q) => !WELLNESS_QUESTIONS.includes(q))) {
+    return `Questions must be from: ${WELLNESS_QUESTIONS.join(', ')}`;
+  }
+  return null;
+}
+
+// Returns an error message for an invalid check-in body, or null
+export function validateWellnessCheckin(body: any): string | null {
+  if (!body.date || !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) return 'Date is required (YYYY-MM-DD)';
+  if (body.sleepHours !== undefined && body.sleepHours !== null) {
+    if (typeof body.sleepHours !== 'number' || body.sleepHours < 0 || body.sleepHours > 24) {
+      return 'Sleep hours must be between 0 and 24';
+    }
+  }
+  for (const { key } of SCALE_QUESTIONS) {
+    const value = body[key];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1 || value > 5)) {
+      return `${key} must be a whole number between 1 and 5`;
+    }
+  }
+  if (body.painLocation !== undefined && body.painLocation !== null) {
+    if (typeof body.painLocation !== 'string' || body.painLocation.length > 200) {
+      return 'Pain location must be text of at most 200 characters';
+    }
+  }
+  return null;
+}
+
+// Readiness score 0-100: the mean of the answered 1-5 questions (oriented so higher is better) and
+// sleep hours (4h or less = 0, 8h or more = 1). Undefined when nothing scorable was answered.
+function computeReadiness(checkin: any): number | undefined {
+  const scores: number[] = [];
+  if (typeof checkin.sleepHours === 'number') {
+    scores.push(Math.min(Math.max((checkin.sleepHours - 4) / 4, 0), 1));
+  }
+  SCALE_QUESTIONS.forEach(({ key, higherIsBetter }) => {
+    const value = checkin[key];
+    if (typeof value !== 'number') return;
+    scores.push(higherIsBetter ? (value - 1) / 4 : (5 - value) / 4);
+  });
+  if (scores.length === 0) return undefined;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100);
+}
+
+// Map a wellness_checkins row to API shape
+function mapCheckinRow(row: any) {
+  const readiness = row.readiness ?? undefined;
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    date: row.date,
+    sleepHours: row.sleep_hours !== null && row.sleep_hours !== undefined ? Number(row.sleep_hours) : undefined,
+    sleepQuality: row.sleep_quality ?? undefined,
+    soreness: row.soreness ?? undefined,
+    stress: row.stress ?? undefined,
+    mood: row.mood ?? undefined,
+    energy: row.energy ?? undefined,
+    painLocation: row.pain_location || undefined,
+    readiness,
+    // Reported pain is flagged regardless of the score
+    lowReadiness: (readiness !== undefined && readiness < LOW_READINESS_THRESHOLD) || !!row.pain_location,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseQuestions(stored: any): string[] {
+  return stored && !validateWellnessQuestions(stored) ? stored : [...WELLNESS_QUESTIONS];
+}
+
+// Helper function to get the questions a team asks (every question until the coach configures
+// the team), or null if the team doesn't exist
+export async function getTeamWellnessQuestions(supabase: any, teamId: string): Promise<string[] | null> {
+  const { data: team, error } = await supabase
+    .from('teams')
+    .select('wellness_questions')
+    .eq('id', teamId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+  return parseQuestions(team.wellness_questions);
+}
+
+export async function setTeamWellnessQuestions(supabase: any, teamId: string, questions: string[]) {
+  const { error } = await supabase.from('teams').update({ wellness_questions: questions }).eq('id', teamId);
+  if (error) throw error;
+}
+
+// Helper function to get the questions asked of an athlete: everything their teams ask, in the
+// standard order. Athletes without a team get every question.
+export async function getAthleteWellnessQuestions(supabase: any, athleteId: string): Promise<string[]> {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('team_id')
+    .eq('athlete_id', athleteId);
+  if (error) throw error;
+  if (!memberships || memberships.length === 0) return [...WELLNESS_QUESTIONS];
+
+  const { data: teams, error: teamsError } = await supabase
+    .from('teams')
+    .select('wellness_questions')
+    .in('id', memberships.map((m: any) => m.team_id));
+  if (teamsError) throw teamsError;
+
+  const asked = new Set<string>();
+  (teams || []).forEach((team: any) => parseQuestions(team.wellness_questions).forEach((q) => asked.add(q)));
+  return WELLNESS_QUESTIONS.filter((q) => asked.has(q));
+}
+
+// Helper function to get an athlete's check-ins, newest first. from/to are inclusive dates.
+export async function getAthleteCheckins(supabase: any, athleteId: string, filters: { from?: string; to?: string } = {}) {
+  let query = supabase
+    .from('wellness_checkins')
+    .select('*')
+    .eq('athlete_id', athleteId);
+  if (filters.from) query = query.gte('date', filters.from);
+  if (filters.to) query = query.lte('date', filters.to);
+
+  const { data, error } = await query.order('date', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(mapCheckinRow);
+}
+
+// Helper function to save the athlete's check-in for a day; filling it in again the same day
+// replaces the answers
+export async function saveCheckin(supabase: any, athleteId: string, input: any) {
+  const { data, error } = await supabase
+    .from('wellness_checkins')
+    .upsert({
+      id: `${athleteId}_${input.date}`,
+      athlete_id: athleteId,
+      date: input.date,
+      sleep_hours: input.sleepHours ?? null,
+      sleep_quality: input.sleepQuality ?? null,
+      soreness: input.soreness ?? null,
+      stress: input.stress ?? null,
+      mood: input.mood ?? null,
+      energy: input.energy ?? null,
+      pain_location: input.painLocation?.trim() || null,
+      readiness: computeReadiness(input) ?? null,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'athlete_id,date'
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapCheckinRow(data);
+}
+
+// Helper function to get one row per team athlete for a day, with their check-in if they've
+// filled it in
+export async function getTeamWellness(supabase: any, teamId: string, date: string) {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('athlete_id')
+    .eq('team_id', teamId);
+  if (error) throw error;
+
+  const athleteIds = (memberships || []).map((m: any) => m.athlete_id);
+  if (athleteIds.length === 0) return [];
+
+  const [{ data: athletes, error: athletesError }, { data: checkins, error: checkinsError }] = await Promise.all([
+    supabase.from('athletes').select('id, name').in('id', athleteIds),
+    supabase.from('wellness_checkins').select('*').in('athlete_id', athleteIds).eq('date', date),
+  ]);
+  if (athletesError) throw athletesError;
+  if (checkinsError) throw checkinsError;
+
+  const byAthlete = new Map((checkins || []).map((row: any) => [row.athlete_id, mapCheckinRow(row)]));
+  return (athletes || [])
+    .sort((a: any, b: any) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+    .map((athlete: any) => ({
+      athleteId: athlete.id,
+      athleteName: athlete.name,
+      checkin: byAthlete.get(athlete.id),
+    }));
+}
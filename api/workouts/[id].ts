@@ -1,7 +1,8 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
-import { getWorkoutWithBlocks } from './_helpers.js';
+import { requireCoach } from '../_helpers/auth.js';
+import { getWorkoutWithBlocks, saveWorkout } from './_helpers.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   console.log(`[Workouts ID] ${req.method} ${req.url}`, { query: req.query, method: req.method });
@@ -9,6 +10,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can edit or remove workouts
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
   const { id: workoutId } = req.query;
 
@@ -29,81 +33,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     } else if (req.method === 'PUT') {
       // Update workout
       const workout = req.body;
-      const { name, date, athleteId, teamId, blocks } = workout;
-
-      // Check if workout exists
-      const { data: existingWorkout, error: checkError } = await supabase
-        .from('workouts')
-        .select('id')
-        .eq('id', workoutId)
-        .single();
-
-      if (checkError || !existingWorkout) {
-        return res.status(404).json({ error: 'Workout not found' });
-      }
-
-      // Update workout basic info
-      const { error: updateError } = await supabase
-        .from('workouts')
-        .update({
-          name,
-          date,
-          athlete_id: athleteId || null,
-          team_id: teamId || null,
-        })
-        .eq('id', workoutId);
-
-      if (updateError) throw updateError;
 
-      // Delete existing blocks (cascade will delete exercises)
-      const { error: deleteBlocksError } = await supabase
-        .from('blocks')
-        .delete()
-        .eq('workout_id', workoutId);
-
-      if (deleteBlocksError) throw deleteBlocksError;
-
-      // Insert new blocks and exercises
-      if (blocks && blocks.length > 0) {
-        for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
-          const block = blocks[blockIndex];
-          const blockId = `${workoutId}_block_${blockIndex}`;
-
-          const { error: blockError } = await supabase
-            .from('blocks')
-            .insert({
-              id: blockId,
-              workout_id: workoutId,
-              name: block.name,
-              order_index: blockIndex,
-            });
-
-          if (blockError) throw blockError;
-
-          if (block.exercises && block.exercises.length > 0) {
-            const exercisesToInsert = block.exercises.map((exercise: any, exerciseIndex: number) => ({
-              id: `${blockId}_ex_${exerciseIndex}`,
-              block_id: blockId,
-              exercise_name: exercise.exerciseName,
-              sets: exercise.sets,
-              reps: exercise.reps,
-              weight: exercise.weight || null,
-              order_index: exerciseIndex,
-            }));
-
-            const { error: exercisesError } = await supabase
-              .from('block_exercises')
-              .insert(exercisesToInsert);
-
-            if (exercisesError) throw exercisesError;
-          }
-        }
+      if (!workout.name || !workout.date) {
+        return res.status(400).json({ error: 'Name and date are required' });
       }
 
-      // Fetch and return updated workout
-      const updatedWorkout = await getWorkoutWithBlocks(supabase, workoutId);
+      // Update workout and reconcile blocks/exercises in one transaction,
+      // keeping IDs (and logged history) for existing ones
+      const updatedWorkout = await saveWorkout(supabase, workoutId, workout);
       if (!updatedWorkout) {
-        throw new Error('Failed to retrieve updated workout');
+        return res.status(404).json({ error: 'Workout not found' });
       }
 
       res.json(updatedWorkout);
@@ -0,0 +1,375 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSupabaseClient } from '../../_helpers/supabase.js';
+import { handleCors, setCorsHeaders } from '../../_helpers/cors.js';
+import { authorizeAthleteRead, authorizeAthleteWrite } from '../../_helpers/auth.js';
+import { getIdempotencyKey, getIdempotentResponse, saveIdempotentResponse } from '../../_helpers/idempotency.js';
+import { detectPersonalRecords } from '../_records.js';
+import { validateSessionFeedback, saveSessionFeedback } from '../_sessions.js';
+import { checkLoggingAccess, getCompletionStatuses } from '../_completion.js';
+
+// Returns an error message when a logged set's optional effort is out of range, or null.
+// RPE is 6-10 in half steps; RIR is a whole number of reps.
+function validateSetEffort(sets: any[]): string | null {
+  for (const set of sets) {
+    if (set.rpe !== undefined && set.rpe !== null) {
+      if (typeof set.rpe !== 'number' || set.rpe < 6 || set.rpe > 10 || !Number.isInteger(set.rpe * 2)) {
+        return 'RPE must be between 6 and 10 in half steps';
+      }
+    }
+    if (set.rir !== undefined && set.rir !== null) {
+      if (!Number.isInteger(set.rir) || set.rir < 0 || set.rir > 10) {
+        return 'RIR must be a whole number between 0 and 10';
+      }
+    }
+  }
+  return null;
+}
+
+// Helper function to check and mark workout as complete
+async function checkAndMarkWorkoutComplete(supabase: any, workoutId: string, athleteId: string) {
+  try {
+    // Get all exercises in the workout
+    const { data: blocks, error: blocksError } = await supabase
+      .from('blocks')
+      .select('*')
+      .eq('workout_id', workoutId)
+      .order('order_index', { ascending: true });
+
+    if (blocksError) throw blocksError;
+
+    let totalExercises = 0;
+    let completedExercises = 0;
+
+    for (const block of blocks || []) {
+      const { data: exercises, error: exercisesError } = await supabase
+        .from('block_exercises')
+        .select('*')
+        .eq('block_id', block.id)
+        .order('order_index', { ascending: true });
+
+      if (exercisesError) throw exercisesError;
+
+      for (const exercise of exercises || []) {
+        totalExercises++;
+        
+        // Get total number of sets from exercise_sets table (actual sets, not exercise.sets)
+        const { data: totalSetsData, error: totalSetsError } = await supabase
+          .from('exercise_sets')
+          .select('*', { count: 'exact', head: false })
+          .eq('block_exercise_id', exercise.id)
+          .eq('workout_id', workoutId)
+          .eq('athlete_id', athleteId);
+
+        if (totalSetsError) throw totalSetsError;
+        
+        // Get completion data for this exercise
+        const { data: completedSetsData, error: countError } = await supabase
+          .from('exercise_sets')
+          .select('*', { count: 'exact', head: false })
+          .eq('block_exercise_id', exercise.id)
+          .eq('workout_id', workoutId)
+          .eq('athlete_id', athleteId)
+          .eq('completed', 1);
+
+        if (countError) throw countError;
+
+        const totalSets = totalSetsData?.length || 0;
+        const completedCount = completedSetsData?.length || 0;
+
+        if (completedCount === totalSets && totalSets > 0) {
+          completedExercises++;
+        }
+      }
+    }
+
+    // If all exercises are completed, mark workout as complete
+    if (totalExercises > 0 && completedExercises === totalExercises) {
+      // Use upsert to handle both new and existing completions
+      const { error: upsertError } = await supabase
+        .from('workout_completions')
+        .upsert({
+          workout_id: workoutId,
+          athlete_id: athleteId,
+          completed_at: new Date().toISOString(),
+          completed: 1,
+        }, {
+          onConflict: 'workout_id,athlete_id'
+        });
+
+      if (upsertError) throw upsertError;
+    } else {
+      // If not complete, unmark it (in case it was previously complete), keeping any session feedback
+      const { error: unmarkError } = await supabase
+        .from('workout_completions')
+        .update({ completed: 0 })
+        .eq('workout_id', workoutId)
+        .eq('athlete_id', athleteId);
+
+      if (unmarkError) throw unmarkError;
+    }
+  } catch (error) {
+    console.error('Error checking workout completion:', error);
+    // Don't throw - we don't want to fail the sets save if completion check fails
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(res);
+
+  const supabase = getSupabaseClient();
+  const { id: workoutId, slug } = req.query;
+
+  // Parse slug array - ['completion'], ['feedback'], ['exercises', 'exerciseId', 'sets'] or ['exercises', 'exerciseId', 'notes']
+  const slugArray = Array.isArray(slug) ? slug : slug ? [slug] : [];
+  const resource = slugArray[0];
+  const exerciseId = resource === 'exercises' ? slugArray[1] : undefined;
+  const exerciseAction = resource === 'exercises' ? slugArray[2] : undefined;
+
+  if (!workoutId || typeof workoutId !== 'string') {
+    return res.status(400).json({ error: 'Workout ID is required' });
+  }
+
+  // Every route here is an athlete's logs: athletes read and write only their own, coaches can
+  // read any athlete's
+  const athleteId =
+    req.method === 'GET' ? await authorizeAthleteRead(req, res) : await authorizeAthleteWrite(req, res);
+  if (!athleteId) return;
+
+  try {
+    // Handle GET /api/workouts/:id/completion?athleteId=xxx (status of each exercise)
+    if (resource === 'completion' && slugArray.length === 1) {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', ['GET']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const statuses = await getCompletionStatuses(supabase, [workoutId], athleteId);
+      return res.json(statuses[workoutId].exercises);
+    }
+
+    // Handle POST /api/workouts/:id/feedback (session RPE, duration and comment on completion)
+    if (resource === 'feedback' && slugArray.length === 1) {
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', ['POST']);
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+
+      const { sessionRpe, durationMinutes, comment } = req.body;
+
+      const validationError = validateSessionFeedback(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const accessError = await checkLoggingAccess(supabase, workoutId, athleteId);
+      if (accessError) {
+        return res.status(accessError.status).json({ error: accessError.error });
+      }
+
+      return res.json(await saveSessionFeedback(supabase, workoutId, athleteId, { sessionRpe, durationMinutes, comment }));
+    }
+
+    if (!exerciseId || slugArray.length !== 3 || (exerciseAction !== 'sets' && exerciseAction !== 'notes')) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const idempotencyKey = req.method === 'POST' ? getIdempotencyKey(req) : undefined;
+    if (req.method === 'POST') {
+      // Verify the workout is the athlete's and the exercise is in it
+      const accessError = await checkLoggingAccess(supabase, workoutId, athleteId, exerciseId);
+      if (accessError) {
+        return res.status(accessError.status).json({ error: accessError.error });
+      }
+
+      // A retried offline write that this athlete already applied gets the original response
+      if (idempotencyKey) {
+        const previous = await getIdempotentResponse(supabase, athleteId, idempotencyKey);
+        if (previous) return res.json(previous);
+      }
+    }
+
+    // Handle GET/POST /api/workouts/:id/exercises/:exerciseId/sets
+    if (exerciseAction === 'sets') {
+      if (req.method === 'POST') {
+        // Save exercise sets
+        const { sets } = req.body;
+
+        if (!sets || !Array.isArray(sets)) {
+          return res.status(400).json({ error: 'sets array is required' });
+        }
+
+        const effortError = validateSetEffort(sets);
+        if (effortError) {
+          return res.status(400).json({ error: effortError });
+        }
+
+        // Use upsert to handle concurrent requests gracefully
+        // This prevents duplicate key errors when multiple saves happen simultaneously
+        if (sets.length > 0) {
+          const setsToUpsert = sets.map((set: any) => ({
+            id: `${exerciseId}_${athleteId}_${set.set}`,
+            block_exercise_id: exerciseId,
+            workout_id: workoutId,
+            athlete_id: athleteId,
+            set_number: set.set,
+            weight: set.weight || null,
+            reps: set.reps || null,
+            completed: set.completed ? 1 : 0,
+            completed_at: set.completed ? new Date().toISOString() : null,
+            rest_seconds: set.restSeconds ?? null,
+            rpe: set.rpe ?? null,
+            rir: set.rir ?? null,
+          }));
+
+          // Upsert all sets - this will insert new ones or update existing ones
+          // This prevents duplicate key errors from concurrent requests
+          const { error: upsertError } = await supabase
+            .from('exercise_sets')
+            .upsert(setsToUpsert, {
+              onConflict: 'id'
+            });
+
+          if (upsertError) {
+            console.error('Error upserting sets:', upsertError);
+            throw upsertError;
+          }
+
+          // Delete any sets that exist in the database but are not in the incoming array
+          // This handles the case where a set was deleted from the UI
+          const incomingSetNumbers = sets.map((s: any) => s.set);
+        
+          // Get all existing sets to find ones to delete
+          const { data: existingSets, error: fetchError } = await supabase
+            .from('exercise_sets')
+            .select('id, set_number')
+            .eq('block_exercise_id', exerciseId)
+            .eq('workout_id', workoutId)
+            .eq('athlete_id', athleteId);
+
+          if (!fetchError && existingSets) {
+            const setsToDelete = existingSets
+              .filter((s: any) => !incomingSetNumbers.includes(s.set_number))
+              .map((s: any) => s.id);
+
+            if (setsToDelete.length > 0) {
+              // Delete sets that are no longer in the incoming array
+              const { error: deleteError } = await supabase
+                .from('exercise_sets')
+                .delete()
+                .in('id', setsToDelete);
+
+              if (deleteError) {
+                console.error('Error deleting removed sets:', deleteError);
+                // Don't throw - this is cleanup, not critical
+              }
+            }
+          }
+        } else {
+          // If no sets in incoming array, delete all existing sets
+          const { error: deleteError } = await supabase
+            .from('exercise_sets')
+            .delete()
+            .eq('block_exercise_id', exerciseId)
+            .eq('workout_id', workoutId)
+            .eq('athlete_id', athleteId);
+
+          if (deleteError) {
+            console.error('Error deleting all sets:', deleteError);
+            // Don't throw - this is cleanup
+          }
+        }
+
+        // Check and mark workout as complete after saving sets (non-blocking)
+        // Don't await - let it run in background to avoid slowing down the response
+        checkAndMarkWorkoutComplete(supabase, workoutId, athleteId).catch(err => {
+          console.error('Background completion check failed:', err);
+        });
+
+        // PRs are re-detected on every save; the response carries this exercise's current ones.
+        // A failed detection shouldn't fail the save.
+        let records: any[] = [];
+        try {
+          records = await detectPersonalRecords(supabase, workoutId, exerciseId, athleteId);
+        } catch (recordsError) {
+          console.error('Error detecting personal records:', recordsError);
+        }
+
+        const result = { success: true, message: 'Sets saved successfully', records };
+        if (idempotencyKey) await saveIdempotentResponse(supabase, athleteId, idempotencyKey, result);
+
+        res.json(result);
+      } else if (req.method === 'GET') {
+        // Get exercise sets for an athlete
+        const { data: savedSets, error } = await supabase
+          .from('exercise_sets')
+          .select('*')
+          .eq('block_exercise_id', exerciseId)
+          .eq('workout_id', workoutId)
+          .eq('athlete_id', athleteId)
+          .order('set_number', { ascending: true });
+
+        if (error) throw error;
+
+        const sets = (savedSets || []).map((s: any) => ({
+          set: s.set_number,
+          weight: s.weight || '',
+          reps: s.reps || '',
+          completed: s.completed === 1,
+          restSeconds: s.rest_seconds ?? undefined,
+          rpe: s.rpe !== null && s.rpe !== undefined ? Number(s.rpe) : undefined,
+          rir: s.rir ?? undefined,
+        }));
+
+        res.json(sets);
+      } else {
+        res.setHeader('Allow', ['GET', 'POST']);
+        res.status(405).json({ error: `Method ${req.method} not allowed` });
+      }
+      return;
+    }
+
+    // Handle GET/POST /api/workouts/:id/exercises/:exerciseId/notes
+    if (req.method === 'POST') {
+      const { notes } = req.body;
+
+      const { error } = await supabase
+        .from('exercise_notes')
+        .upsert({
+          id: `${exerciseId}_${workoutId}_${athleteId}`,
+          block_exercise_id: exerciseId,
+          workout_id: workoutId,
+          athlete_id: athleteId,
+          notes: notes || '',
+          updated_at: new Date().toISOString(),
+        }, {
+          onConflict: 'id'
+        });
+
+      if (error) throw error;
+
+      const result = { success: true, message: 'Notes saved successfully' };
+      if (idempotencyKey) await saveIdempotentResponse(supabase, athleteId, idempotencyKey, result);
+
+      res.json(result);
+    } else if (req.method === 'GET') {
+      const { data: note, error } = await supabase
+        .from('exercise_notes')
+        .select('notes')
+        .eq('block_exercise_id', exerciseId)
+        .eq('workout_id', workoutId)
+        .eq('athlete_id', athleteId)
+        .single();
+
+      // PGRST116: no notes saved yet
+      if (error && error.code !== 'PGRST116') throw error;
+      res.json({ notes: note?.notes || '' });
+    } else {
+      res.setHeader('Allow', ['GET', 'POST']);
+      res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error: any) {
+    console.error('Error in workout actions API:', error);
+    res.status(500).json({ error: error.message || 'Failed to process request' });
+  }
+}
@@ -0,0 +1,187 @@
+// An athlete's completion of each exercise in one or more workouts. Mirrors
+// server/src/services/completionService.ts.
+
+// Helper function to get each workout's per-exercise completion status, with what was logged.
+// One query regardless of how many workouts are asked for (get_completion_logs in
+// supabase/migrations/022_completion_functions.sql).
+export async function getCompletionStatuses(supabase: any, workoutIds: string[], athleteId: string) {
+  const result: Record<string, { completed: boolean; exercises: Record<string, any> }> = {};
+  workoutIds.forEach((workoutId) => {
+    result[workoutId] = { completed: false, exercises: {} };
+  });
+  if (workoutIds.length === 0) return result;
+
+  const { data: exercises, error } = await supabase.rpc('get_completion_logs', {
+    p_athlete_id: athleteId,
+    p_workout_ids: workoutIds,
+  });
+
+  if (error) throw error;
+  if (!exercises || exercises.length === 0) return result;
+
+  exercises.forEach((exercise: any) => {
+    const workoutId: string = exercise.workout_id;
+    const exerciseSets: Array<{
+      set_number: number;
+      weight: string | null;
+      reps: string | null;
+      completed: boolean;
+      rpe: number | null;
+      rir: number | null;
+    }> = exercise.sets.map((set: any) => ({
+      set_number: set.set_number,
+      weight: set.weight,
+      reps: set.reps,
+      completed: set.completed === 1 || set.completed === true,
+      rpe: set.rpe !== null ? Number(set.rpe) : null,
+      rir: set.rir,
+    }));
+    const totalSets = exerciseSets.length;
+    const completedCount = exerciseSets.filter((s) => s.completed).length;
+
+    // Check if reps vary across sets
+    const repsValues = exerciseSets
+      .map((s: any) => s.reps?.trim())
+      .filter((r: string) => r && r !== '' && r !== '--')
+      .map((r: string) => {
+        const parsed = parseInt(r);
+        return isNaN(parsed) ? null : parsed;
+      })
+      .filter((r: number | null) => r !== null) as number[];
+
+    // Nothing logged yet: use the prescribed rep range instead of guessing from the text
+    const prescription = exercise.prescription;
+    if (repsValues.length === 0 && prescription?.kind === 'range' && prescription.repsMin && prescription.repsMax) {
+      repsValues.push(prescription.repsMin, prescription.repsMax);
+    }
+
+    const uniqueReps = [...new Set(repsValues)];
+    const repsVary = uniqueReps.length > 1;
+    const commonReps = repsVary ? null : (repsValues[0]?.toString() || exercise.reps);
+    const minReps = repsValues.length > 0 ? Math.min(...repsValues) : null;
+    const maxReps = repsValues.length > 0 ? Math.max(...repsValues) : null;
+
+    let status: 'completed' | 'in-progress' | 'not-started' = 'not-started';
+    if (completedCount === totalSets && totalSets > 0) {
+      status = 'completed';
+    } else if (completedCount > 0) {
+      status = 'in-progress';
+    }
+
+    // Keyed by block-exercise ID so the same exercise in two blocks doesn't collide
+    result[workoutId].exercises[exercise.id] = {
+      status,
+      completedSets: completedCount,
+      totalSets,
+      repsVary,
+      commonReps: commonReps || exercise.reps,
+      minReps,
+      maxReps,
+      // What was logged, for coach views (weights, reps and optional RPE/RIR)
+      sets: exerciseSets.map((s) => ({
+        set: s.set_number,
+        weight: s.weight || '',
+        reps: s.reps || '',
+        completed: s.completed,
+        rpe: s.rpe ?? undefined,
+        rir: s.rir ?? undefined,
+      })),
+      // Athlete notes per exercise, shown to coaches alongside what was logged
+      notes: exercise.notes && exercise.notes.trim() ? exercise.notes : undefined,
+    };
+  });
+
+  Object.values(result).forEach((workout) => {
+    const statuses = Object.values(workout.exercises);
+    workout.completed = statuses.length > 0 && statuses.every((exercise: any) => exercise.status === 'completed');
+  });
+
+  return result;
+}
+
+// Helper function to get the IDs of the workouts assigned to an athlete, directly or through
+// their teams, optionally between two dates (inclusive)
+export async function getAssignedWorkoutIds(
+  supabase: any,
+  athleteId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<string[]> {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('team_id')
+    .eq('athlete_id', athleteId);
+  if (error) throw error;
+
+  const teamIds = (memberships || []).map((m: any) => m.team_id);
+  let query = supabase.from('workouts').select('id');
+  query = teamIds.length > 0
+    ? query.or(`athlete_id.eq.${athleteId},team_id.in.(${teamIds.join(',')})`)
+    : query.eq('athlete_id', athleteId);
+  if (range.from) query = query.gte('date', range.from);
+  if (range.to) query = query.lte('date', range.to);
+
+  const { data: workouts, error: workoutsError } = await query;
+  if (workoutsError) throw workoutsError;
+  return (workouts || []).map((w: any) => w.id);
+}
+
+// Helper function to check whether an athlete can log against a workout (and one of its exercises):
+// the workout has to exist and be assigned to them, directly or through one of their teams. Returns
+// the error to respond with, or null.
+export async function checkLoggingAccess(
+  supabase: any,
+  workoutId: string,
+  athleteId: string,
+  exerciseId?: string
+): Promise<{ status: number; error: string } | null> {
+  const { data: workout, error } = await supabase
+    .from('workouts')
+    .select('id, athlete_id, team_id')
+    .eq('id', workoutId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!workout) {
+    return { status: 404, error: 'Workout not found' };
+  }
+
+  let assigned = workout.athlete_id === athleteId;
+  if (!assigned && workout.team_id) {
+    const { data: membership, error: membershipError } = await supabase
+      .from('team_athletes')
+      .select('athlete_id')
+      .eq('team_id', workout.team_id)
+      .eq('athlete_id', athleteId)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+    assigned = !!membership;
+  }
+  if (!assigned) {
+    return { status: 403, error: 'This workout is not assigned to you' };
+  }
+
+  if (exerciseId) {
+    const { data: exercise, error: exerciseError } = await supabase
+      .from('block_exercises')
+      .select('id, block_id')
+      .eq('id', exerciseId)
+      .maybeSingle();
+    if (exerciseError) throw exerciseError;
+
+    let inWorkout = false;
+    if (exercise) {
+      const { data: block, error: blockError } = await supabase
+        .from('blocks')
+        .select('id')
+        .eq('id', exercise.block_id)
+        .eq('workout_id', workoutId)
+        .maybeSingle();
+      if (blockError) throw blockError;
+      inWorkout = !!block;
+    }
+    if (!inWorkout) {
+      return { status: 404, error: 'Exercise not found' };
+    }
+  }
+
+  return null;
+}
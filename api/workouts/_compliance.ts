@@ -0,0 +1,96 @@
+// Workout and set completion against what was assigned. Mirrors
+// server/src/services/complianceService.ts.
+
+type WorkoutComplianceStatus = 'completed' | 'partial' | 'missed' | 'upcoming';
+
+interface WorkoutCompliance {
+  workoutId: string;
+  workoutName: string;
+  date: string;
+  status: WorkoutComplianceStatus;
+  prescribedSets: number;
+  completedSets: number;
+}
+
+function percent(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round((part / whole) * 100) : undefined;
+}
+
+function getStatus(completed: boolean, completedSets: number, date: string, today: string): WorkoutComplianceStatus {
+  if (completed) return 'completed';
+  if (completedSets > 0) return 'partial';
+  return date < today ? 'missed' : 'upcoming';
+}
+
+// Helper function to get each athlete's assigned workouts (direct and through any of their teams)
+// between two dates, oldest first, with how much of each was done. Completed sets are capped at
+// each exercise's prescribed sets. One query for any number of athletes and workouts
+// (get_workout_compliance in supabase/migrations/022_completion_functions.sql).
+export async function getWorkoutCompliance(supabase: any, athleteIds: string[], from: string, to: string) {
+  const result = new Map<string, WorkoutCompliance[]>();
+  athleteIds.forEach((id) => result.set(id, []));
+  if (athleteIds.length === 0) return result;
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: rows, error } = await supabase.rpc('get_workout_compliance', {
+    p_athlete_ids: athleteIds,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+
+  (rows || []).forEach((row: any) => {
+    const prescribedSets = Number(row.prescribed_sets);
+    const completedSets = Number(row.completed_sets);
+    result.get(row.athlete_id)?.push({
+      workoutId: row.workout_id,
+      workoutName: row.workout_name,
+      date: row.date,
+      status: getStatus(row.completed, completedSets, row.date, today),
+      prescribedSets,
+      completedSets,
+    });
+  });
+
+  return result;
+}
+
+export function summarizeCompliance(workouts: WorkoutCompliance[]) {
+  const due = workouts.filter((w) => w.status !== 'upcoming');
+  const prescribedSets = due.reduce((sum, w) => sum + w.prescribedSets, 0);
+  const completedSets = due.reduce((sum, w) => sum + w.completedSets, 0);
+  const completed = due.filter((w) => w.status === 'completed').length;
+  return {
+    assigned: workouts.length,
+    due: due.length,
+    completed,
+    partial: due.filter((w) => w.status === 'partial').length,
+    missed: due.filter((w) => w.status === 'missed').length,
+    prescribedSets,
+    completedSets,
+    workoutCompliance: percent(completed, due.length),
+    setCompliance: percent(completedSets, prescribedSets),
+  };
+}
+
+// Helper function to get one summary row per team athlete, sorted by name
+export async function getTeamCompliance(supabase: any, teamId: string, from: string, to: string) {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('athletes(id, name)')
+    .eq('team_id', teamId);
+  if (error) throw error;
+
+  const athletes = (memberships || []).map((m: any) => m.athletes).filter(Boolean);
+  if (athletes.length === 0) return [];
+
+  const workouts = await getWorkoutCompliance(supabase, athletes.map((a: any) => a.id), from, to);
+  return athletes
+    .sort((a: any, b: any) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+    .map((athlete: any) => ({
+      athleteId: athlete.id,
+      athleteName: athlete.name,
+      ...summarizeCompliance(workouts.get(athlete.id) || []),
+    }));
+}
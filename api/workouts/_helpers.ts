@@ -29,12 +29,18 @@ export async function getWorkoutWithBlocks(supabase: any, workoutId: string) {
       return {
         id: block.id,
         name: block.name,
+        groups: block.exercise_groups || undefined,
+        restSeconds: block.rest_seconds ?? undefined,
         exercises: (exercises || []).map((ex: any) => ({
           id: ex.id,
+          exerciseId: ex.exercise_id || undefined,
           exerciseName: ex.exercise_name,
           sets: ex.sets,
           reps: ex.reps,
           weight: ex.weight || undefined,
+          prescription: ex.prescription || undefined,
+          groupId: ex.group_id || undefined,
+          restSeconds: ex.rest_seconds ?? undefined,
         })),
       };
     })
@@ -49,3 +55,28 @@ export async function getWorkoutWithBlocks(supabase: any, workoutId: string) {
     blocks: blocksWithExercises,
   };
 }
+
+// Helper function to create (create = true) or update a workout with its blocks and exercises.
+// The save_workout Postgres function does the writes in a single transaction, so callers get
+// either the fully saved workout or an error with the stored data untouched.
+// Returns null when updating a workout that doesn't exist.
+export async function saveWorkout(supabase: any, workoutId: string, workout: any, create = false) {
+  const { error } = await supabase.rpc('save_workout', {
+    p_workout_id: workoutId,
+    p_workout: {
+      name: workout.name,
+      date: workout.date,
+      athleteId: workout.athleteId || null,
+      teamId: workout.teamId || null,
+      blocks: workout.blocks || [],
+    },
+    p_create: create,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return null;
+    throw error;
+  }
+
+  return getWorkoutWithBlocks(supabase, workoutId);
+}
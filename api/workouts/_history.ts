@@ -0,0 +1,52 @@
+import { getMatchingExerciseSets } from './_records.js';
+
+// "Last time" history of an exercise. Mirrors server/src/services/historyService.ts.
+
+const DEFAULT_HISTORY_SESSIONS = 3;
+const MAX_HISTORY_SESSIONS = 10;
+
+// Helper function to get an athlete's most recent sessions of an exercise across all workouts,
+// newest first. A session is one workout's block exercise with at least one completed set; only
+// completed sets are returned.
+export async function getExerciseHistory(
+  supabase: any,
+  athleteId: string,
+  query: { exerciseId?: string; exerciseName?: string; excludeWorkoutId?: string; limit?: number }
+) {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_SESSIONS, 1), MAX_HISTORY_SESSIONS);
+
+  const setRows = (
+    await getMatchingExerciseSets(supabase, athleteId, query.exerciseId, query.exerciseName || '')
+  ).filter((row: any) => row.workout_id !== query.excludeWorkoutId);
+  if (setRows.length === 0) return [];
+
+  const sessions = new Map<string, any>();
+  setRows.forEach((row: any) => {
+    const key = `${row.workout_id}:${row.block_exercise_id}`;
+    if (!sessions.has(key)) {
+      sessions.set(key, {
+        workoutId: row.workout_id,
+        workoutName: row.workout_name,
+        blockExerciseId: row.block_exercise_id,
+        exerciseName: row.exercise_name || query.exerciseName,
+        date: row.date,
+        createdAt: row.workout_created_at,
+        sets: [],
+      });
+    }
+    sessions.get(key).sets.push({
+      set: row.set_number,
+      weight: row.weight || '',
+      reps: row.reps || '',
+      completed: true,
+      restSeconds: row.rest_seconds ?? undefined,
+      rpe: row.rpe !== null && row.rpe !== undefined ? Number(row.rpe) : undefined,
+      rir: row.rir ?? undefined,
+    });
+  });
+
+  return Array.from(sessions.values())
+    .sort((a, b) => b.date.localeCompare(a.date) || `${b.createdAt}`.localeCompare(`${a.createdAt}`))
+    .slice(0, limit)
+    .map(({ createdAt, ...session }) => session);
+}
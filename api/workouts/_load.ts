@@ -0,0 +1,58 @@
+// Daily training load (session RPE x minutes and set tonnage) per athlete. Mirrors
+// server/src/services/loadService.ts.
+
+export function isDateParam(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Helper function to get each athlete's daily loads between two workout dates (inclusive), oldest
+// first. Days without any load are left out. Summed by get_daily_loads (migration 027) from the
+// athletes' own sessions and sets.
+export async function getDailyLoads(supabase: any, athleteIds: string[], from: string, to: string) {
+  const result = new Map<string, Array<{ date: string; sessionLoad: number; tonnage: number }>>();
+  athleteIds.forEach((id) => result.set(id, []));
+  if (athleteIds.length === 0) return result;
+
+  const { data: rows, error } = await supabase.rpc('get_daily_loads', {
+    p_athlete_ids: athleteIds,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+
+  (rows || []).forEach((row: any) => {
+    result.get(row.athlete_id)?.push({
+      date: row.date,
+      sessionLoad: Number(row.session_load),
+      tonnage: Number(row.tonnage),
+    });
+  });
+  return result;
+}
+
+// Helper function to get each team athlete's daily loads, sorted by name
+export async function getTeamLoads(supabase: any, teamId: string, from: string, to: string) {
+  const { data: memberships, error } = await supabase
+    .from('team_athletes')
+    .select('athlete_id')
+    .eq('team_id', teamId);
+  if (error) throw error;
+
+  const athleteIds = (memberships || []).map((m: any) => m.athlete_id);
+  if (athleteIds.length === 0) return [];
+
+  const { data: athletes, error: athletesError } = await supabase
+    .from('athletes')
+    .select('id, name')
+    .in('id', athleteIds);
+  if (athletesError) throw athletesError;
+
+  const loads = await getDailyLoads(supabase, athleteIds, from, to);
+  return (athletes || [])
+    .sort((a: any, b: any) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+    .map((athlete: any) => ({
+      athleteId: athlete.id,
+      athleteName: athlete.name,
+      days: loads.get(athlete.id) || [],
+    }));
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+
+// Personal-record detection from logged sets. Mirrors server/src/services/recordService.ts.
+
+type E1RMFormula = 'epley' | 'brzycki';
+
+// Rep-max records: heaviest weight lifted for at least this many reps
+const REP_MAX_RECORDS = [
+  { type: '1RM', reps: 1 },
+  { type: '3RM', reps: 3 },
+  { type: '5RM', reps: 5 },
+];
+
+// Rep-based estimates get unreliable past this many reps, so longer sets don't produce an e1RM
+const MAX_E1RM_REPS = 12;
+
+// Formula used for new estimates; set E1RM_FORMULA=brzycki to switch from the Epley default
+export function getE1RMFormula(): E1RMFormula {
+  return process.env.E1RM_FORMULA?.toLowerCase() === 'brzycki' ? 'brzycki' : 'epley';
+}
+
+// Estimated 1RM for a set, rounded to 0.1. A single is its own 1RM.
+export function estimateOneRepMax(weight: number, reps: number, formula: E1RMFormula = getE1RMFormula()): number | null {
+  if (!(weight > 0) || !Number.isInteger(reps) || reps < 1 || reps > MAX_E1RM_REPS) return null;
+  if (reps === 1) return weight;
+  const estimate = formula === 'brzycki'
+    ? weight * 36 / (37 - reps)
+    : weight * (1 + reps / 30);
+  return Math.round(estimate * 10) / 10;
+}
+
+// Completed sets with a usable weight and rep count
+function toLoggedSets(rows: any[]) {
+  return rows
+    .map((row: any) => ({
+      setNumber: row.set_number,
+      weight: parseFloat(row.weight),
+      reps: parseInt(row.reps),
+    }))
+    .filter((set) => set.weight > 0 && set.reps > 0);
+}
+
+// Best set per record type: value is the weight (rep maxes) or the estimate (e1RM)
+function getBests(sets: ReturnType<typeof toLoggedSets>, formula: E1RMFormula) {
+  const bests = new Map<string, { value: number; set: typeof sets[number] }>();
+  const consider = (type: string, value: number | null, set: typeof sets[number]) => {
+    if (value === null) return;
+    const current = bests.get(type);
+    if (!current || value > current.value) bests.set(type, { value, set });
+  };
+  sets.forEach((set) => {
+    REP_MAX_RECORDS.forEach(({ type, reps }) => {
+      if (set.reps >= reps) consider(type, set.weight, set);
+    });
+    consider('e1RM', estimateOneRepMax(set.weight, set.reps, formula), set);
+  });
+  return bests;
+}
+
+// Map a personal_records row to API shape
+export function mapRecordRow(row: any) {
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    exerciseId: row.exercise_id || undefined,
+    exerciseName: row.exercise_name,
+    type: row.record_type,
+    value: Number(row.value),
+    previousValue: row.previous_value !== null ? Number(row.previous_value) : undefined,
+    weight: Number(row.weight),
+    reps: row.reps,
+    formula: row.formula || undefined,
+    workoutId: row.workout_id,
+    blockExerciseId: row.block_exercise_id,
+    setNumber: row.set_number,
+    date: row.date,
+    createdAt: row.created_at,
+  };
+}
+
+// Helper function to get an athlete's PR history, newest first, optionally for one workout
+export async function getAthleteRecords(supabase: any, athleteId: string, workoutId?: string) {
+  let query = supabase
+    .from('personal_records')
+    .select('*')
+    .eq('athlete_id', athleteId);
+  if (workoutId) query = query.eq('workout_id', workoutId);
+
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapRecordRow);
+}
+
+// Helper function to get an athlete's completed sets of the same exercise across all their workouts:
+// linked to the same library exercise, or with the same name (case-insensitive). Each set carries its
+// workout's name and date (get_athlete_exercise_sets in
+// supabase/migrations/023_personal_record_functions.sql).
+export async function getMatchingExerciseSets(
+  supabase: any,
+  athleteId: string,
+  exerciseId: string | null | undefined,
+  exerciseName: string
+): Promise<any[]> {
+  const { data, error } = await supabase.rpc('get_athlete_exercise_sets', {
+    p_athlete_id: athleteId,
+    p_exercise_id: exerciseId || null,
+    p_exercise_name: exerciseName || '',
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+// Re-detect PRs for one athlete's sets of a workout exercise after they're saved. The exercise's
+// completed sets are compared with every other completed set the athlete logged for the same
+// exercise (same library exercise, or same name for custom ones); each record type beaten gets a
+// history row. The exercise's earlier rows are replaced, so edits and deleted sets don't leave
+// stale PRs behind; they're only replaced once the new ones are worked out, in one transaction
+// (replace_personal_records). A first log of a record type sets the baseline and isn't a PR.
+// Returns the exercise's PRs.
+export async function detectPersonalRecords(
+  supabase: any,
+  workoutId: string,
+  blockExerciseId: string,
+  athleteId: string
+) {
+  const [{ data: exercise }, { data: workout }] = await Promise.all([
+    supabase.from('block_exercises').select('exercise_id, exercise_name').eq('id', blockExerciseId).single(),
+    supabase.from('workouts').select('date').eq('id', workoutId).single(),
+  ]);
+  if (!exercise || !workout) return [];
+
+  const matchingSets = await getMatchingExerciseSets(supabase, athleteId, exercise.exercise_id, exercise.exercise_name);
+  const isCurrent = (row: any) => row.block_exercise_id === blockExerciseId && row.workout_id === workoutId;
+  const currentSets = toLoggedSets(matchingSets.filter(isCurrent));
+  const previousSets = toLoggedSets(matchingSets.filter((row) => !isCurrent(row)));
+
+  const formula = getE1RMFormula();
+  const previousBests = getBests(previousSets, formula);
+  const records: any[] = [];
+  getBests(currentSets, formula).forEach((best, type) => {
+    const previous = previousBests.get(type);
+    if (!previous || best.value <= previous.value) return;
+    records.push({
+      id: randomUUID(),
+      exercise_id: exercise.exercise_id,
+      exercise_name: exercise.exercise_name,
+      record_type: type,
+      value: best.value,
+      previous_value: previous.value,
+      weight: best.set.weight,
+      reps: best.set.reps,
+      formula: type === 'e1RM' ? formula : null,
+      set_number: best.set.setNumber,
+      date: workout.date,
+    });
+  });
+
+  const { data: saved, error } = await supabase.rpc('replace_personal_records', {
+    p_athlete_id: athleteId,
+    p_workout_id: workoutId,
+    p_block_exercise_id: blockExerciseId,
+    p_records: records,
+  });
+  if (error) throw error;
+
+  return (saved || []).map(mapRecordRow);
+}
@@ -0,0 +1,116 @@
+// Session feedback (sRPE, duration, comment) on workout completions. Mirrors
+// server/src/services/sessionService.ts.
+
+const MAX_SESSION_MINUTES = 600;
+const MAX_SESSION_COMMENT_LENGTH = 2000;
+
+// Returns an error message for an invalid feedback body, or null
+export function validateSessionFeedback(body: any): string | null {
+  if (!Number.isInteger(body.sessionRpe) || body.sessionRpe < 0 || body.sessionRpe > 10) {
+    return 'Session RPE must be a whole number between 0 and 10';
+  }
+  if (body.durationMinutes !== undefined && body.durationMinutes !== null) {
+    if (!Number.isInteger(body.durationMinutes) || body.durationMinutes < 1 || body.durationMinutes > MAX_SESSION_MINUTES) {
+      return `Duration must be between 1 and ${MAX_SESSION_MINUTES} minutes`;
+    }
+  }
+  if (body.comment !== undefined && body.comment !== null) {
+    if (typeof body.comment !== 'string' || body.comment.length > MAX_SESSION_COMMENT_LENGTH) {
+      return `Comment must be text of at most ${MAX_SESSION_COMMENT_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+// Map a workout_completions row and its workout to API shape; load = session RPE x duration
+function mapSessionRow(row: any, workout: any) {
+  const sessionRpe = row.session_rpe ?? undefined;
+  const durationMinutes = row.duration_minutes ?? undefined;
+  return {
+    workoutId: row.workout_id,
+    athleteId: row.athlete_id,
+    workoutName: workout.name,
+    date: workout.date,
+    completedAt: row.completed_at,
+    sessionRpe,
+    durationMinutes,
+    comment: row.session_comment || undefined,
+    load: sessionRpe !== undefined && durationMinutes !== undefined ? sessionRpe * durationMinutes : undefined,
+  };
+}
+
+// Helper function to get an athlete's completed workouts with their session feedback, newest
+// first. from/to filter on the workout date (YYYY-MM-DD, inclusive).
+export async function getAthleteSessions(
+  supabase: any,
+  athleteId: string,
+  filters: { from?: string; to?: string; workoutId?: string } = {}
+) {
+  let completionsQuery = supabase
+    .from('workout_completions')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .eq('completed', 1);
+  if (filters.workoutId) completionsQuery = completionsQuery.eq('workout_id', filters.workoutId);
+
+  const { data: completions, error } = await completionsQuery;
+  if (error) throw error;
+  if (!completions || completions.length === 0) return [];
+
+  let workoutsQuery = supabase
+    .from('workouts')
+    .select('id, name, date')
+    .in('id', completions.map((row: any) => row.workout_id));
+  if (filters.from) workoutsQuery = workoutsQuery.gte('date', filters.from);
+  if (filters.to) workoutsQuery = workoutsQuery.lte('date', filters.to);
+
+  const { data: workouts, error: workoutsError } = await workoutsQuery;
+  if (workoutsError) throw workoutsError;
+
+  const workoutsById = new Map<string, any>((workouts || []).map((w: any) => [w.id, w]));
+  return completions
+    .filter((row: any) => workoutsById.has(row.workout_id))
+    .map((row: any) => mapSessionRow(row, workoutsById.get(row.workout_id)))
+    .sort((a: any, b: any) => b.date.localeCompare(a.date) || `${b.completedAt}`.localeCompare(`${a.completedAt}`));
+}
+
+// Helper function to store session feedback on the athlete's completion of a workout. Feedback is
+// given as the workout is completed, but can arrive before the sets save marks it complete, so it's
+// kept on a row that doesn't count as a completion until the sets do.
+export async function saveSessionFeedback(
+  supabase: any,
+  workoutId: string,
+  athleteId: string,
+  feedback: { sessionRpe: number; durationMinutes?: number; comment?: string }
+) {
+  const { error: insertError } = await supabase
+    .from('workout_completions')
+    .upsert({ workout_id: workoutId, athlete_id: athleteId, completed: 0 }, {
+      onConflict: 'workout_id,athlete_id',
+      ignoreDuplicates: true
+    });
+  if (insertError) throw insertError;
+
+  const { data: row, error } = await supabase
+    .from('workout_completions')
+    .update({
+      session_rpe: feedback.sessionRpe,
+      duration_minutes: feedback.durationMinutes ?? null,
+      session_comment: feedback.comment?.trim() || null,
+      feedback_at: new Date().toISOString(),
+    })
+    .eq('workout_id', workoutId)
+    .eq('athlete_id', athleteId)
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  const { data: workout, error: workoutError } = await supabase
+    .from('workouts')
+    .select('id, name, date')
+    .eq('id', workoutId)
+    .single();
+  if (workoutError) throw workoutError;
+
+  return mapSessionRow(row, workout);
+}
@@ -1,29 +1,33 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getSupabaseClient } from '../_helpers/supabase.js';
 import { handleCors, setCorsHeaders } from '../_helpers/cors.js';
-import { getWorkoutWithBlocks } from './_helpers.js';
+import { authorizeAthleteRead, requireCoach } from '../_helpers/auth.js';
+import { getWorkoutWithBlocks, saveWorkout } from './_helpers.js';
+import { getAssignedWorkoutIds, getCompletionStatuses } from './_completion.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
   setCorsHeaders(res);
 
+  // Only coaches can create workouts
+  if (req.method !== 'GET' && !(await requireCoach(req, res))) return;
+
   const supabase = getSupabaseClient();
 
   try {
     if (req.method === 'GET') {
       // Handle completions endpoint: /api/workouts?completions=true&athleteId=xxx
-      const { completions, athleteId: completionsAthleteId } = req.query;
-      
-      if (completions === 'true') {
-        if (!completionsAthleteId || typeof completionsAthleteId !== 'string') {
-          return res.status(400).json({ error: 'athleteId query parameter is required' });
-        }
+      // (athletes only see their own; coaches name the athlete)
+      if (req.query.completions === 'true') {
+        const completionsAthleteId = await authorizeAthleteRead(req, res);
+        if (!completionsAthleteId) return;
 
         // Get all completed workouts for this athlete
         const { data: completionsData, error: completionsError } = await supabase
           .from('workout_completions')
           .select('workout_id')
-          .eq('athlete_id', completionsAthleteId);
+          .eq('athlete_id', completionsAthleteId)
+          .eq('completed', 1);
 
         if (completionsError) throw completionsError;
 
@@ -36,6 +40,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.json(completionMap);
       }
 
+      // Handle batched completion status:
+      // /api/workouts?completionStatus=true&athleteId=xxx&from=YYYY-MM-DD&to=YYYY-MM-DD (or &workoutIds=a,b)
+      if (req.query.completionStatus === 'true') {
+        const completionsAthleteId = await authorizeAthleteRead(req, res);
+        if (!completionsAthleteId) return;
+
+        const { workoutIds, from, to } = req.query;
+        const ids = typeof workoutIds === 'string'
+          ? workoutIds.split(',').filter(Boolean)
+          : await getAssignedWorkoutIds(supabase, completionsAthleteId, {
+              from: typeof from === 'string' ? from : undefined,
+              to: typeof to === 'string' ? to : undefined,
+            });
+        return res.json(await getCompletionStatuses(supabase, ids, completionsAthleteId));
+      }
+
       // Continue with existing workouts logic...
       const { athleteId, teamId, templatesOnly } = req.query;
 
@@ -79,7 +99,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     } else if (req.method === 'POST') {
       // Create new workout
       const workout = req.body;
-      const { name, date, athleteId, teamId, blocks } = workout;
+      const { name, date } = workout;
 
       if (!name || !date) {
         return res.status(400).json({ error: 'Name and date are required' });
@@ -87,60 +107,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const workoutId = Date.now().toString();
 
-      // Insert workout
-      const { data: newWorkout, error: workoutError } = await supabase
-        .from('workouts')
-        .insert({
-          id: workoutId,
-          name,
-          date,
-          athlete_id: athleteId || null,
-          team_id: teamId || null,
-        })
-        .select()
-        .single();
-
-      if (workoutError) throw workoutError;
-
-      // Insert blocks and exercises
-      if (blocks && blocks.length > 0) {
-        for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
-          const block = blocks[blockIndex];
-          const blockId = `${workoutId}_block_${blockIndex}`;
-
-          const { error: blockError } = await supabase
-            .from('blocks')
-            .insert({
-              id: blockId,
-              workout_id: workoutId,
-              name: block.name,
-              order_index: blockIndex,
-            });
-
-          if (blockError) throw blockError;
-
-          if (block.exercises && block.exercises.length > 0) {
-            const exercisesToInsert = block.exercises.map((exercise: any, exerciseIndex: number) => ({
-              id: `${blockId}_ex_${exerciseIndex}`,
-              block_id: blockId,
-              exercise_name: exercise.exerciseName,
-              sets: exercise.sets,
-              reps: exercise.reps,
-              weight: exercise.weight || null,
-              order_index: exerciseIndex,
-            }));
-
-            const { error: exercisesError } = await supabase
-              .from('block_exercises')
-              .insert(exercisesToInsert);
-
-            if (exercisesError) throw exercisesError;
-          }
-        }
-      }
-
-      // Fetch and return the created workout
-      const createdWorkout = await getWorkoutWithBlocks(supabase, workoutId);
+      // Insert workout, blocks and exercises in one transaction
+      const createdWorkout = await saveWorkout(supabase, workoutId, workout, true);
       if (!createdWorkout) {
         throw new Error('Failed to retrieve created workout');
       }
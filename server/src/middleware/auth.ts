@@ -0,0 +1,102 @@
+import express from 'express';
+import { SessionClaims, verifySessionToken } from '../services/authService.js';
+
+// The session from the request's Authorization: Bearer header, or null
+export function getSession(req: express.Request): SessionClaims | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return verifySessionToken(header.slice('Bearer '.length).trim());
+}
+
+// Any signed-in user (coach or athlete); the session is available as res.locals.session
+export function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const session = getSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  res.locals.session = session;
+  next();
+}
+
+// Coaches only - every route that changes athletes, teams, workouts, programs or exercises
+export function requireCoach(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const session = getSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (session.role !== 'admin') {
+    return res.status(403).json({ error: 'Coach access required' });
+  }
+  res.locals.session = session;
+  next();
+}
+
+/**
+ * The athlete whose logs the request may read: a signed-in athlete only their own (the athleteId
+ * query parameter defaults to them), a coach whichever athlete they name. Otherwise responds
+ * 401/403/400 and returns null.
+ */
+export function authorizeAthleteRead(req: express.Request, res: express.Response): string | null {
+  const session = getSession(req);
+  if (!session) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+
+  const requested = typeof req.query.athleteId === 'string' ? req.query.athleteId : undefined;
+  if (session.role === 'user') {
+    if (requested && requested !== session.sub) {
+      res.status(403).json({ error: 'You can only view your own training' });
+      return null;
+    }
+    return session.sub;
+  }
+
+  if (!requested) {
+    res.status(400).json({ error: 'athleteId query parameter is required' });
+    return null;
+  }
+  return requested;
+}
+
+// Reads of an athlete's logs; the athlete is available as res.locals.athleteId
+export function requireAthleteReader(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const athleteId = authorizeAthleteRead(req, res);
+  if (!athleteId) return;
+  res.locals.athleteId = athleteId;
+  next();
+}
+
+// Reads of the athlete named by the :id path parameter: a signed-in athlete only their own, a
+// coach any. The athlete is available as res.locals.athleteId.
+export function requireAthleteParamReader(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const session = getSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (session.role === 'user' && req.params.id !== session.sub) {
+    return res.status(403).json({ error: 'You can only view your own training' });
+  }
+  res.locals.session = session;
+  res.locals.athleteId = req.params.id;
+  next();
+}
+
+// Athletes logging their own training (sets, notes, feedback, check-ins). Coaches can't log for
+// them, and an athleteId in the body naming anyone else is rejected. The athlete is available as
+// res.locals.athleteId.
+export function requireAthlete(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const session = getSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (session.role !== 'user') {
+    return res.status(403).json({ error: 'Only athletes can log their own training' });
+  }
+  if (req.body?.athleteId && req.body.athleteId !== session.sub) {
+    return res.status(403).json({ error: 'You can only log your own training' });
+  }
+  res.locals.session = session;
+  res.locals.athleteId = session.sub;
+  next();
+}
@@ -1,21 +1,50 @@
 import express from 'express';
 import { randomUUID } from 'crypto';
-import { getDatabase } from '../services/dbService.js';
+import { getDatabase, resolveLibraryExercise } from '../services/dbService.js';
+import { readExercisesFromCSV } from '../services/csvService.js';
+import {
+  AthleteMaxInput,
+  createAthleteMax,
+  deleteAthleteMax,
+  getAthleteMaxes,
+  updateAthleteMax,
+  validateMax,
+} from '../services/athleteMaxService.js';
+import { getAthleteRecords } from '../services/recordService.js';
+import { getExerciseHistory } from '../services/historyService.js';
+import { getAthleteSessions } from '../services/sessionService.js';
+import { getDailyLoads, isDateParam } from '../services/loadService.js';
+import { getWorkoutCompliance, summarizeCompliance } from '../services/complianceService.js';
+import {
+  getAthleteCheckins,
+  getAthleteWellnessQuestions,
+  saveCheckin,
+  validateWellnessCheckin,
+} from '../services/wellnessService.js';
+import {
+  getLoginTokens,
+  issueLoginToken,
+  revokeLoginTokens,
+  validateLoginLinkOptions,
+} from '../services/loginTokenService.js';
+import { nameLookupColumns, setAthletePin, validatePin } from '../services/nameLoginService.js';
+import { hashPassword, validatePassword } from '../services/authService.js';
+import { requireAthlete, requireAthleteParamReader, requireCoach } from '../middleware/auth.js';
 
 const router = express.Router();
 const db = getDatabase();
 
+// An athlete row without its credentials; hasPin says whether their name link asks for a PIN
+function toAthleteResponse(athlete: any) {
+  const { password_hash, login_token, login_pin_hash, pin_failed_attempts, pin_locked_until, ...rest } = athlete;
+  return { ...rest, hasPin: !!login_pin_hash };
+}
+
 // GET /api/athletes - Get all athletes
 router.get('/', (req, res) => {
   try {
     const athletes = db.prepare('SELECT * FROM athletes ORDER BY created_at DESC').all();
-    res.json(athletes.map((athlete: any) => {
-      const { password_hash, login_token, ...rest } = athlete;
-      return {
-        ...rest,
-        loginToken: login_token || null, // Map snake_case to camelCase
-      };
-    }));
+    res.json(athletes.map(toAthleteResponse));
   } catch (error) {
     console.error('Error fetching athletes:', error);
     res.status(500).json({ error: 'Failed to fetch athletes' });
@@ -31,11 +60,7 @@ router.get('/:id', (req, res) => {
       return res.status(404).json({ error: 'Athlete not found' });
     }
     
-    const { password_hash, login_token, ...rest } = athlete as any;
-    res.json({
-      ...rest,
-      loginToken: login_token || null, // Map snake_case to camelCase
-    });
+    res.json(toAthleteResponse(athlete));
   } catch (error) {
     console.error('Error fetching athlete:', error);
     res.status(500).json({ error: 'Failed to fetch athlete' });
@@ -43,48 +68,34 @@ router.get('/:id', (req, res) => {
 });
 
 // POST /api/athletes - Create new athlete
-router.post('/', (req, res) => {
+router.post('/', requireCoach, (req, res) => {
   try {
     const { name, email, password } = req.body;
     
-    if (!name || !email) {
+    if (typeof name !== 'string' || !name.trim() || !email) {
       return res.status(400).json({ error: 'Name and email are required' });
     }
     
     // Generate ID using UUID instead of timestamp to avoid collisions
     const id = randomUUID();
     
-    // For now, store plain password (you should hash this in production)
-    const password_hash = password || null;
-    
-    // Generate unique login token for magic link
-    const loginToken = randomUUID();
+    const passwordError = password ? validatePassword(password) : null;
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
     
-    // Check if login_token column exists before inserting
-    const tableInfo: any = db.prepare("PRAGMA table_info(athletes)").all();
-    const hasLoginToken = tableInfo.some((col: any) => col.name === 'login_token');
+    // Optional - athletes can also set their own from their login link
+    const password_hash = password ? hashPassword(password) : null;
+    const { nameLower, nameSlug } = nameLookupColumns(name);
     
     try {
-      if (hasLoginToken) {
-        db.prepare(`
-          INSERT INTO athletes (id, name, email, password_hash, login_token)
-          VALUES (?, ?, ?, ?, ?)
-        `).run(id, name, email, password_hash, loginToken);
-      } else {
-        // Fallback: insert without login_token if column doesn't exist yet
-        db.prepare(`
-          INSERT INTO athletes (id, name, email, password_hash)
-          VALUES (?, ?, ?, ?)
-        `).run(id, name, email, password_hash);
-        
-        // Try to add the column and update
-        try {
-          db.exec(`ALTER TABLE athletes ADD COLUMN login_token TEXT`);
-          db.prepare(`UPDATE athletes SET login_token = ? WHERE id = ?`).run(loginToken, id);
-        } catch (alterError: any) {
-          console.warn('Could not add login_token column:', alterError.message);
-        }
-      }
+      db.prepare(`
+        INSERT INTO athletes (id, name, email, password_hash, name_lower, name_slug)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, name, email, password_hash, nameLower, nameSlug);
+      
+      // Their first login link
+      issueLoginToken(id);
       
       const newAthlete = db.prepare('SELECT * FROM athletes WHERE id = ?').get(id);
       
@@ -92,12 +103,7 @@ router.post('/', (req, res) => {
         throw new Error('Failed to retrieve created athlete');
       }
       
-      const { password_hash: pwd_hash, login_token, ...rest } = newAthlete as any;
-      
-      res.status(201).json({
-        ...rest,
-        loginToken: login_token || null, // Map snake_case to camelCase
-      });
+      res.status(201).json(toAthleteResponse(newAthlete));
     } catch (error: any) {
       if (error.message.includes('UNIQUE constraint failed')) {
         if (error.message.includes('email')) {
@@ -108,20 +114,17 @@ router.post('/', (req, res) => {
         const newId = randomUUID();
         try {
           db.prepare(`
-            INSERT INTO athletes (id, name, email, password_hash, login_token)
-            VALUES (?, ?, ?, ?, ?)
-          `).run(newId, name, email, password_hash, loginToken);
+            INSERT INTO athletes (id, name, email, password_hash, name_lower, name_slug)
+            VALUES (?, ?, ?, ?, ?, ?)
+          `).run(newId, name, email, password_hash, nameLower, nameSlug);
+          issueLoginToken(newId);
           
           const retryAthlete = db.prepare('SELECT * FROM athletes WHERE id = ?').get(newId);
           if (!retryAthlete) {
             throw new Error('Failed to retrieve created athlete after retry');
           }
           
-          const { password_hash: pwd_hash2, login_token: login_tok, ...rest } = retryAthlete as any;
-          return res.status(201).json({
-            ...rest,
-            loginToken: login_tok || null,
-          });
+          return res.status(201).json(toAthleteResponse(retryAthlete));
         } catch (retryError: any) {
           throw error; // Throw original error if retry also fails
         }
@@ -140,11 +143,20 @@ router.post('/', (req, res) => {
 });
 
 // PUT /api/athletes/:id - Update athlete
-router.put('/:id', (req, res) => {
+router.put('/:id', requireCoach, (req, res) => {
   try {
-    const { name, email, password } = req.body;
+    const { name, email, password, pin } = req.body;
     const athleteId = req.params.id;
     
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    
+    const pinError = pin !== undefined ? validatePin(pin) : null;
+    if (pinError) {
+      return res.status(400).json({ error: pinError });
+    }
+    
     const existingAthlete = db.prepare('SELECT * FROM athletes WHERE id = ?').get(athleteId);
     if (!existingAthlete) {
       return res.status(404).json({ error: 'Athlete not found' });
@@ -154,40 +166,40 @@ router.put('/:id', (req, res) => {
     const values: any[] = [];
     
     if (name !== undefined) {
-      updates.push('name = ?');
-      values.push(name);
+      const { nameLower, nameSlug } = nameLookupColumns(name);
+      updates.push('name = ?', 'name_lower = ?', 'name_slug = ?');
+      values.push(name, nameLower, nameSlug);
     }
     if (email !== undefined) {
       updates.push('email = ?');
       values.push(email);
     }
-    if (password !== undefined) {
-      updates.push('password_hash = ?');
-      values.push(password); // Should hash this in production
+    if (password) {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
+      // A new password signs the athlete out everywhere
+      updates.push('password_hash = ?', 'sessions_valid_after = ?');
+      values.push(hashPassword(password), new Date().toISOString());
     }
     
-    if (updates.length === 0) {
-      const { password_hash, login_token, ...rest } = existingAthlete as any;
-      return res.json({
-        ...rest,
-        loginToken: login_token || null,
-      });
+    if (updates.length > 0) {
+      values.push(athleteId);
+      db.prepare(`
+        UPDATE athletes
+        SET ${updates.join(', ')}
+        WHERE id = ?
+      `).run(...values);
     }
     
-    values.push(athleteId);
-    db.prepare(`
-      UPDATE athletes
-      SET ${updates.join(', ')}
-      WHERE id = ?
-    `).run(...values);
+    // Name-link PIN; null or '' removes it
+    if (pin !== undefined) {
+      setAthletePin(athleteId, pin || null);
+    }
     
     const updatedAthlete = db.prepare('SELECT * FROM athletes WHERE id = ?').get(athleteId);
-    const { password_hash, login_token, ...rest } = updatedAthlete as any;
-    
-    res.json({
-      ...rest,
-      loginToken: login_token || null,
-    });
+    res.json(toAthleteResponse(updatedAthlete));
   } catch (error: any) {
     if (error.message.includes('UNIQUE constraint failed')) {
       return res.status(409).json({ error: 'Email already exists' });
@@ -198,7 +210,7 @@ router.put('/:id', (req, res) => {
 });
 
 // DELETE /api/athletes/:id - Delete athlete
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requireCoach, (req, res) => {
   try {
     const athleteId = req.params.id;
     
@@ -215,4 +227,257 @@ router.delete('/:id', (req, res) => {
   }
 });
 
+// GET /api/athletes/:id/login-links - Get the athlete's login links, newest first, with when each was last used
+router.get('/:id/login-links', requireCoach, (req, res) => {
+  try {
+    const athlete = db.prepare('SELECT id FROM athletes WHERE id = ?').get(req.params.id);
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    res.json(getLoginTokens(req.params.id));
+  } catch (error) {
+    console.error('Error fetching login links:', error);
+    res.status(500).json({ error: 'Failed to fetch login links' });
+  }
+});
+
+// POST /api/athletes/:id/login-link - Issue a new login link (body: singleUse?, expiresInDays?); the old one stops working
+router.post('/:id/login-link', requireCoach, (req, res) => {
+  try {
+    const error = validateLoginLinkOptions(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const athlete = db.prepare('SELECT id FROM athletes WHERE id = ?').get(req.params.id);
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    const { singleUse, expiresInDays } = req.body || {};
+    res.status(201).json(issueLoginToken(req.params.id, { singleUse, expiresInDays }));
+  } catch (error) {
+    console.error('Error issuing login link:', error);
+    res.status(500).json({ error: 'Failed to issue login link' });
+  }
+});
+
+// DELETE /api/athletes/:id/login-link - Revoke the athlete's login link
+router.delete('/:id/login-link', requireCoach, (req, res) => {
+  try {
+    const athlete = db.prepare('SELECT id FROM athletes WHERE id = ?').get(req.params.id);
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    revokeLoginTokens(req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking login link:', error);
+    res.status(500).json({ error: 'Failed to revoke login link' });
+  }
+});
+
+// GET /api/athletes/:id/records?workoutId=xxx - Get an athlete's PR history, newest first
+router.get('/:id/records', requireAthleteParamReader, (req, res) => {
+  try {
+    const { workoutId } = req.query;
+    res.json(getAthleteRecords(req.params.id, typeof workoutId === 'string' ? workoutId : undefined));
+  } catch (error) {
+    console.error('Error fetching personal records:', error);
+    res.status(500).json({ error: 'Failed to fetch personal records' });
+  }
+});
+
+// GET /api/athletes/:id/history?exerciseId=xxx&exerciseName=xxx - Get the athlete's last sessions of an exercise
+router.get('/:id/history', requireAthleteParamReader, (req, res) => {
+  try {
+    const { exerciseId, exerciseName, excludeWorkoutId, limit } = req.query;
+    if (typeof exerciseId !== 'string' && typeof exerciseName !== 'string') {
+      return res.status(400).json({ error: 'exerciseId or exerciseName query parameter is required' });
+    }
+
+    res.json(getExerciseHistory(req.params.id, {
+      exerciseId: typeof exerciseId === 'string' ? exerciseId : undefined,
+      exerciseName: typeof exerciseName === 'string' ? exerciseName : undefined,
+      excludeWorkoutId: typeof excludeWorkoutId === 'string' ? excludeWorkoutId : undefined,
+      limit: typeof limit === 'string' ? parseInt(limit) || undefined : undefined,
+    }));
+  } catch (error) {
+    console.error('Error fetching exercise history:', error);
+    res.status(500).json({ error: 'Failed to fetch exercise history' });
+  }
+});
+
+// GET /api/athletes/:id/sessions?from=YYYY-MM-DD&to=YYYY-MM-DD - Get completed workouts with session RPE, duration and load
+router.get('/:id/sessions', requireAthleteParamReader, (req, res) => {
+  try {
+    const { from, to } = req.query;
+    res.json(getAthleteSessions(req.params.id, {
+      from: typeof from === 'string' ? from : undefined,
+      to: typeof to === 'string' ? to : undefined,
+    }));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// GET /api/athletes/:id/load?from=YYYY-MM-DD&to=YYYY-MM-DD - Get daily session RPE load and tonnage
+router.get('/:id/load', requireAthleteParamReader, (req, res) => {
+  try {
+    const { from, to } = req.query;
+    if (!isDateParam(from) || !isDateParam(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+
+    res.json(getDailyLoads([req.params.id], from, to).get(req.params.id) || []);
+  } catch (error) {
+    console.error('Error fetching training load:', error);
+    res.status(500).json({ error: 'Failed to fetch training load' });
+  }
+});
+
+// GET /api/athletes/:id/compliance?from=YYYY-MM-DD&to=YYYY-MM-DD - Get assigned workouts with how much of each was done
+router.get('/:id/compliance', requireAthleteParamReader, (req, res) => {
+  try {
+    const { from, to } = req.query;
+    if (!isDateParam(from) || !isDateParam(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+
+    const workouts = getWorkoutCompliance([req.params.id], from, to).get(req.params.id) || [];
+    res.json({ ...summarizeCompliance(workouts), workouts });
+  } catch (error) {
+    console.error('Error fetching compliance:', error);
+    res.status(500).json({ error: 'Failed to fetch compliance' });
+  }
+});
+
+// GET /api/athletes/:id/wellness?from=YYYY-MM-DD&to=YYYY-MM-DD - Get the athlete's wellness check-ins, newest first
+router.get('/:id/wellness', requireAthleteParamReader, (req, res) => {
+  try {
+    const { from, to } = req.query;
+    res.json(getAthleteCheckins(req.params.id, {
+      from: typeof from === 'string' ? from : undefined,
+      to: typeof to === 'string' ? to : undefined,
+    }));
+  } catch (error) {
+    console.error('Error fetching wellness check-ins:', error);
+    res.status(500).json({ error: 'Failed to fetch wellness check-ins' });
+  }
+});
+
+// GET /api/athletes/:id/wellness/questions - Get the questions the athlete's teams ask
+router.get('/:id/wellness/questions', requireAthleteParamReader, (req, res) => {
+  try {
+    res.json(getAthleteWellnessQuestions(req.params.id));
+  } catch (error) {
+    console.error('Error fetching wellness questions:', error);
+    res.status(500).json({ error: 'Failed to fetch wellness questions' });
+  }
+});
+
+// POST /api/athletes/:id/wellness - Save the athlete's check-in for a day (replaces that day's answers)
+router.post('/:id/wellness', requireAthlete, (req, res) => {
+  try {
+    if (req.params.id !== res.locals.athleteId) {
+      return res.status(403).json({ error: 'You can only log your own training' });
+    }
+
+    const athlete = db.prepare('SELECT id FROM athletes WHERE id = ?').get(req.params.id);
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+
+    const validationError = validateWellnessCheckin(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    res.json(saveCheckin(req.params.id, req.body));
+  } catch (error) {
+    console.error('Error saving wellness check-in:', error);
+    res.status(500).json({ error: 'Failed to save wellness check-in' });
+  }
+});
+
+// Link a max to its library exercise (by ID, falling back to the name) so it follows renames
+async function resolveMaxInput(body: any): Promise<AthleteMaxInput> {
+  const library = await readExercisesFromCSV();
+  const libraryExercise = resolveLibraryExercise(library, body.exerciseId, body.exerciseName);
+  return {
+    exerciseId: libraryExercise?.id,
+    exerciseName: libraryExercise ? libraryExercise.name : body.exerciseName.trim(),
+    value: body.value,
+    unit: body.unit,
+    type: body.type,
+    date: body.date,
+  };
+}
+
+// GET /api/athletes/:id/maxes - Get an athlete's maxes, newest first
+router.get('/:id/maxes', requireAthleteParamReader, (req, res) => {
+  try {
+    if (!db.prepare('SELECT 1 FROM athletes WHERE id = ?').get(req.params.id)) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+
+    res.json(getAthleteMaxes(req.params.id));
+  } catch (error) {
+    console.error('Error fetching athlete maxes:', error);
+    res.status(500).json({ error: 'Failed to fetch athlete maxes' });
+  }
+});
+
+// POST /api/athletes/:id/maxes - Record a tested or estimated max
+router.post('/:id/maxes', requireCoach, async (req, res) => {
+  try {
+    const validationError = validateMax(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (!db.prepare('SELECT 1 FROM athletes WHERE id = ?').get(req.params.id)) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+
+    const max = createAthleteMax(randomUUID(), req.params.id, await resolveMaxInput(req.body));
+    res.status(201).json(max);
+  } catch (error) {
+    console.error('Error creating athlete max:', error);
+    res.status(500).json({ error: 'Failed to create athlete max' });
+  }
+});
+
+// PUT /api/athletes/:id/maxes/:maxId - Update a max
+router.put('/:id/maxes/:maxId', requireCoach, async (req, res) => {
+  try {
+    const validationError = validateMax(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const max = updateAthleteMax(req.params.id, req.params.maxId, await resolveMaxInput(req.body));
+    if (!max) {
+      return res.status(404).json({ error: 'Max not found' });
+    }
+
+    res.json(max);
+  } catch (error) {
+    console.error('Error updating athlete max:', error);
+    res.status(500).json({ error: 'Failed to update athlete max' });
+  }
+});
+
+// DELETE /api/athletes/:id/maxes/:maxId - Delete a max
+router.delete('/:id/maxes/:maxId', requireCoach, (req, res) => {
+  try {
+    if (!deleteAthleteMax(req.params.id, req.params.maxId)) {
+      return res.status(404).json({ error: 'Max not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting athlete max:', error);
+    res.status(500).json({ error: 'Failed to delete athlete max' });
+  }
+});
+
 export default router;
@@ -1,151 +1,356 @@
 import express from 'express';
 import { getDatabase } from '../services/dbService.js';
+import {
+  DEVICE_SESSION_TTL_SECONDS,
+  LoginMethod,
+  SessionClaims,
+  athleteHasPassword,
+  authenticateAthlete,
+  authenticateCoach,
+  countCoaches,
+  createCoach,
+  getCoachById,
+  setAthletePassword,
+  signSessionToken,
+  validatePassword,
+  validateSetupSecret,
+  verifyAthletePassword,
+} from '../services/authService.js';
+import { isEmailAvailable } from '../services/emailService.js';
+import { findLoginToken } from '../services/loginTokenService.js';
+import { authenticateByName, authenticateByNameSlug } from '../services/nameLoginService.js';
+import { confirmPasswordReset, requestPasswordReset } from '../services/passwordResetService.js';
+import { getSession, requireAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 const db = getDatabase();
 
-// Helper function to slugify names (matches frontend logic)
-function slugifyName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/[^a-z0-9-]/g, '');
+function athleteUser(athlete: { id: string; name: string; email: string }) {
+  return { id: athlete.id, name: athlete.name, email: athlete.email, role: 'user' as const };
 }
 
-// GET /api/auth/by-name?player=Name - Login by name (query-based auth)
-router.get('/by-name', (req, res) => {
+function coachUser(coach: { id: string; name: string; email: string }) {
+  return { id: coach.id, name: coach.name, email: coach.email, role: 'admin' as const };
+}
+
+// The signed-in user and their session token
+function withSessionToken(
+  user: ReturnType<typeof athleteUser> | ReturnType<typeof coachUser>,
+  method: LoginMethod
+) {
+  return { user, token: signSessionToken(user, method) };
+}
+
+// Setting a first password turns a session into lasting email and password access, so it takes a
+// session from a login link (or a password); name links are often shared and may have no PIN.
+// Athletes who only have a name link can use the emailed reset code instead.
+function canSetFirstPassword(session: SessionClaims) {
+  return session.method === 'link' || session.method === 'password';
+}
+
+// Login with a name link, with the athlete's PIN when they have one. Old path links carry the
+// name's slug instead.
+function loginByName(
+  name: string | undefined,
+  pin: string | undefined,
+  res: express.Response,
+  { bySlug = false } = {}
+) {
   try {
-    const playerName = req.query.player as string;
-    
-    if (!playerName) {
+    if (!name) {
       return res.status(400).json({ error: 'Player name is required' });
     }
     
-    // Decode the player name (handle + as spaces)
-    const decodedName = decodeURIComponent(playerName.replace(/\+/g, '%20'));
-    
-    // Get all athletes and find by exact name match (case-insensitive)
-    const allAthletes = db.prepare('SELECT * FROM athletes').all() as any[];
-    const athlete = allAthletes.find(a => 
-      a.name.toLowerCase() === decodedName.toLowerCase()
-    );
-    
-    if (!athlete) {
-      return res.status(401).json({ error: 'Athlete not found' });
+    const result = bySlug ? authenticateByNameSlug(name) : authenticateByName(name, pin);
+    if (!('athlete' in result)) {
+      return res.status(result.status).json({ error: result.error, pinRequired: result.pinRequired });
     }
     
-    // Return athlete data (without password)
-    const { password_hash, login_token, ...athleteWithoutPassword } = athlete;
-    
-    res.json({
-      user: {
-        id: athlete.id,
-        name: athlete.name,
-        email: athlete.email,
-        role: 'user' as const,
-      },
-    });
+    res.json(withSessionToken(athleteUser(result.athlete), 'name'));
   } catch (error) {
     console.error('Error during name-based login:', error);
     res.status(500).json({ error: 'Failed to login' });
   }
+}
+
+// Names in query strings arrive with + for spaces
+function decodePlayerName(player: unknown): string | undefined {
+  if (typeof player !== 'string') return undefined;
+  try {
+    return decodeURIComponent(player.replace(/\+/g, '%20'));
+  } catch {
+    return player;
+  }
+}
+
+// GET /api/auth/by-name?player=Name - Login by name (query-based auth), for athletes without a PIN
+router.get('/by-name', (req, res) => loginByName(decodePlayerName(req.query.player), undefined, res));
+
+// POST /api/auth/by-name - Login by name with the athlete's PIN (body: player, pin)
+router.post('/by-name', (req, res) => {
+  const { player, pin } = req.body || {};
+  loginByName(
+    typeof player === 'string' ? player : undefined,
+    typeof pin === 'string' ? pin : undefined,
+    res
+  );
 });
 
-// GET /api/auth/by-name/:name - Login by name (path-based auth) - kept for backward compatibility
-router.get('/by-name/:name', (req, res) => {
+// GET /api/auth/by-name/:name - Login by name (path-based auth) - kept for backward compatibility.
+// The path is the slugified name (see slugifyName).
+router.get('/by-name/:name', (req, res) => loginByName(req.params.name, undefined, res, { bySlug: true }));
+
+// Login with an athlete's login-link token. Every use is logged; a single-use (magic) link is used
+// up here and traded for a longer device session instead.
+function loginWithToken(token: string | undefined, res: express.Response) {
   try {
-    const { name } = req.params;
-    const decodedName = decodeURIComponent(name);
-    
-    if (!decodedName) {
-      return res.status(400).json({ error: 'Name is required' });
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
     }
     
-    // Get all athletes and find by slugified name match
-    const allAthletes = db.prepare('SELECT * FROM athletes').all() as any[];
-    const athlete = allAthletes.find(a => {
-      const slug = slugifyName(a.name);
-      return slug === decodedName.toLowerCase();
-    });
+    const link = findLoginToken(token, { redeem: true });
+    const athlete: any = link && db.prepare('SELECT * FROM athletes WHERE id = ?').get(link.athleteId);
     
     if (!athlete) {
-      return res.status(401).json({ error: 'Athlete not found' });
+      return res.status(401).json({ error: 'Invalid or expired login link' });
     }
     
-    // Return athlete data (without password)
-    const { password_hash, login_token, ...athleteWithoutPassword } = athlete;
-    
-    res.json({
-      user: {
-        id: athlete.id,
-        name: athlete.name,
-        email: athlete.email,
-        role: 'user' as const,
-      },
-    });
+    const user = athleteUser(athlete);
+    if (link!.singleUse) {
+      return res.json({ user, token: signSessionToken(user, 'link', DEVICE_SESSION_TTL_SECONDS) });
+    }
+    res.json(withSessionToken(user, 'link'));
   } catch (error) {
-    console.error('Error during name-based login:', error);
+    console.error('Error during login:', error);
     res.status(500).json({ error: 'Failed to login' });
   }
-});
+}
 
 // POST /api/auth/login - Login with token
-router.post('/login', (req, res) => {
+router.post('/login', (req, res) => loginWithToken(req.body?.token, res));
+
+// GET /api/auth/login?token=xxx - Login with token in query params (what login links use)
+router.get('/login', (req, res) => loginWithToken(req.query.token as string | undefined, res));
+
+// GET /api/auth/validate/:token - Check a login link is still valid, without using it up
+router.get('/validate/:token', (req, res) => {
   try {
-    const { token } = req.body;
-    
-    if (!token) {
-      return res.status(400).json({ error: 'Token is required' });
-    }
+    const { token } = req.params;
     
-    // Find athlete by login token
-    const athlete: any = db.prepare('SELECT * FROM athletes WHERE login_token = ?').get(token);
+    const link = findLoginToken(token);
+    const athlete: any = link && db.prepare('SELECT * FROM athletes WHERE id = ?').get(link.athleteId);
     
     if (!athlete) {
-      return res.status(401).json({ error: 'Invalid token' });
+      return res.status(401).json({ error: 'Invalid or expired login link' });
     }
     
-    // Return athlete data (without password)
-    const { password_hash, ...athleteWithoutPassword } = athlete;
-    
-    res.json({
-      user: {
-        id: athlete.id,
-        name: athlete.name,
-        email: athlete.email,
-        role: 'user' as const,
-      },
-    });
+    res.json({ user: athleteUser(athlete) });
   } catch (error) {
-    console.error('Error during login:', error);
+    console.error('Error validating token:', error);
+    res.status(500).json({ error: 'Failed to validate token' });
+  }
+});
+
+// POST /api/auth/coach-login - Coach login with email and password
+router.post('/coach-login', (req, res) => {
+  try {
+    const { email, password } = req.body || {};
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const result = authenticateCoach(email, password);
+    if (!('account' in result)) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json(withSessionToken(coachUser(result.account), 'password'));
+  } catch (error) {
+    console.error('Error during coach login:', error);
     res.status(500).json({ error: 'Failed to login' });
   }
 });
 
-// GET /api/auth/validate - Validate token (for checking if user is still logged in)
-router.get('/validate/:token', (req, res) => {
+// POST /api/auth/athlete-login - Athlete login with email and the password they've set
+router.post('/athlete-login', (req, res) => {
   try {
-    const { token } = req.params;
-    
-    const athlete: any = db.prepare('SELECT * FROM athletes WHERE login_token = ?').get(token);
-    
+    const { email, password } = req.body || {};
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const result = authenticateAthlete(email, password);
+    if (!('account' in result)) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json(withSessionToken(athleteUser(result.account), 'password'));
+  } catch (error) {
+    console.error('Error during athlete login:', error);
+    res.status(500).json({ error: 'Failed to login' });
+  }
+});
+
+// PUT /api/auth/password - Signed-in athlete sets their password (currentPassword is needed to change one).
+//   Their other sessions end, and this one is replaced by a password session.
+router.put('/password', requireAuth, (req, res) => {
+  try {
+    const session = res.locals.session;
+    if (session.role !== 'user') {
+      return res.status(403).json({ error: 'Only athletes can set a password here' });
+    }
+
+    const { currentPassword, newPassword } = req.body || {};
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+    if (athleteHasPassword(session.sub)) {
+      if (typeof currentPassword !== 'string' || !verifyAthletePassword(session.sub, currentPassword)) {
+        return res.status(403).json({ error: 'Current password is incorrect' });
+      }
+    } else if (!canSetFirstPassword(session)) {
+      return res.status(403).json({
+        error: 'Open your login link to set a password, or reset it with a code sent to your email',
+      });
+    }
+
+    setAthletePassword(session.sub, newPassword);
+    const athlete: any = db.prepare('SELECT id, name, email FROM athletes WHERE id = ?').get(session.sub);
+    res.json(withSessionToken(athleteUser(athlete), 'password'));
+  } catch (error) {
+    console.error('Error setting password:', error);
+    res.status(500).json({ error: 'Failed to set password' });
+  }
+});
+
+// POST /api/auth/password/reset - Email a password reset code (same response whether or not the email has an account)
+router.post('/password/reset', async (req, res) => {
+  try {
+    const { email } = req.body || {};
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+    if (!isEmailAvailable()) {
+      return res.status(503).json({ error: 'Password reset by email is not set up on this server' });
+    }
+
+    await requestPasswordReset(email);
+    res.status(202).json({ message: 'If an account uses that email, a reset code is on its way' });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ error: 'Failed to send reset code' });
+  }
+});
+
+// POST /api/auth/password/reset/confirm - Set a new password with an emailed code, and sign in
+router.post('/password/reset/confirm', (req, res) => {
+  try {
+    const { email, code, newPassword } = req.body || {};
+    if (typeof email !== 'string' || typeof code !== 'string' || !email.trim() || !code.trim()) {
+      return res.status(400).json({ error: 'Email and code are required' });
+    }
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const athlete = confirmPasswordReset(email, code, newPassword);
     if (!athlete) {
-      return res.status(401).json({ error: 'Invalid token' });
+      return res.status(400).json({ error: 'Invalid or expired code' });
     }
-    
-    const { password_hash, ...athleteWithoutPassword } = athlete;
-    
+
+    res.json(withSessionToken(athleteUser(athlete), 'password'));
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// GET /api/auth/me - The user signed in with the request's session token
+router.get('/me', (req, res) => {
+  try {
+    const session = getSession(req);
+    if (!session) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (session.role === 'admin') {
+      const coach = getCoachById(session.sub);
+      if (!coach) {
+        return res.status(401).json({ error: 'Account no longer exists' });
+      }
+      return res.json({ user: coachUser(coach) });
+    }
+
+    const athlete: any = db.prepare('SELECT id, name, email, password_hash FROM athletes WHERE id = ?').get(session.sub);
+    if (!athlete) {
+      return res.status(401).json({ error: 'Account no longer exists' });
+    }
+    // Whether the athlete can also sign in with email and password, and whether this session may set one
     res.json({
-      user: {
-        id: athlete.id,
-        name: athlete.name,
-        email: athlete.email,
-        role: 'user' as const,
-      },
+      user: athleteUser(athlete),
+      hasPassword: !!athlete.password_hash,
+      canSetPassword: !!athlete.password_hash || canSetFirstPassword(session),
     });
   } catch (error) {
-    console.error('Error validating token:', error);
-    res.status(500).json({ error: 'Failed to validate token' });
+    console.error('Error fetching session user:', error);
+    res.status(500).json({ error: 'Failed to fetch session' });
+  }
+});
+
+// GET /api/auth/coaches - Whether the first coach account still needs to be created
+router.get('/coaches', (req, res) => {
+  try {
+    res.json({ needsSetup: countCoaches() === 0 });
+  } catch (error) {
+    console.error('Error checking coach accounts:', error);
+    res.status(500).json({ error: 'Failed to check coach accounts' });
+  }
+});
+
+// POST /api/auth/coaches - Create a coach account. While there are no coaches this is first-run setup,
+// which takes the COACH_SETUP_SECRET code (setupSecret) and signs the new coach in; after that a
+// signed-in coach has to add others.
+router.post('/coaches', (req, res) => {
+  try {
+    const { name, email, password, setupSecret } = req.body || {};
+    const firstRun = countCoaches() === 0;
+    if (firstRun) {
+      const setupError = validateSetupSecret(setupSecret);
+      if (setupError) {
+        return res.status(403).json({ error: setupError });
+      }
+    } else {
+      const session = getSession(req);
+      if (!session) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      if (session.role !== 'admin') {
+        return res.status(403).json({ error: 'Coach access required' });
+      }
+    }
+
+    if (typeof name !== 'string' || typeof email !== 'string' || !name.trim() || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Name, email and password are required' });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const existing: any = db.prepare('SELECT id FROM coaches WHERE email = ?').get(email.trim().toLowerCase());
+    if (existing) {
+      return res.status(409).json({ error: 'A coach with this email already exists' });
+    }
+
+    const coach = createCoach({ name, email, password });
+    res.status(201).json(firstRun ? withSessionToken(coachUser(coach), 'password') : { user: coachUser(coach) });
+  } catch (error) {
+    console.error('Error creating coach account:', error);
+    res.status(500).json({ error: 'Failed to create coach account' });
   }
 });
 
@@ -1,5 +1,7 @@
 import express from 'express';
 import { readExercisesFromCSV, writeExercisesToCSV, Exercise } from '../services/csvService.js';
+import { propagateExerciseRename, unlinkDeletedExercise } from '../services/dbService.js';
+import { requireCoach } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -32,7 +34,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // POST /api/exercises - Create new exercise
-router.post('/', async (req, res) => {
+router.post('/', requireCoach, async (req, res) => {
   try {
     const { name, videoUrl, category, instructions } = req.body;
     
@@ -67,7 +69,7 @@ router.post('/', async (req, res) => {
 });
 
 // PUT /api/exercises/:id - Update exercise
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireCoach, async (req, res) => {
   try {
     const { name, videoUrl, category, instructions } = req.body;
     const exerciseId = req.params.id;
@@ -90,6 +92,9 @@ router.put('/:id', async (req, res) => {
     
     await writeExercisesToCSV(exercises);
     
+    // Workouts reference the library by ID, so renames show up everywhere
+    propagateExerciseRename(exerciseId, exercises[exerciseIndex].name);
+    
     res.json(exercises[exerciseIndex]);
   } catch (error) {
     console.error('Error updating exercise:', error);
@@ -98,7 +103,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // DELETE /api/exercises/:id - Delete exercise
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireCoach, async (req, res) => {
   try {
     const exerciseId = req.params.id;
     
@@ -109,13 +114,9 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Exercise not found' });
     }
     
-    // Re-index IDs to be sequential
-    const reindexedExercises = filteredExercises.map((ex, index) => ({
-      ...ex,
-      id: (index + 1).toString(),
-    }));
-    
-    await writeExercisesToCSV(reindexedExercises);
+    // IDs stay as they are: workouts, maxes and PRs link to the library by ID
+    await writeExercisesToCSV(filteredExercises);
+    unlinkDeletedExercise(exerciseId);
     
     res.status(204).send();
   } catch (error) {
@@ -0,0 +1,143 @@
+import express from 'express';
+import { getDatabase } from '../services/dbService.js';
+import { readExercisesFromCSV } from '../services/csvService.js';
+import {
+  assignProgram,
+  deleteProgram,
+  getAllPrograms,
+  getProgram,
+  saveProgram,
+  validateAssignment,
+  validateProgram,
+} from '../services/programService.js';
+import { requireCoach } from '../middleware/auth.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+// Day grids may only point at workouts that exist
+function findMissingWorkout(days: Array<{ workoutId: string }> = []): string | undefined {
+  const exists = db.prepare('SELECT 1 FROM workouts WHERE id = ?');
+  return days.find((d) => d.workoutId && !exists.get(d.workoutId))?.workoutId;
+}
+
+// GET /api/programs - Get all programs with their day grids
+router.get('/', (req, res) => {
+  try {
+    res.json(getAllPrograms());
+  } catch (error) {
+    console.error('Error fetching programs:', error);
+    res.status(500).json({ error: 'Failed to fetch programs' });
+  }
+});
+
+// GET /api/programs/:id - Get single program
+router.get('/:id', (req, res) => {
+  try {
+    const program = getProgram(req.params.id);
+
+    if (!program) {
+      return res.status(404).json({ error: 'Program not found' });
+    }
+
+    res.json(program);
+  } catch (error) {
+    console.error('Error fetching program:', error);
+    res.status(500).json({ error: 'Failed to fetch program' });
+  }
+});
+
+// POST /api/programs - Create new program
+router.post('/', requireCoach, (req, res) => {
+  try {
+    const validationError = validateProgram(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (findMissingWorkout(req.body.days)) {
+      return res.status(400).json({ error: 'A program day references a workout that does not exist' });
+    }
+
+    const program = saveProgram(Date.now().toString(), req.body, true);
+    res.status(201).json(program);
+  } catch (error) {
+    console.error('Error creating program:', error);
+    res.status(500).json({ error: 'Failed to create program' });
+  }
+});
+
+// PUT /api/programs/:id - Update program and replace its day grid
+router.put('/:id', requireCoach, (req, res) => {
+  try {
+    const validationError = validateProgram(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (findMissingWorkout(req.body.days)) {
+      return res.status(400).json({ error: 'A program day references a workout that does not exist' });
+    }
+
+    const program = saveProgram(req.params.id, req.body);
+    if (!program) {
+      return res.status(404).json({ error: 'Program not found' });
+    }
+
+    res.json(program);
+  } catch (error) {
+    console.error('Error updating program:', error);
+    res.status(500).json({ error: 'Failed to update program' });
+  }
+});
+
+// DELETE /api/programs/:id - Delete program (materialized workouts are kept)
+router.delete('/:id', requireCoach, (req, res) => {
+  try {
+    if (!deleteProgram(req.params.id)) {
+      return res.status(404).json({ error: 'Program not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting program:', error);
+    res.status(500).json({ error: 'Failed to delete program' });
+  }
+});
+
+// POST /api/programs/:id/assign - Assign to an athlete or team, creating dated workouts
+router.post('/:id/assign', requireCoach, async (req, res) => {
+  try {
+    const program = getProgram(req.params.id);
+    if (!program) {
+      return res.status(404).json({ error: 'Program not found' });
+    }
+
+    const validationError = validateAssignment(program, req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { athleteId, teamId, startDate, weekdays } = req.body;
+    if (athleteId && !db.prepare('SELECT 1 FROM athletes WHERE id = ?').get(athleteId)) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    if (teamId && !db.prepare('SELECT 1 FROM teams WHERE id = ?').get(teamId)) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const library = await readExercisesFromCSV();
+    const assignment = assignProgram(program, { athleteId, teamId, startDate, weekdays }, library);
+    if (!assignment) {
+      return res.status(400).json({ error: 'Training days must fall within a single week, in day order' });
+    }
+
+    res.status(201).json(assignment);
+  } catch (error: any) {
+    console.error('Error assigning program:', error);
+    res.status(500).json({
+      error: 'Failed to assign program',
+      message: error?.message || String(error)
+    });
+  }
+});
+
+export default router;
@@ -1,50 +1,18 @@
 import express from 'express';
-import { getDatabase } from '../services/dbService.js';
+import { getDatabase, getWorkoutWithBlocks } from '../services/dbService.js';
+import {
+  getTeamWellness,
+  getTeamWellnessQuestions,
+  setTeamWellnessQuestions,
+  validateWellnessQuestions,
+} from '../services/wellnessService.js';
+import { getDailyLoads, isDateParam } from '../services/loadService.js';
+import { getTeamCompliance } from '../services/complianceService.js';
+import { requireCoach } from '../middleware/auth.js';
 
 const router = express.Router();
 const db = getDatabase();
 
-// Helper function to get workout with blocks and exercises
-function getWorkoutWithBlocks(workoutId: string) {
-  const workout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-  if (!workout) return null;
-  
-  const blocks = db.prepare(`
-    SELECT * FROM blocks
-    WHERE workout_id = ?
-    ORDER BY order_index ASC
-  `).all(workoutId);
-  
-  const blocksWithExercises = blocks.map((block: any) => {
-    const exercises = db.prepare(`
-      SELECT * FROM block_exercises
-      WHERE block_id = ?
-      ORDER BY order_index ASC
-    `).all(block.id);
-    
-    return {
-      id: block.id,
-      name: block.name,
-      exercises: exercises.map((ex: any) => ({
-        id: ex.id,
-        exerciseName: ex.exercise_name,
-        sets: ex.sets,
-        reps: ex.reps,
-        weight: ex.weight || undefined,
-      })),
-    };
-  });
-  
-  return {
-    id: workout.id,
-    name: workout.name,
-    date: workout.date,
-    athleteId: workout.athlete_id || undefined,
-    teamId: workout.team_id || undefined,
-    blocks: blocksWithExercises,
-  };
-}
-
 // GET /api/teams - Get all teams with their athletes
 router.get('/', (req, res) => {
   try {
@@ -67,6 +35,7 @@ router.get('/', (req, res) => {
         id: team.id,
         name: team.name,
         description: team.description,
+        nameLoginEnabled: team.name_login_enabled !== 0,
         createdAt: team.created_at,
         athletes: athletes.map((athlete: any) => ({
           id: athlete.id,
@@ -110,6 +79,7 @@ router.get('/:id', (req, res) => {
       id: team.id,
       name: team.name,
       description: team.description,
+      nameLoginEnabled: team.name_login_enabled !== 0,
       createdAt: team.created_at,
       athletes: athletes.map((athlete: any) => ({
         id: athlete.id,
@@ -126,7 +96,7 @@ router.get('/:id', (req, res) => {
 });
 
 // POST /api/teams - Create new team
-router.post('/', (req, res) => {
+router.post('/', requireCoach, (req, res) => {
   try {
     const { name, description } = req.body;
     
@@ -147,6 +117,7 @@ router.post('/', (req, res) => {
       id: newTeam.id,
       name: newTeam.name,
       description: newTeam.description,
+      nameLoginEnabled: newTeam.name_login_enabled !== 0,
       createdAt: newTeam.created_at,
       athletes: [],
       workouts: [],
@@ -158,10 +129,14 @@ router.post('/', (req, res) => {
 });
 
 // PUT /api/teams/:id - Update team
-router.put('/:id', (req, res) => {
+router.put('/:id', requireCoach, (req, res) => {
   try {
     const teamId = req.params.id;
-    const { name, description } = req.body;
+    const { name, description, nameLoginEnabled } = req.body;
+    
+    if (nameLoginEnabled !== undefined && typeof nameLoginEnabled !== 'boolean') {
+      return res.status(400).json({ error: 'nameLoginEnabled must be true or false' });
+    }
     
     const existingTeam: any = db.prepare('SELECT * FROM teams WHERE id = ?').get(teamId);
     if (!existingTeam) {
@@ -179,6 +154,11 @@ router.put('/:id', (req, res) => {
       updates.push('description = ?');
       values.push(description);
     }
+    // Whether the team's athletes can sign in with name links
+    if (nameLoginEnabled !== undefined) {
+      updates.push('name_login_enabled = ?');
+      values.push(nameLoginEnabled ? 1 : 0);
+    }
     
     if (updates.length > 0) {
       values.push(teamId);
@@ -206,6 +186,7 @@ router.put('/:id', (req, res) => {
       id: updatedTeam.id,
       name: updatedTeam.name,
       description: updatedTeam.description,
+      nameLoginEnabled: updatedTeam.name_login_enabled !== 0,
       createdAt: updatedTeam.created_at,
       athletes: athletes.map((athlete: any) => ({
         id: athlete.id,
@@ -222,7 +203,7 @@ router.put('/:id', (req, res) => {
 });
 
 // DELETE /api/teams/:id - Delete team
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requireCoach, (req, res) => {
   try {
     const teamId = req.params.id;
     
@@ -240,7 +221,7 @@ router.delete('/:id', (req, res) => {
 });
 
 // POST /api/teams/:id/athletes - Add athlete to team
-router.post('/:id/athletes', (req, res) => {
+router.post('/:id/athletes', requireCoach, (req, res) => {
   try {
     const teamId = req.params.id;
     const { athleteId } = req.body;
@@ -285,7 +266,7 @@ router.post('/:id/athletes', (req, res) => {
 });
 
 // DELETE /api/teams/:id/athletes/:athleteId - Remove athlete from team
-router.delete('/:id/athletes/:athleteId', (req, res) => {
+router.delete('/:id/athletes/:athleteId', requireCoach, (req, res) => {
   try {
     const { id: teamId, athleteId } = req.params;
     
@@ -305,4 +286,99 @@ router.delete('/:id/athletes/:athleteId', (req, res) => {
   }
 });
 
+// GET /api/teams/:id/wellness?date=YYYY-MM-DD - Get each athlete's check-in for a day (default today)
+router.get('/:id/wellness', requireCoach, (req, res) => {
+  try {
+    const questions = getTeamWellnessQuestions(req.params.id);
+    if (!questions) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const { date } = req.query;
+    if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    }
+    const day = typeof date === 'string' ? date : new Date().toISOString().split('T')[0];
+
+    res.json({ date: day, questions, athletes: getTeamWellness(req.params.id, day) });
+  } catch (error) {
+    console.error('Error fetching team wellness:', error);
+    res.status(500).json({ error: 'Failed to fetch team wellness' });
+  }
+});
+
+// GET /api/teams/:id/load?from=YYYY-MM-DD&to=YYYY-MM-DD - Get daily session RPE load and tonnage for each athlete
+router.get('/:id/load', requireCoach, (req, res) => {
+  try {
+    const team = db.prepare('SELECT id FROM teams WHERE id = ?').get(req.params.id);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const { from, to } = req.query;
+    if (!isDateParam(from) || !isDateParam(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+
+    const athletes: any[] = db.prepare(`
+      SELECT a.id, a.name
+      FROM athletes a
+      INNER JOIN team_athletes ta ON a.id = ta.athlete_id
+      WHERE ta.team_id = ?
+      ORDER BY a.name COLLATE NOCASE
+    `).all(req.params.id);
+    const loads = getDailyLoads(athletes.map((a) => a.id), from, to);
+
+    res.json({
+      from,
+      to,
+      athletes: athletes.map((a) => ({ athleteId: a.id, athleteName: a.name, days: loads.get(a.id) || [] })),
+    });
+  } catch (error) {
+    console.error('Error fetching team training load:', error);
+    res.status(500).json({ error: 'Failed to fetch team training load' });
+  }
+});
+
+// GET /api/teams/:id/compliance?from=YYYY-MM-DD&to=YYYY-MM-DD - Get each athlete's completed workouts, sets and missed sessions
+router.get('/:id/compliance', requireCoach, (req, res) => {
+  try {
+    const team = db.prepare('SELECT id FROM teams WHERE id = ?').get(req.params.id);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const { from, to } = req.query;
+    if (!isDateParam(from) || !isDateParam(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+
+    res.json({ from, to, athletes: getTeamCompliance(req.params.id, from, to) });
+  } catch (error) {
+    console.error('Error fetching team compliance:', error);
+    res.status(500).json({ error: 'Failed to fetch team compliance' });
+  }
+});
+
+// PUT /api/teams/:id/wellness/questions - Set which wellness questions the team's athletes are asked
+router.put('/:id/wellness/questions', requireCoach, (req, res) => {
+  try {
+    if (!getTeamWellnessQuestions(req.params.id)) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const { questions } = req.body;
+    const validationError = validateWellnessQuestions(questions);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    setTeamWellnessQuestions(req.params.id, questions);
+    res.json(getTeamWellnessQuestions(req.params.id));
+  } catch (error) {
+    console.error('Error updating wellness questions:', error);
+    res.status(500).json({ error: 'Failed to update wellness questions' });
+  }
+});
+
 export default router;
@@ -3,6 +3,7 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import { fileURLToPath } from 'url';
+import { requireCoach } from '../middleware/auth.js';
 
 const router = express.Router();
 const __filename = fileURLToPath(import.meta.url);
@@ -56,7 +57,7 @@ const upload = multer({
 });
 
 // POST /api/upload/video - Upload video file
-router.post('/video', upload.single('video'), (req, res) => {
+router.post('/video', requireCoach, upload.single('video'), (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No video file uploaded' });
@@ -1,5 +1,12 @@
 import express from 'express';
-import { getDatabase } from '../services/dbService.js';
+import { getDatabase, saveWorkout, mapBlockRow, ExerciseGroup } from '../services/dbService.js';
+import { ExercisePrescription } from '../services/prescriptionService.js';
+import { readExercisesFromCSV } from '../services/csvService.js';
+import { detectPersonalRecords } from '../services/recordService.js';
+import { getIdempotentResponse, saveIdempotentResponse } from '../services/idempotencyService.js';
+import { validateSessionFeedback, saveSessionFeedback } from '../services/sessionService.js';
+import { checkLoggingAccess, getAssignedWorkoutIds, getCompletionStatuses } from '../services/completionService.js';
+import { authorizeAthleteRead, requireAthlete, requireAthleteReader, requireCoach } from '../middleware/auth.js';
 
 const router = express.Router();
 const db = getDatabase();
@@ -7,12 +14,18 @@ const db = getDatabase();
 interface Block {
   id: string;
   name: string;
+  groups?: ExerciseGroup[];
+  restSeconds?: number;
   exercises: Array<{
     id: string;
     exerciseName: string;
     sets: number;
     reps: string;
     weight?: string;
+    prescription?: ExercisePrescription;
+    groupId?: string;
+    restSeconds?: number;
+    exerciseId?: string;
   }>;
 }
 
@@ -25,6 +38,24 @@ interface Workout {
   blocks: Block[];
 }
 
+// Returns an error message when a logged set's optional effort is out of range, or null.
+// RPE is 6-10 in half steps; RIR is a whole number of reps.
+function validateSetEffort(sets: any[]): string | null {
+  for (const set of sets) {
+    if (set.rpe !== undefined && set.rpe !== null) {
+      if (typeof set.rpe !== 'number' || set.rpe < 6 || set.rpe > 10 || !Number.isInteger(set.rpe * 2)) {
+        return 'RPE must be between 6 and 10 in half steps';
+      }
+    }
+    if (set.rir !== undefined && set.rir !== null) {
+      if (!Number.isInteger(set.rir) || set.rir < 0 || set.rir > 10) {
+        return 'RIR must be a whole number between 0 and 10';
+      }
+    }
+  }
+  return null;
+}
+
 // Helper function to check and mark workout as complete
 function checkAndMarkWorkoutComplete(workoutId: string, athleteId: string) {
   try {
@@ -71,16 +102,17 @@ function checkAndMarkWorkoutComplete(workoutId: string, athleteId: string) {
     
     // If all exercises are completed, mark workout as complete
     if (totalExercises > 0 && completedExercises === totalExercises) {
-      // Use INSERT OR REPLACE to handle both new and existing completions
+      // Upsert rather than replace so session feedback on an existing completion is kept
       db.prepare(`
-        INSERT OR REPLACE INTO workout_completions (workout_id, athlete_id, completed_at)
-        VALUES (?, ?, datetime('now'))
+        INSERT INTO workout_completions (workout_id, athlete_id, completed_at, completed)
+        VALUES (?, ?, datetime('now'), 1)
+        ON CONFLICT(workout_id, athlete_id) DO UPDATE SET completed_at = excluded.completed_at, completed = 1
       `).run(workoutId, athleteId);
       return true;
     } else {
-      // If not complete, remove from completions table (in case it was previously complete)
+      // If not complete, unmark it (in case it was previously complete), keeping any session feedback
       db.prepare(`
-        DELETE FROM workout_completions
+        UPDATE workout_completions SET completed = 0
         WHERE workout_id = ? AND athlete_id = ?
       `).run(workoutId, athleteId);
       return false;
@@ -92,9 +124,24 @@ function checkAndMarkWorkoutComplete(workoutId: string, athleteId: string) {
 }
 
 // GET /api/workouts - Get all workouts (optionally filter by athlete, team, or templates only)
+// GET /api/workouts?completionStatus=true&athleteId=xxx&from=YYYY-MM-DD&to=YYYY-MM-DD (or &workoutIds=a,b) -
+//   Get an athlete's per-workout and per-exercise completion in one request
 router.get('/', (req, res) => {
   try {
     const { athleteId, teamId, templatesOnly } = req.query;
+
+    if (req.query.completionStatus === 'true') {
+      const completionAthleteId = authorizeAthleteRead(req, res);
+      if (!completionAthleteId) return;
+      const { workoutIds, from, to } = req.query;
+      const ids = typeof workoutIds === 'string'
+        ? workoutIds.split(',').filter(Boolean)
+        : getAssignedWorkoutIds(completionAthleteId, {
+            from: typeof from === 'string' ? from : undefined,
+            to: typeof to === 'string' ? to : undefined,
+          });
+      return res.json(getCompletionStatuses(ids, completionAthleteId));
+    }
     
     let query = 'SELECT * FROM workouts WHERE 1=1';
     const params: any[] = [];
@@ -146,17 +193,7 @@ router.get('/', (req, res) => {
           ORDER BY order_index ASC
         `).all(block.id);
         
-        return {
-          id: block.id,
-          name: block.name,
-          exercises: exercises.map((ex: any) => ({
-            id: ex.id,
-            exerciseName: ex.exercise_name,
-            sets: ex.sets,
-            reps: ex.reps,
-            weight: ex.weight || undefined,
-          })),
-        };
+        return mapBlockRow(block, exercises);
       });
       
       return {
@@ -198,17 +235,7 @@ router.get('/:id', (req, res) => {
         ORDER BY order_index ASC
       `).all(block.id);
       
-      return {
-        id: block.id,
-        name: block.name,
-        exercises: exercises.map((ex: any) => ({
-          id: ex.id,
-          exerciseName: ex.exercise_name,
-          sets: ex.sets,
-          reps: ex.reps,
-          weight: ex.weight || undefined,
-        })),
-      };
+      return mapBlockRow(block, exercises);
     });
     
     res.json({
@@ -226,10 +253,10 @@ router.get('/:id', (req, res) => {
 });
 
 // POST /api/workouts - Create new workout
-router.post('/', (req, res) => {
+router.post('/', requireCoach, async (req, res) => {
   try {
     const workout: Workout = req.body;
-    const { name, date, athleteId, teamId, blocks } = workout;
+    const { name, date } = workout;
     
     // Allow templates (both athleteId and teamId can be null)
     if (!name || !date) {
@@ -238,84 +265,11 @@ router.post('/', (req, res) => {
     
     const workoutId = Date.now().toString();
     
-    // Use transaction to ensure all-or-nothing
-    const transaction = db.transaction(() => {
-      // Insert workout
-      db.prepare(`
-        INSERT INTO workouts (id, name, date, athlete_id, team_id)
-        VALUES (?, ?, ?, ?, ?)
-      `).run(workoutId, name, date, athleteId || null, teamId || null);
-      
-      // Insert blocks and exercises
-      if (blocks && blocks.length > 0) {
-        blocks.forEach((block, blockIndex) => {
-          const blockId = `${workoutId}_block_${blockIndex}`;
-          
-          db.prepare(`
-            INSERT INTO blocks (id, workout_id, name, order_index)
-            VALUES (?, ?, ?, ?)
-          `).run(blockId, workoutId, block.name, blockIndex);
-          
-          if (block.exercises && block.exercises.length > 0) {
-            block.exercises.forEach((exercise, exerciseIndex) => {
-              const exerciseId = `${blockId}_ex_${exerciseIndex}`;
-              
-              db.prepare(`
-                INSERT INTO block_exercises (id, block_id, exercise_name, sets, reps, weight, order_index)
-                VALUES (?, ?, ?, ?, ?, ?, ?)
-              `).run(
-                exerciseId,
-                blockId,
-                exercise.exerciseName,
-                exercise.sets,
-                exercise.reps,
-                exercise.weight || null,
-                exerciseIndex
-              );
-            });
-          }
-        });
-      }
-    });
-    
-    transaction();
+    // Insert workout, blocks and exercises all-or-nothing
+    const library = await readExercisesFromCSV();
+    const createdWorkout = saveWorkout(workoutId, workout, library, true);
     
-    // Fetch and return the created workout
-    const createdWorkout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-    const blocks_data = db.prepare(`
-      SELECT * FROM blocks
-      WHERE workout_id = ?
-      ORDER BY order_index ASC
-    `).all(workoutId);
-    
-    const blocksWithExercises = blocks_data.map((block: any) => {
-      const exercises = db.prepare(`
-        SELECT * FROM block_exercises
-        WHERE block_id = ?
-        ORDER BY order_index ASC
-      `).all(block.id);
-      
-      return {
-        id: block.id,
-        name: block.name,
-        exercises: exercises.map((ex: any) => ({
-          id: ex.id,
-          exerciseName: ex.exercise_name,
-          sets: ex.sets,
-          reps: ex.reps,
-          weight: ex.weight || undefined,
-        })),
-      };
-    });
-    
-    res.status(201).json({
-      id: createdWorkout.id,
-      name: createdWorkout.name,
-      date: createdWorkout.date,
-      athleteId: createdWorkout.athlete_id || undefined,
-      teamId: createdWorkout.team_id || undefined,
-      blocks: blocksWithExercises,
-    });
+    res.status(201).json(createdWorkout);
   } catch (error: any) {
     console.error('Error creating workout:', error);
     res.status(500).json({ 
@@ -326,112 +280,35 @@ router.post('/', (req, res) => {
 });
 
 // PUT /api/workouts/:id - Update workout
-router.put('/:id', (req, res) => {
+router.put('/:id', requireCoach, async (req, res) => {
   try {
     const workoutId = req.params.id;
     const workout: Workout = req.body;
     
-    const existingWorkout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-    if (!existingWorkout) {
-      return res.status(404).json({ error: 'Workout not found' });
+    if (!workout.name || !workout.date) {
+      return res.status(400).json({ error: 'Name and date are required' });
     }
     
-    // Use transaction to update workout and all related data
-    const transaction = db.transaction(() => {
-      // Update workout basic info
-      db.prepare(`
-        UPDATE workouts
-        SET name = ?, date = ?, athlete_id = ?, team_id = ?
-        WHERE id = ?
-      `).run(
-        workout.name,
-        workout.date,
-        workout.athleteId || null,
-        workout.teamId || null,
-        workoutId
-      );
-      
-      // Delete existing blocks (cascade will delete exercises)
-      db.prepare('DELETE FROM blocks WHERE workout_id = ?').run(workoutId);
-      
-      // Insert new blocks and exercises
-      if (workout.blocks && workout.blocks.length > 0) {
-        workout.blocks.forEach((block, blockIndex) => {
-          const blockId = `${workoutId}_block_${blockIndex}`;
-          
-          db.prepare(`
-            INSERT INTO blocks (id, workout_id, name, order_index)
-            VALUES (?, ?, ?, ?)
-          `).run(blockId, workoutId, block.name, blockIndex);
-          
-          if (block.exercises && block.exercises.length > 0) {
-            block.exercises.forEach((exercise, exerciseIndex) => {
-              const exerciseId = `${blockId}_ex_${exerciseIndex}`;
-              
-              db.prepare(`
-                INSERT INTO block_exercises (id, block_id, exercise_name, sets, reps, weight, order_index)
-                VALUES (?, ?, ?, ?, ?, ?, ?)
-              `).run(
-                exerciseId,
-                blockId,
-                exercise.exerciseName,
-                exercise.sets,
-                exercise.reps,
-                exercise.weight || null,
-                exerciseIndex
-              );
-            });
-          }
-        });
-      }
-    });
-    
-    transaction();
-    
-    // Return updated workout
-    const updatedWorkout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-    const blocks_data = db.prepare(`
-      SELECT * FROM blocks
-      WHERE workout_id = ?
-      ORDER BY order_index ASC
-    `).all(workoutId);
-    
-    const blocksWithExercises = blocks_data.map((block: any) => {
-      const exercises = db.prepare(`
-        SELECT * FROM block_exercises
-        WHERE block_id = ?
-        ORDER BY order_index ASC
-      `).all(block.id);
-      
-      return {
-        id: block.id,
-        name: block.name,
-        exercises: exercises.map((ex: any) => ({
-          id: ex.id,
-          exerciseName: ex.exercise_name,
-          sets: ex.sets,
-          reps: ex.reps,
-          weight: ex.weight || undefined,
-        })),
-      };
-    });
+    // Update workout and reconcile blocks/exercises all-or-nothing,
+    // keeping IDs (and logged history) for existing ones
+    const library = await readExercisesFromCSV();
+    const updatedWorkout = saveWorkout(workoutId, workout, library);
+    if (!updatedWorkout) {
+      return res.status(404).json({ error: 'Workout not found' });
+    }
     
-    res.json({
-      id: updatedWorkout.id,
-      name: updatedWorkout.name,
-      date: updatedWorkout.date,
-      athleteId: updatedWorkout.athlete_id || undefined,
-      teamId: updatedWorkout.team_id || undefined,
-      blocks: blocksWithExercises,
-    });
-  } catch (error) {
+    res.json(updatedWorkout);
+  } catch (error: any) {
     console.error('Error updating workout:', error);
-    res.status(500).json({ error: 'Failed to update workout' });
+    res.status(500).json({ 
+      error: 'Failed to update workout',
+      message: error?.message || String(error)
+    });
   }
 });
 
 // DELETE /api/workouts/:id - Delete workout
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requireCoach, (req, res) => {
   try {
     const workoutId = req.params.id;
     
@@ -449,24 +326,32 @@ router.delete('/:id', (req, res) => {
 });
 
 // POST /api/workouts/:workoutId/exercises/:exerciseId/sets - Save exercise sets
-router.post('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
+router.post('/:workoutId/exercises/:exerciseId/sets', requireAthlete, (req, res) => {
   try {
     const { workoutId, exerciseId } = req.params;
-    const { athleteId, sets } = req.body;
-    
-    if (!athleteId || !sets || !Array.isArray(sets)) {
-      return res.status(400).json({ error: 'athleteId and sets array are required' });
+    const { athleteId } = res.locals;
+    const { sets } = req.body;
+    const idempotencyKey = req.get('Idempotency-Key');
+    
+    // Verify the workout is the athlete's and the exercise is in it
+    const accessError = checkLoggingAccess(workoutId, athleteId, exerciseId);
+    if (accessError) {
+      return res.status(accessError.status).json({ error: accessError.error });
     }
     
-    // Verify workout and exercise exist
-    const workout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-    if (!workout) {
-      return res.status(404).json({ error: 'Workout not found' });
+    // A retried offline write that this athlete already applied gets the original response
+    const previous = idempotencyKey ? getIdempotentResponse(athleteId, idempotencyKey) : undefined;
+    if (previous) {
+      return res.json(previous);
     }
     
-    const exercise: any = db.prepare('SELECT * FROM block_exercises WHERE id = ?').get(exerciseId);
-    if (!exercise) {
-      return res.status(404).json({ error: 'Exercise not found' });
+    if (!sets || !Array.isArray(sets)) {
+      return res.status(400).json({ error: 'sets array is required' });
+    }
+
+    const effortError = validateSetEffort(sets);
+    if (effortError) {
+      return res.status(400).json({ error: effortError });
     }
     
     // Use transaction to save all sets
@@ -484,8 +369,8 @@ router.post('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
         
         db.prepare(`
           INSERT INTO exercise_sets 
-          (id, block_exercise_id, workout_id, athlete_id, set_number, weight, reps, completed, completed_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          (id, block_exercise_id, workout_id, athlete_id, set_number, weight, reps, completed, completed_at, rest_seconds, rpe, rir)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).run(
           setId,
           exerciseId,
@@ -495,7 +380,10 @@ router.post('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
           set.weight || null,
           set.reps || null,
           set.completed ? 1 : 0,
-          set.completed ? new Date().toISOString() : null
+          set.completed ? new Date().toISOString() : null,
+          set.restSeconds ?? null,
+          set.rpe ?? null,
+          set.rir ?? null
         );
       });
     });
@@ -505,7 +393,15 @@ router.post('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
     // Check and mark workout as complete after saving sets
     checkAndMarkWorkoutComplete(workoutId, athleteId);
     
-    res.json({ success: true, message: 'Sets saved successfully' });
+    // PRs are re-detected on every save; the response carries this exercise's current ones
+    const records = detectPersonalRecords(workoutId, exerciseId, athleteId);
+    
+    const result = { success: true, message: 'Sets saved successfully', records };
+    if (idempotencyKey) {
+      saveIdempotentResponse(athleteId, idempotencyKey, result);
+    }
+    
+    res.json(result);
   } catch (error: any) {
     console.error('Error saving exercise sets:', error);
     res.status(500).json({ error: 'Failed to save exercise sets', message: error?.message });
@@ -513,14 +409,10 @@ router.post('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
 });
 
 // GET /api/workouts/:workoutId/exercises/:exerciseId/sets - Get exercise sets for an athlete
-router.get('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
+router.get('/:workoutId/exercises/:exerciseId/sets', requireAthleteReader, (req, res) => {
   try {
     const { workoutId, exerciseId } = req.params;
-    const { athleteId } = req.query;
-    
-    if (!athleteId) {
-      return res.status(400).json({ error: 'athleteId query parameter is required' });
-    }
+    const { athleteId } = res.locals;
     
     const savedSets = db.prepare(`
       SELECT * FROM exercise_sets
@@ -533,6 +425,9 @@ router.get('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
       weight: s.weight || '',
       reps: s.reps || '',
       completed: s.completed === 1,
+      restSeconds: s.rest_seconds ?? undefined,
+      rpe: s.rpe ?? undefined,
+      rir: s.rir ?? undefined,
     }));
     
     res.json(sets);
@@ -544,18 +439,14 @@ router.get('/:workoutId/exercises/:exerciseId/sets', (req, res) => {
 
 // GET /api/workouts/completions?athleteId=xxx - Get all completed workouts for an athlete
 // IMPORTANT: This must come BEFORE /:workoutId/completion to avoid route conflicts
-router.get('/completions', (req, res) => {
+router.get('/completions', requireAthleteReader, (req, res) => {
   try {
-    const { athleteId } = req.query;
-    
-    if (!athleteId) {
-      return res.status(400).json({ error: 'athleteId query parameter is required' });
-    }
+    const { athleteId } = res.locals;
     
     // Get all completed workouts for this athlete
     const completions = db.prepare(`
       SELECT workout_id FROM workout_completions
-      WHERE athlete_id = ?
+      WHERE athlete_id = ? AND completed = 1
     `).all(athleteId) as Array<{ workout_id: string }>;
     
     // Convert to a simple object: { workoutId: true }
@@ -572,63 +463,12 @@ router.get('/completions', (req, res) => {
 });
 
 // GET /api/workouts/:workoutId/completion - Get completion status for all exercises
-router.get('/:workoutId/completion', (req, res) => {
+router.get('/:workoutId/completion', requireAthleteReader, (req, res) => {
   try {
     const { workoutId } = req.params;
-    const { athleteId } = req.query;
-    
-    if (!athleteId) {
-      return res.status(400).json({ error: 'athleteId query parameter is required' });
-    }
-    
-    // Get all exercises in the workout
-    const blocks = db.prepare(`
-      SELECT * FROM blocks
-      WHERE workout_id = ?
-      ORDER BY order_index ASC
-    `).all(workoutId);
-    
-    const completionStatus: Record<string, any> = {};
-    
-    blocks.forEach((block: any) => {
-      const exercises = db.prepare(`
-        SELECT * FROM block_exercises
-        WHERE block_id = ?
-        ORDER BY order_index ASC
-      `).all(block.id);
-      
-      exercises.forEach((exercise: any) => {
-        // Get total number of sets from exercise_sets table (actual sets, not exercise.sets)
-        const totalSetsResult = db.prepare(`
-          SELECT COUNT(*) as count FROM exercise_sets
-          WHERE block_exercise_id = ? AND workout_id = ? AND athlete_id = ?
-        `).get(exercise.id, workoutId, athleteId) as { count: number };
-        
-        // Get completion data for this exercise
-        const completedSets = db.prepare(`
-          SELECT COUNT(*) as count FROM exercise_sets
-          WHERE block_exercise_id = ? AND workout_id = ? AND athlete_id = ? AND completed = 1
-        `).get(exercise.id, workoutId, athleteId) as { count: number };
-        
-        const totalSets = totalSetsResult.count;
-        const completedCount = completedSets.count;
-        
-        let status: 'completed' | 'in-progress' | 'not-started' = 'not-started';
-        if (completedCount === totalSets && totalSets > 0) {
-          status = 'completed';
-        } else if (completedCount > 0) {
-          status = 'in-progress';
-        }
-        
-        completionStatus[exercise.exercise_name] = {
-          status,
-          completedSets: completedCount,
-          totalSets,
-        };
-      });
-    });
+    const { athleteId } = res.locals;
     
-    res.json(completionStatus);
+    res.json(getCompletionStatuses([workoutId], athleteId)[workoutId].exercises);
   } catch (error: any) {
     console.error('Error fetching completion status:', error);
     res.status(500).json({ error: 'Failed to fetch completion status' });
@@ -636,24 +476,22 @@ router.get('/:workoutId/completion', (req, res) => {
 });
 
 // POST /api/workouts/:workoutId/exercises/:exerciseId/notes - Save exercise notes
-router.post('/:workoutId/exercises/:exerciseId/notes', (req, res) => {
+router.post('/:workoutId/exercises/:exerciseId/notes', requireAthlete, (req, res) => {
   try {
     const { workoutId, exerciseId } = req.params;
-    const { athleteId, notes } = req.body;
-    
-    if (!athleteId) {
-      return res.status(400).json({ error: 'athleteId is required' });
+    const { athleteId } = res.locals;
+    const { notes } = req.body;
+    const idempotencyKey = req.get('Idempotency-Key');
+    
+    // Verify the workout is the athlete's and the exercise is in it
+    const accessError = checkLoggingAccess(workoutId, athleteId, exerciseId);
+    if (accessError) {
+      return res.status(accessError.status).json({ error: accessError.error });
     }
     
-    // Verify workout and exercise exist
-    const workout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
-    if (!workout) {
-      return res.status(404).json({ error: 'Workout not found' });
-    }
-    
-    const exercise: any = db.prepare('SELECT * FROM block_exercises WHERE id = ?').get(exerciseId);
-    if (!exercise) {
-      return res.status(404).json({ error: 'Exercise not found' });
+    const previous = idempotencyKey ? getIdempotentResponse(athleteId, idempotencyKey) : undefined;
+    if (previous) {
+      return res.json(previous);
     }
     
     const noteId = `${exerciseId}_${workoutId}_${athleteId}`;
@@ -665,23 +503,48 @@ router.post('/:workoutId/exercises/:exerciseId/notes', (req, res) => {
       VALUES (?, ?, ?, ?, ?, datetime('now'))
     `).run(noteId, exerciseId, workoutId, athleteId, notes || '');
     
-    res.json({ success: true, message: 'Notes saved successfully' });
+    const result = { success: true, message: 'Notes saved successfully' };
+    if (idempotencyKey) {
+      saveIdempotentResponse(athleteId, idempotencyKey, result);
+    }
+    
+    res.json(result);
   } catch (error: any) {
     console.error('Error saving exercise notes:', error);
     res.status(500).json({ error: 'Failed to save exercise notes', message: error?.message });
   }
 });
 
-// GET /api/workouts/:workoutId/exercises/:exerciseId/notes - Get exercise notes for an athlete
-router.get('/:workoutId/exercises/:exerciseId/notes', (req, res) => {
+// POST /api/workouts/:workoutId/feedback - Save the athlete's session RPE, duration and comment
+router.post('/:workoutId/feedback', requireAthlete, (req, res) => {
   try {
-    const { workoutId, exerciseId } = req.params;
-    const { athleteId } = req.query;
+    const { workoutId } = req.params;
+    const { athleteId } = res.locals;
+    const { sessionRpe, durationMinutes, comment } = req.body;
+    
+    const validationError = validateSessionFeedback(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
     
-    if (!athleteId) {
-      return res.status(400).json({ error: 'athleteId query parameter is required' });
+    const accessError = checkLoggingAccess(workoutId, athleteId);
+    if (accessError) {
+      return res.status(accessError.status).json({ error: accessError.error });
     }
     
+    res.json(saveSessionFeedback(workoutId, athleteId, { sessionRpe, durationMinutes, comment }));
+  } catch (error: any) {
+    console.error('Error saving session feedback:', error);
+    res.status(500).json({ error: 'Failed to save session feedback', message: error?.message });
+  }
+});
+
+// GET /api/workouts/:workoutId/exercises/:exerciseId/notes - Get exercise notes for an athlete
+router.get('/:workoutId/exercises/:exerciseId/notes', requireAthleteReader, (req, res) => {
+  try {
+    const { workoutId, exerciseId } = req.params;
+    const { athleteId } = res.locals;
+    
     const note: any = db.prepare(`
       SELECT notes FROM exercise_notes
       WHERE block_exercise_id = ? AND workout_id = ? AND athlete_id = ?
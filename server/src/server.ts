@@ -2,13 +2,17 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { initializeDatabase } from './services/dbService.js';
+import { initializeDatabase, linkExercisesToLibrary } from './services/dbService.js';
+import { readExercisesFromCSV } from './services/csvService.js';
+import { hashPlaintextAthletePasswords } from './services/authService.js';
+import { backfillNameLookupColumns } from './services/nameLoginService.js';
 import exercisesRouter from './routes/exercises.js';
 import athletesRouter from './routes/athletes.js';
 import workoutsRouter from './routes/workouts.js';
 import teamsRouter from './routes/teams.js';
 import authRouter from './routes/auth.js';
 import uploadRouter from './routes/upload.js';
+import programsRouter from './routes/programs.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -21,6 +25,13 @@ app.use(express.json());
 
 // Initialize database
 initializeDatabase();
+hashPlaintextAthletePasswords();
+backfillNameLookupColumns();
+
+// Link workout exercises to the exercise library (reports exercises that don't match)
+readExercisesFromCSV()
+  .then(linkExercisesToLibrary)
+  .catch((error) => console.warn('Error linking exercises to library:', error.message));
 
 // Serve video files statically
 app.use('/api/videos', express.static(path.resolve(__dirname, '../data/videos')));
@@ -37,6 +48,7 @@ app.use('/api/workouts', workoutsRouter);
 app.use('/api/teams', teamsRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/upload', uploadRouter);
+app.use('/api/programs', programsRouter);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -0,0 +1,77 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export const MAX_TYPES = ['tested', 'estimated'] as const;
+export const MAX_UNITS = ['lb', 'kg'] as const;
+
+export interface AthleteMaxInput {
+  exerciseId?: string;
+  exerciseName: string;
+  value: number;
+  unit?: typeof MAX_UNITS[number];
+  type: typeof MAX_TYPES[number];
+  date: string; // YYYY-MM-DD
+}
+
+// Map an athlete_maxes row to API shape
+export function mapMaxRow(row: any) {
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    exerciseId: row.exercise_id || undefined,
+    exerciseName: row.exercise_name,
+    value: row.value,
+    unit: row.unit,
+    type: row.type,
+    date: row.date,
+    createdAt: row.created_at,
+  };
+}
+
+// All of an athlete's maxes, newest first (so the first entry per exercise is the current max)
+export function getAthleteMaxes(athleteId: string) {
+  const rows = db.prepare(`
+    SELECT * FROM athlete_maxes
+    WHERE athlete_id = ?
+    ORDER BY date DESC, created_at DESC
+  `).all(athleteId);
+  return rows.map(mapMaxRow);
+}
+
+export function getAthleteMax(athleteId: string, maxId: string) {
+  const row = db.prepare('SELECT * FROM athlete_maxes WHERE id = ? AND athlete_id = ?').get(maxId, athleteId);
+  return row ? mapMaxRow(row) : null;
+}
+
+// Returns an error message for an invalid max body, or null
+export function validateMax(max: any): string | null {
+  if (!max.exerciseName || typeof max.exerciseName !== 'string') return 'Exercise is required';
+  if (typeof max.value !== 'number' || !(max.value > 0)) return 'Max must be a positive number';
+  if (max.unit !== undefined && !MAX_UNITS.includes(max.unit)) return 'Unit must be lb or kg';
+  if (!MAX_TYPES.includes(max.type)) return 'Type must be tested or estimated';
+  if (!max.date || !/^\d{4}-\d{2}-\d{2}$/.test(max.date)) return 'Date is required (YYYY-MM-DD)';
+  return null;
+}
+
+export function createAthleteMax(maxId: string, athleteId: string, max: AthleteMaxInput) {
+  db.prepare(`
+    INSERT INTO athlete_maxes (id, athlete_id, exercise_id, exercise_name, value, unit, type, date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(maxId, athleteId, max.exerciseId || null, max.exerciseName, max.value, max.unit || 'lb', max.type, max.date);
+  return getAthleteMax(athleteId, maxId);
+}
+
+// Returns null when the max doesn't exist for this athlete
+export function updateAthleteMax(athleteId: string, maxId: string, max: AthleteMaxInput) {
+  const result = db.prepare(`
+    UPDATE athlete_maxes
+    SET exercise_id = ?, exercise_name = ?, value = ?, unit = ?, type = ?, date = ?
+    WHERE id = ? AND athlete_id = ?
+  `).run(max.exerciseId || null, max.exerciseName, max.value, max.unit || 'lb', max.type, max.date, maxId, athleteId);
+  return result.changes > 0 ? getAthleteMax(athleteId, maxId) : null;
+}
+
+export function deleteAthleteMax(athleteId: string, maxId: string) {
+  return db.prepare('DELETE FROM athlete_maxes WHERE id = ? AND athlete_id = ?').run(maxId, athleteId).changes > 0;
+}
@@ -0,0 +1,260 @@
+import { createHash, createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+// Coaches sign in with email and password; athletes with their login link or, once they've set a
+// password, with email and password too. Both get a session token (a signed JWT) that's sent as a
+// Bearer token on every request.
+export type SessionRole = 'admin' | 'user';
+
+// How the session was started. A name link proves much less than a login link or a password, so
+// what a session may do can depend on it (e.g. only link and password sessions can set a password).
+export type LoginMethod = 'password' | 'link' | 'name';
+
+export interface SessionClaims {
+  sub: string; // coach or athlete ID
+  role: SessionRole;
+  name: string;
+  method?: LoginMethod; // missing from sessions issued before it was recorded
+  iat: number;
+  exp: number;
+}
+
+export interface Coach {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface AthleteAccount {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Sessions from a single-use login link last longer, so the athlete isn't sent a new link every week
+export const DEVICE_SESSION_TTL_SECONDS = 90 * 24 * 60 * 60;
+export const MIN_PASSWORD_LENGTH = 8;
+// Email-and-password sign-ins lock the account for a while after this many wrong passwords in a row
+const MAX_LOGIN_ATTEMPTS = 10;
+const LOGIN_LOCKOUT_MINUTES = 15;
+
+export type PasswordLoginResult<T> = { account: T } | { status: number; error: string };
+
+// Without AUTH_SECRET, sessions only last until the server restarts
+const secret = process.env.AUTH_SECRET || (() => {
+  console.warn('AUTH_SECRET is not set; using a random secret, so sessions end when the server restarts');
+  return randomBytes(32).toString('hex');
+})();
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+// Stored as scrypt:<salt>:<hash>, both hex
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string | null | undefined): boolean {
+  const [scheme, saltHex, hashHex] = (stored || '').split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Returns an error message when a new password isn't a string of at least MIN_PASSWORD_LENGTH
+// characters, or null
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// The athletes.sessions_valid_after to set when an athlete's password changes, ending every earlier
+// session. iat is in whole seconds, so this is the start of the current second: the session issued to
+// whoever changed the password, right after, still counts.
+export function passwordChangeSessionCutoff(): string {
+  return new Date(Math.floor(Date.now() / 1000) * 1000).toISOString();
+}
+
+// The first coach account can only be created with the COACH_SETUP_SECRET code, so whoever reaches
+// a new deployment first can't claim it. Without the variable, first-run setup is off. Returns an
+// error message, or null.
+export function validateSetupSecret(setupSecret: unknown): string | null {
+  const expected = process.env.COACH_SETUP_SECRET;
+  if (!expected) {
+    return 'Set COACH_SETUP_SECRET on the server to create the first coach account';
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (typeof setupSecret !== 'string' || !timingSafeEqual(digest(setupSecret), digest(expected))) {
+    return 'Incorrect setup code';
+  }
+  return null;
+}
+
+export function signSessionToken(
+  user: { id: string; name: string; role: SessionRole },
+  method: LoginMethod,
+  ttlSeconds = SESSION_TTL_SECONDS
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    sub: user.id,
+    role: user.role,
+    name: user.name,
+    method,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  const body = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * The claims of a valid, unexpired session token, or null. An athlete's session also ends when
+ * their login link is revoked or replaced after it was issued, or when they're deleted.
+ */
+export function verifySessionToken(token: string): SessionClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+    if (!claims.sub || (claims.role !== 'admin' && claims.role !== 'user')) return null;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+    if (claims.role === 'user' && !isAthleteSessionCurrent(claims)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// iat is in whole seconds, so a session issued in the same second as a revocation is rejected too
+function isAthleteSessionCurrent(claims: SessionClaims): boolean {
+  const athlete: any = db.prepare('SELECT sessions_valid_after FROM athletes WHERE id = ?').get(claims.sub);
+  if (!athlete) return false;
+  return !athlete.sessions_valid_after || claims.iat * 1000 >= Date.parse(athlete.sessions_valid_after);
+}
+
+function toCoach(row: any): Coach {
+  return { id: row.id, name: row.name, email: row.email, createdAt: row.created_at };
+}
+
+export function countCoaches(): number {
+  const row: any = db.prepare('SELECT COUNT(*) as count FROM coaches').get();
+  return row.count;
+}
+
+export function getCoachById(id: string): Coach | null {
+  const row: any = db.prepare('SELECT * FROM coaches WHERE id = ?').get(id);
+  return row ? toCoach(row) : null;
+}
+
+/**
+ * Check the password of a coach or athlete signing in. Every guess counts against the account before
+ * the password is checked, and the one that uses up the last of MAX_LOGIN_ATTEMPTS locks it straight
+ * away; a correct password lifts the lockout and resets the count. Returns an error, or null.
+ */
+function checkLoginPassword(table: 'coaches' | 'athletes', row: any, password: string) {
+  const locked = db.transaction(() => {
+    const current: any = db.prepare(`SELECT failed_login_attempts, login_locked_until FROM ${table} WHERE id = ?`)
+      .get(row.id);
+    const now = new Date();
+    if (current.login_locked_until && new Date(current.login_locked_until) > now) return true;
+
+    const attempts = current.failed_login_attempts + 1;
+    if (attempts >= MAX_LOGIN_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000).toISOString();
+      db.prepare(`UPDATE ${table} SET failed_login_attempts = 0, login_locked_until = ? WHERE id = ?`)
+        .run(lockedUntil, row.id);
+    } else {
+      db.prepare(`UPDATE ${table} SET failed_login_attempts = ? WHERE id = ?`).run(attempts, row.id);
+    }
+    return false;
+  })();
+
+  if (locked) return { status: 429, error: 'Too many failed sign-ins. Try again later.' };
+  if (!verifyPassword(password, row.password_hash)) return { status: 401, error: 'Invalid email or password' };
+
+  db.prepare(`UPDATE ${table} SET failed_login_attempts = 0, login_locked_until = NULL WHERE id = ?`).run(row.id);
+  return null;
+}
+
+/**
+ * Sign a coach in by email and password. Emails are matched case-insensitively.
+ */
+export function authenticateCoach(email: string, password: string): PasswordLoginResult<Coach> {
+  const row: any = db.prepare('SELECT * FROM coaches WHERE email = ?').get(email.trim().toLowerCase());
+  if (!row) return { status: 401, error: 'Invalid email or password' };
+  return checkLoginPassword('coaches', row, password) || { account: toCoach(row) };
+}
+
+export function createCoach(input: { name: string; email: string; password: string }): Coach {
+  const id = randomUUID();
+  db.prepare('INSERT INTO coaches (id, name, email, password_hash) VALUES (?, ?, ?, ?)').run(
+    id,
+    input.name.trim(),
+    input.email.trim().toLowerCase(),
+    hashPassword(input.password)
+  );
+  return getCoachById(id)!;
+}
+
+// Setting a password signs the athlete out everywhere; the caller issues whoever set it a new session
+export function setAthletePassword(athleteId: string, password: string) {
+  db.prepare('UPDATE athletes SET password_hash = ?, sessions_valid_after = ? WHERE id = ?')
+    .run(hashPassword(password), passwordChangeSessionCutoff(), athleteId);
+}
+
+/**
+ * Athletes added before passwords were hashed have them stored as plain text. Run once at startup
+ * to hash those in place, so only hashes are ever compared.
+ */
+export function hashPlaintextAthletePasswords() {
+  const rows = db.prepare(`
+    SELECT id, password_hash FROM athletes WHERE password_hash IS NOT NULL AND password_hash NOT LIKE 'scrypt:%'
+  `).all() as any[];
+  if (rows.length === 0) return;
+
+  const update = db.prepare('UPDATE athletes SET password_hash = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const row of rows) update.run(hashPassword(row.password_hash), row.id);
+  })();
+  console.log(`Hashed ${rows.length} plain-text athlete password(s)`);
+}
+
+/**
+ * Sign an athlete in by email and the password they've set. Emails are matched case-insensitively.
+ */
+export function authenticateAthlete(email: string, password: string): PasswordLoginResult<AthleteAccount> {
+  const row: any = db.prepare('SELECT id, name, email, password_hash FROM athletes WHERE email = ? COLLATE NOCASE')
+    .get(email.trim());
+  if (!row || !row.password_hash) return { status: 401, error: 'Invalid email or password' };
+  return checkLoginPassword('athletes', row, password) || { account: { id: row.id, name: row.name, email: row.email } };
+}
+
+export function athleteHasPassword(athleteId: string): boolean {
+  const row: any = db.prepare('SELECT password_hash FROM athletes WHERE id = ?').get(athleteId);
+  return !!row?.password_hash;
+}
+
+export function verifyAthletePassword(athleteId: string, password: string): boolean {
+  const row: any = db.prepare('SELECT password_hash FROM athletes WHERE id = ?').get(athleteId);
+  return !!row && verifyPassword(password, row.password_hash);
+}
@@ -0,0 +1,155 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export type ExerciseStatus = 'completed' | 'in-progress' | 'not-started';
+
+export interface ExerciseCompletion {
+  status: ExerciseStatus;
+  completedSets: number;
+  totalSets: number;
+  sets: Array<{ set: number; weight: string; reps: string; completed: boolean; rpe?: number; rir?: number }>;
+  notes?: string;
+}
+
+export interface WorkoutCompletionStatus {
+  completed: boolean; // every exercise has all of its logged sets completed
+  exercises: Record<string, ExerciseCompletion>; // keyed by block-exercise ID
+}
+
+/**
+ * An athlete's completion of each exercise in the given workouts, with what was logged.
+ * Three queries regardless of how many workouts are asked for.
+ */
+export function getCompletionStatuses(workoutIds: string[], athleteId: string): Record<string, WorkoutCompletionStatus> {
+  const result: Record<string, WorkoutCompletionStatus> = {};
+  if (workoutIds.length === 0) return result;
+  const placeholders = workoutIds.map(() => '?').join(', ');
+
+  const exercises: any[] = db.prepare(`
+    SELECT b.workout_id, be.id
+    FROM block_exercises be
+    INNER JOIN blocks b ON b.id = be.block_id
+    WHERE b.workout_id IN (${placeholders})
+    ORDER BY b.order_index ASC, be.order_index ASC
+  `).all(...workoutIds);
+
+  const sets: any[] = db.prepare(`
+    SELECT * FROM exercise_sets
+    WHERE workout_id IN (${placeholders}) AND athlete_id = ?
+    ORDER BY set_number ASC
+  `).all(...workoutIds, athleteId);
+  const setsByExercise = new Map<string, any[]>();
+  sets.forEach((set) => {
+    const key = `${set.workout_id}:${set.block_exercise_id}`;
+    setsByExercise.set(key, [...(setsByExercise.get(key) || []), set]);
+  });
+
+  const notes: any[] = db.prepare(`
+    SELECT workout_id, block_exercise_id, notes FROM exercise_notes
+    WHERE workout_id IN (${placeholders}) AND athlete_id = ?
+  `).all(...workoutIds, athleteId);
+  const notesByExercise = new Map<string, string>(
+    notes
+      .filter((note) => note.notes && note.notes.trim())
+      .map((note) => [`${note.workout_id}:${note.block_exercise_id}`, note.notes])
+  );
+
+  workoutIds.forEach((workoutId) => {
+    result[workoutId] = { completed: false, exercises: {} };
+  });
+
+  exercises.forEach((exercise) => {
+    const key = `${exercise.workout_id}:${exercise.id}`;
+    const loggedSets = setsByExercise.get(key) || [];
+    const totalSets = loggedSets.length;
+    const completedCount = loggedSets.filter((s) => s.completed === 1).length;
+
+    let status: ExerciseStatus = 'not-started';
+    if (completedCount === totalSets && totalSets > 0) {
+      status = 'completed';
+    } else if (completedCount > 0) {
+      status = 'in-progress';
+    }
+
+    // Keyed by block-exercise ID so the same exercise in two blocks doesn't collide
+    result[exercise.workout_id].exercises[exercise.id] = {
+      status,
+      completedSets: completedCount,
+      totalSets,
+      // What was logged, for coach views (weights, reps and optional RPE/RIR)
+      sets: loggedSets.map((s) => ({
+        set: s.set_number,
+        weight: s.weight || '',
+        reps: s.reps || '',
+        completed: s.completed === 1,
+        rpe: s.rpe ?? undefined,
+        rir: s.rir ?? undefined,
+      })),
+      notes: notesByExercise.get(key),
+    };
+  });
+
+  Object.values(result).forEach((workout) => {
+    const statuses = Object.values(workout.exercises);
+    workout.completed = statuses.length > 0 && statuses.every((exercise) => exercise.status === 'completed');
+  });
+
+  return result;
+}
+
+/**
+ * IDs of the workouts assigned to an athlete, directly or through their teams, optionally
+ * between two dates (inclusive)
+ */
+export function getAssignedWorkoutIds(athleteId: string, range: { from?: string; to?: string } = {}): string[] {
+  let query = `
+    SELECT id FROM workouts
+    WHERE (athlete_id = ? OR team_id IN (SELECT team_id FROM team_athletes WHERE athlete_id = ?))`;
+  const params: any[] = [athleteId, athleteId];
+  if (range.from) {
+    query += ' AND date >= ?';
+    params.push(range.from);
+  }
+  if (range.to) {
+    query += ' AND date <= ?';
+    params.push(range.to);
+  }
+  return db.prepare(query).all(...params).map((row: any) => row.id);
+}
+
+/**
+ * Why an athlete can't log against a workout (and one of its exercises), or null when they can: the
+ * workout has to exist and be assigned to them, directly or through one of their teams
+ */
+export function checkLoggingAccess(
+  workoutId: string,
+  athleteId: string,
+  exerciseId?: string
+): { status: number; error: string } | null {
+  const workout: any = db.prepare('SELECT id FROM workouts WHERE id = ?').get(workoutId);
+  if (!workout) {
+    return { status: 404, error: 'Workout not found' };
+  }
+
+  const assigned = db.prepare(`
+    SELECT 1 FROM workouts
+    WHERE id = ? AND (athlete_id = ? OR team_id IN (SELECT team_id FROM team_athletes WHERE athlete_id = ?))
+  `).get(workoutId, athleteId, athleteId);
+  if (!assigned) {
+    return { status: 403, error: 'This workout is not assigned to you' };
+  }
+
+  if (exerciseId) {
+    const exercise = db.prepare(`
+      SELECT be.id FROM block_exercises be
+      INNER JOIN blocks b ON b.id = be.block_id
+      WHERE be.id = ? AND b.workout_id = ?
+    `).get(exerciseId, workoutId);
+    if (!exercise) {
+      return { status: 404, error: 'Exercise not found' };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,154 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export type WorkoutComplianceStatus = 'completed' | 'partial' | 'missed' | 'upcoming';
+
+export interface WorkoutCompliance {
+  workoutId: string;
+  workoutName: string;
+  date: string;
+  status: WorkoutComplianceStatus;
+  prescribedSets: number;
+  completedSets: number; // capped at each exercise's prescribed sets, so extra sets don't inflate it
+}
+
+export interface ComplianceSummary {
+  assigned: number;
+  due: number; // assigned workouts that are past, or already started/completed
+  completed: number;
+  partial: number;
+  missed: number;
+  prescribedSets: number; // over due workouts
+  completedSets: number;
+  workoutCompliance?: number; // % of due workouts completed
+  setCompliance?: number; // % of prescribed sets completed in due workouts
+}
+
+function percent(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round((part / whole) * 100) : undefined;
+}
+
+// Completed: marked complete. Partial: some sets done. Missed: nothing done and the day has passed.
+function getStatus(completed: boolean, completedSets: number, date: string, today: string): WorkoutComplianceStatus {
+  if (completed) return 'completed';
+  if (completedSets > 0) return 'partial';
+  return date < today ? 'missed' : 'upcoming';
+}
+
+/**
+ * Each athlete's assigned workouts (direct and through any of their teams) between two dates,
+ * oldest first, with how much of each was done
+ */
+export function getWorkoutCompliance(athleteIds: string[], from: string, to: string): Map<string, WorkoutCompliance[]> {
+  const result = new Map<string, WorkoutCompliance[]>();
+  athleteIds.forEach((id) => result.set(id, []));
+  if (athleteIds.length === 0) return result;
+
+  const today = new Date().toISOString().split('T')[0];
+  const athletePlaceholders = athleteIds.map(() => '?').join(', ');
+
+  const memberships: any[] = db.prepare(`
+    SELECT team_id, athlete_id FROM team_athletes WHERE athlete_id IN (${athletePlaceholders})
+  `).all(...athleteIds);
+  const teamIds = Array.from(new Set(memberships.map((m) => m.team_id)));
+
+  let workoutsQuery = `
+    SELECT id, name, date, athlete_id, team_id FROM workouts
+    WHERE date >= ? AND date <= ? AND (athlete_id IN (${athletePlaceholders})`;
+  if (teamIds.length > 0) workoutsQuery += ` OR team_id IN (${teamIds.map(() => '?').join(', ')})`;
+  workoutsQuery += ') ORDER BY date ASC, created_at ASC';
+  const workouts: any[] = db.prepare(workoutsQuery).all(from, to, ...athleteIds, ...teamIds);
+  if (workouts.length === 0) return result;
+
+  const workoutPlaceholders = workouts.map(() => '?').join(', ');
+  const workoutIds = workouts.map((w) => w.id);
+
+  // Prescribed sets per exercise, by workout
+  const exercises: any[] = db.prepare(`
+    SELECT b.workout_id, be.id, be.sets
+    FROM block_exercises be
+    INNER JOIN blocks b ON b.id = be.block_id
+    WHERE b.workout_id IN (${workoutPlaceholders})
+  `).all(...workoutIds);
+  const exercisesByWorkout = new Map<string, Array<{ id: string; sets: number }>>();
+  exercises.forEach((row) => {
+    exercisesByWorkout.set(row.workout_id, [...(exercisesByWorkout.get(row.workout_id) || []), { id: row.id, sets: row.sets || 0 }]);
+  });
+
+  const setCounts: any[] = db.prepare(`
+    SELECT athlete_id, workout_id, block_exercise_id, COUNT(*) as count
+    FROM exercise_sets
+    WHERE athlete_id IN (${athletePlaceholders}) AND workout_id IN (${workoutPlaceholders}) AND completed = 1
+    GROUP BY athlete_id, workout_id, block_exercise_id
+  `).all(...athleteIds, ...workoutIds);
+  const completedSetCount = new Map(
+    setCounts.map((row) => [`${row.athlete_id}:${row.workout_id}:${row.block_exercise_id}`, row.count as number])
+  );
+
+  const completions: any[] = db.prepare(`
+    SELECT athlete_id, workout_id FROM workout_completions
+    WHERE athlete_id IN (${athletePlaceholders}) AND workout_id IN (${workoutPlaceholders}) AND completed = 1
+  `).all(...athleteIds, ...workoutIds);
+  const completed = new Set(completions.map((row) => `${row.athlete_id}:${row.workout_id}`));
+
+  athleteIds.forEach((athleteId) => {
+    const athleteTeams = new Set(memberships.filter((m) => m.athlete_id === athleteId).map((m) => m.team_id));
+    const assigned = workouts.filter((w) => w.athlete_id === athleteId || (w.team_id && athleteTeams.has(w.team_id)));
+
+    result.set(athleteId, assigned.map((workout) => {
+      let prescribedSets = 0;
+      let completedSets = 0;
+      (exercisesByWorkout.get(workout.id) || []).forEach((exercise) => {
+        prescribedSets += exercise.sets;
+        completedSets += Math.min(exercise.sets, completedSetCount.get(`${athleteId}:${workout.id}:${exercise.id}`) || 0);
+      });
+      return {
+        workoutId: workout.id,
+        workoutName: workout.name,
+        date: workout.date,
+        status: getStatus(completed.has(`${athleteId}:${workout.id}`), completedSets, workout.date, today),
+        prescribedSets,
+        completedSets,
+      };
+    }));
+  });
+
+  return result;
+}
+
+export function summarizeCompliance(workouts: WorkoutCompliance[]): ComplianceSummary {
+  const due = workouts.filter((w) => w.status !== 'upcoming');
+  const prescribedSets = due.reduce((sum, w) => sum + w.prescribedSets, 0);
+  const completedSets = due.reduce((sum, w) => sum + w.completedSets, 0);
+  const completed = due.filter((w) => w.status === 'completed').length;
+  return {
+    assigned: workouts.length,
+    due: due.length,
+    completed,
+    partial: due.filter((w) => w.status === 'partial').length,
+    missed: due.filter((w) => w.status === 'missed').length,
+    prescribedSets,
+    completedSets,
+    workoutCompliance: percent(completed, due.length),
+    setCompliance: percent(completedSets, prescribedSets),
+  };
+}
+
+// One summary row per team athlete, sorted by name
+export function getTeamCompliance(teamId: string, from: string, to: string) {
+  const athletes: any[] = db.prepare(`
+    SELECT a.id, a.name
+    FROM athletes a
+    INNER JOIN team_athletes ta ON a.id = ta.athlete_id
+    WHERE ta.team_id = ?
+    ORDER BY a.name COLLATE NOCASE ASC
+  `).all(teamId);
+
+  const workouts = getWorkoutCompliance(athletes.map((a) => a.id), from, to);
+  return athletes.map((athlete) => ({
+    athleteId: athlete.id,
+    athleteName: athlete.name,
+    ...summarizeCompliance(workouts.get(athlete.id) || []),
+  }));
+}
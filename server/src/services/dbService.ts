@@ -1,4 +1,7 @@
 import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { parsePrescription, ExercisePrescription } from './prescriptionService.js';
+import { Exercise as LibraryExercise } from './csvService.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -144,6 +147,8 @@ export function initializeDatabase() {
       workout_id TEXT NOT NULL,
       name TEXT NOT NULL,
       order_index INTEGER NOT NULL,
+      exercise_groups TEXT,
+      rest_seconds INTEGER,
       FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE CASCADE
     )
   `);
@@ -153,15 +158,76 @@ export function initializeDatabase() {
     CREATE TABLE IF NOT EXISTS block_exercises (
       id TEXT PRIMARY KEY,
       block_id TEXT NOT NULL,
+      exercise_id TEXT,
       exercise_name TEXT NOT NULL,
       sets INTEGER NOT NULL,
       reps TEXT NOT NULL,
       weight TEXT,
+      prescription TEXT,
+      group_id TEXT,
+      rest_seconds INTEGER,
       order_index INTEGER NOT NULL,
       FOREIGN KEY (block_id) REFERENCES blocks(id) ON DELETE CASCADE
     )
   `);
 
+  // Add prescription column (structured reps/load as JSON) and backfill it from the reps/weight text
+  try {
+    const blockExercisesInfo: any = db.prepare("PRAGMA table_info(block_exercises)").all();
+    const hasPrescription = blockExercisesInfo.some((col: any) => col.name === 'prescription');
+    
+    if (!hasPrescription) {
+      db.exec(`ALTER TABLE block_exercises ADD COLUMN prescription TEXT`);
+      
+      const rows: any[] = db.prepare('SELECT id, reps, weight FROM block_exercises').all();
+      const updatePrescription = db.prepare('UPDATE block_exercises SET prescription = ? WHERE id = ?');
+      let unparsed = 0;
+      db.transaction(() => {
+        rows.forEach((row) => {
+          const prescription = parsePrescription(row.reps, row.weight || undefined);
+          if (prescription) {
+            updatePrescription.run(JSON.stringify(prescription), row.id);
+          } else {
+            unparsed++;
+          }
+        });
+      })();
+      console.log(`Added prescription column to block_exercises (${rows.length - unparsed} backfilled, ${unparsed} left as text)`);
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding prescription column:', error.message);
+  }
+
+  // Add superset/circuit columns: group definitions (JSON) on blocks, group membership on exercises
+  try {
+    const blocksInfo: any = db.prepare("PRAGMA table_info(blocks)").all();
+    if (!blocksInfo.some((col: any) => col.name === 'exercise_groups')) {
+      db.exec(`ALTER TABLE blocks ADD COLUMN exercise_groups TEXT`);
+      console.log('Added exercise_groups column to blocks table');
+    }
+    
+    const blockExercisesInfo: any = db.prepare("PRAGMA table_info(block_exercises)").all();
+    if (!blockExercisesInfo.some((col: any) => col.name === 'group_id')) {
+      db.exec(`ALTER TABLE block_exercises ADD COLUMN group_id TEXT`);
+      console.log('Added group_id column to block_exercises table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding exercise group columns:', error.message);
+  }
+
+  // Add exercise_id column linking workout exercises to the exercise library (backfilled by
+  // linkExercisesToLibrary on startup, since the library is read from CSV asynchronously)
+  try {
+    const blockExercisesInfo: any = db.prepare("PRAGMA table_info(block_exercises)").all();
+    if (!blockExercisesInfo.some((col: any) => col.name === 'exercise_id')) {
+      db.exec(`ALTER TABLE block_exercises ADD COLUMN exercise_id TEXT`);
+      console.log('Added exercise_id column to block_exercises table');
+    }
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_block_exercises_exercise_id ON block_exercises(exercise_id)`);
+  } catch (error: any) {
+    console.warn('Error checking/adding exercise_id column:', error.message);
+  }
+
   // Exercise completion tracking (for athletes)
   db.exec(`
     CREATE TABLE IF NOT EXISTS exercise_sets (
@@ -174,6 +240,7 @@ export function initializeDatabase() {
       reps TEXT,
       completed INTEGER DEFAULT 0,
       completed_at TEXT,
+      rest_seconds INTEGER,
       FOREIGN KEY (block_exercise_id) REFERENCES block_exercises(id) ON DELETE CASCADE,
       FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE CASCADE,
       FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
@@ -181,6 +248,39 @@ export function initializeDatabase() {
     )
   `);
 
+  // Add rest columns: prescribed rest on blocks/exercises, actual rest taken before each logged set
+  try {
+    const restColumns: Array<[string, string]> = [
+      ['blocks', 'rest_seconds'],
+      ['block_exercises', 'rest_seconds'],
+      ['exercise_sets', 'rest_seconds'],
+    ];
+    restColumns.forEach(([table, column]) => {
+      const tableInfo: any = db.prepare(`PRAGMA table_info(${table})`).all();
+      if (!tableInfo.some((col: any) => col.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} INTEGER`);
+        console.log(`Added ${column} column to ${table} table`);
+      }
+    });
+  } catch (error: any) {
+    console.warn('Error checking/adding rest columns:', error.message);
+  }
+
+  // Add effort columns to exercise_sets: optional RPE (6-10 in half steps) and reps in reserve
+  try {
+    const tableInfo: any = db.prepare('PRAGMA table_info(exercise_sets)').all();
+    if (!tableInfo.some((col: any) => col.name === 'rpe')) {
+      db.exec('ALTER TABLE exercise_sets ADD COLUMN rpe REAL');
+      console.log('Added rpe column to exercise_sets table');
+    }
+    if (!tableInfo.some((col: any) => col.name === 'rir')) {
+      db.exec('ALTER TABLE exercise_sets ADD COLUMN rir INTEGER');
+      console.log('Added rir column to exercise_sets table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding effort columns:', error.message);
+  }
+
   // Exercise notes (for athletes)
   db.exec(`
     CREATE TABLE IF NOT EXISTS exercise_notes (
@@ -217,9 +317,591 @@ export function initializeDatabase() {
     CREATE INDEX IF NOT EXISTS idx_workout_completions_workout ON workout_completions(workout_id)
   `);
 
+  // Session feedback given when a workout is completed: session RPE (CR-10), duration and a comment
+  try {
+    const completionsInfo: any = db.prepare('PRAGMA table_info(workout_completions)').all();
+    [
+      ['session_rpe', 'INTEGER'],
+      ['duration_minutes', 'INTEGER'],
+      ['session_comment', 'TEXT'],
+      ['feedback_at', 'TEXT'],
+      // 0 once a completed workout has sets unticked again, or for feedback on an unfinished one,
+      // so the feedback isn't lost with the completion
+      ['completed', 'INTEGER NOT NULL DEFAULT 1'],
+    ].forEach(([column, type]) => {
+      if (!completionsInfo.some((col: any) => col.name === column)) {
+        db.exec(`ALTER TABLE workout_completions ADD COLUMN ${column} ${type}`);
+        console.log(`Added ${column} column to workout_completions table`);
+      }
+    });
+  } catch (error: any) {
+    console.warn('Error checking/adding workout completion columns:', error.message);
+  }
+
+  // Training programs: N weeks x M days, each day pointing at a template workout
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS programs (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      weeks INTEGER NOT NULL,
+      days_per_week INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS program_days (
+      program_id TEXT NOT NULL,
+      week INTEGER NOT NULL,
+      day INTEGER NOT NULL,
+      workout_id TEXT,
+      PRIMARY KEY (program_id, week, day),
+      FOREIGN KEY (program_id) REFERENCES programs(id) ON DELETE CASCADE,
+      FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE SET NULL
+    )
+  `);
+
+  // weekdays is a JSON array: the weekday (0 = Sunday) of each training day, in day order
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS program_assignments (
+      id TEXT PRIMARY KEY,
+      program_id TEXT NOT NULL,
+      athlete_id TEXT,
+      team_id TEXT,
+      start_date TEXT NOT NULL,
+      weekdays TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (program_id) REFERENCES programs(id) ON DELETE CASCADE,
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Workouts materialized from a program assignment point back at it
+  try {
+    const workoutsInfo: any = db.prepare("PRAGMA table_info(workouts)").all();
+    if (!workoutsInfo.some((col: any) => col.name === 'program_assignment_id')) {
+      db.exec(`ALTER TABLE workouts ADD COLUMN program_assignment_id TEXT REFERENCES program_assignments(id) ON DELETE SET NULL`);
+      console.log('Added program_assignment_id column to workouts table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding program_assignment_id column:', error.message);
+  }
+
+  // Add deload column (JSON: every Nth week at reduced load/volume) to programs
+  try {
+    const programsInfo: any = db.prepare("PRAGMA table_info(programs)").all();
+    if (!programsInfo.some((col: any) => col.name === 'deload')) {
+      db.exec(`ALTER TABLE programs ADD COLUMN deload TEXT`);
+      console.log('Added deload column to programs table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding deload column:', error.message);
+  }
+
+  // Athlete maxes: dated tested/estimated 1RMs per exercise. The newest entry for an exercise is the
+  // athlete's current max, used to resolve % 1RM loads.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS athlete_maxes (
+      id TEXT PRIMARY KEY,
+      athlete_id TEXT NOT NULL,
+      exercise_id TEXT,
+      exercise_name TEXT NOT NULL,
+      value REAL NOT NULL,
+      unit TEXT NOT NULL DEFAULT 'lb',
+      type TEXT NOT NULL DEFAULT 'tested',
+      date TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_athlete_maxes_athlete_id ON athlete_maxes(athlete_id)`);
+
+  // Personal-record history, detected from logged sets (see recordService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS personal_records (
+      id TEXT PRIMARY KEY,
+      athlete_id TEXT NOT NULL,
+      exercise_id TEXT,
+      exercise_name TEXT NOT NULL,
+      record_type TEXT NOT NULL,
+      value REAL NOT NULL,
+      previous_value REAL,
+      weight REAL NOT NULL,
+      reps INTEGER NOT NULL,
+      formula TEXT,
+      workout_id TEXT NOT NULL,
+      block_exercise_id TEXT NOT NULL,
+      set_number INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
+      FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE CASCADE,
+      FOREIGN KEY (block_exercise_id) REFERENCES block_exercises(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_personal_records_athlete_id ON personal_records(athlete_id, workout_id)`);
+
+  // Daily wellness check-ins: one per athlete per day, with the readiness score computed on save
+  // (see wellnessService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS wellness_checkins (
+      id TEXT PRIMARY KEY,
+      athlete_id TEXT NOT NULL,
+      date TEXT NOT NULL,
+      sleep_hours REAL,
+      sleep_quality INTEGER,
+      soreness INTEGER,
+      stress INTEGER,
+      mood INTEGER,
+      energy INTEGER,
+      pain_location TEXT,
+      readiness INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(athlete_id, date),
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_wellness_checkins_date ON wellness_checkins(date)`);
+
+  // Wellness questions a team asks (JSON array of question keys; NULL = all of them)
+  try {
+    const teamsInfo: any = db.prepare('PRAGMA table_info(teams)').all();
+    if (!teamsInfo.some((col: any) => col.name === 'wellness_questions')) {
+      db.exec('ALTER TABLE teams ADD COLUMN wellness_questions TEXT');
+      console.log('Added wellness_questions column to teams table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding wellness_questions column:', error.message);
+  }
+
+  // Coach accounts; emails are stored lower-cased and passwords as scrypt hashes (see authService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS coaches (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Athlete login links, kept after they're replaced so coaches can see when each was last used
+  // (see loginTokenService). Timestamps are ISO strings.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS athlete_login_tokens (
+      token TEXT PRIMARY KEY,
+      athlete_id TEXT NOT NULL,
+      single_use INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_used_at TEXT,
+      revoked_at TEXT,
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_athlete_login_tokens_athlete_id ON athlete_login_tokens(athlete_id)`);
+
+  // Links issued before tokens expired get 30 days from now rather than working forever
+  db.prepare(`
+    INSERT OR IGNORE INTO athlete_login_tokens (token, athlete_id, expires_at, created_at)
+    SELECT login_token, id, ?, ? FROM athletes WHERE login_token IS NOT NULL
+  `).run(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), new Date().toISOString());
+
+  // Sessions an athlete signed in before this time are no longer accepted; set whenever their
+  // login link is revoked or replaced (see loginTokenService)
+  try {
+    const columns = (db.prepare('PRAGMA table_info(athletes)').all() as any[]).map((col) => col.name);
+    if (!columns.includes('sessions_valid_after')) {
+      db.exec('ALTER TABLE athletes ADD COLUMN sessions_valid_after TEXT');
+      console.log('Added sessions_valid_after column to athletes table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding sessions_valid_after column:', error.message);
+  }
+
+  // Name links: an optional per-athlete PIN (scrypt hash, with a lockout after repeated wrong
+  // guesses that grows with each lockout in a row) and a per-team switch that turns them off (see nameLoginService)
+  try {
+    const athleteColumns = (db.prepare('PRAGMA table_info(athletes)').all() as any[]).map((col) => col.name);
+    if (!athleteColumns.includes('login_pin_hash')) {
+      db.exec('ALTER TABLE athletes ADD COLUMN login_pin_hash TEXT');
+      db.exec('ALTER TABLE athletes ADD COLUMN pin_failed_attempts INTEGER NOT NULL DEFAULT 0');
+      db.exec('ALTER TABLE athletes ADD COLUMN pin_locked_until TEXT');
+      console.log('Added PIN columns to athletes table');
+    }
+    if (!athleteColumns.includes('pin_lockouts')) {
+      db.exec('ALTER TABLE athletes ADD COLUMN pin_lockouts INTEGER NOT NULL DEFAULT 0');
+      console.log('Added pin_lockouts column to athletes table');
+    }
+    // Name links look athletes up by their lower-cased name, or by its slug for old path links
+    // (filled in by nameLoginService)
+    if (!athleteColumns.includes('name_lower')) {
+      db.exec('ALTER TABLE athletes ADD COLUMN name_lower TEXT');
+      db.exec('ALTER TABLE athletes ADD COLUMN name_slug TEXT');
+      console.log('Added name lookup columns to athletes table');
+    }
+    const teamColumns = (db.prepare('PRAGMA table_info(teams)').all() as any[]).map((col) => col.name);
+    if (!teamColumns.includes('name_login_enabled')) {
+      db.exec('ALTER TABLE teams ADD COLUMN name_login_enabled INTEGER NOT NULL DEFAULT 1');
+      console.log('Added name_login_enabled column to teams table');
+    }
+  } catch (error: any) {
+    console.warn('Error checking/adding name login columns:', error.message);
+  }
+  db.exec(`DROP INDEX IF EXISTS idx_athletes_name_nocase`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_athletes_name_lower ON athletes(name_lower)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_athletes_name_slug ON athletes(name_slug)`);
+
+  // Email-and-password sign-ins lock an account for a while after repeated wrong passwords (see
+  // authService)
+  try {
+    ['coaches', 'athletes'].forEach((table) => {
+      const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map((col) => col.name);
+      if (!columns.includes('failed_login_attempts')) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN login_locked_until TEXT`);
+        console.log(`Added login lockout columns to ${table} table`);
+      }
+    });
+  } catch (error: any) {
+    console.warn('Error checking/adding login lockout columns:', error.message);
+  }
+
+  // Password reset codes emailed to athletes, stored hashed (see passwordResetService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS password_reset_codes (
+      id TEXT PRIMARY KEY,
+      athlete_id TEXT NOT NULL,
+      code_hash TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_password_reset_codes_athlete_id ON password_reset_codes(athlete_id)`);
+  // Athletes sign in by email case-insensitively (email = ? COLLATE NOCASE)
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_athletes_email_nocase ON athletes(email COLLATE NOCASE)`);
+
+  // Responses to writes sent with an Idempotency-Key, so a retried write isn't applied twice
+  // (see idempotencyService). Keys belong to the athlete who sent them; a table from before they
+  // did is dropped, since its keys only cover retries for a week anyway.
+  try {
+    const columns = (db.prepare('PRAGMA table_info(idempotency_keys)').all() as any[]).map((col) => col.name);
+    if (columns.length > 0 && !columns.includes('athlete_id')) {
+      db.exec('DROP TABLE idempotency_keys');
+      console.log('Recreating idempotency_keys table with athlete_id');
+    }
+  } catch (error: any) {
+    console.warn('Error checking idempotency_keys table:', error.message);
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      athlete_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      response TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (athlete_id, key),
+      FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+    )
+  `);
+
   console.log('Database initialized successfully');
 }
 
+// A superset/circuit within a block; exercises reference it by groupId
+export interface ExerciseGroup {
+  id: string;
+  type: 'superset' | 'circuit';
+  rounds: number;
+  restBetweenRounds?: number;
+}
+
+export interface WorkoutInput {
+  name: string;
+  date: string;
+  athleteId?: string;
+  teamId?: string;
+  blocks?: Array<{
+    id?: string;
+    name: string;
+    groups?: ExerciseGroup[];
+    restSeconds?: number;
+    exercises?: Array<{
+      id?: string;
+      exerciseName: string;
+      sets: number;
+      reps: string;
+      weight?: string;
+      prescription?: ExercisePrescription;
+      groupId?: string;
+      restSeconds?: number;
+      exerciseId?: string;
+    }>;
+  }>;
+}
+
+// Map a block_exercises row to API shape
+export function mapBlockExerciseRow(ex: any) {
+  return {
+    id: ex.id,
+    exerciseId: ex.exercise_id || undefined,
+    exerciseName: ex.exercise_name,
+    sets: ex.sets,
+    reps: ex.reps,
+    weight: ex.weight || undefined,
+    prescription: ex.prescription ? JSON.parse(ex.prescription) : undefined,
+    groupId: ex.group_id || undefined,
+    restSeconds: ex.rest_seconds ?? undefined,
+  };
+}
+
+// Map a blocks row and its block_exercises rows to API shape
+export function mapBlockRow(block: any, exercises: any[]) {
+  return {
+    id: block.id,
+    name: block.name,
+    groups: block.exercise_groups ? JSON.parse(block.exercise_groups) : undefined,
+    restSeconds: block.rest_seconds ?? undefined,
+    exercises: exercises.map(mapBlockExerciseRow),
+  };
+}
+
+// Get a workout with its blocks and exercises in API shape
+export function getWorkoutWithBlocks(workoutId: string) {
+  const workout: any = db.prepare('SELECT * FROM workouts WHERE id = ?').get(workoutId);
+  if (!workout) return null;
+  
+  const blocks = db.prepare(`
+    SELECT * FROM blocks
+    WHERE workout_id = ?
+    ORDER BY order_index ASC
+  `).all(workoutId);
+  
+  const blocksWithExercises = blocks.map((block: any) => {
+    const exercises = db.prepare(`
+      SELECT * FROM block_exercises
+      WHERE block_id = ?
+      ORDER BY order_index ASC
+    `).all(block.id);
+    
+    return mapBlockRow(block, exercises);
+  });
+  
+  return {
+    id: workout.id,
+    name: workout.name,
+    date: workout.date,
+    athleteId: workout.athlete_id || undefined,
+    teamId: workout.team_id || undefined,
+    blocks: blocksWithExercises,
+  };
+}
+
+function normalizeExerciseName(name: string): string {
+  return (name || '').trim().toLowerCase();
+}
+
+// Find the library exercise a workout exercise refers to. The given exerciseId wins when it still
+// matches the name (or the name no longer matches anything, e.g. a stale name after a rename);
+// otherwise the name decides, so picking a different exercise in an editor relinks it.
+export function resolveLibraryExercise(
+  library: LibraryExercise[],
+  exerciseId: string | undefined,
+  exerciseName: string
+): LibraryExercise | undefined {
+  const byName = library.filter((ex) => normalizeExerciseName(ex.name) === normalizeExerciseName(exerciseName));
+  const byId = exerciseId ? library.find((ex) => ex.id === exerciseId) : undefined;
+  if (byId && (byName.length === 0 || byName.includes(byId))) {
+    return byId;
+  }
+  return byName[0];
+}
+
+// Reconcile a workout's blocks and exercises with the incoming structure.
+// Blocks/exercises that already belong to this workout keep their IDs (so logged sets and notes
+// survive edits and reordering); unknown IDs get fresh ones and only removed rows are deleted.
+function syncWorkoutBlocks(
+  workoutId: string,
+  blocks: NonNullable<WorkoutInput['blocks']>,
+  library: LibraryExercise[]
+) {
+  const storedBlockIds = new Set(
+    (db.prepare('SELECT id FROM blocks WHERE workout_id = ?').all(workoutId) as any[]).map((b) => b.id)
+  );
+  const storedExerciseIds = new Set(
+    (db.prepare(`
+      SELECT be.id FROM block_exercises be
+      JOIN blocks b ON b.id = be.block_id
+      WHERE b.workout_id = ?
+    `).all(workoutId) as any[]).map((e) => e.id)
+  );
+
+  const keptBlockIds = new Set<string>();
+  const keptExerciseIds = new Set<string>();
+
+  blocks.forEach((block, blockIndex) => {
+    let blockId = block.id;
+    const exerciseGroups = block.groups && block.groups.length > 0 ? JSON.stringify(block.groups) : null;
+    if (blockId && storedBlockIds.has(blockId) && !keptBlockIds.has(blockId)) {
+      db.prepare(`
+        UPDATE blocks SET name = ?, order_index = ?, exercise_groups = ?, rest_seconds = ? WHERE id = ?
+      `).run(block.name, blockIndex, exerciseGroups, block.restSeconds ?? null, blockId);
+    } else {
+      blockId = `${workoutId}_block_${randomUUID()}`;
+      db.prepare(`
+        INSERT INTO blocks (id, workout_id, name, order_index, exercise_groups, rest_seconds)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(blockId, workoutId, block.name, blockIndex, exerciseGroups, block.restSeconds ?? null);
+    }
+    keptBlockIds.add(blockId);
+
+    (block.exercises || []).forEach((exercise, exerciseIndex) => {
+      const libraryExercise = resolveLibraryExercise(library, exercise.exerciseId, exercise.exerciseName);
+      const exerciseName = libraryExercise ? libraryExercise.name : exercise.exerciseName;
+      let exerciseId = exercise.id;
+      if (exerciseId && storedExerciseIds.has(exerciseId) && !keptExerciseIds.has(exerciseId)) {
+        // block_id is updated too so exercises can move between blocks without losing history
+        db.prepare(`
+          UPDATE block_exercises
+          SET block_id = ?, exercise_id = ?, exercise_name = ?, sets = ?, reps = ?, weight = ?, prescription = ?, group_id = ?, rest_seconds = ?, order_index = ?
+          WHERE id = ?
+        `).run(
+          blockId,
+          libraryExercise?.id ?? null,
+          exerciseName,
+          exercise.sets,
+          exercise.reps,
+          exercise.weight || null,
+          exercise.prescription ? JSON.stringify(exercise.prescription) : null,
+          exercise.groupId || null,
+          exercise.restSeconds ?? null,
+          exerciseIndex,
+          exerciseId
+        );
+      } else {
+        exerciseId = `${workoutId}_ex_${randomUUID()}`;
+        db.prepare(`
+          INSERT INTO block_exercises (id, block_id, exercise_id, exercise_name, sets, reps, weight, prescription, group_id, rest_seconds, order_index)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          exerciseId,
+          blockId,
+          libraryExercise?.id ?? null,
+          exerciseName,
+          exercise.sets,
+          exercise.reps,
+          exercise.weight || null,
+          exercise.prescription ? JSON.stringify(exercise.prescription) : null,
+          exercise.groupId || null,
+          exercise.restSeconds ?? null,
+          exerciseIndex
+        );
+      }
+      keptExerciseIds.add(exerciseId);
+    });
+  });
+
+  // Delete exercises before blocks so that moved exercises aren't caught by the block cascade
+  storedExerciseIds.forEach((id) => {
+    if (!keptExerciseIds.has(id)) {
+      db.prepare('DELETE FROM block_exercises WHERE id = ?').run(id);
+    }
+  });
+  storedBlockIds.forEach((id) => {
+    if (!keptBlockIds.has(id)) {
+      db.prepare('DELETE FROM blocks WHERE id = ?').run(id);
+    }
+  });
+}
+
+// Create (create = true) or update a workout together with its blocks and exercises.
+// Everything runs in one transaction and the saved workout is read back inside it, so callers
+// get either the fully saved workout or an exception with the stored data untouched.
+// library is the exercise library used to link exercises by ID (see resolveLibraryExercise).
+// Returns null when updating a workout that doesn't exist.
+export function saveWorkout(
+  workoutId: string,
+  workout: WorkoutInput,
+  library: LibraryExercise[],
+  create = false
+) {
+  const transaction = db.transaction(() => {
+    if (create) {
+      db.prepare(`
+        INSERT INTO workouts (id, name, date, athlete_id, team_id)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(workoutId, workout.name, workout.date, workout.athleteId || null, workout.teamId || null);
+    } else {
+      const result = db.prepare(`
+        UPDATE workouts
+        SET name = ?, date = ?, athlete_id = ?, team_id = ?
+        WHERE id = ?
+      `).run(workout.name, workout.date, workout.athleteId || null, workout.teamId || null, workoutId);
+
+      if (result.changes === 0) return null;
+    }
+
+    syncWorkoutBlocks(workoutId, workout.blocks || [], library);
+
+    return getWorkoutWithBlocks(workoutId);
+  });
+
+  return transaction();
+}
+
+// Backfill exercise_id for workout exercises that aren't linked to the library yet, matching by
+// name, and report the names that couldn't be matched
+export function linkExercisesToLibrary(library: LibraryExercise[]) {
+  const unlinked: any[] = db.prepare(`
+    SELECT id, exercise_name FROM block_exercises WHERE exercise_id IS NULL
+  `).all();
+  if (unlinked.length === 0) return;
+
+  const updateLink = db.prepare('UPDATE block_exercises SET exercise_id = ? WHERE id = ?');
+  const unmatchedNames = new Set<string>();
+  let linked = 0;
+  db.transaction(() => {
+    unlinked.forEach((row) => {
+      const libraryExercise = resolveLibraryExercise(library, undefined, row.exercise_name);
+      if (libraryExercise) {
+        updateLink.run(libraryExercise.id, row.id);
+        linked++;
+      } else {
+        unmatchedNames.add(row.exercise_name);
+      }
+    });
+  })();
+
+  if (linked > 0) {
+    console.log(`Linked ${linked} workout exercises to the exercise library`);
+  }
+  if (unmatchedNames.size > 0) {
+    console.warn(
+      `${unlinked.length - linked} workout exercises don't match any library exercise: ${[...unmatchedNames].join(', ')}`
+    );
+  }
+}
+
+// Keep workout exercises in sync when a library exercise is renamed
+export function propagateExerciseRename(exerciseId: string, name: string) {
+  db.prepare('UPDATE block_exercises SET exercise_name = ? WHERE exercise_id = ?').run(name, exerciseId);
+}
+
+// Unlink workout exercises, maxes and PRs from a deleted library exercise (they keep their name, so
+// maxes still resolve by name), as the foreign keys do on Supabase
+export function unlinkDeletedExercise(exerciseId: string) {
+  db.transaction(() => {
+    db.prepare('UPDATE block_exercises SET exercise_id = NULL WHERE exercise_id = ?').run(exerciseId);
+    db.prepare('UPDATE athlete_maxes SET exercise_id = NULL WHERE exercise_id = ?').run(exerciseId);
+    db.prepare('UPDATE personal_records SET exercise_id = NULL WHERE exercise_id = ?').run(exerciseId);
+  })();
+}
+
 // Get database instance
 export function getDatabase() {
   return db;
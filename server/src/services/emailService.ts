@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver an email. Swap in a real provider with setEmailTransport.
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Sequence <no-reply@localhost>';
+
+// Development stand-ins: print the email, or write it to a file in the outbox directory
+export const consoleTransport: EmailTransport = {
+  async send(message) {
+    console.log(`[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+  },
+};
+
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`);
+      const contents = `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+      await fs.promises.writeFile(file, contents, 'utf8');
+      console.log(`[email] Wrote "${message.subject}" for ${message.to} to ${file}`);
+    },
+  };
+}
+
+// EMAIL_TRANSPORT=file writes emails to EMAIL_OUTBOX_DIR (default server/data/outbox); anything
+// else prints them to the console. Both would leave reset codes readable in logs or files, so with
+// NODE_ENV=production email is off until a real transport is set with setEmailTransport.
+let transport: EmailTransport | null = process.env.NODE_ENV === 'production'
+  ? null
+  : process.env.EMAIL_TRANSPORT === 'file'
+    ? createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(__dirname, '../../data/outbox'))
+    : consoleTransport;
+
+export function setEmailTransport(emailTransport: EmailTransport) {
+  transport = emailTransport;
+}
+
+export function isEmailAvailable(): boolean {
+  return transport !== null;
+}
+
+export async function sendEmail(message: EmailMessage) {
+  if (!transport) throw new Error('No email transport is set up');
+  await transport.send({ from: EMAIL_FROM, ...message });
+}
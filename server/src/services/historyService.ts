@@ -0,0 +1,59 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export const DEFAULT_HISTORY_SESSIONS = 3;
+export const MAX_HISTORY_SESSIONS = 10;
+
+export interface ExerciseHistoryQuery {
+  exerciseId?: string; // library exercise
+  exerciseName?: string; // matched case-insensitively (custom exercises have no library ID)
+  excludeWorkoutId?: string; // usually the workout being logged
+  limit?: number;
+}
+
+// An athlete's most recent sessions of an exercise across all workouts, newest first. A session is
+// one workout's block exercise with at least one completed set; only completed sets are returned.
+export function getExerciseHistory(athleteId: string, query: ExerciseHistoryQuery) {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_SESSIONS, 1), MAX_HISTORY_SESSIONS);
+
+  const rows: any[] = db.prepare(`
+    SELECT es.workout_id, es.block_exercise_id, es.set_number, es.weight, es.reps, es.rest_seconds, es.rpe, es.rir,
+           be.exercise_name, w.name AS workout_name, w.date
+    FROM exercise_sets es
+    JOIN block_exercises be ON be.id = es.block_exercise_id
+    JOIN workouts w ON w.id = es.workout_id
+    WHERE es.athlete_id = ?
+      AND es.completed = 1
+      AND es.workout_id != ?
+      AND (be.exercise_id = ? OR lower(trim(be.exercise_name)) = lower(trim(?)))
+    ORDER BY w.date DESC, w.created_at DESC, es.set_number ASC
+  `).all(athleteId, query.excludeWorkoutId || '', query.exerciseId || null, query.exerciseName || '');
+
+  const sessions = new Map<string, any>();
+  for (const row of rows) {
+    const key = `${row.workout_id}:${row.block_exercise_id}`;
+    if (!sessions.has(key)) {
+      if (sessions.size === limit) break;
+      sessions.set(key, {
+        workoutId: row.workout_id,
+        workoutName: row.workout_name,
+        blockExerciseId: row.block_exercise_id,
+        exerciseName: row.exercise_name,
+        date: row.date,
+        sets: [],
+      });
+    }
+    sessions.get(key).sets.push({
+      set: row.set_number,
+      weight: row.weight || '',
+      reps: row.reps || '',
+      completed: true,
+      restSeconds: row.rest_seconds ?? undefined,
+      rpe: row.rpe ?? undefined,
+      rir: row.rir ?? undefined,
+    });
+  }
+
+  return Array.from(sessions.values());
+}
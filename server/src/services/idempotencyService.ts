@@ -0,0 +1,23 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+// Long enough to cover an athlete's phone staying offline for a few days
+const KEY_RETENTION_DAYS = 7;
+
+/**
+ * The stored response for a write the athlete already applied under this idempotency key, or
+ * undefined. Keys are scoped to the athlete, so one athlete's key never returns another's response.
+ */
+export function getIdempotentResponse(athleteId: string, key: string): any | undefined {
+  const row: any = db.prepare('SELECT response FROM idempotency_keys WHERE athlete_id = ? AND key = ?')
+    .get(athleteId, key);
+  return row ? JSON.parse(row.response) : undefined;
+}
+
+// Record a successful write's response; old keys are pruned at the same time
+export function saveIdempotentResponse(athleteId: string, key: string, response: unknown) {
+  db.prepare(`DELETE FROM idempotency_keys WHERE created_at < datetime('now', ?)`).run(`-${KEY_RETENTION_DAYS} days`);
+  db.prepare('INSERT OR REPLACE INTO idempotency_keys (athlete_id, key, response) VALUES (?, ?, ?)')
+    .run(athleteId, key, JSON.stringify(response));
+}
@@ -0,0 +1,61 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export function isDateParam(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export interface DailyLoad {
+  date: string; // YYYY-MM-DD (workout date)
+  sessionLoad: number; // session RPE x minutes, summed over the day's completed workouts
+  tonnage: number; // weight x reps over the day's completed sets
+}
+
+// Daily training load per athlete between two dates (inclusive), from session feedback and logged
+// sets. Days without any load are left out. Acute/chronic metrics are derived from this on the client.
+export function getDailyLoads(athleteIds: string[], from: string, to: string): Map<string, DailyLoad[]> {
+  const byAthlete = new Map<string, Map<string, DailyLoad>>();
+  athleteIds.forEach((id) => byAthlete.set(id, new Map()));
+  if (athleteIds.length === 0) return new Map();
+
+  const dayFor = (athleteId: string, date: string) => {
+    const days = byAthlete.get(athleteId)!;
+    if (!days.has(date)) days.set(date, { date, sessionLoad: 0, tonnage: 0 });
+    return days.get(date)!;
+  };
+  const placeholders = athleteIds.map(() => '?').join(', ');
+
+  const sessions: any[] = db.prepare(`
+    SELECT wc.athlete_id, w.date, wc.session_rpe, wc.duration_minutes
+    FROM workout_completions wc
+    JOIN workouts w ON w.id = wc.workout_id
+    WHERE wc.athlete_id IN (${placeholders})
+      AND w.date >= ? AND w.date <= ?
+      AND wc.session_rpe IS NOT NULL AND wc.duration_minutes IS NOT NULL
+  `).all(...athleteIds, from, to);
+  sessions.forEach((row) => {
+    dayFor(row.athlete_id, row.date).sessionLoad += row.session_rpe * row.duration_minutes;
+  });
+
+  const sets: any[] = db.prepare(`
+    SELECT es.athlete_id, w.date, es.weight, es.reps
+    FROM exercise_sets es
+    JOIN workouts w ON w.id = es.workout_id
+    WHERE es.athlete_id IN (${placeholders})
+      AND w.date >= ? AND w.date <= ?
+      AND es.completed = 1
+  `).all(...athleteIds, from, to);
+  sets.forEach((row) => {
+    const weight = parseFloat(row.weight);
+    const reps = parseInt(row.reps);
+    if (!(weight > 0) || !(reps > 0)) return;
+    dayFor(row.athlete_id, row.date).tonnage += weight * reps;
+  });
+
+  const result = new Map<string, DailyLoad[]>();
+  byAthlete.forEach((days, athleteId) => {
+    result.set(athleteId, Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)));
+  });
+  return result;
+}
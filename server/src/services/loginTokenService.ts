@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+// Athlete login links. Each athlete has at most one active token (mirrored in athletes.login_token
+// so it can be shown to coaches); issuing a new one revokes the old. Every token expires, and a
+// single-use (magic link) token stops working once it's been exchanged for a session. Revoking or
+// replacing a link also signs the athlete out everywhere (athletes.sessions_valid_after), so a
+// leaked link can't live on as a session.
+export const DEFAULT_LINK_DAYS = 30;
+export const DEFAULT_MAGIC_LINK_DAYS = 1;
+export const MAX_LINK_DAYS = 365;
+
+export interface LoginLinkOptions {
+  singleUse?: boolean;
+  expiresInDays?: number;
+}
+
+export interface LoginLink {
+  token?: string; // only for the active link
+  tokenPreview: string;
+  singleUse: boolean;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  status: 'active' | 'used' | 'expired' | 'revoked';
+}
+
+function getStatus(row: any, now: string): LoginLink['status'] {
+  if (row.revoked_at) return 'revoked';
+  if (row.single_use === 1 && row.last_used_at) return 'used';
+  if (row.expires_at <= now) return 'expired';
+  return 'active';
+}
+
+function mapTokenRow(row: any, now: string): LoginLink {
+  const status = getStatus(row, now);
+  return {
+    token: status === 'active' ? row.token : undefined,
+    tokenPreview: `${row.token.slice(0, 8)}…`,
+    singleUse: row.single_use === 1,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+    status,
+  };
+}
+
+// Returns an error message when the link options are invalid, or null
+export function validateLoginLinkOptions(options: any): string | null {
+  if (options?.singleUse !== undefined && typeof options.singleUse !== 'boolean') {
+    return 'singleUse must be true or false';
+  }
+  const days = options?.expiresInDays;
+  if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_LINK_DAYS)) {
+    return `expiresInDays must be a whole number between 1 and ${MAX_LINK_DAYS}`;
+  }
+  return null;
+}
+
+/**
+ * Revoke the athlete's current login link and issue a new one
+ */
+export function issueLoginToken(athleteId: string, options: LoginLinkOptions = {}): LoginLink {
+  const singleUse = options.singleUse === true;
+  const days = options.expiresInDays ?? (singleUse ? DEFAULT_MAGIC_LINK_DAYS : DEFAULT_LINK_DAYS);
+  const now = new Date();
+  const token = randomUUID();
+  const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  db.transaction(() => {
+    db.prepare('UPDATE athlete_login_tokens SET revoked_at = ? WHERE athlete_id = ? AND revoked_at IS NULL')
+      .run(now.toISOString(), athleteId);
+    db.prepare(`
+      INSERT INTO athlete_login_tokens (token, athlete_id, single_use, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(token, athleteId, singleUse ? 1 : 0, expiresAt, now.toISOString());
+    db.prepare('UPDATE athletes SET login_token = ?, sessions_valid_after = ? WHERE id = ?')
+      .run(token, now.toISOString(), athleteId);
+  })();
+
+  return mapTokenRow(db.prepare('SELECT * FROM athlete_login_tokens WHERE token = ?').get(token), now.toISOString());
+}
+
+// Revoke the athlete's login link without issuing another
+export function revokeLoginTokens(athleteId: string) {
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare('UPDATE athlete_login_tokens SET revoked_at = ? WHERE athlete_id = ? AND revoked_at IS NULL')
+      .run(now, athleteId);
+    db.prepare('UPDATE athletes SET login_token = NULL, sessions_valid_after = ? WHERE id = ?').run(now, athleteId);
+  })();
+}
+
+/**
+ * The athlete a login token belongs to while it's usable, or null. With `redeem`, the use is
+ * recorded (which is what uses up a single-use token).
+ */
+export function findLoginToken(token: string, { redeem = false } = {}): { athleteId: string; singleUse: boolean } | null {
+  const now = new Date().toISOString();
+  const row: any = db.prepare('SELECT * FROM athlete_login_tokens WHERE token = ?').get(token);
+  if (!row || getStatus(row, now) !== 'active') return null;
+
+  if (redeem) {
+    // Guarded on last_used_at so two requests racing on a single-use token can't both redeem it
+    const result = db.prepare(`
+      UPDATE athlete_login_tokens SET last_used_at = ?
+      WHERE token = ? AND (single_use = 0 OR last_used_at IS NULL)
+    `).run(now, token);
+    if (result.changes === 0) return null;
+  }
+
+  return { athleteId: row.athlete_id, singleUse: row.single_use === 1 };
+}
+
+// Every login link the athlete has had, newest first, with when each was last used
+export function getLoginTokens(athleteId: string): LoginLink[] {
+  const now = new Date().toISOString();
+  return db.prepare('SELECT * FROM athlete_login_tokens WHERE athlete_id = ? ORDER BY created_at DESC')
+    .all(athleteId)
+    .map((row: any) => mapTokenRow(row, now));
+}
@@ -0,0 +1,175 @@
+import { getDatabase } from './dbService.js';
+import { hashPassword, verifyPassword } from './authService.js';
+
+const db = getDatabase();
+
+// Name links (?mode=player&player=Name) sign an athlete in by name alone, so coaches can require a
+// PIN on top, and any of the athlete's teams can turn name links off for them.
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 15;
+// Each lockout in a row doubles the next, up to a day, until the right PIN is entered or a coach
+// sets a new one
+const MAX_PIN_LOCKOUT_MINUTES = 24 * 60;
+
+export interface NameLoginAthlete {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export type NameLoginResult =
+  | { athlete: NameLoginAthlete }
+  | { status: number; error: string; pinRequired?: boolean };
+
+// Returns an error message when the PIN is invalid, or null. null/'' clears the PIN.
+export function validatePin(pin: any): string | null {
+  if (pin === null || pin === '') return null;
+  if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) {
+    return 'PIN must be 4 to 8 digits';
+  }
+  return null;
+}
+
+// Old path links (/api/auth/by-name/:name) carry this slug of the name: "Mary-Jane O'Brien" is
+// mary-jane-obrien
+export function slugifyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '');
+}
+
+// Indexed columns name links are looked up by, written whenever an athlete's name is. The name is
+// lower-cased here rather than compared with COLLATE NOCASE, which only folds ASCII letters.
+export function nameLookupColumns(name: string) {
+  return { nameLower: name.trim().toLowerCase(), nameSlug: slugifyName(name) };
+}
+
+// Fill in the lookup columns for athletes added before they existed
+export function backfillNameLookupColumns() {
+  const athletes: any[] = db.prepare(`
+    SELECT id, name FROM athletes WHERE name_lower IS NULL OR name_slug IS NULL
+  `).all();
+  if (athletes.length === 0) return;
+
+  const update = db.prepare('UPDATE athletes SET name_lower = ?, name_slug = ? WHERE id = ?');
+  db.transaction(() => {
+    athletes.forEach((athlete) => {
+      const { nameLower, nameSlug } = nameLookupColumns(athlete.name);
+      update.run(nameLower, nameSlug, athlete.id);
+    });
+  })();
+  console.log(`Filled in name lookup columns for ${athletes.length} athlete(s)`);
+}
+
+// Set the athlete's name-link PIN, or clear it with null/''
+export function setAthletePin(athleteId: string, pin: string | null) {
+  db.prepare(`
+    UPDATE athletes SET login_pin_hash = ?, pin_failed_attempts = 0, pin_lockouts = 0, pin_locked_until = NULL
+    WHERE id = ?
+  `).run(pin ? hashPassword(pin) : null, athleteId);
+}
+
+function getPinLockoutMinutes(previousLockouts: number): number {
+  return Math.min(PIN_LOCKOUT_MINUTES * 2 ** previousLockouts, MAX_PIN_LOCKOUT_MINUTES);
+}
+
+/**
+ * Count a PIN guess before it's checked, so parallel guesses can't get past the limit. The guess that
+ * uses up the last attempt locks the athlete out straight away ('lockedOut'); the caller lifts the
+ * lockout again if that PIN turns out to be right. Returns 'locked' when a lockout is already running.
+ */
+function recordPinAttempt(athleteId: string): 'counted' | 'lockedOut' | 'locked' {
+  return db.transaction(() => {
+    const row: any = db.prepare(`
+      SELECT pin_failed_attempts, pin_lockouts, pin_locked_until FROM athletes WHERE id = ?
+    `).get(athleteId);
+    const now = new Date();
+    if (row.pin_locked_until && new Date(row.pin_locked_until) > now) return 'locked';
+
+    const attempts = row.pin_failed_attempts + 1;
+    if (attempts >= MAX_PIN_ATTEMPTS) {
+      const lockoutMs = getPinLockoutMinutes(row.pin_lockouts) * 60 * 1000;
+      db.prepare(`
+        UPDATE athletes SET pin_failed_attempts = 0, pin_lockouts = pin_lockouts + 1, pin_locked_until = ?
+        WHERE id = ?
+      `).run(new Date(now.getTime() + lockoutMs).toISOString(), athleteId);
+      return 'lockedOut';
+    }
+    db.prepare('UPDATE athletes SET pin_failed_attempts = ? WHERE id = ?').run(attempts, athleteId);
+    return 'counted';
+  })();
+}
+
+// Whether name links work for the athlete: they do unless one of their teams has turned them off
+function isNameLoginEnabled(athleteId: string): boolean {
+  const disabled = db.prepare(`
+    SELECT 1
+    FROM team_athletes ta
+    INNER JOIN teams t ON t.id = ta.team_id
+    WHERE ta.athlete_id = ? AND t.name_login_enabled = 0
+    LIMIT 1
+  `).get(athleteId);
+  return !disabled;
+}
+
+const NAME_LOGIN_COLUMNS = 'id, name, email, login_pin_hash, pin_failed_attempts, pin_lockouts, pin_locked_until';
+
+/**
+ * Sign in by name (case-insensitive, uses idx_athletes_name_lower), checking the PIN when the
+ * athlete has one. Every guess counts towards a lockout that grows with each one in a row; a correct
+ * PIN resets both.
+ */
+export function authenticateByName(name: string, pin?: string): NameLoginResult {
+  const matches: any[] = db.prepare(`
+    SELECT ${NAME_LOGIN_COLUMNS} FROM athletes WHERE name_lower = ? LIMIT 2
+  `).all(name.trim().toLowerCase());
+  return authenticateNameMatch(matches, pin);
+}
+
+// Sign in with an old path link, by the name's slug (uses idx_athletes_name_slug)
+export function authenticateByNameSlug(slug: string): NameLoginResult {
+  const matches: any[] = db.prepare(`
+    SELECT ${NAME_LOGIN_COLUMNS} FROM athletes WHERE name_slug = ? LIMIT 2
+  `).all(slug.toLowerCase());
+  return authenticateNameMatch(matches);
+}
+
+function authenticateNameMatch(matches: any[], pin?: string): NameLoginResult {
+  if (matches.length === 0) {
+    return { status: 401, error: 'Athlete not found' };
+  }
+  if (matches.length > 1) {
+    return { status: 409, error: 'More than one athlete has this name. Use your login link instead.' };
+  }
+
+  const athlete = matches[0];
+  if (!isNameLoginEnabled(athlete.id)) {
+    return { status: 403, error: 'Name links are turned off for your team. Use your login link instead.' };
+  }
+
+  if (athlete.login_pin_hash) {
+    if (athlete.pin_locked_until && new Date(athlete.pin_locked_until) > new Date()) {
+      return { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true };
+    }
+    if (!pin) {
+      return { status: 401, error: 'PIN required', pinRequired: true };
+    }
+
+    const attempt = recordPinAttempt(athlete.id);
+    if (attempt === 'locked') {
+      return { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true };
+    }
+    if (!verifyPassword(pin, athlete.login_pin_hash)) {
+      return attempt === 'lockedOut'
+        ? { status: 429, error: 'Too many incorrect PINs. Try again later.', pinRequired: true }
+        : { status: 401, error: 'Incorrect PIN', pinRequired: true };
+    }
+    db.prepare(`
+      UPDATE athletes SET pin_failed_attempts = 0, pin_lockouts = 0, pin_locked_until = NULL WHERE id = ?
+    `).run(athlete.id);
+  }
+
+  return { athlete: { id: athlete.id, name: athlete.name, email: athlete.email } };
+}
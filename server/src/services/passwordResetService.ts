@@ -0,0 +1,74 @@
+import { randomInt, randomUUID } from 'crypto';
+import { getDatabase } from './dbService.js';
+import { AthleteAccount, hashPassword, setAthletePassword, verifyPassword } from './authService.js';
+import { sendEmail } from './emailService.js';
+
+const db = getDatabase();
+
+// Athletes reset a forgotten password with a 6-digit code sent to their email. Codes are stored
+// hashed, expire quickly and only allow a few guesses; requesting a new one replaces the old.
+const RESET_CODE_MINUTES = 15;
+const MAX_RESET_ATTEMPTS = 5;
+// How soon another code can be sent to the same athlete
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Email a reset code to the athlete with this email, if there is one. Callers respond the same
+ * way either way, so the endpoint doesn't reveal which emails have accounts.
+ */
+export async function requestPasswordReset(email: string) {
+  const athlete: any = db.prepare('SELECT id, name, email FROM athletes WHERE email = ? COLLATE NOCASE').get(email.trim());
+  if (!athlete) return;
+
+  const now = new Date();
+  const recent: any = db.prepare(`
+    SELECT 1 FROM password_reset_codes WHERE athlete_id = ? AND created_at > ?
+  `).get(athlete.id, new Date(now.getTime() - RESEND_COOLDOWN_SECONDS * 1000).toISOString());
+  if (recent) return;
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  db.transaction(() => {
+    db.prepare('DELETE FROM password_reset_codes WHERE athlete_id = ?').run(athlete.id);
+    db.prepare(`
+      INSERT INTO password_reset_codes (id, athlete_id, code_hash, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(),
+      athlete.id,
+      hashPassword(code),
+      new Date(now.getTime() + RESET_CODE_MINUTES * 60 * 1000).toISOString(),
+      now.toISOString()
+    );
+  })();
+
+  await sendEmail({
+    to: athlete.email,
+    subject: 'Your Sequence password reset code',
+    text: `Hi ${athlete.name},\n\nYour password reset code is ${code}. It expires in ${RESET_CODE_MINUTES} minutes.\n\nIf you didn't ask to reset your password, you can ignore this email.`,
+  });
+}
+
+/**
+ * Set a new password with a code from requestPasswordReset. Returns the athlete, or null when the
+ * code is wrong, expired or out of guesses. A code works once.
+ */
+export function confirmPasswordReset(email: string, code: string, newPassword: string): AthleteAccount | null {
+  const athlete: any = db.prepare('SELECT id, name, email FROM athletes WHERE email = ? COLLATE NOCASE').get(email.trim());
+  if (!athlete) return null;
+
+  const row: any = db.prepare('SELECT * FROM password_reset_codes WHERE athlete_id = ?').get(athlete.id);
+  if (!row || row.expires_at <= new Date().toISOString()) return null;
+
+  // Each guess uses up an attempt before the code is checked
+  const attempt = db.prepare(`
+    UPDATE password_reset_codes SET attempts = attempts + 1 WHERE id = ? AND attempts < ?
+  `).run(row.id, MAX_RESET_ATTEMPTS);
+  if (attempt.changes === 0 || !verifyPassword(code.trim(), row.code_hash)) return null;
+
+  db.transaction(() => {
+    setAthletePassword(athlete.id, newPassword);
+    db.prepare('DELETE FROM password_reset_codes WHERE athlete_id = ?').run(athlete.id);
+  })();
+
+  return { id: athlete.id, name: athlete.name, email: athlete.email };
+}
@@ -0,0 +1,152 @@
+// Structured exercise prescription (mirrors ExercisePrescription in src/utils/api.ts)
+export interface ExercisePrescription {
+  kind: 'reps' | 'range' | 'scheme' | 'amrap' | 'time' | 'distance';
+  reps?: number;
+  repsMin?: number;
+  repsMax?: number;
+  scheme?: number[];
+  seconds?: number;
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+  loadType?: 'weight' | 'percent1RM';
+  load?: number;
+  setLoads?: number[];
+  unit?: LoadUnit;
+  rpe?: number;
+  rir?: number;
+  tempo?: string;
+  note?: string;
+  progression?: ProgressionRule;
+}
+
+// Week-over-week change applied when a program schedules the exercise (see progressionService)
+export type ProgressionRule =
+  | { type: 'load'; increment: number }
+  | { type: 'reps'; ceiling: number; increment: number }
+  | { type: 'wave'; percents: number[]; increment?: number };
+
+type LoadUnit = 'lb' | 'kg';
+type DistanceUnit = 'm' | 'yd' | 'km' | 'mi';
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+const DISTANCE_UNITS: Record<string, DistanceUnit> = {
+  m: 'm', meter: 'm', meters: 'm',
+  yd: 'yd', yds: 'yd', yard: 'yd', yards: 'yd',
+  km: 'km',
+  mi: 'mi', mile: 'mi', miles: 'mi',
+};
+
+function parseUnit(text: string | undefined): LoadUnit | undefined {
+  if (!text) return undefined;
+  return text.toLowerCase().startsWith('kg') ? 'kg' : 'lb';
+}
+
+// Parse legacy free-text reps/weight into a prescription.
+// Returns null when the reps text doesn't match any known format.
+export function parsePrescription(repsText: string, weightText?: string): ExercisePrescription | null {
+  let reps = (repsText || '').trim();
+  let weight = (weightText || '').trim();
+  const extras: Partial<ExercisePrescription> = {};
+
+  // RPE/RIR/tempo can be written in either field
+  const pullExtra = (pattern: RegExp, apply: (value: string) => void) => {
+    const strip = (text: string) => {
+      const match = text.match(pattern);
+      if (!match) return text;
+      apply(match[1]);
+      return text.replace(match[0], '').replace(/^[\s@,]+|[\s@,]+$/g, '');
+    };
+    reps = strip(reps);
+    weight = strip(weight);
+  };
+  pullExtra(/@?\s*rpe\s*(\d+(?:\.5)?)/i, (v) => { extras.rpe = parseFloat(v); });
+  pullExtra(/rir\s*(\d+)/i, (v) => { extras.rir = parseInt(v); });
+  pullExtra(/tempo\s*([\dx]+(?:-[\dx]+){2,3})/i, (v) => { extras.tempo = v.toUpperCase(); });
+
+  let prescription: ExercisePrescription | null = null;
+  let match: RegExpMatchArray | null;
+
+  if ((match = reps.match(/^(\d+)$/))) {
+    prescription = { kind: 'reps', reps: parseInt(match[1]) };
+  } else if ((match = reps.match(/^(\d+)\s*[-–]\s*(\d+)$/))) {
+    prescription = { kind: 'range', repsMin: parseInt(match[1]), repsMax: parseInt(match[2]) };
+  } else if (/^\d+(\s*[/,]\s*\d+)+$/.test(reps)) {
+    prescription = { kind: 'scheme', scheme: reps.split(/[/,]/).map((r) => parseInt(r.trim())) };
+  } else if (/^(amrap|max)$/i.test(reps)) {
+    prescription = { kind: 'amrap' };
+  } else if ((match = reps.match(/^(\d+):(\d{2})$/))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) * 60 + parseInt(match[2]) };
+  } else if ((match = reps.match(/^(\d+)\s*(s|sec|secs|seconds)$/i))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) };
+  } else if ((match = reps.match(/^(\d+)\s*(min|mins|minutes)$/i))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) * 60 };
+  } else if ((match = reps.match(new RegExp(`^${NUMBER}\\s*([a-z]+)$`, 'i'))) && DISTANCE_UNITS[match[2].toLowerCase()]) {
+    prescription = {
+      kind: 'distance',
+      distance: parseFloat(match[1]),
+      distanceUnit: DISTANCE_UNITS[match[2].toLowerCase()],
+    };
+  }
+
+  if (!prescription) return null;
+
+  if (weight) {
+    const unitPattern = '\\s*(lbs?|kgs?)?';
+    if ((match = weight.match(new RegExp(`^${NUMBER}\\s*%(?:\\s*(?:of\\s*)?1rm)?$`, 'i')))) {
+      prescription.loadType = 'percent1RM';
+      prescription.load = parseFloat(match[1]);
+    } else if ((match = weight.match(new RegExp(`^(\\d+(?:\\.\\d+)?(?:\\s*/\\s*\\d+(?:\\.\\d+)?)+)\\s*%(?:\\s*(?:of\\s*)?1rm)?$`, 'i')))) {
+      prescription.loadType = 'percent1RM';
+      prescription.setLoads = match[1].split('/').map((l) => parseFloat(l.trim()));
+    } else if ((match = weight.match(new RegExp(`^${NUMBER}${unitPattern}$`, 'i')))) {
+      prescription.loadType = 'weight';
+      prescription.load = parseFloat(match[1]);
+      prescription.unit = parseUnit(match[2]);
+    } else if ((match = weight.match(new RegExp(`^(\\d+(?:\\.\\d+)?(?:\\s*/\\s*\\d+(?:\\.\\d+)?)+)${unitPattern}$`, 'i')))) {
+      prescription.loadType = 'weight';
+      prescription.setLoads = match[1].split('/').map((l) => parseFloat(l.trim()));
+      prescription.unit = parseUnit(match[2]);
+    } else {
+      prescription.note = weight;
+    }
+  }
+
+  return { ...prescription, ...extras };
+}
+
+// Format the reps part of a prescription (e.g. "8-10", "5/3/1", "AMRAP", "30s", "400m")
+export function formatPrescriptionReps(prescription: ExercisePrescription): string {
+  switch (prescription.kind) {
+    case 'reps':
+      return `${prescription.reps ?? ''}`;
+    case 'range':
+      return `${prescription.repsMin ?? ''}-${prescription.repsMax ?? ''}`;
+    case 'scheme':
+      return (prescription.scheme || []).join('/');
+    case 'amrap':
+      return 'AMRAP';
+    case 'time': {
+      const seconds = prescription.seconds || 0;
+      if (seconds < 60) return `${seconds}s`;
+      const minutes = Math.floor(seconds / 60);
+      const rest = seconds % 60;
+      return rest === 0 ? `${minutes} min` : `${minutes}:${rest.toString().padStart(2, '0')}`;
+    }
+    case 'distance':
+      return `${prescription.distance ?? ''}${prescription.distanceUnit || 'm'}`;
+  }
+}
+
+// Format the load part of a prescription (e.g. "185 lb", "75% 1RM", "65/75/85% 1RM")
+export function formatPrescriptionLoad(prescription: ExercisePrescription): string {
+  const values = prescription.setLoads && prescription.setLoads.length > 0
+    ? prescription.setLoads.join('/')
+    : prescription.load !== undefined ? `${prescription.load}` : '';
+  if (!values || !prescription.loadType) return '';
+
+  if (prescription.loadType === 'percent1RM') {
+    return `${values}% 1RM`;
+  }
+  return prescription.unit ? `${values} ${prescription.unit}` : values;
+}
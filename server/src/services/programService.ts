@@ -0,0 +1,227 @@
+import { getDatabase, getWorkoutWithBlocks, saveWorkout } from './dbService.js';
+import { Exercise as LibraryExercise } from './csvService.js';
+import { DeloadRule, applyProgressionToBlocks, validateDeload } from './progressionService.js';
+
+const db = getDatabase();
+
+export const MAX_PROGRAM_WEEKS = 52;
+
+export interface ProgramDay {
+  week: number; // 1-based
+  day: number; // 1-based training day within the week
+  workoutId: string; // template workout
+}
+
+export interface ProgramInput {
+  name: string;
+  description?: string;
+  weeks: number;
+  daysPerWeek: number;
+  deload?: DeloadRule | null;
+  days?: ProgramDay[];
+}
+
+export interface ProgramAssignmentInput {
+  athleteId?: string;
+  teamId?: string;
+  startDate: string;
+  weekdays: number[]; // weekday (0 = Sunday) for each training day, in day order
+}
+
+// Map a programs row and its program_days rows to API shape
+function mapProgramRow(program: any, days: any[]) {
+  return {
+    id: program.id,
+    name: program.name,
+    description: program.description || undefined,
+    weeks: program.weeks,
+    daysPerWeek: program.days_per_week,
+    deload: program.deload ? (JSON.parse(program.deload) as DeloadRule) : undefined,
+    days: days
+      .filter((d: any) => d.workout_id)
+      .map((d: any) => ({ week: d.week, day: d.day, workoutId: d.workout_id })),
+    createdAt: program.created_at,
+    updatedAt: program.updated_at,
+  };
+}
+
+// Get a program with its day grid in API shape
+export function getProgram(programId: string) {
+  const program: any = db.prepare('SELECT * FROM programs WHERE id = ?').get(programId);
+  if (!program) return null;
+
+  const days = db.prepare(`
+    SELECT * FROM program_days
+    WHERE program_id = ?
+    ORDER BY week ASC, day ASC
+  `).all(programId);
+
+  return mapProgramRow(program, days);
+}
+
+export function getAllPrograms() {
+  const programs = db.prepare('SELECT * FROM programs ORDER BY created_at DESC').all();
+  return programs.map((program: any) => getProgram(program.id)).filter(Boolean);
+}
+
+// Returns an error message for an invalid program body, or null
+export function validateProgram(program: any): string | null {
+  if (!program.name) return 'Program name is required';
+  if (!Number.isInteger(program.weeks) || program.weeks < 1 || program.weeks > MAX_PROGRAM_WEEKS) {
+    return `Weeks must be between 1 and ${MAX_PROGRAM_WEEKS}`;
+  }
+  if (!Number.isInteger(program.daysPerWeek) || program.daysPerWeek < 1 || program.daysPerWeek > 7) {
+    return 'Days per week must be between 1 and 7';
+  }
+  return validateDeload(program.deload);
+}
+
+// Create (create = true) or update a program, replacing its day grid, in one transaction.
+// Days outside weeks x daysPerWeek are dropped. Returns null when updating a program that doesn't exist.
+export function saveProgram(programId: string, program: ProgramInput, create = false) {
+  const deload = program.deload ? JSON.stringify(program.deload) : null;
+  const transaction = db.transaction(() => {
+    if (create) {
+      db.prepare(`
+        INSERT INTO programs (id, name, description, weeks, days_per_week, deload)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(programId, program.name, program.description || null, program.weeks, program.daysPerWeek, deload);
+    } else {
+      const result = db.prepare(`
+        UPDATE programs
+        SET name = ?, description = ?, weeks = ?, days_per_week = ?, deload = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `).run(program.name, program.description || null, program.weeks, program.daysPerWeek, deload, programId);
+
+      if (result.changes === 0) return null;
+    }
+
+    db.prepare('DELETE FROM program_days WHERE program_id = ?').run(programId);
+
+    const insertDay = db.prepare(`
+      INSERT OR REPLACE INTO program_days (program_id, week, day, workout_id)
+      VALUES (?, ?, ?, ?)
+    `);
+    (program.days || []).forEach((d) => {
+      if (!d.workoutId) return;
+      if (d.week < 1 || d.week > program.weeks || d.day < 1 || d.day > program.daysPerWeek) return;
+      insertDay.run(programId, d.week, d.day, d.workoutId);
+    });
+
+    return getProgram(programId);
+  });
+
+  return transaction();
+}
+
+export function deleteProgram(programId: string) {
+  // Workouts already materialized from the program are kept
+  return db.prepare('DELETE FROM programs WHERE id = ?').run(programId).changes > 0;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Dates for each training day of each week (dates[week - 1][day - 1]). Week 1's first day is the
+// first of its weekday on or after startDate, each following day is the next of its weekday, and
+// later weeks repeat week 1 shifted by 7 days. Returns null if the weekdays don't fit in a week.
+export function getProgramDates(startDate: string, weeks: number, weekdays: number[]): string[][] | null {
+  const firstWeek: Date[] = [];
+  let cursor = new Date(`${startDate}T00:00:00Z`);
+  for (const weekday of weekdays) {
+    const date = new Date(cursor);
+    date.setUTCDate(date.getUTCDate() + ((weekday - cursor.getUTCDay() + 7) % 7));
+    firstWeek.push(date);
+    cursor = new Date(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  const span = firstWeek.length > 0
+    ? (firstWeek[firstWeek.length - 1].getTime() - firstWeek[0].getTime()) / 86400000
+    : 0;
+  if (span >= 7) return null;
+
+  return Array.from({ length: weeks }, (_, weekIndex) =>
+    firstWeek.map((date) => {
+      const shifted = new Date(date);
+      shifted.setUTCDate(shifted.getUTCDate() + weekIndex * 7);
+      return formatDate(shifted);
+    })
+  );
+}
+
+// Returns an error message for an invalid assignment of this program, or null
+export function validateAssignment(program: { daysPerWeek: number }, assignment: any): string | null {
+  const { athleteId, teamId, startDate, weekdays } = assignment;
+  if (!athleteId === !teamId) return 'Assign the program to either an athlete or a team';
+  if (!startDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return 'Start date is required (YYYY-MM-DD)';
+  if (
+    !Array.isArray(weekdays) ||
+    weekdays.length !== program.daysPerWeek ||
+    weekdays.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6) ||
+    new Set(weekdays).size !== weekdays.length
+  ) {
+    return `Pick a different weekday for each of the ${program.daysPerWeek} training days`;
+  }
+  return null;
+}
+
+// Record an assignment and materialize its dated workouts from the program's template workouts,
+// all in one transaction. Each week's copy gets the exercises' progression rules and the program's
+// deload applied. Days without a template are skipped.
+// Returns null if the weekdays don't fit in a single week.
+export function assignProgram(
+  program: NonNullable<ReturnType<typeof getProgram>>,
+  assignment: ProgramAssignmentInput,
+  library: LibraryExercise[]
+) {
+  const dates = getProgramDates(assignment.startDate, program.weeks, assignment.weekdays);
+  if (!dates) return null;
+
+  const assignmentId = Date.now().toString();
+  const transaction = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO program_assignments (id, program_id, athlete_id, team_id, start_date, weekdays)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      assignmentId,
+      program.id,
+      assignment.athleteId || null,
+      assignment.teamId || null,
+      assignment.startDate,
+      JSON.stringify(assignment.weekdays)
+    );
+
+    const setAssignment = db.prepare('UPDATE workouts SET program_assignment_id = ? WHERE id = ?');
+    const workoutIds: string[] = [];
+    program.days.forEach((programDay) => {
+      const template = getWorkoutWithBlocks(programDay.workoutId);
+      const date = dates[programDay.week - 1]?.[programDay.day - 1];
+      if (!template || !date) return;
+
+      const workoutId = `${assignmentId}_${workoutIds.length + 1}`;
+      saveWorkout(workoutId, {
+        name: template.name,
+        date,
+        athleteId: assignment.athleteId,
+        teamId: assignment.teamId,
+        blocks: applyProgressionToBlocks(template.blocks, programDay.week, program.deload),
+      }, library, true);
+      setAssignment.run(assignmentId, workoutId);
+      workoutIds.push(workoutId);
+    });
+
+    return {
+      id: assignmentId,
+      programId: program.id,
+      athleteId: assignment.athleteId || undefined,
+      teamId: assignment.teamId || undefined,
+      startDate: assignment.startDate,
+      weekdays: assignment.weekdays,
+      workoutIds,
+    };
+  });
+
+  return transaction();
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export type E1RMFormula = 'epley' | 'brzycki';
+export type RecordType = '1RM' | '3RM' | '5RM' | 'e1RM';
+
+// Rep-max records: heaviest weight lifted for at least this many reps
+const REP_MAX_RECORDS: Array<{ type: RecordType; reps: number }> = [
+  { type: '1RM', reps: 1 },
+  { type: '3RM', reps: 3 },
+  { type: '5RM', reps: 5 },
+];
+
+// Rep-based estimates get unreliable past this many reps, so longer sets don't produce an e1RM
+export const MAX_E1RM_REPS = 12;
+
+// Formula used for new estimates; set E1RM_FORMULA=brzycki to switch from the Epley default
+export function getE1RMFormula(): E1RMFormula {
+  return process.env.E1RM_FORMULA?.toLowerCase() === 'brzycki' ? 'brzycki' : 'epley';
+}
+
+// Estimated 1RM for a set, rounded to 0.1. A single is its own 1RM.
+export function estimateOneRepMax(weight: number, reps: number, formula: E1RMFormula = getE1RMFormula()): number | null {
+  if (!(weight > 0) || !Number.isInteger(reps) || reps < 1 || reps > MAX_E1RM_REPS) return null;
+  if (reps === 1) return weight;
+  const estimate = formula === 'brzycki'
+    ? weight * 36 / (37 - reps)
+    : weight * (1 + reps / 30);
+  return Math.round(estimate * 10) / 10;
+}
+
+interface LoggedSet {
+  setNumber: number;
+  weight: number;
+  reps: number;
+}
+
+// Completed sets with a usable weight and rep count
+function toLoggedSets(rows: any[]): LoggedSet[] {
+  return rows
+    .map((row) => ({
+      setNumber: row.set_number,
+      weight: parseFloat(row.weight),
+      reps: parseInt(row.reps),
+    }))
+    .filter((set) => set.weight > 0 && set.reps > 0);
+}
+
+// Best set per record type: { value, set } where value is the weight (rep maxes) or the estimate (e1RM)
+function getBests(sets: LoggedSet[], formula: E1RMFormula) {
+  const bests = new Map<RecordType, { value: number; set: LoggedSet }>();
+  const consider = (type: RecordType, value: number | null, set: LoggedSet) => {
+    if (value === null) return;
+    const current = bests.get(type);
+    if (!current || value > current.value) bests.set(type, { value, set });
+  };
+  sets.forEach((set) => {
+    REP_MAX_RECORDS.forEach(({ type, reps }) => {
+      if (set.reps >= reps) consider(type, set.weight, set);
+    });
+    consider('e1RM', estimateOneRepMax(set.weight, set.reps, formula), set);
+  });
+  return bests;
+}
+
+// Map a personal_records row to API shape
+export function mapRecordRow(row: any) {
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    exerciseId: row.exercise_id || undefined,
+    exerciseName: row.exercise_name,
+    type: row.record_type as RecordType,
+    value: row.value,
+    previousValue: row.previous_value ?? undefined,
+    weight: row.weight,
+    reps: row.reps,
+    formula: row.formula || undefined,
+    workoutId: row.workout_id,
+    blockExerciseId: row.block_exercise_id,
+    setNumber: row.set_number,
+    date: row.date,
+    createdAt: row.created_at,
+  };
+}
+
+// PR history for an athlete, newest first, optionally limited to one workout
+export function getAthleteRecords(athleteId: string, workoutId?: string) {
+  const rows = workoutId
+    ? db.prepare(`
+        SELECT * FROM personal_records
+        WHERE athlete_id = ? AND workout_id = ?
+        ORDER BY date DESC, created_at DESC
+      `).all(athleteId, workoutId)
+    : db.prepare(`
+        SELECT * FROM personal_records
+        WHERE athlete_id = ?
+        ORDER BY date DESC, created_at DESC
+      `).all(athleteId);
+  return rows.map(mapRecordRow);
+}
+
+// Re-detect PRs for one athlete's sets of a workout exercise after they're saved. The exercise's
+// completed sets are compared with every other completed set the athlete logged for the same
+// exercise (same library exercise, or same name for custom ones); each record type beaten gets a
+// history row. The exercise's earlier rows are replaced, so edits and deleted sets don't leave
+// stale PRs behind. A first-ever log sets the baseline and isn't a PR. Returns the exercise's PRs.
+export function detectPersonalRecords(workoutId: string, blockExerciseId: string, athleteId: string) {
+  const exercise: any = db.prepare('SELECT exercise_id, exercise_name FROM block_exercises WHERE id = ?').get(blockExerciseId);
+  const workout: any = db.prepare('SELECT date FROM workouts WHERE id = ?').get(workoutId);
+  if (!exercise || !workout) return [];
+
+  const formula = getE1RMFormula();
+  const transaction = db.transaction(() => {
+    db.prepare(`
+      DELETE FROM personal_records
+      WHERE athlete_id = ? AND workout_id = ? AND block_exercise_id = ?
+    `).run(athleteId, workoutId, blockExerciseId);
+
+    const currentSets = toLoggedSets(db.prepare(`
+      SELECT set_number, weight, reps FROM exercise_sets
+      WHERE block_exercise_id = ? AND workout_id = ? AND athlete_id = ? AND completed = 1
+    `).all(blockExerciseId, workoutId, athleteId));
+    if (currentSets.length === 0) return;
+
+    const previousSets = toLoggedSets(db.prepare(`
+      SELECT es.set_number, es.weight, es.reps
+      FROM exercise_sets es
+      JOIN block_exercises be ON be.id = es.block_exercise_id
+      WHERE es.athlete_id = ?
+        AND es.completed = 1
+        AND NOT (es.block_exercise_id = ? AND es.workout_id = ?)
+        AND (be.exercise_id = ? OR lower(trim(be.exercise_name)) = lower(trim(?)))
+    `).all(athleteId, blockExerciseId, workoutId, exercise.exercise_id, exercise.exercise_name));
+    if (previousSets.length === 0) return;
+
+    const previousBests = getBests(previousSets, formula);
+    const insert = db.prepare(`
+      INSERT INTO personal_records
+      (id, athlete_id, exercise_id, exercise_name, record_type, value, previous_value, weight, reps, formula,
+       workout_id, block_exercise_id, set_number, date)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    getBests(currentSets, formula).forEach((best, type) => {
+      const previous = previousBests.get(type);
+      if (!previous || best.value <= previous.value) return;
+      insert.run(
+        randomUUID(),
+        athleteId,
+        exercise.exercise_id,
+        exercise.exercise_name,
+        type,
+        best.value,
+        previous.value,
+        best.set.weight,
+        best.set.reps,
+        type === 'e1RM' ? formula : null,
+        workoutId,
+        blockExerciseId,
+        best.set.setNumber,
+        workout.date
+      );
+    });
+  });
+  transaction();
+
+  return db.prepare(`
+    SELECT * FROM personal_records
+    WHERE athlete_id = ? AND workout_id = ? AND block_exercise_id = ?
+  `).all(athleteId, workoutId, blockExerciseId).map(mapRecordRow);
+}
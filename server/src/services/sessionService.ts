@@ -0,0 +1,102 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+export const MAX_SESSION_MINUTES = 600;
+export const MAX_SESSION_COMMENT_LENGTH = 2000;
+
+export interface SessionFeedbackInput {
+  sessionRpe: number; // CR-10 scale, 0-10
+  durationMinutes?: number;
+  comment?: string;
+}
+
+// Returns an error message for an invalid feedback body, or null
+export function validateSessionFeedback(body: any): string | null {
+  if (!Number.isInteger(body.sessionRpe) || body.sessionRpe < 0 || body.sessionRpe > 10) {
+    return 'Session RPE must be a whole number between 0 and 10';
+  }
+  if (body.durationMinutes !== undefined && body.durationMinutes !== null) {
+    if (!Number.isInteger(body.durationMinutes) || body.durationMinutes < 1 || body.durationMinutes > MAX_SESSION_MINUTES) {
+      return `Duration must be between 1 and ${MAX_SESSION_MINUTES} minutes`;
+    }
+  }
+  if (body.comment !== undefined && body.comment !== null) {
+    if (typeof body.comment !== 'string' || body.comment.length > MAX_SESSION_COMMENT_LENGTH) {
+      return `Comment must be text of at most ${MAX_SESSION_COMMENT_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+// Map a workout_completions row (joined with its workout) to API shape. Training load is
+// session RPE x duration (Foster's sRPE method), in arbitrary units.
+export function mapSessionRow(row: any) {
+  const sessionRpe = row.session_rpe ?? undefined;
+  const durationMinutes = row.duration_minutes ?? undefined;
+  return {
+    workoutId: row.workout_id,
+    athleteId: row.athlete_id,
+    workoutName: row.workout_name,
+    date: row.date,
+    completedAt: row.completed_at,
+    sessionRpe,
+    durationMinutes,
+    comment: row.session_comment || undefined,
+    load: sessionRpe !== undefined && durationMinutes !== undefined ? sessionRpe * durationMinutes : undefined,
+  };
+}
+
+const SESSION_QUERY = `
+  SELECT wc.*, w.name AS workout_name, w.date
+  FROM workout_completions wc
+  JOIN workouts w ON w.id = wc.workout_id
+`;
+
+// Store session feedback on the athlete's completion of a workout. Feedback is given as the workout
+// is completed, but can arrive before the sets save marks it complete, so it's kept on a row that
+// doesn't count as a completion until the sets do.
+export function saveSessionFeedback(workoutId: string, athleteId: string, feedback: SessionFeedbackInput) {
+  db.prepare(`
+    INSERT INTO workout_completions
+      (workout_id, athlete_id, session_rpe, duration_minutes, session_comment, feedback_at, completed)
+    VALUES (?, ?, ?, ?, ?, datetime('now'), 0)
+    ON CONFLICT(workout_id, athlete_id) DO UPDATE SET
+      session_rpe = excluded.session_rpe,
+      duration_minutes = excluded.duration_minutes,
+      session_comment = excluded.session_comment,
+      feedback_at = excluded.feedback_at
+  `).run(
+    workoutId,
+    athleteId,
+    feedback.sessionRpe,
+    feedback.durationMinutes ?? null,
+    feedback.comment?.trim() || null
+  );
+
+  return mapSessionRow(db.prepare(`${SESSION_QUERY} WHERE wc.workout_id = ? AND wc.athlete_id = ?`).get(workoutId, athleteId));
+}
+
+// An athlete's completed workouts with their session feedback, newest first. from/to filter on
+// the workout date (YYYY-MM-DD, inclusive).
+export function getAthleteSessions(athleteId: string, filters: { from?: string; to?: string; workoutId?: string } = {}) {
+  let query = `${SESSION_QUERY} WHERE wc.athlete_id = ? AND wc.completed = 1`;
+  const params: any[] = [athleteId];
+
+  if (filters.from) {
+    query += ' AND w.date >= ?';
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    query += ' AND w.date <= ?';
+    params.push(filters.to);
+  }
+  if (filters.workoutId) {
+    query += ' AND wc.workout_id = ?';
+    params.push(filters.workoutId);
+  }
+
+  query += ' ORDER BY w.date DESC, wc.completed_at DESC';
+
+  return db.prepare(query).all(...params).map(mapSessionRow);
+}
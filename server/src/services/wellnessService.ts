@@ -0,0 +1,213 @@
+import { getDatabase } from './dbService.js';
+
+const db = getDatabase();
+
+// Questions a team can ask; all of them unless the team's coach narrows the list
+export const WELLNESS_QUESTIONS = ['sleepHours', 'sleepQuality', 'soreness', 'stress', 'mood', 'energy', 'painLocation'] as const;
+export type WellnessQuestion = typeof WELLNESS_QUESTIONS[number];
+
+// 1-5 answers. Soreness and stress are worse when higher; the others are better when higher.
+const SCALE_QUESTIONS: Array<{ key: WellnessQuestion; higherIsBetter: boolean }> = [
+  { key: 'sleepQuality', higherIsBetter: true },
+  { key: 'soreness', higherIsBetter: false },
+  { key: 'stress', higherIsBetter: false },
+  { key: 'mood', higherIsBetter: true },
+  { key: 'energy', higherIsBetter: true },
+];
+
+// Readiness below this (0-100) is flagged to coaches
+export const LOW_READINESS_THRESHOLD = 60;
+
+export interface WellnessCheckinInput {
+  date: string; // YYYY-MM-DD
+  sleepHours?: number;
+  sleepQuality?: number;
+  soreness?: number;
+  stress?: number;
+  mood?: number;
+  energy?: number;
+  painLocation?: string;
+}
+
+// Returns an error message for an invalid question list, or null
+export function validateWellnessQuestions(questions: any): string | null {
+  if (!Array.isArray(questions) || questions.length === 0) return 'At least one question is required';
+  if (questions.some((q) => !WELLNESS_QUESTIONS.includes(q))) {
+    return `Questions must be from: ${WELLNESS_QUESTIONS.join(', ')}`;
+  }
+  return null;
+}
+
+// Returns an error message for an invalid check-in body, or null
+export function validateWellnessCheckin(body: any): string | null {
+  if (!body.date || !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) return 'Date is required (YYYY-MM-DD)';
+  if (body.sleepHours !== undefined && body.sleepHours !== null) {
+    if (typeof body.sleepHours !== 'number' || body.sleepHours < 0 || body.sleepHours > 24) {
+      return 'Sleep hours must be between 0 and 24';
+    }
+  }
+  for (const { key } of SCALE_QUESTIONS) {
+    const value = body[key];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1 || value > 5)) {
+      return `${key} must be a whole number between 1 and 5`;
+    }
+  }
+  if (body.painLocation !== undefined && body.painLocation !== null) {
+    if (typeof body.painLocation !== 'string' || body.painLocation.length > 200) {
+      return 'Pain location must be text of at most 200 characters';
+    }
+  }
+  return null;
+}
+
+/**
+ * Readiness score 0-100: the mean of the answered 1-5 questions (oriented so higher is better) and
+ * sleep hours (4h or less = 0, 8h or more = 1). Undefined when nothing scorable was answered.
+ */
+export function computeReadiness(checkin: WellnessCheckinInput): number | undefined {
+  const scores: number[] = [];
+  if (checkin.sleepHours !== undefined && checkin.sleepHours !== null) {
+    scores.push(Math.min(Math.max((checkin.sleepHours - 4) / 4, 0), 1));
+  }
+  SCALE_QUESTIONS.forEach(({ key, higherIsBetter }) => {
+    const value = checkin[key as keyof WellnessCheckinInput];
+    if (typeof value !== 'number') return;
+    scores.push(higherIsBetter ? (value - 1) / 4 : (5 - value) / 4);
+  });
+  if (scores.length === 0) return undefined;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100);
+}
+
+// Map a wellness_checkins row to API shape
+export function mapCheckinRow(row: any) {
+  const readiness = row.readiness ?? undefined;
+  return {
+    id: row.id,
+    athleteId: row.athlete_id,
+    date: row.date,
+    sleepHours: row.sleep_hours ?? undefined,
+    sleepQuality: row.sleep_quality ?? undefined,
+    soreness: row.soreness ?? undefined,
+    stress: row.stress ?? undefined,
+    mood: row.mood ?? undefined,
+    energy: row.energy ?? undefined,
+    painLocation: row.pain_location || undefined,
+    readiness,
+    // Reported pain is flagged regardless of the score
+    lowReadiness: (readiness !== undefined && readiness < LOW_READINESS_THRESHOLD) || !!row.pain_location,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseQuestions(stored: string | null): WellnessQuestion[] {
+  if (!stored) return [...WELLNESS_QUESTIONS];
+  try {
+    const questions = JSON.parse(stored);
+    return validateWellnessQuestions(questions) ? [...WELLNESS_QUESTIONS] : questions;
+  } catch {
+    return [...WELLNESS_QUESTIONS];
+  }
+}
+
+// The questions a team asks (every question until the coach configures the team)
+export function getTeamWellnessQuestions(teamId: string): WellnessQuestion[] | null {
+  const team: any = db.prepare('SELECT wellness_questions FROM teams WHERE id = ?').get(teamId);
+  return team ? parseQuestions(team.wellness_questions) : null;
+}
+
+export function setTeamWellnessQuestions(teamId: string, questions: WellnessQuestion[]) {
+  db.prepare('UPDATE teams SET wellness_questions = ? WHERE id = ?').run(JSON.stringify(questions), teamId);
+}
+
+// Questions asked of an athlete: everything their teams ask, in the standard order. Athletes
+// without a team get every question.
+export function getAthleteWellnessQuestions(athleteId: string): WellnessQuestion[] {
+  const teams: any[] = db.prepare(`
+    SELECT t.wellness_questions
+    FROM teams t
+    INNER JOIN team_athletes ta ON ta.team_id = t.id
+    WHERE ta.athlete_id = ?
+  `).all(athleteId);
+  if (teams.length === 0) return [...WELLNESS_QUESTIONS];
+
+  const asked = new Set<WellnessQuestion>();
+  teams.forEach((team) => parseQuestions(team.wellness_questions).forEach((q) => asked.add(q)));
+  return WELLNESS_QUESTIONS.filter((q) => asked.has(q));
+}
+
+// An athlete's check-ins, newest first. from/to are inclusive dates (YYYY-MM-DD).
+export function getAthleteCheckins(athleteId: string, filters: { from?: string; to?: string } = {}) {
+  let query = 'SELECT * FROM wellness_checkins WHERE athlete_id = ?';
+  const params: any[] = [athleteId];
+  if (filters.from) {
+    query += ' AND date >= ?';
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    query += ' AND date <= ?';
+    params.push(filters.to);
+  }
+  query += ' ORDER BY date DESC';
+  return db.prepare(query).all(...params).map(mapCheckinRow);
+}
+
+// Save the athlete's check-in for a day; filling it in again the same day replaces the answers
+export function saveCheckin(athleteId: string, input: WellnessCheckinInput) {
+  const readiness = computeReadiness(input);
+  db.prepare(`
+    INSERT INTO wellness_checkins
+    (id, athlete_id, date, sleep_hours, sleep_quality, soreness, stress, mood, energy, pain_location, readiness)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(athlete_id, date) DO UPDATE SET
+      sleep_hours = excluded.sleep_hours,
+      sleep_quality = excluded.sleep_quality,
+      soreness = excluded.soreness,
+      stress = excluded.stress,
+      mood = excluded.mood,
+      energy = excluded.energy,
+      pain_location = excluded.pain_location,
+      readiness = excluded.readiness,
+      updated_at = datetime('now')
+  `).run(
+    `${athleteId}_${input.date}`,
+    athleteId,
+    input.date,
+    input.sleepHours ?? null,
+    input.sleepQuality ?? null,
+    input.soreness ?? null,
+    input.stress ?? null,
+    input.mood ?? null,
+    input.energy ?? null,
+    input.painLocation?.trim() || null,
+    readiness ?? null
+  );
+
+  const row = db.prepare('SELECT * FROM wellness_checkins WHERE athlete_id = ? AND date = ?').get(athleteId, input.date);
+  return mapCheckinRow(row);
+}
+
+// One row per team athlete for a day, with their check-in if they've filled it in
+export function getTeamWellness(teamId: string, date: string) {
+  const athletes: any[] = db.prepare(`
+    SELECT a.id, a.name
+    FROM athletes a
+    INNER JOIN team_athletes ta ON a.id = ta.athlete_id
+    WHERE ta.team_id = ?
+    ORDER BY a.name COLLATE NOCASE ASC
+  `).all(teamId);
+
+  const checkins: any[] = db.prepare(`
+    SELECT wc.*
+    FROM wellness_checkins wc
+    INNER JOIN team_athletes ta ON ta.athlete_id = wc.athlete_id
+    WHERE ta.team_id = ? AND wc.date = ?
+  `).all(teamId, date);
+  const byAthlete = new Map(checkins.map((row) => [row.athlete_id, mapCheckinRow(row)]));
+
+  return athletes.map((athlete) => ({
+    athleteId: athlete.id,
+    athleteName: athlete.name,
+    checkin: byAthlete.get(athlete.id),
+  }));
+}
@@ -5,16 +5,115 @@ import { UserDashboard } from './components/UserDashboard';
 import { WorkoutViewer } from './components/WorkoutViewer';
 import { ExerciseDetail } from './components/ExerciseDetail';
 import { LoadingScreen } from './components/LoadingScreen';
+import { LoginScreen } from './components/LoginScreen';
+import { PinLoginScreen } from './components/PinLoginScreen';
+import { AthleteLoginScreen } from './components/AthleteLoginScreen';
 import { getTokenFromUrl, addTokenToUrl, getPlayerFromUrl, addPlayerToUrl } from './utils/tokenNavigation';
+import { authApi } from './utils/api';
+import { clearAuthToken, getAuthToken, getSessionUserId, setAuthToken } from './utils/auth';
+import { clearCachedResponses } from './utils/offlineStore';
+import { flushBeforeSignOut } from './utils/syncQueue';
+
+// Sign in with an athlete's login link. A single-use link only works once, so when it's been used
+// up (e.g. the page was reloaded with it still in the URL) the session saved on this device is
+// resumed instead.
+async function loginWithLink(linkToken: string): Promise<{ id: string; name: string; role: 'admin' | 'user' } | null> {
+  const response = await fetch(`/api/auth/login?token=${encodeURIComponent(linkToken)}`);
+  if (response.ok) {
+    const data = await response.json();
+    setAuthToken(data.token);
+    return data.user;
+  }
+  if (response.status === 401 && getAuthToken()) {
+    try {
+      const { user: sessionUser } = await authApi.me();
+      if (sessionUser.role === 'user') return sessionUser;
+    } catch (err) {
+      console.error('Failed to restore session:', err);
+    }
+  }
+  return null;
+}
 
-// Admin token - in production, this should be set via environment variable
-const ADMIN_TOKEN = import.meta.env.VITE_ADMIN_TOKEN || 'admin-sequence-2024-secure-token';
+// Sign in with a name link. Athletes with a PIN get { pinRequired } until it's given - unless
+// this device already holds their session, so reopening the link doesn't ask for it every time.
+async function loginWithName(
+  name: string,
+  pin?: string
+): Promise<{ user: { id: string; name: string; role: 'admin' | 'user' } } | { error: string; pinRequired?: boolean }> {
+  // URLSearchParams.get() already decodes the value, so name is already decoded
+  // Encode for API call, but use + for spaces in query parameters
+  const response = pin === undefined
+    ? await fetch(`/api/auth/by-name?player=${encodeURIComponent(name).replace(/%20/g, '+')}`)
+    : await fetch('/api/auth/by-name', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ player: name, pin }),
+      });
+  const data = await response.json().catch(() => ({}));
+  if (response.ok) {
+    setAuthToken(data.token);
+    return { user: data.user };
+  }
+  if (data.pinRequired && pin === undefined && getAuthToken()) {
+    try {
+      const { user: sessionUser } = await authApi.me();
+      if (sessionUser.role === 'user' && sessionUser.name.toLowerCase() === name.trim().toLowerCase()) {
+        return { user: sessionUser };
+      }
+    } catch (err) {
+      console.error('Failed to restore session:', err);
+    }
+  }
+  // PIN problems, and name links being off or ambiguous, are worth telling the athlete about
+  const explained = data.pinRequired || response.status === 403 || response.status === 409;
+  return {
+    error: explained && data.error ? data.error : 'Invalid login link. Please contact your coach for a new link.',
+    pinRequired: data.pinRequired,
+  };
+}
 
 // Component to handle token-based or player name-based routes (automatic login)
 function TokenRoute({ onSetUser, onLogout }: { onSetUser: (user: { id: string; name: string; role: 'admin' | 'user' }) => void; onLogout: () => void }) {
   const location = useLocation();
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState<{ id: string; name: string; role: 'admin' | 'user' } | null>(null);
+  // Name link waiting for the athlete's PIN
+  const [pinPlayer, setPinPlayer] = useState<string | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [pinLoading, setPinLoading] = useState(false);
+
+  const completePlayerLogin = (name: string, userData: { id: string; name: string; role: 'admin' | 'user' }) => {
+    setUser(userData);
+    onSetUser(userData);
+    // Cache the user to avoid re-authentication
+    (window as any).__cachedUser = userData;
+    
+    // Keep player name in URL - update URL to /user?mode=player&player=Name (spaces as +)
+    const encodedName = encodeURIComponent(name).replace(/%20/g, '+');
+    const newUrl = `/user?mode=player&player=${encodedName}`;
+    window.history.replaceState({}, '', newUrl);
+  };
+
+  const handlePinSubmit = async (pin: string) => {
+    if (!pinPlayer) return;
+    setPinLoading(true);
+    setPinError(null);
+    try {
+      const result = await loginWithName(pinPlayer, pin);
+      if ('user' in result) {
+        completePlayerLogin(pinPlayer, result.user);
+        setPinPlayer(null);
+      } else {
+        setPinError(result.error);
+      }
+    } catch (err) {
+      console.error('Failed to login:', err);
+      setPinError('Failed to connect. Please check your internet connection.');
+    } finally {
+      setPinLoading(false);
+    }
+  };
 
   useEffect(() => {
     // Get token or player name from query parameters - use window.location first
@@ -28,12 +127,8 @@ function TokenRoute({ onSetUser, onLogout }: { onSetUser: (user: { id: string; n
     const handleTokenLogin = async (loginToken: string) => {
       setLoading(true);
       try {
-        const response = await fetch(`/api/auth/login?token=${encodeURIComponent(loginToken)}`);
-        if (response.ok) {
-          const data = await response.json();
-          const userData = data.user;
-          
-          // Don't store anything - just use token from URL
+        const userData = await loginWithLink(loginToken);
+        if (userData) {
           setUser(userData);
           onSetUser(userData);
           // Cache the user to avoid re-authentication
@@ -57,26 +152,15 @@ function TokenRoute({ onSetUser, onLogout }: { onSetUser: (user: { id: string; n
     const handlePlayerLogin = async (name: string) => {
       setLoading(true);
       try {
-        // URLSearchParams.get() already decodes the value, so name is already decoded
-        // Encode for API call, but use + for spaces in query parameters
-        const encodedForApi = encodeURIComponent(name).replace(/%20/g, '+');
-        const response = await fetch(`/api/auth/by-name?player=${encodedForApi}`);
-        if (response.ok) {
-          const data = await response.json();
-          const userData = data.user;
-          
-          setUser(userData);
-          onSetUser(userData);
-          // Cache the user to avoid re-authentication
-          (window as any).__cachedUser = userData;
-          
-          // Keep player name in URL - update URL to /user?mode=player&player=Name (spaces as +)
-          const encodedName = encodeURIComponent(name).replace(/%20/g, '+');
-          const newUrl = `/user?mode=player&player=${encodedName}`;
-          window.history.replaceState({}, '', newUrl);
+        const result = await loginWithName(name);
+        if ('user' in result) {
+          completePlayerLogin(name, result.user);
+        } else if (result.pinRequired) {
+          setPinPlayer(name);
+          setPinError(result.error === 'PIN required' ? null : result.error);
         } else {
           // Show error message
-          alert('Invalid login link. Please contact your coach for a new link.');
+          alert(result.error);
         }
       } catch (err) {
         console.error('Failed to login:', err);
@@ -113,6 +197,10 @@ function TokenRoute({ onSetUser, onLogout }: { onSetUser: (user: { id: string; n
     return <UserDashboard user={user} onLogout={handleLogout} />;
   }
 
+  if (pinPlayer) {
+    return <PinLoginScreen playerName={pinPlayer} error={pinError} loading={pinLoading} onSubmit={handlePinSubmit} />;
+  }
+
   // No valid user - show error message
   return (
     <div className="min-h-screen bg-black flex items-center justify-center px-4">
@@ -124,67 +212,52 @@ function TokenRoute({ onSetUser, onLogout }: { onSetUser: (user: { id: string; n
   );
 }
 
-// Component to handle admin token-based routes
-function AdminTokenRoute({ onSetUser, onLogout, parentUser }: { 
+// Admin route: the coach login page, then the dashboard once signed in
+function AdminRoute({ onSetUser, onLogout, parentUser }: { 
   onSetUser: (user: { id: string; name: string; role: 'admin' | 'user' }) => void; 
   onLogout: () => void;
   parentUser: { id: string; name: string; role: 'admin' | 'user' } | null;
 }) {
-  const location = useLocation();
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState<{ id: string; name: string; role: 'admin' | 'user' } | null>(null);
 
   useEffect(() => {
-    // Use window.location first to ensure query params are available on webapp launch
-    const searchString = window.location.search || location.search;
-    const searchParams = new URLSearchParams(searchString);
-    const token = searchParams.get('token');
-
-    const handleAdminLogin = (adminToken: string) => {
-      setLoading(true);
-      
-      // Check if token matches admin token
-      if (adminToken === ADMIN_TOKEN) {
-        const adminUser = {
-          id: 'admin-1',
-          name: 'Admin User',
-          role: 'admin' as const,
-        };
-        
-        // Don't store anything - just use token from URL
-        setUser(adminUser);
-        onSetUser(adminUser);
-        // Cache the user to avoid re-authentication
-        (window as any).__cachedUser = adminUser;
-        
-        // Keep token in URL
-        const newUrl = addTokenToUrl('/admin', adminToken);
-        window.history.replaceState({}, '', newUrl);
-      } else {
-        alert('Invalid admin token. Please use the correct admin link.');
-      }
-      
-      setLoading(false);
-    };
+    // Old admin links carried the shared admin token in the URL; it no longer signs anyone in
+    if (getTokenFromUrl()) {
+      window.history.replaceState({}, '', '/admin');
+    }
 
-    // Check if already logged in as admin from parent (if they have token in URL)
     if (parentUser?.role === 'admin') {
-      const parentToken = getTokenFromUrl();
-      if (parentToken === ADMIN_TOKEN) {
-        setUser(parentUser);
-        setLoading(false);
-        return;
-      }
+      setUser(parentUser);
+      setLoading(false);
+      return;
     }
 
-    if (token) {
-      // Token in URL - validate it
-      handleAdminLogin(token);
-    } else {
-      // No token in URL - show error
+    // Resume a coach session saved on this device
+    if (!getAuthToken()) {
       setLoading(false);
+      return;
     }
-  }, [location.search, onSetUser, parentUser]);
+
+    authApi
+      .me()
+      .then(({ user: sessionUser }) => {
+        if (sessionUser.role === 'admin') {
+          setUser(sessionUser);
+          onSetUser(sessionUser);
+          // Cache the user to avoid re-authentication
+          (window as any).__cachedUser = sessionUser;
+        }
+      })
+      .catch((err) => console.error('Failed to restore session:', err))
+      .finally(() => setLoading(false));
+  }, [onSetUser, parentUser]);
+
+  const handleLogin = (adminUser: { id: string; name: string; role: 'admin' | 'user' }) => {
+    setUser(adminUser);
+    onSetUser(adminUser);
+    (window as any).__cachedUser = adminUser;
+  };
 
   const handleLogout = () => {
     setUser(null);
@@ -201,14 +274,7 @@ function AdminTokenRoute({ onSetUser, onLogout, parentUser }: {
     return <AdminDashboard user={user} onLogout={handleLogout} />;
   }
 
-  return (
-    <div className="min-h-screen bg-black flex items-center justify-center px-4">
-      <div className="text-center">
-        <h1 className="text-white text-2xl mb-4">Invalid Admin Token</h1>
-        <p className="text-gray-400">Please use the correct admin login link.</p>
-      </div>
-    </div>
-  );
+  return <LoginScreen onLogin={handleLogin} />;
 }
 
 // Component to handle root route
@@ -231,16 +297,38 @@ function RootRoute({ user, onSetUser }: {
   // Check for cached user on mount (for bookmark launches)
   useEffect(() => {
     const cachedUser = (window as any).__cachedUser;
-    if (cachedUser && !user && !token && !playerName) {
+    if (user || token || playerName) {
+      setCheckingCache(false);
+      return;
+    }
+    if (cachedUser) {
       // Restore cached user if no URL params (bookmark launch)
-      if (cachedUser.role === 'user') {
-        onSetUser(cachedUser);
-      } else if (cachedUser.role === 'admin' && token === ADMIN_TOKEN) {
-        onSetUser(cachedUser);
-      }
+      onSetUser(cachedUser);
+      setCheckingCache(false);
+      return;
     }
-    setCheckingCache(false);
+
+    // Resume a session saved on this device (e.g. an athlete who signed in with their password)
+    if (!getAuthToken()) {
+      setCheckingCache(false);
+      return;
+    }
+
+    authApi
+      .me()
+      .then(({ user: sessionUser }) => {
+        (window as any).__cachedUser = sessionUser;
+        onSetUser(sessionUser);
+      })
+      .catch((err) => console.error('Failed to restore session:', err))
+      .finally(() => setCheckingCache(false));
   }, [user, token, playerName, onSetUser]);
+
+  const handleAthleteLogin = (athleteUser: { id: string; name: string; role: 'admin' | 'user' }) => {
+    // Cache the user to avoid re-authentication
+    (window as any).__cachedUser = athleteUser;
+    onSetUser(athleteUser);
+  };
   
   if (playerName && mode === 'player') {
     // Player name in URL - redirect to login route (spaces as +)
@@ -249,12 +337,7 @@ function RootRoute({ user, onSetUser }: {
   }
   
   if (token) {
-    // Check if it's admin token or user token
-    if (token === ADMIN_TOKEN) {
-      return <Navigate to={`/admin?token=${token}`} replace />;
-    } else {
-      return <Navigate to={`/login?token=${token}`} replace />;
-    }
+    return <Navigate to={`/login?token=${token}`} replace />;
   }
 
   // Show loading while checking cache
@@ -266,7 +349,7 @@ function RootRoute({ user, onSetUser }: {
     const currentPlayer = getPlayerFromUrl();
     const currentToken = getTokenFromUrl();
     if (user.role === 'admin') {
-      return <Navigate to={addTokenToUrl('/admin', currentToken)} replace />;
+      return <Navigate to="/admin" replace />;
     } else {
       if (currentPlayer) {
         return <Navigate to={addPlayerToUrl('/user', currentPlayer)} replace />;
@@ -276,14 +359,8 @@ function RootRoute({ user, onSetUser }: {
     }
   }
 
-  return (
-    <div className="min-h-screen bg-black flex items-center justify-center px-4">
-      <div className="text-center">
-        <h1 className="text-white text-2xl mb-4">No Login Link</h1>
-        <p className="text-gray-400">Please use the login link provided by your coach.</p>
-      </div>
-    </div>
-  );
+  // No login link - athletes who've set a password can sign in with it
+  return <AthleteLoginScreen onLogin={handleAthleteLogin} />;
 }
 
 // Protected route wrapper that checks token or player name from URL
@@ -319,26 +396,24 @@ function ProtectedRoute({
         setLoading(false);
         return;
       }
-      setLoading(false);
-      return;
-    }
-
-    const authenticate = async () => {
-      // Check if admin token
-      if (token === ADMIN_TOKEN) {
-        const adminUser = {
-          id: 'admin-1',
-          name: 'Admin User',
-          role: 'admin' as const,
-        };
-        setUser(adminUser);
-        onSetUser(adminUser);
-        // Cache the user to avoid re-authentication
-        (window as any).__cachedUser = adminUser;
+      // Otherwise resume the session saved on this device, if there is one (password sign-in)
+      if (!getAuthToken()) {
         setLoading(false);
         return;
       }
+      authApi
+        .me()
+        .then(({ user: sessionUser }) => {
+          setUser(sessionUser);
+          onSetUser(sessionUser);
+          (window as any).__cachedUser = sessionUser;
+        })
+        .catch((err) => console.error('Failed to restore session:', err))
+        .finally(() => setLoading(false));
+      return;
+    }
 
+    const authenticate = async () => {
       // Check if user token or player name - use cached user if available to avoid re-authentication
       if (cachedUser && cachedUser.role === 'user') {
         setUser(cachedUser);
@@ -350,13 +425,10 @@ function ProtectedRoute({
       // Check if player name authentication
       if (playerName && mode === 'player') {
         try {
-          // URLSearchParams.get() already decodes the value
-          // Encode for API call, but use + for spaces in query parameters
-          const encodedForApi = encodeURIComponent(playerName).replace(/%20/g, '+');
-          const response = await fetch(`/api/auth/by-name?player=${encodedForApi}`);
-          if (response.ok) {
-            const data = await response.json();
-            const userData = data.user;
+          // Athletes with a PIN who aren't signed in on this device are sent back to enter it
+          const result = await loginWithName(playerName);
+          if ('user' in result) {
+            const userData = result.user;
             setUser(userData);
             onSetUser(userData);
             // Cache the user to avoid re-authentication
@@ -373,10 +445,8 @@ function ProtectedRoute({
       // Check if user token - only authenticate if we don't have cached user
       if (token) {
         try {
-          const response = await fetch(`/api/auth/login?token=${encodeURIComponent(token)}`);
-          if (response.ok) {
-            const data = await response.json();
-            const userData = data.user;
+          const userData = await loginWithLink(token);
+          if (userData) {
             setUser(userData);
             onSetUser(userData);
             // Cache the user to avoid re-authentication
@@ -433,27 +503,23 @@ function AppContent() {
   // Try to restore user from cache on mount
   useEffect(() => {
     const cachedUser = (window as any).__cachedUser;
-    const token = getTokenFromUrl();
-    const playerName = getPlayerFromUrl();
     
-    // If we have a cached user, restore it (for bookmark/home screen launches)
+    // If we have a cached user, restore it (for bookmark/home screen launches). What they can
+    // do is decided by the session token sent with each request.
     if (cachedUser) {
-      // Verify token matches if present
-      if (token === ADMIN_TOKEN && cachedUser.role === 'admin') {
-        setUser(cachedUser);
-      } else if (cachedUser.role === 'user') {
-        // For user role, restore if we have token/player OR if launching from bookmark (no params)
-        // This allows the app to work when launched from home screen bookmark
-        if (token || playerName || (!token && !playerName)) {
-          setUser(cachedUser);
-        }
-      }
+      setUser(cachedUser);
     }
   }, []);
 
-  const handleLogout = () => {
+  // Queued writes are sent first (what can't be sent waits for this user's next sign-in), and the
+  // responses cached for them are removed from this device
+  const handleLogout = async () => {
     setUser(null);
     (window as any).__cachedUser = null;
+    const userId = getSessionUserId();
+    await flushBeforeSignOut().catch(() => {});
+    if (userId) await clearCachedResponses(userId).catch(() => {});
+    clearAuthToken();
     window.location.href = '/';
   };
 
@@ -475,7 +541,7 @@ function AppContent() {
         } />
         
         {/* Exercise route - requires user and token */}
-        <Route path="/exercise/:workoutId/:exerciseName" element={
+        <Route path="/exercise/:workoutId/:exerciseId" element={
           <ProtectedRoute 
             onSetUser={setUser}
             render={(user) => <ExerciseDetail userId={user.id} onBack={() => window.history.back()} />}
@@ -491,8 +557,8 @@ function AppContent() {
           />
         } />
         
-        {/* Admin route - handles both token login and dashboard */}
-        <Route path="/admin" element={<AdminTokenRoute onSetUser={setUser} onLogout={handleLogout} parentUser={user} />} />
+        {/* Admin route - coach login page, then the dashboard */}
+        <Route path="/admin" element={<AdminRoute onSetUser={setUser} onLogout={handleLogout} parentUser={user} />} />
       </Routes>
     </div>
   );
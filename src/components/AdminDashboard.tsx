@@ -1,11 +1,13 @@
 import { useState } from 'react';
-import { Users, Dumbbell, Calendar, Plus, UsersRound, CalendarDays } from 'lucide-react';
+import { Users, Dumbbell, Calendar, Plus, UsersRound, CalendarDays, Layers, Activity } from 'lucide-react';
 import { AthleteManager } from './AthleteManager';
 import { ExerciseLibrary } from './ExerciseLibrary';
 import { WorkoutBuilder } from './WorkoutBuilder';
 import { PlayerWorkoutEditor } from './PlayerWorkoutEditor';
 import { TeamManager } from './TeamManager';
 import { MasterCalendar } from './MasterCalendar';
+import { ProgramBuilder } from './ProgramBuilder';
+import { LoadAnalytics } from './LoadAnalytics';
 import sequenceLogo from 'figma:asset/5c2d0c8af8dfc8338b2c35795df688d7811f7b51.png';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 
@@ -22,7 +24,7 @@ interface Athlete {
 }
 
 export function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
-  const [activeTab, setActiveTab] = useState<'athletes' | 'teams' | 'exercises' | 'workouts' | 'calendar'>('athletes');
+  const [activeTab, setActiveTab] = useState<'athletes' | 'teams' | 'exercises' | 'workouts' | 'programs' | 'calendar' | 'analytics'>('athletes');
   const [selectedAthlete, setSelectedAthlete] = useState<Athlete | null>(null);
 
   return (
@@ -100,6 +102,17 @@ export function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
               <Calendar className="w-5 h-5" />
               Workouts
             </button>
+            <button
+              onClick={() => setActiveTab('programs')}
+              className={`flex items-center gap-2 py-4 border-b-2 transition-colors whitespace-nowrap ${
+                activeTab === 'programs'
+                  ? 'border-orange-500 text-white'
+                  : 'border-transparent text-gray-400 hover:text-white'
+              }`}
+            >
+              <Layers className="w-5 h-5" />
+              Programs
+            </button>
             <button
               onClick={() => setActiveTab('calendar')}
               className={`flex items-center gap-2 py-4 border-b-2 transition-colors whitespace-nowrap ${
@@ -111,6 +124,17 @@ export function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
               <CalendarDays className="w-5 h-5" />
               Calendar
             </button>
+            <button
+              onClick={() => setActiveTab('analytics')}
+              className={`flex items-center gap-2 py-4 border-b-2 transition-colors whitespace-nowrap ${
+                activeTab === 'analytics'
+                  ? 'border-orange-500 text-white'
+                  : 'border-transparent text-gray-400 hover:text-white'
+              }`}
+            >
+              <Activity className="w-5 h-5" />
+              Analytics
+            </button>
           </div>
         </div>
       </div>
@@ -129,7 +153,9 @@ export function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
         {activeTab === 'teams' && <TeamManager />}
         {activeTab === 'exercises' && <ExerciseLibrary />}
         {activeTab === 'workouts' && <WorkoutBuilder />}
+        {activeTab === 'programs' && <ProgramBuilder />}
         {activeTab === 'calendar' && <MasterCalendar />}
+        {activeTab === 'analytics' && <LoadAnalytics />}
       </div>
     </div>
   );
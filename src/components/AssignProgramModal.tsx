@@ -0,0 +1,320 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { programsApi, athletesApi, teamsApi, workoutsApi, Program, ProgramAssignment, Athlete, Team, Workout } from '../utils/api';
+import { WEEKDAYS, getDefaultWeekdays, getProgramDates, formatProgramDate } from '../utils/programs';
+import { applyProgression, isDeloadWeek, formatProgressionRule } from '../utils/progression';
+
+interface AssignProgramModalProps {
+  program?: Program; // when omitted, the coach picks one
+  athlete?: { id: string; name: string }; // when given, assigns to this athlete only
+  onAssigned: (assignment: ProgramAssignment) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Assign a program to an athlete or team: pick a start date and a weekday for each training day,
+// preview the resulting dates and week-by-week targets, and create the dated workouts
+export function AssignProgramModal({ program: initialProgram, athlete, onAssigned, onClose }: AssignProgramModalProps) {
+  const [programs, setPrograms] = useState<Program[]>(initialProgram ? [initialProgram] : []);
+  const [programId, setProgramId] = useState(initialProgram?.id || '');
+  const [targetType, setTargetType] = useState<'athlete' | 'team'>('athlete');
+  const [targetId, setTargetId] = useState(athlete?.id || '');
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [weekdays, setWeekdays] = useState<number[]>(getDefaultWeekdays(initialProgram?.daysPerWeek || 3));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<Record<string, Workout>>({});
+
+  const program = programs.find((p) => p.id === programId);
+  const templateIds = program
+    ? program.days.map((d) => d.workoutId).filter((id, i, ids) => ids.indexOf(id) === i)
+    : [];
+
+  // Template workouts of the selected program, for the progression preview
+  useEffect(() => {
+    if (!program) return;
+    const missing = templateIds.filter((id) => !templates[id]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map((id) => workoutsApi.getById(id).catch(() => null)))
+      .then((loaded) => {
+        setTemplates((current) => {
+          const next = { ...current };
+          loaded.forEach((workout) => {
+            if (workout) next[workout.id] = workout;
+          });
+          return next;
+        });
+      });
+  }, [programId, programs]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        if (!initialProgram) {
+          const data = await programsApi.getAll();
+          setPrograms(data);
+          if (data.length > 0) {
+            setProgramId(data[0].id);
+            setWeekdays(getDefaultWeekdays(data[0].daysPerWeek));
+          }
+        }
+        if (!athlete) {
+          const [athleteData, teamData] = await Promise.all([athletesApi.getAll(), teamsApi.getAll()]);
+          setAthletes(athleteData);
+          setTeams(teamData);
+        }
+      } catch (err) {
+        console.error('Failed to load assignment options:', err);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  const handleProgramChange = (id: string) => {
+    setProgramId(id);
+    const selected = programs.find((p) => p.id === id);
+    if (selected) setWeekdays(getDefaultWeekdays(selected.daysPerWeek));
+  };
+
+  const dates = program ? getProgramDates(startDate, program.weeks, weekdays) : null;
+  const duplicateWeekday = new Set(weekdays).size !== weekdays.length;
+  const scheduledDates = program && dates
+    ? program.days.map((d) => dates[d.week - 1]?.[d.day - 1]).filter(Boolean).sort()
+    : [];
+
+  // One row per template exercise that changes over the program (all of them when it deloads),
+  // with its target in each week the template is scheduled
+  const previewRows = program
+    ? templateIds.flatMap((workoutId) => {
+        const template = templates[workoutId];
+        if (!template) return [];
+        const weeks = new Set(program.days.filter((d) => d.workoutId === workoutId).map((d) => d.week));
+        return template.blocks.flatMap((block) =>
+          block.exercises
+            .filter((exercise) => exercise.prescription && (exercise.prescription.progression || program.deload))
+            .map((exercise) => ({
+              key: `${workoutId}-${exercise.id}`,
+              name: exercise.exerciseName,
+              templateName: template.name,
+              rule: exercise.prescription?.progression
+                ? formatProgressionRule(exercise.prescription.progression, exercise.prescription)
+                : undefined,
+              weeks: Array.from({ length: program.weeks }, (_, i) => {
+                if (!weeks.has(i + 1)) return null;
+                const target = applyProgression(exercise, i + 1, program.deload);
+                return `${target.sets}×${target.reps}${target.weight ? ` @ ${target.weight}` : ''}`;
+              }),
+            }))
+        );
+      })
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!program || !targetId) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const assignment = await programsApi.assign(program.id, {
+        athleteId: targetType === 'athlete' ? targetId : undefined,
+        teamId: targetType === 'team' ? targetId : undefined,
+        startDate,
+        weekdays,
+      });
+      onAssigned(assignment);
+    } catch (err: any) {
+      console.error('Failed to assign program:', err);
+      setError(err.message || 'Failed to assign program');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1B1B1E] border border-[#262626] rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-white text-xl">
+            Assign Program{athlete ? ` to ${athlete.name}` : ''}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialProgram && (
+            <div>
+              <label className="block text-gray-400 mb-2">Program</label>
+              {programs.length > 0 ? (
+                <select value={programId} onChange={(e) => handleProgramChange(e.target.value)} className={inputClass}>
+                  {programs.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name} ({p.weeks} wk × {p.daysPerWeek} days)
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <p className="text-gray-500 text-sm">No programs yet. Build one in the Programs tab.</p>
+              )}
+            </div>
+          )}
+
+          {!athlete && (
+            <div>
+              <label className="block text-gray-400 mb-2">Assign to</label>
+              <div className="flex gap-2 mb-2">
+                {(['athlete', 'team'] as const).map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => {
+                      setTargetType(type);
+                      setTargetId('');
+                    }}
+                    className={`px-3 py-1 rounded-lg text-sm transition-colors border ${
+                      targetType === type
+                        ? 'bg-[#F56E0F] border-[#F56E0F] text-white'
+                        : 'bg-black border-zinc-800 text-gray-400 hover:border-zinc-600'
+                    }`}
+                  >
+                    {type === 'athlete' ? 'Athlete' : 'Team'}
+                  </button>
+                ))}
+              </div>
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass} required>
+                <option value="">Select {targetType === 'athlete' ? 'an athlete' : 'a team'}...</option>
+                {(targetType === 'athlete' ? athletes : teams).map((target) => (
+                  <option key={target.id} value={target.id}>{target.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-gray-400 mb-2">Start Date</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+              style={{ colorScheme: 'dark' }}
+              required
+            />
+          </div>
+
+          {program && (
+            <div>
+              <label className="block text-gray-400 mb-2">Training days</label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {weekdays.map((weekday, index) => (
+                  <div key={index}>
+                    <span className="block text-xs text-gray-500 mb-1">Day {index + 1}</span>
+                    <select
+                      value={weekday}
+                      onChange={(e) =>
+                        setWeekdays(weekdays.map((d, i) => (i === index ? parseInt(e.target.value) : d)))
+                      }
+                      className={inputClass}
+                    >
+                      {WEEKDAYS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {duplicateWeekday && (
+                <p className="text-xs text-red-400 mt-2">Each training day needs its own weekday</p>
+              )}
+              {!duplicateWeekday && !dates && (
+                <p className="text-xs text-red-400 mt-2">Training days must fall within a single week, in day order</p>
+              )}
+            </div>
+          )}
+
+          {program && dates && !duplicateWeekday && (
+            <div className="bg-black border border-zinc-800 rounded-lg p-3 text-sm">
+              <p className="text-gray-400 mb-2">
+                Week 1: {dates[0].map((date, i) => `Day ${i + 1} ${formatProgramDate(date)}`).join(' · ')}
+              </p>
+              <p className="text-gray-500">
+                {scheduledDates.length > 0
+                  ? `Creates ${scheduledDates.length} workout${scheduledDates.length !== 1 ? 's' : ''} from ${formatProgramDate(scheduledDates[0])} to ${formatProgramDate(scheduledDates[scheduledDates.length - 1])}`
+                  : 'This program has no workouts yet'}
+              </p>
+            </div>
+          )}
+
+          {program && previewRows.length > 0 && (
+            <div>
+              <label className="block text-gray-400 mb-2">Progression preview</label>
+              <div className="bg-black border border-zinc-800 rounded-lg overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th className="sticky left-0 bg-black text-left text-gray-500 font-normal px-3 py-2">Exercise</th>
+                      {Array.from({ length: program.weeks }, (_, i) => (
+                        <th key={i} className="text-left text-gray-500 font-normal px-3 py-2 whitespace-nowrap">
+                          Wk {i + 1}
+                          {isDeloadWeek(i + 1, program.deload) && (
+                            <span className="block text-[#F56E0F]">Deload</span>
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row) => (
+                      <tr key={row.key} className="border-t border-zinc-800">
+                        <td className="sticky left-0 bg-black px-3 py-2 min-w-[160px]">
+                          <span className="block text-white">{row.name}</span>
+                          <span className="block text-gray-500">{row.templateName}{row.rule ? ` · ${row.rule}` : ''}</span>
+                        </td>
+                        {row.weeks.map((target, i) => (
+                          <td
+                            key={i}
+                            className={`px-3 py-2 whitespace-nowrap ${
+                              isDeloadWeek(i + 1, program.deload) ? 'text-gray-500' : 'text-gray-300'
+                            }`}
+                          >
+                            {target || '—'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-white py-2 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!program || !targetId || !dates || duplicateWeekday || scheduledDates.length === 0 || isSubmitting}
+              className="flex-1 bg-[#F56E0F] hover:bg-[#E05D00] disabled:bg-zinc-800 disabled:text-gray-600 disabled:cursor-not-allowed text-white py-2 rounded-lg transition-colors"
+            >
+              {isSubmitting ? 'Assigning...' : 'Assign'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { authApi, AuthUser } from '../utils/api';
+import { setAuthToken } from '../utils/auth';
+
+interface AthleteLoginScreenProps {
+  onLogin: (user: AuthUser) => void;
+}
+
+type Mode = 'login' | 'forgot' | 'reset';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass =
+  'w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Athlete sign-in for those who've set a password, with a forgotten-password flow: an emailed
+// code resets the password and signs them in. Athletes without a password use their login link.
+export function AthleteLoginScreen({ onLogin }: AthleteLoginScreenProps) {
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setPassword('');
+    setCode('');
+    setError(null);
+    if (nextMode === 'login') setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (mode === 'reset' && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (mode === 'forgot') {
+        const { message } = await authApi.requestPasswordReset(email);
+        setMessage(message);
+        switchMode('reset');
+        return;
+      }
+
+      const session =
+        mode === 'reset'
+          ? await authApi.confirmPasswordReset({ email, code, newPassword: password })
+          : await authApi.athleteLogin(email, password);
+      setAuthToken(session.token);
+      onLogin(session.user);
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      setError(
+        err instanceof TypeError
+          ? 'Failed to connect. Please check your internet connection.'
+          : err instanceof Error ? err.message : 'Failed to sign in'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitLabel = {
+    login: loading ? 'Logging in...' : 'Sign In',
+    forgot: loading ? 'Sending...' : 'Send Reset Code',
+    reset: loading ? 'Saving...' : 'Reset Password',
+  }[mode];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 bg-black">
+      <div className="w-full max-w-sm">
+        <h1 className="text-white text-2xl mb-2 text-center">
+          {mode === 'login' ? 'Athlete Sign In' : 'Reset Password'}
+        </h1>
+        <p className="text-[#878787] text-sm mb-8 text-center">
+          {mode === 'login'
+            ? 'No password yet? Open the login link from your coach and set one from your dashboard.'
+            : mode === 'forgot'
+              ? "Enter your email and we'll send you a code."
+              : message || 'Enter the code from your email and a new password.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-[#878787] mb-2">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+              placeholder="Enter your email"
+              autoComplete="email"
+              required
+            />
+          </div>
+
+          {mode === 'reset' && (
+            <div>
+              <label className="block text-[#878787] mb-2">Code</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                className={`${inputClass} tracking-[0.3em]`}
+                placeholder="6-digit code"
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+          )}
+
+          {mode !== 'forgot' && (
+            <div>
+              <label className="block text-[#878787] mb-2">{mode === 'reset' ? 'New Password' : 'Password'}</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                placeholder={mode === 'reset' ? `At least ${MIN_PASSWORD_LENGTH} characters` : 'Enter your password'}
+                autoComplete={mode === 'reset' ? 'new-password' : 'current-password'}
+                required
+              />
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-[#F56E0F] hover:bg-[#e05d00] disabled:opacity-50 text-white py-3 rounded-lg transition-colors"
+          >
+            {submitLabel}
+          </button>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-center gap-4 text-sm">
+            {mode === 'login' ? (
+              <button type="button" onClick={() => switchMode('forgot')} className="text-[#878787] hover:text-white transition-colors">
+                Forgot password?
+              </button>
+            ) : (
+              <>
+                {mode === 'reset' && (
+                  <button type="button" onClick={() => switchMode('forgot')} className="text-[#878787] hover:text-white transition-colors">
+                    Send a new code
+                  </button>
+                )}
+                <button type="button" onClick={() => switchMode('login')} className="text-[#878787] hover:text-white transition-colors">
+                  Back to sign in
+                </button>
+              </>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Plus, Search, Mail, UserCircle, Copy, Check, Trash2 } from 'lucide-react';
+import { Plus, Search, Mail, UserCircle, Copy, Check, Trash2, Dumbbell, KeyRound } from 'lucide-react';
 import { athletesApi, Athlete } from '../utils/api';
+import { AthleteMaxesModal } from './AthleteMaxesModal';
+import { LoginLinkModal } from './LoginLinkModal';
 
 interface AthleteManagerProps {
   onSelectAthlete: (athlete: Athlete) => void;
@@ -17,6 +19,8 @@ export function AthleteManager({ onSelectAthlete }: AthleteManagerProps) {
   const [linkCopied, setLinkCopied] = useState(false);
   const [copiedAthleteId, setCopiedAthleteId] = useState<string | null>(null);
   const [deletingAthleteId, setDeletingAthleteId] = useState<string | null>(null);
+  const [maxesAthlete, setMaxesAthlete] = useState<Athlete | null>(null);
+  const [loginLinkAthlete, setLoginLinkAthlete] = useState<Athlete | null>(null);
 
   // Load athletes from API on mount
   useEffect(() => {
@@ -44,7 +48,7 @@ export function AthleteManager({ onSelectAthlete }: AthleteManagerProps) {
       const athlete = await athletesApi.create({
         name: newAthlete.name,
         email: newAthlete.email,
-        password: newAthlete.password,
+        password: newAthlete.password || undefined,
       });
       setAthletes([...athletes, athlete]);
       setNewAthlete({ name: '', email: '', password: '' });
@@ -213,6 +217,22 @@ export function AthleteManager({ onSelectAthlete }: AthleteManagerProps) {
                         </>
                       )}
                     </button>
+                    <button
+                      onClick={() => setLoginLinkAthlete(athlete)}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-gray-400 hover:text-white border border-zinc-700 transition-colors"
+                      title="Login link"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      <span className="text-sm">Login Link</span>
+                    </button>
+                    <button
+                      onClick={() => setMaxesAthlete(athlete)}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-gray-400 hover:text-white border border-zinc-700 transition-colors"
+                      title="Maxes"
+                    >
+                      <Dumbbell className="w-4 h-4" />
+                      <span className="text-sm">Maxes</span>
+                    </button>
                     <button
                       onClick={(e) => handleDeleteAthlete(athlete, e)}
                       disabled={isDeleting}
@@ -257,14 +277,18 @@ export function AthleteManager({ onSelectAthlete }: AthleteManagerProps) {
                 />
               </div>
               <div>
-                <label className="block text-gray-400 mb-2">Password</label>
+                <label className="block text-gray-400 mb-2">Password (optional)</label>
                 <input
                   type="password"
                   value={newAthlete.password}
                   onChange={(e) => setNewAthlete({ ...newAthlete, password: e.target.value })}
                   className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-orange-500"
-                  required
+                  minLength={8}
+                  autoComplete="new-password"
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave blank to let the athlete set their own from their login link.
+                </p>
               </div>
               <div className="flex gap-3 pt-4">
                 <button
@@ -286,6 +310,20 @@ export function AthleteManager({ onSelectAthlete }: AthleteManagerProps) {
         </div>
       )}
 
+      {/* Maxes Modal */}
+      {maxesAthlete && (
+        <AthleteMaxesModal athlete={maxesAthlete} onClose={() => setMaxesAthlete(null)} />
+      )}
+
+      {/* Login Link Management Modal */}
+      {loginLinkAthlete && (
+        <LoginLinkModal
+          athlete={loginLinkAthlete}
+          onClose={() => setLoginLinkAthlete(null)}
+          onAthleteUpdated={(updated) => setAthletes(athletes.map((a) => (a.id === updated.id ? updated : a)))}
+        />
+      )}
+
       {/* Login Link Modal */}
       {createdAthlete && createdAthlete.name && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
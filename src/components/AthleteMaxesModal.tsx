@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import { X, Trash2, Trophy } from 'lucide-react';
+import { athletesApi, Athlete, AthleteMax, AthleteMaxInput, LoadUnit, PersonalRecord } from '../utils/api';
+import { formatRecord, getCurrentBests } from '../utils/records';
+import { ExerciseAutocomplete } from './ExerciseAutocomplete';
+
+interface AthleteMaxesModalProps {
+  athlete: Athlete;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-orange-500';
+
+function emptyMax(): AthleteMaxInput {
+  return { exerciseName: '', value: 0, unit: 'lb', type: 'tested', date: new Date().toISOString().split('T')[0] };
+}
+
+// Record and review an athlete's tested/estimated maxes. The newest entry per exercise is what
+// % 1RM loads resolve against; older entries are kept as history.
+export function AthleteMaxesModal({ athlete, onClose }: AthleteMaxesModalProps) {
+  const [maxes, setMaxes] = useState<AthleteMax[]>([]);
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newMax, setNewMax] = useState<AthleteMaxInput>(emptyMax());
+  const [valueText, setValueText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadMaxes = async () => {
+      try {
+        setLoading(true);
+        setMaxes(await athletesApi.getMaxes(athlete.id));
+      } catch (err) {
+        console.error('Failed to load maxes:', err);
+        setError('Failed to load maxes');
+      } finally {
+        setLoading(false);
+      }
+    };
+    // PRs from logged sets are read-only here; they're shown next to the maxes they may justify updating
+    const loadRecords = async () => {
+      try {
+        setRecords(await athletesApi.getRecords(athlete.id));
+      } catch (err) {
+        console.error('Failed to load personal records:', err);
+      }
+    };
+    loadMaxes();
+    loadRecords();
+  }, [athlete.id]);
+
+  const handleAddMax = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(valueText);
+    if (!newMax.exerciseName.trim() || !(value > 0)) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const created = await athletesApi.createMax(athlete.id, { ...newMax, value });
+      setMaxes([created, ...maxes]);
+      setNewMax({ ...emptyMax(), unit: newMax.unit, date: newMax.date });
+      setValueText('');
+    } catch (err: any) {
+      console.error('Failed to add max:', err);
+      setError(err.message || 'Failed to add max');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteMax = async (max: AthleteMax) => {
+    try {
+      await athletesApi.deleteMax(athlete.id, max.id);
+      setMaxes(maxes.filter((m) => m.id !== max.id));
+    } catch (err: any) {
+      console.error('Failed to delete max:', err);
+      setError(err.message || 'Failed to delete max');
+    }
+  };
+
+  // Group by exercise, newest first; the first entry of each group is the current max
+  const byExercise = new Map<string, AthleteMax[]>();
+  [...maxes]
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+    .forEach((max) => {
+      const key = max.exerciseId || max.exerciseName.trim().toLowerCase();
+      byExercise.set(key, [...(byExercise.get(key) || []), max]);
+    });
+
+  const currentBests = getCurrentBests(records);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white text-xl">{athlete.name}'s Maxes</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleAddMax} className="space-y-3 mb-6">
+          <ExerciseAutocomplete
+            value={newMax.exerciseName}
+            onChange={(exerciseName) => setNewMax({ ...newMax, exerciseName })}
+            placeholder="Exercise"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={valueText}
+              onChange={(e) => setValueText(e.target.value)}
+              className={inputClass}
+              placeholder="1RM"
+              required
+            />
+            <select
+              value={newMax.unit}
+              onChange={(e) => setNewMax({ ...newMax, unit: e.target.value as LoadUnit })}
+              className={inputClass}
+            >
+              <option value="lb">lb</option>
+              <option value="kg">kg</option>
+            </select>
+            <select
+              value={newMax.type}
+              onChange={(e) => setNewMax({ ...newMax, type: e.target.value as AthleteMax['type'] })}
+              className={inputClass}
+            >
+              <option value="tested">Tested</option>
+              <option value="estimated">Estimated</option>
+            </select>
+            <input
+              type="date"
+              value={newMax.date}
+              onChange={(e) => setNewMax({ ...newMax, date: e.target.value })}
+              className={inputClass}
+              style={{ colorScheme: 'dark' }}
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || !newMax.exerciseName.trim() || !(parseFloat(valueText) > 0)}
+            className="w-full bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white py-2 rounded-lg transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Add Max'}
+          </button>
+        </form>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading maxes...</p>
+        ) : byExercise.size === 0 ? (
+          <p className="text-gray-500 text-sm">No maxes yet. % 1RM loads show as percentages until one is added.</p>
+        ) : (
+          <div className="space-y-3">
+            {[...byExercise.values()].map(([current, ...history]) => (
+              <div key={current.id} className="bg-black border border-zinc-800 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-white">{current.exerciseName}</p>
+                    <p className="text-sm text-gray-400">
+                      {current.value} {current.unit} · {current.type} · {current.date}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteMax(current)}
+                    className="text-gray-500 hover:text-red-400 transition-colors"
+                    title="Delete max"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {history.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-zinc-800 space-y-1">
+                    {history.map((max) => (
+                      <div key={max.id} className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{max.value} {max.unit} · {max.type} · {max.date}</span>
+                        <button
+                          onClick={() => handleDeleteMax(max)}
+                          className="hover:text-red-400 transition-colors"
+                          title="Delete max"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {currentBests.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-white mb-3 flex items-center gap-2">
+              <Trophy className="w-4 h-4 text-orange-500" />
+              Personal Records
+            </h4>
+            <div className="space-y-2">
+              {currentBests.map(({ exerciseName, records: bests }) => (
+                <div key={exerciseName} className="bg-black border border-zinc-800 rounded-lg p-3">
+                  <p className="text-white">{exerciseName}</p>
+                  <div className="mt-1 space-y-0.5">
+                    {bests.map((record) => (
+                      <p key={record.id} className="text-sm text-gray-400">
+                        {formatRecord(record)} · {record.date}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,20 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { createTokenPreservingNavigate, addTokenToUrl, addPlayerToUrl, getPlayerFromUrl } from '../utils/tokenNavigation';
 import { NavigationState } from '../utils/navigation';
-import { ChevronLeft, Check, PlayCircle, XCircle, Plus, X } from 'lucide-react';
+import { ChevronLeft, Check, PlayCircle, XCircle, Plus, X, Timer, Trophy, History } from 'lucide-react';
 import { SequenceLogoText } from './SequenceLogoText';
 import { LoadingScreen } from './LoadingScreen';
-import { workoutsApi, exercisesApi, Workout, Exercise as ExerciseLib } from '../utils/api';
+import { workoutsApi, exercisesApi, athletesApi, Workout, Exercise as ExerciseLib, ExercisePrescription, AthleteMax, PersonalRecord, ExerciseHistorySession } from '../utils/api';
+import { getPrescription, getSetTarget, formatPrescriptionReps, formatPrescriptionLoad, formatPrescriptionExtras, formatDuration } from '../utils/prescription';
+import { findCurrentMax, formatResolvedLoad, formatMax } from '../utils/maxes';
+import { formatRecord, sortRecords } from '../utils/records';
+import { getAdjacentExercises, getExerciseLabels, getGroupMembers, getGroupName } from '../utils/exerciseGroups';
+import { getPrescribedRest, recordSetCompleted, startRestTimer } from '../utils/restTimer';
+import { RestTimer } from './RestTimer';
+import { SyncIndicator } from './SyncIndicator';
+import { SessionFeedbackSheet } from './SessionFeedbackSheet';
+import { recordSessionTick } from '../utils/sessionFeedback';
+import { RPE_OPTIONS, RIR_OPTIONS, formatSetEffort, formatLoggedSet } from '../utils/effort';
 
 interface ExerciseDetailProps {
   userId: string;
@@ -17,23 +27,44 @@ interface SetData {
   weight: string;
   reps: string;
   completed: boolean;
+  restSeconds?: number;
+  rpe?: number;
+  rir?: number;
 }
 
 interface WorkoutExercise {
   id: string;
+  exerciseId?: string;
   exerciseName: string;
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
+  groupId?: string;
+  restSeconds?: number;
   videoUrl?: string;
 }
 
+// Prefill values for a set row, using per-set targets from the prescription when available
+// (% 1RM loads are resolved against the athlete's current max)
+function getDefaultSetValues(exercise: WorkoutExercise, setIndex: number, max?: AthleteMax): { weight: string; reps: string } {
+  const prescription = getPrescription(exercise);
+  if (prescription) return getSetTarget(prescription, setIndex, max);
+  return { weight: exercise.weight || '', reps: exercise.reps || '' };
+}
+
+// Short date for a history session (e.g. "Mar 4")
+function formatSessionDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
 export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
-  const { workoutId, exerciseName } = useParams<{ workoutId: string; exerciseName: string }>();
+  const { workoutId, exerciseId } = useParams<{ workoutId: string; exerciseId: string }>();
   const navigateBase = useNavigate();
   const navigate = createTokenPreservingNavigate(navigateBase);
   const location = useLocation();
-  const decodedExerciseName = exerciseName ? decodeURIComponent(exerciseName) : '';
+  // Block-exercise ID, or an exercise name in links created before exercises were addressed by ID
+  const exerciseKey = exerciseId ? decodeURIComponent(exerciseId) : '';
   
   // Get token or player name for manual URL construction if needed
   const token = new URLSearchParams(window.location.search).get('token');
@@ -42,6 +73,10 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   const [workout, setWorkout] = useState<Workout | null>(null);
   const [exercise, setExercise] = useState<WorkoutExercise | null>(null);
   const [exerciseLib, setExerciseLib] = useState<ExerciseLib | null>(null);
+  const [currentMax, setCurrentMax] = useState<AthleteMax | undefined>(undefined);
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+  const [history, setHistory] = useState<ExerciseHistorySession[]>([]);
+  const [effortPickerIndex, setEffortPickerIndex] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'workout' | 'media'>('workout');
@@ -51,6 +86,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   const [showCelebration, setShowCelebration] = useState(false);
   const [allExercisesCompleted, setAllExercisesCompleted] = useState(false);
   const manualSaveInProgress = useRef(false);
+  const notesEdited = useRef(false); // notes changed since they were loaded
   const celebrationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Check for workout passed via navigation state (prevents flash of stale data)
@@ -65,7 +101,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
 
   // Fetch workout and exercise data
   useEffect(() => {
-    if (!workoutId || !decodedExerciseName) return;
+    if (!workoutId || !exerciseKey) return;
 
     const loadData = async () => {
       try {
@@ -81,19 +117,12 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
         }
         setWorkout(workoutData);
 
-        // Find exercise in workout
-        let foundExercise: WorkoutExercise | null = null;
-        let blockIndex = 0;
-        for (let i = 0; i < workoutData.blocks.length; i++) {
-          const block = workoutData.blocks[i];
-          foundExercise = block.exercises.find(
-            ex => ex.exerciseName === decodedExerciseName
-          ) || null;
-          if (foundExercise) {
-            blockIndex = i;
-            break;
-          }
-        }
+        // Find exercise in workout by ID, falling back to the first exercise with that name (old links)
+        const workoutExercises: WorkoutExercise[] = workoutData.blocks.flatMap(block => block.exercises);
+        const foundExercise =
+          workoutExercises.find(ex => ex.id === exerciseKey) ||
+          workoutExercises.find(ex => ex.exerciseName === exerciseKey) ||
+          null;
 
         if (!foundExercise) {
           setError('Exercise not found in workout');
@@ -102,6 +131,36 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
 
         setExercise(foundExercise);
 
+        // The athlete's current max for this exercise, for % 1RM loads
+        let max: AthleteMax | undefined;
+        if (userId) {
+          try {
+            max = findCurrentMax(await athletesApi.getMaxes(userId), foundExercise);
+          } catch (err) {
+            console.error('Error loading maxes:', err);
+          }
+        }
+        setCurrentMax(max);
+
+        // PRs already set by this exercise's sets (kept up to date from each save's response)
+        if (userId) {
+          try {
+            const workoutRecords = await athletesApi.getRecords(userId, workoutId);
+            setRecords(workoutRecords.filter(record => record.blockExerciseId === foundExercise!.id));
+          } catch (err) {
+            console.error('Error loading personal records:', err);
+          }
+        }
+
+        // What the athlete lifted the last few times they did this exercise (in other workouts)
+        if (userId) {
+          try {
+            setHistory(await athletesApi.getExerciseHistory(userId, foundExercise, { excludeWorkoutId: workoutId }));
+          } catch (err) {
+            console.error('Error loading exercise history:', err);
+          }
+        }
+
         // Load saved sets or initialize default sets
         const loadSets = async () => {
           try {
@@ -121,6 +180,9 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                   weight: s.weight || '',
                   reps: s.reps || '',
                   completed: s.completed || false,
+                  restSeconds: s.restSeconds,
+                  rpe: s.rpe,
+                  rir: s.rir,
                 }));
                 setSets(setsToShow);
                 return;
@@ -135,8 +197,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
             setSets(
               Array.from({ length: foundExercise.sets }, (_, i) => ({
                 set: i + 1,
-                weight: foundExercise.weight || '',
-                reps: foundExercise.reps || '',
+                ...getDefaultSetValues(foundExercise!, i, max),
                 completed: false,
               }))
             );
@@ -145,34 +206,32 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
 
         await loadSets();
 
-        // Notes functionality disabled (removed to reduce serverless function count)
-        // const loadNotes = async () => {
-        //   try {
-        //     if (userId && foundExercise) {
-        //       const savedNotes = await workoutsApi.getExerciseNotes(
-        //         workoutId,
-        //         foundExercise.id,
-        //         userId
-        //       );
-        //       if (savedNotes) {
-        //         setNotes(savedNotes.notes || '');
-        //       }
-        //     }
-        //   } catch (err) {
-        //     console.error('Error loading saved notes:', err);
-        //     setNotes('');
-        //   }
-        // };
-
-        // await loadNotes();
-
-        // Fetch exercise library to get video URL
-        const allExercises = await exercisesApi.getAll();
-        const libExercise = allExercises.find(
-          ex => ex.name === decodedExerciseName
-        );
-        if (libExercise) {
-          setExerciseLib(libExercise);
+        const loadNotes = async () => {
+          notesEdited.current = false;
+          try {
+            if (userId && foundExercise) {
+              const savedNotes = await workoutsApi.getExerciseNotes(
+                workoutId,
+                foundExercise.id,
+                userId
+              );
+              setNotes(savedNotes?.notes || '');
+            }
+          } catch (err) {
+            console.error('Error loading saved notes:', err);
+            setNotes('');
+          }
+        };
+
+        await loadNotes();
+
+        // Fetch the linked library exercise to get the video URL (custom exercises have none)
+        if (foundExercise.exerciseId) {
+          try {
+            setExerciseLib(await exercisesApi.getById(foundExercise.exerciseId));
+          } catch (err) {
+            console.error('Error loading library exercise:', err);
+          }
         }
       } catch (err: any) {
         console.error('Error loading exercise:', err);
@@ -183,23 +242,20 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     };
 
     loadData();
-  }, [workoutId, decodedExerciseName, userId]);
-
-  // Get all exercises for navigation
-  const allExercises: Array<{ name: string; blockIndex: number; exerciseIndex: number }> = [];
-  if (workout) {
-    workout.blocks.forEach((block, blockIdx) => {
-      block.exercises.forEach((ex, exIdx) => {
-        allExercises.push({ name: ex.exerciseName, blockIndex: blockIdx, exerciseIndex: exIdx });
-      });
-    });
-  }
+  }, [workoutId, exerciseKey, userId]);
 
-  const currentIndex = allExercises.findIndex(
-    ex => ex.name === decodedExerciseName
-  );
-  const hasPrevious = currentIndex > 0;
-  const hasNext = currentIndex < allExercises.length - 1;
+  // Previous/next exercise for navigation (alternates set by set through supersets/circuits)
+  const completedSetCount = sets.filter(s => s.completed).length;
+  const adjacent = workout && exercise
+    ? getAdjacentExercises(workout.blocks, exercise.id, completedSetCount)
+    : {};
+  const hasPrevious = !!adjacent.previous;
+  const hasNext = !!adjacent.next;
+
+  // Each save re-detects PRs; its response carries the exercise's current ones
+  const applySaveResult = (result: { records?: PersonalRecord[] }) => {
+    if (result.records) setRecords(result.records);
+  };
 
   // Save sets function
   const saveSets = useCallback(async () => {
@@ -207,7 +263,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     
     try {
       setIsSaving(true);
-      await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, sets);
+      applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, sets));
     } catch (err: any) {
       console.error('Error saving sets:', err);
       // Optionally show error toast here
@@ -216,28 +272,27 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     }
   }, [userId, exercise, workoutId, sets]);
 
-  // Notes functionality disabled (removed to reduce serverless function count)
-  // const saveNotes = useCallback(async () => {
-  //   if (!userId || !exercise || !workoutId) return;
-  //   
-  //   try {
-  //     await workoutsApi.saveExerciseNotes(workoutId, exercise.id, userId, notes);
-  //   } catch (err: any) {
-  //     console.error('Error saving notes:', err);
-  //   }
-  // }, [userId, exercise, workoutId, notes]);
-
-  // Auto-save notes immediately when they change (no debounce for critical data)
-  // useEffect(() => {
-  //   if (!userId || !exercise || !workoutId || !notes) return;
-  //   
-  //   // Save notes immediately when changed
-  //   const timer = setTimeout(() => {
-  //     saveNotes();
-  //   }, 500); // Small delay to avoid too many saves while typing
-  //   
-  //   return () => clearTimeout(timer);
-  // }, [notes, saveNotes, userId, exercise, workoutId]);
+  const saveNotes = useCallback(async () => {
+    if (!userId || !exercise || !workoutId || !notesEdited.current) return;
+    
+    try {
+      await workoutsApi.saveExerciseNotes(workoutId, exercise.id, userId, notes);
+    } catch (err: any) {
+      console.error('Error saving notes:', err);
+    }
+  }, [userId, exercise, workoutId, notes]);
+
+  // Auto-save notes shortly after they change. Only edits are saved (so clearing notes
+  // sticks, and opening an exercise doesn't write an empty note).
+  useEffect(() => {
+    if (!userId || !exercise || !workoutId || !notesEdited.current) return;
+    
+    const timer = setTimeout(() => {
+      saveNotes();
+    }, 500); // Small delay to avoid too many saves while typing
+    
+    return () => clearTimeout(timer);
+  }, [notes, saveNotes, userId, exercise, workoutId]);
 
   // Auto-save sets when they change (debounced to avoid too many API calls)
   useEffect(() => {
@@ -269,12 +324,11 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
           console.error('Error saving sets on unmount:', err);
         });
       }
-      // Notes functionality disabled
-      // if (userId && exercise && workoutId && notes) {
-      //   workoutsApi.saveExerciseNotes(workoutId, exercise.id, userId, notes).catch(err => {
-      //     console.error('Error saving notes on unmount:', err);
-      //   });
-      // }
+      if (userId && exercise && workoutId && notesEdited.current) {
+        workoutsApi.saveExerciseNotes(workoutId, exercise.id, userId, notes).catch(err => {
+          console.error('Error saving notes on unmount:', err);
+        });
+      }
     };
   }, [userId, exercise, workoutId, sets, notes]);
 
@@ -385,11 +439,11 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   const goToPrevious = async () => {
     if (hasPrevious && workout && exercise && userId) {
       await saveSets(); // Save before navigating
-      // await saveNotes(); // Notes functionality disabled
-      const prev = allExercises[currentIndex - 1];
+      await saveNotes();
+      const prev = adjacent.previous!;
       const url = playerName 
-        ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(prev.name)}`, playerName)
-        : addTokenToUrl(`/exercise/${workout.id}/${encodeURIComponent(prev.name)}`, token);
+        ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(prev.id)}`, playerName)
+        : addTokenToUrl(`/exercise/${workout.id}/${encodeURIComponent(prev.id)}`, token);
       // Pass workout data via state to prevent flash
       navigate(url, { state: { workout } });
     }
@@ -398,11 +452,11 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   const goToNext = async () => {
     if (hasNext && workout && exercise && userId) {
       await saveSets(); // Save before navigating
-      // await saveNotes(); // Notes functionality disabled
-      const next = allExercises[currentIndex + 1];
+      await saveNotes();
+      const next = adjacent.next!;
       const url = playerName 
-        ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(next.name)}`, playerName)
-        : addTokenToUrl(`/exercise/${workout.id}/${encodeURIComponent(next.name)}`, token);
+        ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(next.id)}`, playerName)
+        : addTokenToUrl(`/exercise/${workout.id}/${encodeURIComponent(next.id)}`, token);
       // Pass workout data via state to prevent flash
       navigate(url, { state: { workout } });
     } else if (!hasNext && currentExerciseAllSetsCompleted) {
@@ -415,7 +469,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   let currentBlockIndex = 0;
   if (workout && exercise) {
     for (let i = 0; i < workout.blocks.length; i++) {
-      if (workout.blocks[i].exercises.some(ex => ex.exerciseName === decodedExerciseName)) {
+      if (workout.blocks[i].exercises.some(ex => ex.id === exercise.id)) {
         currentBlockIndex = i;
         break;
       }
@@ -437,6 +491,12 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
   const blockColor = getBlockColor(currentBlockIndex);
   const blockName = workout?.blocks[currentBlockIndex]?.name || '';
 
+  // Superset/circuit info for the header (A1, round x of y)
+  const currentBlock = workout?.blocks[currentBlockIndex];
+  const exerciseLabel = currentBlock && exercise ? getExerciseLabels(currentBlock)[exercise.id] : undefined;
+  const groupMemberCount = currentBlock && exercise ? getGroupMembers(currentBlock, exercise.id).length : 0;
+  const prescribedRest = currentBlock && exercise ? getPrescribedRest(currentBlock, exercise) : undefined;
+
   const updateSet = async (setIndex: number, field: 'weight' | 'reps', value: string) => {
     const newSets = sets.map((s, i) => (i === setIndex ? { ...s, [field]: value } : s));
     setSets(newSets);
@@ -447,15 +507,45 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     // Save immediately for weight/reps changes
     if (userId && exercise && workoutId) {
       try {
-        await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets);
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
       } catch (err) {
         console.error('Error saving sets:', err);
       }
     }
   };
 
+  // Tapping the selected RPE/RIR again clears it
+  const updateSetEffort = async (setIndex: number, field: 'rpe' | 'rir', value: number) => {
+    const newSets = sets.map((s, i) => (i === setIndex ? { ...s, [field]: s[field] === value ? undefined : value } : s));
+    setSets(newSets);
+    
+    // Mark that we're doing a manual save to prevent auto-save from interfering
+    manualSaveInProgress.current = true;
+    
+    if (userId && exercise && workoutId) {
+      try {
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
+      } catch (err) {
+        console.error('Error saving set effort:', err);
+      }
+    }
+  };
+
   const toggleSetComplete = async (setIndex: number) => {
-    const newSets = sets.map((s, i) => (i === setIndex ? { ...s, completed: !s.completed } : s));
+    const completing = !sets[setIndex].completed;
+
+    // Record the rest actually taken since the previous set and start the prescribed rest
+    let restSeconds: number | undefined;
+    if (completing && workoutId && exercise) {
+      restSeconds = recordSetCompleted(workoutId);
+      recordSessionTick(workoutId);
+      const prescribedRest = currentBlock ? getPrescribedRest(currentBlock, exercise) : undefined;
+      if (prescribedRest && prescribedRest > 0) {
+        startRestTimer(workoutId, exercise.id, prescribedRest);
+      }
+    }
+
+    const newSets = sets.map((s, i) => (i === setIndex ? { ...s, completed: completing, restSeconds } : s));
     setSets(newSets);
     
     // Mark that we're doing a manual save to prevent auto-save from interfering
@@ -464,7 +554,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     // Save immediately when a set is toggled
     if (userId && exercise && workoutId) {
       try {
-        await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets);
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
       } catch (err) {
         console.error('Error saving sets immediately:', err);
       }
@@ -475,8 +565,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     const newSetNumber = sets.length + 1;
     const newSets = [...sets, {
       set: newSetNumber,
-      weight: exercise?.weight || '',
-      reps: exercise?.reps || '',
+      ...(exercise ? getDefaultSetValues(exercise, sets.length, currentMax) : { weight: '', reps: '' }),
       completed: false,
     }];
     setSets(newSets);
@@ -487,7 +576,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     // Save immediately after adding set
     if (userId && exercise && workoutId) {
       try {
-        await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets);
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
       } catch (err) {
         console.error('Error saving sets after adding:', err);
       }
@@ -498,6 +587,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     if (sets.length <= 1) return;
     const newSets = sets.filter((_, i) => i !== setIndex).map((s, i) => ({ ...s, set: i + 1 }));
     setSets(newSets);
+    setEffortPickerIndex(null);
     
     // Mark that we're doing a manual save to prevent auto-save from interfering
     manualSaveInProgress.current = true;
@@ -505,13 +595,42 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
     // Save immediately after deleting set
     if (userId && exercise && workoutId) {
       try {
-        await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets);
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
       } catch (err) {
         console.error('Error saving sets after deleting:', err);
       }
     }
   };
 
+  // Prefill this session from a previous one: sets not yet done take that session's weight and reps,
+  // and sets it had beyond this session's count are added
+  const prefillFromSession = async (session: ExerciseHistorySession) => {
+    const newSets = [
+      ...sets.map((s, i) => {
+        const previous = session.sets[i];
+        return previous && !s.completed ? { ...s, weight: previous.weight, reps: previous.reps } : s;
+      }),
+      ...session.sets.slice(sets.length).map((previous, i) => ({
+        set: sets.length + i + 1,
+        weight: previous.weight,
+        reps: previous.reps,
+        completed: false,
+      })),
+    ];
+    setSets(newSets);
+
+    // Mark that we're doing a manual save to prevent auto-save from interfering
+    manualSaveInProgress.current = true;
+
+    if (userId && exercise && workoutId) {
+      try {
+        applySaveResult(await workoutsApi.saveExerciseSets(workoutId, exercise.id, userId, newSets));
+      } catch (err) {
+        console.error('Error saving prefilled sets:', err);
+      }
+    }
+  };
+
   const completedCount = sets.filter(s => s.completed).length;
   const progressPercentage = sets.length > 0 ? (completedCount / sets.length) * 100 : 0;
 
@@ -542,6 +661,8 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
 
   // Get video URL from either the exercise or the exercise library
   const videoUrl = exercise?.videoUrl || exerciseLib?.videoUrl;
+  const prescription = exercise ? getPrescription(exercise) : null;
+  const resolvedLoad = prescription ? formatResolvedLoad(prescription, currentMax) : null;
   const embedUrl = getVideoEmbedUrl(videoUrl);
 
   if (loading) {
@@ -617,9 +738,49 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                   {blockName}
                 </span>
               </div>
+              {adjacent.group && (
+                <div className="px-3 py-1.5 bg-[#F56E0F]/10 border border-[#F56E0F]/30 rounded-full text-[#F56E0F] text-sm">
+                  {exerciseLabel} · {getGroupName(adjacent.group, groupMemberCount)} · Round {adjacent.round} of {adjacent.group.rounds}
+                  {adjacent.group.restBetweenRounds ? ` · ${adjacent.group.restBetweenRounds}s rest` : ''}
+                </div>
+              )}
             </div>
             <div className="bg-[#1B1B1E] border border-zinc-800 rounded-xl px-6 py-4">
-              <h2 className="text-white text-3xl tracking-tight">{decodedExerciseName}</h2>
+              <h2 className="text-white text-3xl tracking-tight">{exercise?.exerciseName}</h2>
+              {prescription && (
+                <p className="text-gray-400 text-sm mt-2">
+                  {exercise?.sets} × {formatPrescriptionReps(prescription)}
+                  {formatPrescriptionLoad(prescription) && (
+                    ` @ ${resolvedLoad ? `${resolvedLoad} (${formatPrescriptionLoad(prescription)})` : formatPrescriptionLoad(prescription)}`
+                  )}
+                  {formatPrescriptionExtras(prescription) && ` · ${formatPrescriptionExtras(prescription)}`}
+                </p>
+              )}
+              {prescription?.loadType === 'percent1RM' && (
+                <p className="text-gray-500 text-xs mt-1">
+                  {currentMax ? formatMax(currentMax) : 'No max on file — ask your coach to add one'}
+                </p>
+              )}
+              {records.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {sortRecords(records).map(record => (
+                    <span
+                      key={record.id}
+                      className="inline-flex items-center gap-1 px-2.5 py-1 bg-[#F56E0F]/15 border border-[#F56E0F]/40 rounded-full text-[#F56E0F] text-xs"
+                      title={record.previousValue !== undefined ? `Previous best ${record.previousValue}` : undefined}
+                    >
+                      <Trophy className="w-3 h-3" />
+                      PR · {formatRecord(record)}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {prescribedRest !== undefined && prescribedRest > 0 && (
+                <p className="text-gray-500 text-sm mt-1 flex items-center gap-1">
+                  <Timer className="w-3.5 h-3.5" />
+                  {formatDuration(prescribedRest)} rest{adjacent.group ? ' after this exercise' : ' between sets'}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -665,7 +826,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                   src={embedUrl}
                   controls
                   className="w-full h-full object-contain"
-                  title={decodedExerciseName}
+                  title={exercise?.exerciseName}
                 >
                   Your browser does not support the video tag.
                 </video>
@@ -676,7 +837,7 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                   className="w-full h-full"
                   allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
                   allowFullScreen
-                  title={decodedExerciseName}
+                  title={exercise?.exerciseName}
                 />
               )
             ) : (
@@ -694,6 +855,38 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
       {activeTab === 'workout' && (
         <div className="max-w-3xl mx-auto px-4 py-6">
           <div className="space-y-6">
+            {/* Last Time */}
+            {history.length > 0 && (
+              <div className="bg-[#1B1B1E] border border-zinc-800 rounded-xl p-4">
+                <div className="flex items-center justify-between gap-3 mb-3">
+                  <div className="flex items-center gap-2 text-sm text-gray-300">
+                    <History className="w-4 h-4 text-[#F56E0F]" />
+                    <span className="uppercase tracking-wider text-xs">Last time</span>
+                  </div>
+                  {sets.some(s => !s.completed) && (
+                    <button
+                      onClick={() => prefillFromSession(history[0])}
+                      className="px-3 py-1.5 bg-[#F56E0F]/10 border border-[#F56E0F]/30 rounded-lg text-[#F56E0F] text-xs hover:bg-[#F56E0F]/20 transition-colors"
+                    >
+                      Use last session
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {history.map((session, index) => (
+                    <div key={`${session.workoutId}:${session.blockExerciseId}`} className={index === 0 ? '' : 'pt-2 border-t border-zinc-800'}>
+                      <p className={`text-xs ${index === 0 ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {formatSessionDate(session.date)} · {session.workoutName}
+                      </p>
+                      <p className={`text-sm ${index === 0 ? 'text-white' : 'text-gray-400'}`}>
+                        {session.sets.map(formatLoggedSet).join(', ')}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Table Header */}
             <div className="grid grid-cols-[50px_120px_100px_50px] gap-3 px-4 text-xs text-gray-500 uppercase tracking-wider">
               <div>Set</div>
@@ -716,8 +909,8 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                   `}
                 >
                   <div className="grid grid-cols-[50px_120px_100px_50px] gap-3 items-center">
-                    {/* Set Number */}
-                    <div className="flex items-center gap-2">
+                    {/* Set Number (with the rest taken before it) */}
+                    <div className="flex flex-col items-start gap-0.5">
                       <div className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm ${
                         set.completed 
                           ? 'bg-emerald-500/20 text-emerald-400' 
@@ -725,6 +918,11 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                       }`}>
                         {set.set}
                       </div>
+                      {set.completed && set.restSeconds !== undefined && (
+                        <span className="text-[10px] text-gray-500 leading-tight" title="Rest taken before this set">
+                          {formatDuration(set.restSeconds)}
+                        </span>
+                      )}
                     </div>
 
                     {/* Weight Input */}
@@ -772,6 +970,52 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
                     </div>
                   </div>
 
+                  {/* Effort (optional RPE / RIR) */}
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setEffortPickerIndex(effortPickerIndex === index ? null : index)}
+                      className={`text-xs px-2.5 py-1 rounded-md border transition-colors ${
+                        formatSetEffort(set)
+                          ? 'border-[#F56E0F]/40 text-[#F56E0F] bg-[#F56E0F]/10'
+                          : 'border-zinc-800 text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {formatSetEffort(set) || '+ RPE / RIR'}
+                    </button>
+                    {effortPickerIndex === index && (
+                      <div className="mt-2 space-y-2">
+                        <div className="flex flex-wrap gap-1.5">
+                          <span className="text-[10px] text-gray-500 uppercase tracking-wider w-8 self-center">RPE</span>
+                          {RPE_OPTIONS.map(rpe => (
+                            <button
+                              key={rpe}
+                              onClick={() => updateSetEffort(index, 'rpe', rpe)}
+                              className={`min-w-[2.25rem] px-2 py-1.5 rounded-md text-xs transition-colors ${
+                                set.rpe === rpe ? 'bg-[#F56E0F] text-white' : 'bg-zinc-800 text-gray-300 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {rpe}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap gap-1.5">
+                          <span className="text-[10px] text-gray-500 uppercase tracking-wider w-8 self-center">RIR</span>
+                          {RIR_OPTIONS.map(rir => (
+                            <button
+                              key={rir}
+                              onClick={() => updateSetEffort(index, 'rir', rir)}
+                              className={`min-w-[2.25rem] px-2 py-1.5 rounded-md text-xs transition-colors ${
+                                set.rir === rir ? 'bg-[#F56E0F] text-white' : 'bg-zinc-800 text-gray-300 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {rir}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Delete Set Button */}
                   {sets.length > 1 && !set.completed && (
                     <button
@@ -795,17 +1039,20 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
               <span className="uppercase tracking-wider text-sm">Add Set</span>
             </button>
 
-            {/* Notes Section - Disabled to reduce serverless function count */}
-            {/* <div className="bg-[#1B1B1E] border border-zinc-800 rounded-xl p-4">
+            {/* Notes Section (visible to the coach) */}
+            <div className="bg-[#1B1B1E] border border-zinc-800 rounded-xl p-4">
               <label className="block text-gray-400 text-sm mb-2 uppercase tracking-wider">Workout Notes</label>
               <textarea
                 value={notes}
-                onChange={(e) => setNotes(e.target.value)}
+                onChange={(e) => {
+                  notesEdited.current = true;
+                  setNotes(e.target.value);
+                }}
                 className="w-full bg-black border border-zinc-700 rounded-lg px-4 py-3 text-white resize-none focus:outline-none focus:ring-2 focus:ring-[#F56E0F]/50 focus:border-[#F56E0F]"
                 rows={3}
                 placeholder="Add any notes about this exercise..."
               ></textarea>
-            </div> */}
+            </div>
           </div>
         </div>
       )}
@@ -865,24 +1112,38 @@ export function ExerciseDetail({ userId, onBack }: ExerciseDetailProps) {
             <X className="w-6 h-6" />
           </button>
           
-          {/* Centered celebration content */}
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center">
-              <div className="mb-4">
-                <div className="w-32 h-32 mx-auto bg-emerald-500 rounded-full flex items-center justify-center animate-scale-in">
-                  <Check className="w-20 h-20 text-white" />
+          {/* Centered celebration content, then the session feedback sheet */}
+          <div className="h-full overflow-y-auto">
+            <div className="min-h-full flex items-center justify-center p-4">
+              <div className="text-center flex flex-col items-center">
+                <div className="mb-4">
+                  <div className="w-32 h-32 mx-auto bg-emerald-500 rounded-full flex items-center justify-center animate-scale-in">
+                    <Check className="w-20 h-20 text-white" />
+                  </div>
                 </div>
+                <h2 className="text-5xl font-bold text-emerald-400 mb-2 animate-fade-in">
+                  Workout Complete!
+                </h2>
+                <p className="text-2xl text-white animate-fade-in-delay">
+                  Great job! 🎉
+                </p>
+                {workout && (
+                  <div className="mt-6 w-full flex justify-center animate-fade-in-delay">
+                    <SessionFeedbackSheet
+                      workoutId={workout.id}
+                      athleteId={userId}
+                      onDone={handleDismissCelebration}
+                    />
+                  </div>
+                )}
               </div>
-              <h2 className="text-5xl font-bold text-emerald-400 mb-2 animate-fade-in">
-                Workout Complete!
-              </h2>
-              <p className="text-2xl text-white animate-fade-in-delay">
-                Great job! 🎉
-              </p>
             </div>
           </div>
         </div>
       )}
+
+      <RestTimer raised />
+      <SyncIndicator />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Link2, Unlink, Settings2 } from 'lucide-react';
+import { ExerciseGroup } from '../utils/api';
+import { getGroupName } from '../utils/exerciseGroups';
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-[#F56E0F]';
+
+// Small button between two exercises that links them into a superset (or splits the group)
+export function ExerciseLinkToggle({ linked, onToggle }: { linked: boolean; onToggle: () => void }) {
+  return (
+    <div className="flex justify-center -my-1">
+      <button
+        type="button"
+        onClick={onToggle}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors ${
+          linked ? 'text-[#F56E0F] hover:text-red-400' : 'text-gray-600 hover:text-[#F56E0F]'
+        }`}
+        title={linked ? 'Unlink exercises' : 'Link as superset'}
+      >
+        {linked ? <Unlink className="w-3 h-3" /> : <Link2 className="w-3 h-3" />}
+        {linked ? 'Unlink' : 'Link'}
+      </button>
+    </div>
+  );
+}
+
+// Header shown above a group's first exercise, with inline settings for type/rounds/rest
+export function ExerciseGroupHeader({
+  group,
+  letter,
+  memberCount,
+  onChange,
+}: {
+  group: ExerciseGroup;
+  letter: string;
+  memberCount: number;
+  onChange: (changes: Partial<ExerciseGroup>) => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [type, setType] = useState(group.type);
+  const [rounds, setRounds] = useState(group.rounds);
+  const [rest, setRest] = useState(group.restBetweenRounds ?? 0);
+
+  const startEditing = () => {
+    setType(group.type);
+    setRounds(group.rounds);
+    setRest(group.restBetweenRounds ?? 0);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    onChange({
+      type,
+      rounds: Math.max(1, rounds || 1),
+      restBetweenRounds: rest > 0 ? rest : undefined,
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="border-l-2 border-[#F56E0F] pl-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-[#F56E0F] uppercase tracking-wider">
+          {letter} · {getGroupName(group, memberCount)} · {group.rounds} round{group.rounds !== 1 ? 's' : ''}
+          {group.restBetweenRounds ? ` · ${group.restBetweenRounds}s rest` : ''}
+        </p>
+        <button
+          type="button"
+          onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+          className="text-gray-400 hover:text-[#F56E0F] transition-colors p-1"
+          title="Group settings"
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {isEditing && (
+        <div className="mt-2 mb-1 grid grid-cols-3 gap-2 items-end">
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Type</label>
+            <div className="flex gap-1">
+              {(['superset', 'circuit'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setType(option)}
+                  className={`flex-1 px-2 py-1.5 rounded-lg text-xs border transition-colors ${
+                    type === option
+                      ? 'bg-[#F56E0F] border-[#F56E0F] text-white'
+                      : 'bg-black border-zinc-800 text-gray-400 hover:border-zinc-600'
+                  }`}
+                >
+                  {option === 'superset' ? 'Superset' : 'Circuit'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Rounds</label>
+            <input
+              type="number"
+              min="1"
+              value={rounds}
+              onChange={(e) => setRounds(parseInt(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Rest between rounds (s)</label>
+            <input
+              type="number"
+              min="0"
+              step="15"
+              value={rest}
+              onChange={(e) => setRest(parseInt(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div className="col-span-3 flex justify-end">
+            <button
+              type="button"
+              onClick={handleSave}
+              className="bg-[#F56E0F] hover:bg-[#E05D00] text-white px-3 py-1 rounded-lg text-xs transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
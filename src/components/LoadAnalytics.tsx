@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { Activity, TriangleAlert } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { teamsApi, Team, TeamLoad } from '../utils/api';
+import {
+  LOAD_METRIC_LABELS,
+  LoadMetric,
+  LoadPoint,
+  SafeBand,
+  addDays,
+  computeLoadSeries,
+  getLoadHistoryStart,
+  getLoadStatus,
+  getLoadStatusColor,
+  loadSafeBand,
+  saveSafeBand,
+} from '../utils/trainingLoad';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+
+const RANGE_WEEKS = [4, 8, 12];
+
+const inputClass =
+  'bg-black border border-zinc-800 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-orange-500';
+
+const loadChartConfig: ChartConfig = {
+  acute: { label: 'Acute (7 days)', color: '#F56E0F' },
+  chronic: { label: 'Chronic (weekly avg, 28 days)', color: '#a1a1aa' },
+};
+
+const ratioChartConfig: ChartConfig = {
+  acwr: { label: 'ACWR', color: '#F56E0F' },
+  monotony: { label: 'Monotony', color: '#60a5fa' },
+};
+
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatNumber(value: number | undefined, digits = 0): string {
+  return value === undefined ? '–' : value.toLocaleString(undefined, { maximumFractionDigits: digits, minimumFractionDigits: digits });
+}
+
+interface AthleteLoadRow {
+  athleteId: string;
+  athleteName: string;
+  series: LoadPoint[];
+  latest?: LoadPoint;
+}
+
+// Coach view of each team athlete's acute:chronic workload ratio, monotony and strain, with
+// athletes whose latest ACWR falls outside the safe band listed first.
+export function LoadAnalytics() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [metric, setMetric] = useState<LoadMetric>('sessionLoad');
+  const [to, setTo] = useState(formatLocalDate(new Date()));
+  const [weeks, setWeeks] = useState(4);
+  const [band, setBand] = useState<SafeBand>(loadSafeBand());
+  const [teamLoad, setTeamLoad] = useState<TeamLoad | null>(null);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = addDays(to, -(weeks * 7 - 1));
+
+  useEffect(() => {
+    const loadTeams = async () => {
+      try {
+        const data = await teamsApi.getAll();
+        setTeams(data);
+        if (data.length > 0) setTeamId(data[0].id);
+        else setLoading(false);
+      } catch (err) {
+        console.error('Failed to load teams:', err);
+        setError('Failed to load teams');
+        setLoading(false);
+      }
+    };
+    loadTeams();
+  }, []);
+
+  useEffect(() => {
+    if (!teamId) return;
+    const loadTeamLoad = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setTeamLoad(await teamsApi.getLoad(teamId, getLoadHistoryStart(from), to));
+      } catch (err) {
+        console.error('Failed to load training load:', err);
+        setError('Failed to load training load');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadTeamLoad();
+  }, [teamId, from, to]);
+
+  const updateBand = (changes: Partial<SafeBand>) => {
+    const next = { ...band, ...changes };
+    setBand(next);
+    if (next.low > 0 && next.high > next.low) saveSafeBand(next);
+  };
+
+  const rows: AthleteLoadRow[] = (teamLoad?.athletes || []).map((athlete) => {
+    const series = computeLoadSeries(athlete.days, metric, from, to);
+    return { athleteId: athlete.athleteId, athleteName: athlete.athleteName, series, latest: series[series.length - 1] };
+  });
+  const isFlagged = (row: AthleteLoadRow) => {
+    const status = getLoadStatus(row.latest?.acwr, band);
+    return status === 'low' || status === 'high';
+  };
+  const sortedRows = [...rows.filter(isFlagged), ...rows.filter((row) => !isFlagged(row))];
+  const flaggedCount = rows.filter(isFlagged).length;
+
+  const selected = rows.find((row) => row.athleteId === selectedAthleteId) || sortedRows[0];
+  const chartData = (selected?.series || []).map((point) => ({ ...point, label: point.date.slice(5) }));
+  const maxAcwr = Math.max(band.high + 0.2, ...chartData.map((point) => point.acwr || 0));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-white text-3xl mb-2">Training Load</h2>
+          <p className="text-gray-400">Acute:chronic workload ratio, monotony and strain from completed sessions</p>
+        </div>
+      </div>
+
+      <div className="bg-[#1B1B1E] border border-zinc-800 rounded-lg p-4 mb-6 grid grid-cols-2 md:grid-cols-6 gap-3">
+        <label className="col-span-2 md:col-span-2 text-xs text-gray-400 space-y-1">
+          <span>Team</span>
+          <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={`${inputClass} w-full`}>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Load</span>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as LoadMetric)} className={`${inputClass} w-full`}>
+            {(Object.keys(LOAD_METRIC_LABELS) as LoadMetric[]).map((key) => (
+              <option key={key} value={key}>{LOAD_METRIC_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Up to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className={`${inputClass} w-full`}
+            style={{ colorScheme: 'dark' }}
+          />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Range</span>
+          <select value={weeks} onChange={(e) => setWeeks(parseInt(e.target.value))} className={`${inputClass} w-full`}>
+            {RANGE_WEEKS.map((w) => (
+              <option key={w} value={w}>{w} weeks</option>
+            ))}
+          </select>
+        </label>
+        <div className="text-xs text-gray-400 space-y-1">
+          <span>Safe ACWR band</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="0"
+              step="0.05"
+              value={band.low}
+              onChange={(e) => updateBand({ low: parseFloat(e.target.value) || 0 })}
+              className={`${inputClass} w-full`}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min="0"
+              step="0.05"
+              value={band.high}
+              onChange={(e) => updateBand({ high: parseFloat(e.target.value) || 0 })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 mb-6">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="text-white">Loading training load...</div>
+        </div>
+      ) : teams.length === 0 ? (
+        <p className="text-gray-500">Create a team to monitor its athletes' training load.</p>
+      ) : rows.length === 0 ? (
+        <p className="text-gray-500">This team has no athletes yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {flaggedCount > 0 && (
+            <p className="flex items-center gap-2 text-sm text-red-400">
+              <TriangleAlert className="w-4 h-4" />
+              {flaggedCount} athlete{flaggedCount === 1 ? '' : 's'} outside the {band.low}–{band.high} ACWR band
+            </p>
+          )}
+
+          <div className="bg-[#1B1B1E] border border-zinc-800 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-zinc-800">
+                  <th className="px-4 py-3 font-normal">Athlete</th>
+                  <th className="px-4 py-3 font-normal text-right">Acute</th>
+                  <th className="px-4 py-3 font-normal text-right">Chronic</th>
+                  <th className="px-4 py-3 font-normal text-right">ACWR</th>
+                  <th className="px-4 py-3 font-normal text-right">Monotony</th>
+                  <th className="px-4 py-3 font-normal text-right">Strain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => {
+                  const status = getLoadStatus(row.latest?.acwr, band);
+                  return (
+                    <tr
+                      key={row.athleteId}
+                      onClick={() => setSelectedAthleteId(row.athleteId)}
+                      className={`border-b border-zinc-800 last:border-0 cursor-pointer transition-colors ${
+                        selected?.athleteId === row.athleteId ? 'bg-zinc-800/60' : 'hover:bg-zinc-800/30'
+                      }`}
+                    >
+                      <td className="px-4 py-3 text-white">
+                        <span className="flex items-center gap-2">
+                          {isFlagged(row) && <TriangleAlert className={`w-4 h-4 ${getLoadStatusColor(status)}`} />}
+                          {row.athleteName}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-300">{formatNumber(row.latest?.acute)}</td>
+                      <td className="px-4 py-3 text-right text-gray-300">{formatNumber(row.latest?.chronic)}</td>
+                      <td className={`px-4 py-3 text-right ${getLoadStatusColor(status)}`}>
+                        {formatNumber(row.latest?.acwr, 2)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-300">{formatNumber(row.latest?.monotony, 2)}</td>
+                      <td className="px-4 py-3 text-right text-gray-300">{formatNumber(row.latest?.strain)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {selected && (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="bg-[#1B1B1E] border border-zinc-800 rounded-lg p-4">
+                <h3 className="text-white mb-4 flex items-center gap-2">
+                  <Activity className="w-4 h-4 text-orange-500" />
+                  {selected.athleteName} · {LOAD_METRIC_LABELS[metric]}
+                </h3>
+                <ChartContainer config={loadChartConfig} className="aspect-auto h-64 w-full">
+                  <LineChart data={chartData} margin={{ left: 0, right: 8 }}>
+                    <CartesianGrid vertical={false} stroke="#27272a" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="acute" type="monotone" stroke="var(--color-acute)" strokeWidth={2} dot={false} />
+                    <Line dataKey="chronic" type="monotone" stroke="var(--color-chronic)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+
+              <div className="bg-[#1B1B1E] border border-zinc-800 rounded-lg p-4">
+                <h3 className="text-white mb-4">ACWR and monotony</h3>
+                <ChartContainer config={ratioChartConfig} className="aspect-auto h-64 w-full">
+                  <LineChart data={chartData} margin={{ left: 0, right: 8 }}>
+                    <CartesianGrid vertical={false} stroke="#27272a" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={48} domain={[0, Math.ceil(maxAcwr * 2) / 2]} />
+                    <ReferenceArea y1={band.low} y2={band.high} fill="#22c55e" fillOpacity={0.08} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="acwr" type="monotone" stroke="var(--color-acwr)" strokeWidth={2} dot={false} connectNulls />
+                    <Line dataKey="monotony" type="monotone" stroke="var(--color-monotony)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { X, Copy, Check, RefreshCw } from 'lucide-react';
+import { athletesApi, Athlete, LoginLink } from '../utils/api';
+
+interface LoginLinkModalProps {
+  athlete: Athlete;
+  onClose: () => void;
+  onAthleteUpdated?: (athlete: Athlete) => void;
+}
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-orange-500';
+
+const EXPIRY_OPTIONS = [1, 7, 30, 90];
+
+const STATUS_CLASSES: Record<LoginLink['status'], string> = {
+  active: 'text-emerald-400',
+  used: 'text-gray-400',
+  expired: 'text-gray-500',
+  revoked: 'text-red-400',
+};
+
+function formatDateTime(value?: string) {
+  return value ? new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+}
+
+// Manage an athlete's login link: copy the active one, issue a new one (which invalidates the
+// old), or revoke it. Either also signs the athlete out on every device. Every link the athlete
+// has had is listed with when it was last used. The PIN their name link asks for is set here too.
+export function LoginLinkModal({ athlete, onClose, onAthleteUpdated }: LoginLinkModalProps) {
+  const [links, setLinks] = useState<LoginLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [singleUse, setSingleUse] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [hasPin, setHasPin] = useState(!!athlete.hasPin);
+  const [pin, setPin] = useState('');
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  useEffect(() => {
+    const loadLinks = async () => {
+      try {
+        setLoading(true);
+        setLinks(await athletesApi.getLoginLinks(athlete.id));
+      } catch (err) {
+        console.error('Failed to load login links:', err);
+        setError('Failed to load login links');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLinks();
+  }, [athlete.id]);
+
+  const activeLink = links.find((link) => link.status === 'active' && link.token);
+  const activeUrl = activeLink ? `${window.location.origin}/?token=${activeLink.token}` : '';
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // A new link also ends the sessions the athlete signed in to with earlier ones
+    const signedIn = links.some((link) => link.lastUsedAt);
+    if (
+      (activeLink || signedIn) &&
+      !confirm(
+        `${activeLink ? `${athlete.name}'s current link will stop working` : 'This link replaces the old one'}` +
+          `${signedIn ? ` and they'll be signed out on every device` : ''}. Continue?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await athletesApi.regenerateLoginLink(athlete.id, { singleUse, expiresInDays });
+      setLinks(await athletesApi.getLoginLinks(athlete.id));
+      setCopied(false);
+    } catch (err: any) {
+      console.error('Failed to regenerate login link:', err);
+      setError(err.message || 'Failed to regenerate login link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm(`Revoke ${athlete.name}'s login link? They won't be able to sign in with it again, and they'll be signed out on every device.`)) return;
+
+    try {
+      setError(null);
+      await athletesApi.revokeLoginLink(athlete.id);
+      setLinks(await athletesApi.getLoginLinks(athlete.id));
+    } catch (err: any) {
+      console.error('Failed to revoke login link:', err);
+      setError(err.message || 'Failed to revoke login link');
+    }
+  };
+
+  const handleSavePin = async (newPin: string | null) => {
+    try {
+      setIsSavingPin(true);
+      setError(null);
+      const updated = await athletesApi.update(athlete.id, { pin: newPin });
+      setHasPin(!!updated.hasPin);
+      setPin('');
+      onAthleteUpdated?.(updated);
+    } catch (err: any) {
+      console.error('Failed to save PIN:', err);
+      setError(err.message || 'Failed to save PIN');
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(activeUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white text-xl">{athlete.name}'s Login Link</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm mb-6">Loading login links...</p>
+        ) : activeLink ? (
+          <div className="mb-6">
+            <div className="bg-black border border-zinc-800 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={activeUrl}
+                  className="flex-1 bg-transparent text-white text-sm focus:outline-none"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center gap-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+            </div>
+            <div className="flex items-center justify-between mt-2 text-sm">
+              <span className="text-gray-400">
+                {activeLink.singleUse ? 'Single-use' : 'Reusable'} · expires {formatDateTime(activeLink.expiresAt)}
+              </span>
+              <button onClick={handleRevoke} className="text-gray-500 hover:text-red-400 transition-colors">
+                Revoke
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm mb-6">No active login link. Generate one to share with {athlete.name}.</p>
+        )}
+
+        <form onSubmit={handleRegenerate} className="space-y-3 mb-6">
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={singleUse ? 'single' : 'reusable'}
+              onChange={(e) => {
+                const isSingleUse = e.target.value === 'single';
+                setSingleUse(isSingleUse);
+                setExpiresInDays(isSingleUse ? 1 : 30);
+              }}
+              className={inputClass}
+            >
+              <option value="reusable">Reusable link</option>
+              <option value="single">Single-use link</option>
+            </select>
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(parseInt(e.target.value))}
+              className={inputClass}
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  Expires in {days} {days === 1 ? 'day' : 'days'}
+                </option>
+              ))}
+            </select>
+          </div>
+          {singleUse && (
+            <p className="text-xs text-gray-500">
+              Works once: opening it signs this device in for 90 days, then the link stops working.
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full flex items-center justify-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white py-2 rounded-lg transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            {isSaving ? 'Generating...' : activeLink ? 'Regenerate Link' : 'Generate Link'}
+          </button>
+        </form>
+
+        <div className="mb-6">
+          <h4 className="text-white mb-1">Name Link PIN</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            {hasPin
+              ? 'Signing in with the name link asks for a PIN.'
+              : 'Anyone who knows the name link can sign in as this athlete. Add a PIN to ask for it too.'}
+          </p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSavePin(pin);
+            }}
+            className="flex gap-3"
+          >
+            <input
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className={inputClass}
+              placeholder={hasPin ? 'New PIN (4-8 digits)' : 'PIN (4-8 digits)'}
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              disabled={isSavingPin || pin.length < 4}
+              className="bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              {hasPin ? 'Change' : 'Set'}
+            </button>
+            {hasPin && (
+              <button
+                type="button"
+                onClick={() => handleSavePin(null)}
+                disabled={isSavingPin}
+                className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </form>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {links.length > 0 && (
+          <div>
+            <h4 className="text-white mb-3">History</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 pr-3 font-normal">Link</th>
+                    <th className="pb-2 pr-3 font-normal">Created</th>
+                    <th className="pb-2 pr-3 font-normal">Expires</th>
+                    <th className="pb-2 pr-3 font-normal">Last used</th>
+                    <th className="pb-2 font-normal">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map((link) => (
+                    <tr key={`${link.tokenPreview}-${link.createdAt}`} className="border-t border-zinc-800 text-gray-400">
+                      <td className="py-2 pr-3 font-mono text-xs">
+                        {link.tokenPreview}
+                        {link.singleUse && <span className="ml-1 text-gray-500">(single-use)</span>}
+                      </td>
+                      <td className="py-2 pr-3">{formatDateTime(link.createdAt)}</td>
+                      <td className="py-2 pr-3">{formatDateTime(link.expiresAt)}</td>
+                      <td className="py-2 pr-3">{formatDateTime(link.lastUsedAt)}</td>
+                      <td className={`py-2 capitalize ${STATUS_CLASSES[link.status]}`}>{link.status}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
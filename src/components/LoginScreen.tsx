@@ -1,27 +1,58 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import sequenceLogo from 'figma:asset/5c2d0c8af8dfc8338b2c35795df688d7811f7b51.png';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { authApi, AuthUser } from '../utils/api';
+import { setAuthToken } from '../utils/auth';
 
 interface LoginScreenProps {
-  onLogin: (user: { id: string; name: string; role: 'admin' | 'user' }) => void;
+  onLogin: (user: AuthUser) => void;
 }
 
+const MIN_PASSWORD_LENGTH = 8;
+
+// Coach sign-in. While no coach account exists it offers to create the first one instead, with the
+// setup code the server was configured with (COACH_SETUP_SECRET).
 export function LoginScreen({ onLogin }: LoginScreenProps) {
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [setupSecret, setSetupSecret] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleLogin = (e: React.FormEvent) => {
+  useEffect(() => {
+    authApi
+      .getSetupStatus()
+      .then(({ needsSetup }) => setNeedsSetup(needsSetup))
+      .catch((err) => console.error('Failed to check coach accounts:', err));
+  }, []);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
-    
-    // Mock login logic for admin
-    if (email.includes('admin')) {
-      const adminUser = { id: '1', name: 'Admin User', role: 'admin' as const };
-      onLogin(adminUser);
-    } else {
-      setError('Please use your login link provided by your coach');
+
+    if (needsSetup && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const session = needsSetup
+        ? await authApi.createCoach({ name, email, password, setupSecret })
+        : await authApi.coachLogin(email, password);
+      if (session.token) setAuthToken(session.token);
+      onLogin(session.user);
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      setError(
+        err instanceof TypeError
+          ? 'Failed to connect. Please check your internet connection.'
+          : err instanceof Error ? err.message : 'Failed to sign in'
+      );
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -47,6 +78,25 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
         </div>
 
         <form onSubmit={handleLogin} className="space-y-6">
+          {needsSetup && (
+            <>
+              <p className="text-center text-sm text-[#878787]">
+                Create the first coach account to get started.
+              </p>
+              <div>
+                <label className="block text-[#878787] mb-2">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F]"
+                  placeholder="Enter your name"
+                  required
+                />
+              </div>
+            </>
+          )}
+
           <div>
             <label className="block text-[#878787] mb-2">Email</label>
             <input
@@ -55,6 +105,7 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
               onChange={(e) => setEmail(e.target.value)}
               className="w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F]"
               placeholder="Enter your email"
+              autoComplete="email"
               required
             />
           </div>
@@ -66,16 +117,33 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               className="w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F]"
-              placeholder="Enter your password"
+              placeholder={needsSetup ? `At least ${MIN_PASSWORD_LENGTH} characters` : 'Enter your password'}
+              autoComplete={needsSetup ? 'new-password' : 'current-password'}
               required
             />
           </div>
 
+          {needsSetup && (
+            <div>
+              <label className="block text-[#878787] mb-2">Setup Code</label>
+              <input
+                type="password"
+                value={setupSecret}
+                onChange={(e) => setSetupSecret(e.target.value)}
+                className="w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F]"
+                placeholder="COACH_SETUP_SECRET from the server"
+                autoComplete="off"
+                required
+              />
+            </div>
+          )}
+
           <button
             type="submit"
-            className="w-full bg-[#F56E0F] hover:bg-[#e05d00] text-white py-3 rounded-lg transition-colors"
+            disabled={loading}
+            className="w-full bg-[#F56E0F] hover:bg-[#e05d00] disabled:opacity-50 text-white py-3 rounded-lg transition-colors"
           >
-            Sign In
+            {needsSetup ? 'Create Account' : 'Sign In'}
           </button>
 
           {error && (
@@ -86,12 +154,12 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
           
           {loading && (
             <div className="text-center text-white">
-              Logging in...
+              {needsSetup ? 'Creating account...' : 'Logging in...'}
             </div>
           )}
 
           <p className="text-center text-sm text-[#878787] mt-4">
-            Demo: Use "admin@sequence.com" for admin. Athletes should use their login link.
+            Coaches sign in here. Athletes use their login link or <a href="/" className="text-white hover:underline">sign in with a password</a>.
           </p>
         </form>
       </div>
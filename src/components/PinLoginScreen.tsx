@@ -0,0 +1,56 @@
+import { useState } from 'react';
+
+interface PinLoginScreenProps {
+  playerName: string;
+  error: string | null;
+  loading: boolean;
+  onSubmit: (pin: string) => void;
+}
+
+// Second step of a name link for athletes whose coach has set a PIN
+export function PinLoginScreen({ playerName, error, loading, onSubmit }: PinLoginScreenProps) {
+  const [pin, setPin] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin) onSubmit(pin);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 bg-black">
+      <div className="w-full max-w-sm">
+        <h1 className="text-white text-2xl mb-2 text-center">Hi, {playerName}</h1>
+        <p className="text-[#878787] text-sm mb-8 text-center">Enter the PIN your coach gave you.</p>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <input
+            type="password"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            maxLength={8}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            className="w-full bg-[#1B1B1E] border border-[#262626] rounded-lg px-4 py-3 text-white text-center text-2xl tracking-[0.5em] focus:outline-none focus:border-[#F56E0F]"
+            autoComplete="off"
+            autoFocus
+            required
+          />
+
+          <button
+            type="submit"
+            disabled={loading || pin.length < 4}
+            className="w-full bg-[#F56E0F] hover:bg-[#e05d00] disabled:opacity-50 text-white py-3 rounded-lg transition-colors"
+          >
+            {loading ? 'Checking...' : 'Continue'}
+          </button>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
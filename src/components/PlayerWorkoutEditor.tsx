@@ -1,8 +1,16 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Calendar, Plus, Trash2, Video, ChevronDown, ChevronRight, ChevronLeft, Pencil, GripVertical, Copy, Move, CheckSquare, X, Search, Check } from 'lucide-react';
-import { workoutsApi, athletesApi, Workout, Athlete as AthleteType } from '../utils/api';
+import { useState, useEffect, useRef, Fragment } from 'react';
+import { ArrowLeft, Calendar, Plus, Trash2, Video, ChevronDown, ChevronRight, ChevronLeft, Pencil, GripVertical, Copy, Move, CheckSquare, X, Search, Check, Timer, CalendarPlus, Trophy, MessageSquare, Gauge } from 'lucide-react';
+import { workoutsApi, athletesApi, Workout, Athlete as AthleteType, ExercisePrescription, ExerciseGroup, PersonalRecord, ExerciseCompletionStatus, WorkoutSession } from '../utils/api';
+import { getPrescription, toPrescriptionFields, formatPrescriptionExtras, formatDuration } from '../utils/prescription';
+import { formatRecord, groupRecordsByExercise, sortRecords } from '../utils/records';
+import { formatLoggedSet } from '../utils/effort';
+import { formatSessionFeedback } from '../utils/sessionFeedback';
+import { getExerciseGroup, getExerciseLabels, getGroupMembers, normalizeGroups, toggleLinkWithNext, updateGroup } from '../utils/exerciseGroups';
 import { ExerciseAutocomplete } from './ExerciseAutocomplete';
+import { PrescriptionEditor } from './PrescriptionEditor';
+import { ExerciseGroupHeader, ExerciseLinkToggle } from './ExerciseGroupControls';
 import { WorkoutTemplateAutocomplete } from './WorkoutTemplateAutocomplete';
+import { AssignProgramModal } from './AssignProgramModal';
 import {
   DndContext,
   closestCenter,
@@ -33,6 +41,8 @@ interface Block {
   id: string;
   name: string;
   exercises: Exercise[];
+  groups?: ExerciseGroup[];
+  restSeconds?: number;
 }
 
 interface Workout {
@@ -44,11 +54,15 @@ interface Workout {
 
 interface Exercise {
   id: string;
+  exerciseId?: string;
   name: string;
   sets: number;
   reps: string;
   weight: string;
+  prescription?: ExercisePrescription;
   videoUrl?: string;
+  groupId?: string;
+  restSeconds?: number;
   exerciseName?: string; // Support both name and exerciseName for compatibility
 }
 
@@ -61,12 +75,20 @@ interface PlayerWorkoutEditorProps {
 function SortableExercise({
   exercise,
   index,
+  label,
+  grouped,
+  records,
+  log,
   onEdit,
   onRemove,
   isDraggingAny,
 }: {
   exercise: Exercise;
   index: number;
+  label?: string;
+  grouped?: boolean;
+  records?: PersonalRecord[];
+  log?: ExerciseCompletionStatus;
   onEdit: () => void;
   onRemove: () => void;
   isDraggingAny: boolean;
@@ -90,7 +112,7 @@ function SortableExercise({
     <div
       ref={setNodeRef}
       style={style}
-      className="bg-black/40 border border-zinc-700 rounded-lg p-3"
+      className={`bg-black/40 border border-zinc-700 rounded-lg p-3 ${grouped ? 'border-l-2 border-l-[#F56E0F]' : ''}`}
     >
       <div className="flex items-start justify-between">
         <div className="flex items-start gap-2 flex-1">
@@ -103,7 +125,7 @@ function SortableExercise({
           </button>
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
-              <span className="text-gray-500 text-sm">{index + 1}.</span>
+              <span className={`text-sm ${label ? 'text-[#F56E0F]' : 'text-gray-500'}`}>{label || `${index + 1}.`}</span>
               <h5 className="text-white text-sm">{exercise.name || exercise.exerciseName}</h5>
             </div>
             <div className="grid grid-cols-3 gap-3 text-xs">
@@ -120,6 +142,37 @@ function SortableExercise({
                 <span className="text-white">{exercise.weight}</span>
               </div>
             </div>
+            {exercise.prescription && formatPrescriptionExtras(exercise.prescription) && (
+              <div className="mt-1 text-xs text-gray-400">{formatPrescriptionExtras(exercise.prescription)}</div>
+            )}
+            {exercise.restSeconds !== undefined && (
+              <div className="mt-1 text-xs text-gray-400">Rest: {formatDuration(exercise.restSeconds)}</div>
+            )}
+            {log?.sets && log.sets.length > 0 && (
+              <div className="mt-1 text-xs text-gray-400">
+                Logged: <span className="text-white">{log.sets.map(formatLoggedSet).join(', ')}</span>
+              </div>
+            )}
+            {log?.notes && (
+              <div className="mt-1 flex items-start gap-1 text-xs text-gray-300">
+                <MessageSquare className="w-3 h-3 mt-0.5 text-gray-500 flex-shrink-0" />
+                <span className="italic whitespace-pre-wrap">{log.notes}</span>
+              </div>
+            )}
+            {records && records.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {sortRecords(records).map((record) => (
+                  <span
+                    key={record.id}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-[#F56E0F]/15 border border-[#F56E0F]/40 rounded-full text-[#F56E0F] text-xs"
+                    title={record.previousValue !== undefined ? `Previous best ${record.previousValue}` : undefined}
+                  >
+                    <Trophy className="w-3 h-3" />
+                    PR · {formatRecord(record)}
+                  </span>
+                ))}
+              </div>
+            )}
             {exercise.videoUrl && (
               <div className="flex items-center gap-1 mt-2 text-[#F56E0F] text-xs">
                 <Video className="w-3 h-3" />
@@ -159,6 +212,11 @@ function SortableBlock({
   onExerciseRemove,
   onAddExercise,
   onExerciseDragEnd,
+  onToggleLink,
+  onGroupChange,
+  onRestChange,
+  records,
+  logs,
   activeExerciseId,
   setActiveExerciseId,
   isDraggingAny,
@@ -174,6 +232,11 @@ function SortableBlock({
   onExerciseRemove: (exerciseId: string) => void;
   onAddExercise: () => void;
   onExerciseDragEnd: (event: DragEndEvent, blockId: string, workoutId: string) => void;
+  onToggleLink: (index: number) => void;
+  onGroupChange: (groupId: string, changes: Partial<ExerciseGroup>) => void;
+  onRestChange: (restSeconds: number | undefined) => void;
+  records: Map<string, PersonalRecord[]>;
+  logs: Map<string, ExerciseCompletionStatus>;
   activeExerciseId: string | null;
   setActiveExerciseId: (id: string | null) => void;
   isDraggingAny: boolean;
@@ -201,6 +264,10 @@ function SortableBlock({
     opacity: isDragging ? 0 : 1,
   };
 
+  // Lettered labels (A1/A2...) and group headers use the displayed exercises with the block's groups
+  const groupedBlock = { exercises, groups: block.groups };
+  const exerciseLabels = getExerciseLabels(groupedBlock);
+
   return (
     <div ref={setNodeRef} style={style} className="bg-black/30 border border-zinc-800 rounded-lg overflow-hidden">
       {/* Block Header */}
@@ -226,6 +293,7 @@ function SortableBlock({
               <h4 className="text-white">{block.name}</h4>
               <p className="text-xs text-gray-500">
                 {block.exercises.length} exercise{block.exercises.length !== 1 ? 's' : ''}
+                {block.restSeconds ? ` • ${formatDuration(block.restSeconds)} rest` : ''}
               </p>
             </div>
           </button>
@@ -241,6 +309,25 @@ function SortableBlock({
       {/* Exercises in Block */}
       {isExpanded && (
         <div className="border-t border-zinc-800 p-3 space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Timer className="w-3.5 h-3.5" />
+            <span>Rest between sets</span>
+            <input
+              key={block.restSeconds ?? 'none'}
+              type="number"
+              min="0"
+              step="15"
+              defaultValue={block.restSeconds ?? ''}
+              onBlur={(e) => {
+                const value = parseInt(e.target.value);
+                const restSeconds = isNaN(value) ? undefined : value;
+                if (restSeconds !== block.restSeconds) onRestChange(restSeconds);
+              }}
+              className="w-20 bg-black border border-zinc-800 rounded px-2 py-1 text-white focus:outline-none focus:border-[#F56E0F]"
+              placeholder="--"
+            />
+            <span>s</span>
+          </div>
           <DndContext
             sensors={exerciseSensors}
             collisionDetection={closestCenter}
@@ -257,16 +344,40 @@ function SortableBlock({
               items={exercises.map((e) => e.id)}
               strategy={verticalListSortingStrategy}
             >
-              {exercises.map((exercise, index) => (
-                <SortableExercise
-                  key={exercise.id}
-                  exercise={exercise}
-                  index={index}
-                  onEdit={() => onExerciseEdit(exercise)}
-                  onRemove={() => onExerciseRemove(exercise.id)}
-                  isDraggingAny={isDraggingAny}
-                />
-              ))}
+              {exercises.map((exercise, index) => {
+                const group = getExerciseGroup(groupedBlock, exercise);
+                const startsGroup = !!group && exercises[index - 1]?.groupId !== exercise.groupId;
+                const next = exercises[index + 1];
+                return (
+                  <Fragment key={exercise.id}>
+                    {group && startsGroup && (
+                      <ExerciseGroupHeader
+                        group={group}
+                        letter={exerciseLabels[exercise.id].charAt(0)}
+                        memberCount={getGroupMembers(groupedBlock, exercise.id).length}
+                        onChange={(changes) => onGroupChange(group.id, changes)}
+                      />
+                    )}
+                    <SortableExercise
+                      exercise={exercise}
+                      index={index}
+                      label={exerciseLabels[exercise.id]}
+                      grouped={!!group}
+                      records={records.get(`${workoutId}:${exercise.id}`)}
+                      log={logs.get(`${workoutId}:${exercise.id}`)}
+                      onEdit={() => onExerciseEdit(exercise)}
+                      onRemove={() => onExerciseRemove(exercise.id)}
+                      isDraggingAny={isDraggingAny}
+                    />
+                    {next && !isDraggingAny && (
+                      <ExerciseLinkToggle
+                        linked={!!group && next.groupId === exercise.groupId}
+                        onToggle={() => onToggleLink(index)}
+                      />
+                    )}
+                  </Fragment>
+                );
+              })}
             </SortableContext>
             <DragOverlay>
               {activeExerciseId ? (
@@ -318,9 +429,7 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
   const [showMoveModal, setShowMoveModal] = useState(false);
   const [targetAthlete, setTargetAthlete] = useState<AthleteType | null>(null);
   const [targetDate, setTargetDate] = useState<string>(new Date().toISOString().split('T')[0]);
-  const [copyToMultipleDates, setCopyToMultipleDates] = useState(false);
-  const [selectedDays, setSelectedDays] = useState<Set<number>>(new Set());
-  const [numberOfWeeks, setNumberOfWeeks] = useState<number>(4);
+  const [showAssignProgramModal, setShowAssignProgramModal] = useState(false);
   const [allAthletes, setAllAthletes] = useState<AthleteType[]>([]);
   const [athleteSearch, setAthleteSearch] = useState('');
   const [calendarMonth, setCalendarMonth] = useState<Date>(() => {
@@ -331,6 +440,14 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
   const [draggedWorkout, setDraggedWorkout] = useState<{ workout: Workout; sourceDate: string } | null>(null);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
   const [workoutCompletionStatus, setWorkoutCompletionStatus] = useState<Record<string, boolean>>({});
+  // The athlete's PRs keyed by workout exercise (`${workoutId}:${blockExerciseId}`)
+  const [recordsByExercise, setRecordsByExercise] = useState<Map<string, PersonalRecord[]>>(new Map());
+  // What the athlete logged (sets with RPE/RIR, notes), keyed the same way
+  const [logsByExercise, setLogsByExercise] = useState<Map<string, ExerciseCompletionStatus>>(new Map());
+  // The calendar month whose completion was last loaded (loadWorkouts loads the first)
+  const completionMonthRef = useRef(calendarMonth.getTime());
+  // Session RPE, duration and comment from the completion sheet, keyed by workout ID
+  const [sessionsByWorkout, setSessionsByWorkout] = useState<Map<string, WorkoutSession>>(new Map());
 
   // Update calendar month when selected date changes
   useEffect(() => {
@@ -348,6 +465,12 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     })
   );
 
+  // Load completion for each month the calendar moves to
+  useEffect(() => {
+    if (completionMonthRef.current === calendarMonth.getTime()) return;
+    loadCompletionStatuses(calendarMonth);
+  }, [calendarMonth]);
+
   // Load workouts for this athlete
   useEffect(() => {
     loadWorkouts();
@@ -373,38 +496,50 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     }
   }, [showCopyModal, showMoveModal, athlete.name]);
 
+  // Completion status and logs for the workouts in one calendar month, in one request. Other months
+  // already loaded are kept unless replacing them (e.g. after reloading the workouts).
+  const loadCompletionStatuses = async (month: Date, replace = false) => {
+    completionMonthRef.current = month.getTime();
+    try {
+      const statuses = await workoutsApi.getCompletionStatuses(athlete.id, {
+        from: formatLocalDate(new Date(month.getFullYear(), month.getMonth(), 1)),
+        to: formatLocalDate(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+      });
+      const completionStatus: Record<string, boolean> = {};
+      const logs: [string, ExerciseCompletionStatus][] = [];
+      Object.entries(statuses).forEach(([workoutId, status]) => {
+        completionStatus[workoutId] = status.completed;
+        Object.entries(status.exercises).forEach(([exerciseId, log]) => {
+          logs.push([`${workoutId}:${exerciseId}`, log]);
+        });
+      });
+      setWorkoutCompletionStatus((prev) => (replace ? completionStatus : { ...prev, ...completionStatus }));
+      setLogsByExercise((prev) => new Map([...(replace ? [] : prev), ...logs]));
+    } catch (err) {
+      console.error('Failed to load completion status:', err);
+    }
+  };
+
   const loadWorkouts = async () => {
     try {
       setLoading(true);
       setError(null);
       const data = await workoutsApi.getAll({ athleteId: athlete.id });
       setWorkouts(data);
-      
-      // Load completion status for all workouts in parallel
-      const completionStatus: Record<string, boolean> = {};
-      const statusPromises = data.map(async (workout) => {
-        try {
-          const status = await workoutsApi.getCompletionStatus(workout.id, athlete.id);
-          // Check if all exercises are completed
-          const allExercises = workout.blocks.flatMap(block => block.exercises);
-          const isCompleted = allExercises.length > 0 && allExercises.every(exercise => {
-            const exerciseName = exercise.exerciseName || (exercise as any).name || '';
-            const exerciseStatus = status[exerciseName];
-            return exerciseStatus?.status === 'completed';
-          });
-          return { workoutId: workout.id, isCompleted };
-        } catch (err) {
-          console.error(`Failed to load completion status for workout ${workout.id}:`, err);
-          return { workoutId: workout.id, isCompleted: false };
-        }
-      });
-      
-      const results = await Promise.all(statusPromises);
-      results.forEach(({ workoutId, isCompleted }) => {
-        completionStatus[workoutId] = isCompleted;
-      });
-      
-      setWorkoutCompletionStatus(completionStatus);
+      await loadCompletionStatuses(calendarMonth, true);
+
+      try {
+        setRecordsByExercise(groupRecordsByExercise(await athletesApi.getRecords(athlete.id)));
+      } catch (err) {
+        console.error('Failed to load personal records:', err);
+      }
+
+      try {
+        const sessions = await athletesApi.getSessions(athlete.id);
+        setSessionsByWorkout(new Map(sessions.map((session) => [session.workoutId, session])));
+      } catch (err) {
+        console.error('Failed to load session feedback:', err);
+      }
     } catch (err) {
       console.error('Failed to load workouts:', err);
       setError('Failed to load workouts. Make sure the backend server is running.');
@@ -491,7 +626,11 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     try {
       const saved = await workoutsApi.update(workout.id, updatedWorkout);
       setWorkouts(workouts.map(w => w.id === workout.id ? saved : w));
-      setExpandedBlocks(new Set([...expandedBlocks, newBlock.id]));
+      // The server assigns the new block's ID, so expand the one it returned
+      const savedBlock = saved.blocks[saved.blocks.length - 1];
+      if (savedBlock) {
+        setExpandedBlocks(new Set([...expandedBlocks, savedBlock.id]));
+      }
       setShowBlockModal(false);
     } catch (err: any) {
       console.error('Failed to add block:', err);
@@ -525,10 +664,14 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     // Convert Exercise to WorkoutExercise format (API expects exerciseName, not name)
     const workoutExercise = {
       id: exercise.id,
+      exerciseId: exercise.exerciseId,
       exerciseName: exercise.name || exercise.exerciseName || '',
       sets: exercise.sets,
       reps: exercise.reps,
       weight: exercise.weight,
+      prescription: exercise.prescription,
+      groupId: exercise.groupId,
+      restSeconds: exercise.restSeconds,
     };
     
     const updatedWorkout = {
@@ -558,7 +701,7 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
       ...workout,
       blocks: workout.blocks.map((block) =>
         block.id === blockId
-          ? { ...block, exercises: block.exercises.filter((ex) => ex.id !== exerciseId) }
+          ? normalizeGroups({ ...block, exercises: block.exercises.filter((ex) => ex.id !== exerciseId) })
           : block
       ),
     };
@@ -572,6 +715,71 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     }
   };
 
+  const handleToggleExerciseLink = async (workoutId: string, blockId: string, index: number) => {
+    const workout = workouts.find(w => w.id === workoutId);
+    if (!workout) return;
+    
+    const updatedWorkout = {
+      ...workout,
+      blocks: workout.blocks.map((block) =>
+        block.id === blockId ? toggleLinkWithNext(block, index) : block
+      ),
+    };
+    
+    try {
+      const saved = await workoutsApi.update(workoutId, updatedWorkout);
+      setWorkouts(workouts.map(w => w.id === workoutId ? saved : w));
+    } catch (err: any) {
+      console.error('Failed to update superset:', err);
+      alert(err.message || 'Failed to update superset. Please try again.');
+    }
+  };
+
+  const handleUpdateExerciseGroup = async (
+    workoutId: string,
+    blockId: string,
+    groupId: string,
+    changes: Partial<ExerciseGroup>
+  ) => {
+    const workout = workouts.find(w => w.id === workoutId);
+    if (!workout) return;
+    
+    const updatedWorkout = {
+      ...workout,
+      blocks: workout.blocks.map((block) =>
+        block.id === blockId ? updateGroup(block, groupId, changes) : block
+      ),
+    };
+    
+    try {
+      const saved = await workoutsApi.update(workoutId, updatedWorkout);
+      setWorkouts(workouts.map(w => w.id === workoutId ? saved : w));
+    } catch (err: any) {
+      console.error('Failed to update superset:', err);
+      alert(err.message || 'Failed to update superset. Please try again.');
+    }
+  };
+
+  const handleUpdateBlockRest = async (workoutId: string, blockId: string, restSeconds: number | undefined) => {
+    const workout = workouts.find(w => w.id === workoutId);
+    if (!workout) return;
+    
+    const updatedWorkout = {
+      ...workout,
+      blocks: workout.blocks.map((block) =>
+        block.id === blockId ? { ...block, restSeconds } : block
+      ),
+    };
+    
+    try {
+      const saved = await workoutsApi.update(workoutId, updatedWorkout);
+      setWorkouts(workouts.map(w => w.id === workoutId ? saved : w));
+    } catch (err: any) {
+      console.error('Failed to update block rest:', err);
+      alert(err.message || 'Failed to update block rest. Please try again.');
+    }
+  };
+
   const handleEditExercise = async (workoutId: string, blockId: string, updatedExercise: Exercise) => {
     const workout = workouts.find(w => w.id === workoutId);
     if (!workout) return;
@@ -579,10 +787,14 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     // Convert Exercise to WorkoutExercise format
     const workoutExercise = {
       id: updatedExercise.id,
+      exerciseId: updatedExercise.exerciseId,
       exerciseName: updatedExercise.name || updatedExercise.exerciseName || '',
       sets: updatedExercise.sets,
       reps: updatedExercise.reps,
       weight: updatedExercise.weight,
+      prescription: updatedExercise.prescription,
+      groupId: updatedExercise.groupId,
+      restSeconds: updatedExercise.restSeconds,
     };
     
     const updatedWorkout = {
@@ -839,7 +1051,7 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
         ...workout,
         blocks: workout.blocks.map((b) =>
           b.id === blockId
-            ? { ...b, exercises: arrayMove(b.exercises, oldIndex, newIndex) }
+            ? normalizeGroups({ ...b, exercises: arrayMove(b.exercises, oldIndex, newIndex) })
             : b
         ),
       };
@@ -875,65 +1087,14 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
     try {
       const workoutsToCopy = workouts.filter(w => selectedWorkouts.has(w.id));
       
-      if (copyToMultipleDates && selectedDays.size > 0) {
-        // Copy to recurring weekly pattern
-        const startDate = new Date(targetDate + 'T00:00:00'); // Use local time to avoid timezone issues
-        const dates: string[] = [];
-        
-        // Generate dates for selected days of week for specified number of weeks
-        selectedDays.forEach(dayOfWeek => {
-          // Get the day of week for the start date (0 = Sunday, 1 = Monday, etc.)
-          const startDayOfWeek = startDate.getDay();
-          
-          // Calculate days to add to get to the first occurrence of the target day
-          let daysToFirstOccurrence = dayOfWeek - startDayOfWeek;
-          
-          // If the target day has already passed this week (negative), go to next week
-          if (daysToFirstOccurrence < 0) {
-            daysToFirstOccurrence += 7;
-          }
-          // If daysToFirstOccurrence is 0, we're already on the target day
-          
-          // Generate dates for each week
-          for (let week = 0; week < numberOfWeeks; week++) {
-            // Create a fresh date for each calculation
-            const date = new Date(startDate);
-            
-            // Calculate total days to add: first occurrence + week offset
-            const totalDaysToAdd = daysToFirstOccurrence + (week * 7);
-            date.setDate(date.getDate() + totalDaysToAdd);
-            
-            // Format as YYYY-MM-DD (local date, not UTC)
-            const year = date.getFullYear();
-            const month = String(date.getMonth() + 1).padStart(2, '0');
-            const day = String(date.getDate()).padStart(2, '0');
-            dates.push(`${year}-${month}-${day}`);
-          }
+      // Multi-week schedules go through programs (Assign Program), which create all workouts at once
+      for (const workout of workoutsToCopy) {
+        await workoutsApi.create({
+          name: workout.name,
+          date: targetDate,
+          athleteId: targetAthlete.id,
+          blocks: workout.blocks,
         });
-
-        // Sort dates chronologically
-        dates.sort();
-
-        for (const workout of workoutsToCopy) {
-          for (const date of dates) {
-            await workoutsApi.create({
-              name: workout.name,
-              date: date,
-              athleteId: targetAthlete.id,
-              blocks: workout.blocks,
-            });
-          }
-        }
-      } else {
-        // Copy to single date
-        for (const workout of workoutsToCopy) {
-          await workoutsApi.create({
-            name: workout.name,
-            date: targetDate,
-            athleteId: targetAthlete.id,
-            blocks: workout.blocks,
-          });
-        }
       }
 
       // Reset selection
@@ -942,9 +1103,6 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
       setShowCopyModal(false);
       setTargetAthlete(null);
       setTargetDate(new Date().toISOString().split('T')[0]);
-      setCopyToMultipleDates(false);
-      setSelectedDays(new Set());
-      setNumberOfWeeks(4);
 
       // Reload workouts if copying to same athlete
       if (targetAthlete.id === athlete.id) {
@@ -1064,6 +1222,13 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
                 <CheckSquare className="w-4 h-4" />
                 <span className="hidden sm:inline">Select</span>
               </button>
+              <button
+                onClick={() => setShowAssignProgramModal(true)}
+                className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 active:bg-zinc-600 text-gray-300 px-4 py-2.5 rounded-lg transition-colors touch-manipulation min-h-[44px]"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                <span className="hidden sm:inline">Assign Program</span>
+              </button>
               <button
                 onClick={() => setShowWorkoutModal(true)}
                 className="flex items-center justify-center gap-2 bg-[#F56E0F] hover:bg-[#E05D00] active:bg-[#D04C00] text-white px-4 py-2.5 rounded-lg transition-colors touch-manipulation min-h-[44px] flex-1 sm:flex-initial"
@@ -1185,6 +1350,17 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
                       <p className="text-sm text-gray-400">
                         {workout.blocks.length} block{workout.blocks.length !== 1 ? 's' : ''} • {getTotalExerciseCount(workout)} exercise{getTotalExerciseCount(workout) !== 1 ? 's' : ''}
                       </p>
+                      {sessionsByWorkout.get(workout.id)?.sessionRpe !== undefined && (
+                        <p className="text-sm text-orange-400 flex items-center gap-1 mt-0.5">
+                          <Gauge className="w-3.5 h-3.5" />
+                          {formatSessionFeedback(sessionsByWorkout.get(workout.id)!)}
+                        </p>
+                      )}
+                      {sessionsByWorkout.get(workout.id)?.comment && (
+                        <p className="text-sm text-gray-500 italic mt-0.5">
+                          "{sessionsByWorkout.get(workout.id)!.comment}"
+                        </p>
+                      )}
                     </div>
                   </button>
                 )}
@@ -1247,6 +1423,11 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
                               setShowExerciseModal(true);
                             }}
                             onExerciseDragEnd={handleExerciseDragEnd}
+                            onToggleLink={(index) => handleToggleExerciseLink(workout.id, block.id, index)}
+                            onGroupChange={(groupId, changes) => handleUpdateExerciseGroup(workout.id, block.id, groupId, changes)}
+                            onRestChange={(restSeconds) => handleUpdateBlockRest(workout.id, block.id, restSeconds)}
+                            records={recordsByExercise}
+                            logs={logsByExercise}
                             activeExerciseId={activeExerciseId}
                             setActiveExerciseId={setActiveExerciseId}
                             isDraggingAny={isDraggingAny}
@@ -1448,28 +1629,31 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
           onConfirm={handleCopyWorkouts}
           onClose={() => {
             setShowCopyModal(false);
-          setTargetAthlete(null);
-          setTargetDate(new Date().toISOString().split('T')[0]);
-          setCopyToMultipleDates(false);
-          setSelectedDays(new Set());
-          setNumberOfWeeks(4);
+            setTargetAthlete(null);
+            setTargetDate(new Date().toISOString().split('T')[0]);
           }}
           targetAthlete={targetAthlete}
           setTargetAthlete={setTargetAthlete}
           targetDate={targetDate}
           setTargetDate={setTargetDate}
-          copyToMultipleDates={copyToMultipleDates}
-          setCopyToMultipleDates={setCopyToMultipleDates}
-          selectedDays={selectedDays}
-          setSelectedDays={setSelectedDays}
-          numberOfWeeks={numberOfWeeks}
-          setNumberOfWeeks={setNumberOfWeeks}
           allAthletes={allAthletes}
           athleteSearch={athleteSearch}
           setAthleteSearch={setAthleteSearch}
         />
       )}
 
+      {/* Assign Program Modal */}
+      {showAssignProgramModal && (
+        <AssignProgramModal
+          athlete={athlete}
+          onAssigned={async () => {
+            setShowAssignProgramModal(false);
+            await loadWorkouts();
+          }}
+          onClose={() => setShowAssignProgramModal(false)}
+        />
+      )}
+
       {/* Move Workout Modal */}
       {showMoveModal && (
         <CopyMoveModal
@@ -1485,12 +1669,6 @@ export function PlayerWorkoutEditor({ athlete, onBack }: PlayerWorkoutEditorProp
           setTargetAthlete={setTargetAthlete}
           targetDate={targetDate}
           setTargetDate={setTargetDate}
-          copyToMultipleDates={false}
-          setCopyToMultipleDates={() => {}}
-          selectedDays={new Set()}
-          setSelectedDays={() => {}}
-          numberOfWeeks={4}
-          setNumberOfWeeks={() => {}}
           allAthletes={allAthletes}
           athleteSearch={athleteSearch}
           setAthleteSearch={setAthleteSearch}
@@ -1661,29 +1839,50 @@ function AddExerciseModal({ onAdd, onEdit, editingExercise, onClose }: AddExerci
   const [formData, setFormData] = useState({
     name: editingExercise?.exercise.name || editingExercise?.exercise.exerciseName || '',
     sets: editingExercise?.exercise.sets || 3,
-    reps: editingExercise?.exercise.reps || '8-10',
-    weight: editingExercise?.exercise.weight || '',
     videoUrl: editingExercise?.exercise.videoUrl || '',
   });
+  const [restSeconds, setRestSeconds] = useState(
+    editingExercise?.exercise.restSeconds !== undefined ? `${editingExercise.exercise.restSeconds}` : ''
+  );
+  const [prescription, setPrescription] = useState<ExercisePrescription>(() => {
+    if (!editingExercise) return { kind: 'range', repsMin: 8, repsMax: 10 };
+    const { exercise } = editingExercise;
+    // Keep unparseable legacy text visible as a note rather than dropping it
+    return getPrescription({ ...exercise, weight: exercise.weight || undefined })
+      || { kind: 'reps', note: [exercise.reps, exercise.weight].filter(Boolean).join(' ') };
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const prescriptionFields = toPrescriptionFields(prescription);
+    const rest = parseInt(restSeconds);
     if (editingExercise) {
+      const { exercise } = editingExercise;
+      const originalName = exercise.name || exercise.exerciseName || '';
       onEdit(editingExercise.workoutId, editingExercise.blockId, {
-        id: editingExercise.exercise.id,
+        id: exercise.id,
+        // A different name means a different exercise; the server relinks it by name
+        exerciseId: formData.name === originalName ? exercise.exerciseId : undefined,
+        groupId: exercise.groupId,
         ...formData,
+        ...prescriptionFields,
+        restSeconds: isNaN(rest) ? undefined : rest,
+        weight: prescriptionFields.weight || '',
       });
     } else {
       onAdd({
         id: Date.now().toString(),
         ...formData,
+        ...prescriptionFields,
+        restSeconds: isNaN(rest) ? undefined : rest,
+        weight: prescriptionFields.weight || '',
       });
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
-      <div className="bg-[#1B1B1E] border border-[#262626] rounded-lg p-6 w-full max-w-md">
+      <div className="bg-[#1B1B1E] border border-[#262626] rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <h3 className="text-white text-xl mb-4">{editingExercise ? 'Edit Exercise' : 'Add Exercise'}</h3>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -1695,38 +1894,28 @@ function AddExerciseModal({ onAdd, onEdit, editingExercise, onClose }: AddExerci
               className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
             />
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-gray-400 mb-2">Sets</label>
-              <input
-                type="number"
-                value={formData.sets}
-                onChange={(e) => setFormData({ ...formData, sets: parseInt(e.target.value) })}
-                className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                required
-                min="1"
-              />
-            </div>
-            <div>
-              <label className="block text-gray-400 mb-2">Reps</label>
-              <input
-                type="text"
-                value={formData.reps}
-                onChange={(e) => setFormData({ ...formData, reps: e.target.value })}
-                className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                placeholder="e.g., 8-10"
-                required
-              />
-            </div>
+          <div>
+            <label className="block text-gray-400 mb-2">Sets</label>
+            <input
+              type="number"
+              value={formData.sets}
+              onChange={(e) => setFormData({ ...formData, sets: parseInt(e.target.value) })}
+              className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
+              required
+              min="1"
+            />
           </div>
+          <PrescriptionEditor value={prescription} onChange={setPrescription} />
           <div>
-            <label className="block text-gray-400 mb-2">Weight</label>
+            <label className="block text-gray-400 mb-2">Rest between sets (seconds, optional)</label>
             <input
-              type="text"
-              value={formData.weight}
-              onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+              type="number"
+              value={restSeconds}
+              onChange={(e) => setRestSeconds(e.target.value)}
               className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-              placeholder="e.g., 185 lbs"
+              min="0"
+              step="15"
+              placeholder="Uses the block's rest if empty"
             />
           </div>
           <div>
@@ -1769,12 +1958,6 @@ interface CopyMoveModalProps {
   setTargetAthlete: (athlete: AthleteType | null) => void;
   targetDate: string;
   setTargetDate: (date: string) => void;
-  copyToMultipleDates: boolean;
-  setCopyToMultipleDates: (value: boolean) => void;
-  selectedDays: Set<number>;
-  setSelectedDays: (days: Set<number>) => void;
-  numberOfWeeks: number;
-  setNumberOfWeeks: (weeks: number) => void;
   allAthletes: AthleteType[];
   athleteSearch: string;
   setAthleteSearch: (search: string) => void;
@@ -1789,35 +1972,10 @@ function CopyMoveModal({
   setTargetAthlete,
   targetDate,
   setTargetDate,
-  copyToMultipleDates,
-  setCopyToMultipleDates,
-  selectedDays,
-  setSelectedDays,
-  numberOfWeeks,
-  setNumberOfWeeks,
   allAthletes,
   athleteSearch,
   setAthleteSearch,
 }: CopyMoveModalProps) {
-  const weekDays = [
-    { value: 0, label: 'Sunday', short: 'Sun' },
-    { value: 1, label: 'Monday', short: 'Mon' },
-    { value: 2, label: 'Tuesday', short: 'Tue' },
-    { value: 3, label: 'Wednesday', short: 'Wed' },
-    { value: 4, label: 'Thursday', short: 'Thu' },
-    { value: 5, label: 'Friday', short: 'Fri' },
-    { value: 6, label: 'Saturday', short: 'Sat' },
-  ];
-
-  const toggleDay = (day: number) => {
-    const newDays = new Set(selectedDays);
-    if (newDays.has(day)) {
-      newDays.delete(day);
-    } else {
-      newDays.add(day);
-    }
-    setSelectedDays(newDays);
-  };
   const filteredAthletes = allAthletes.filter(
     athlete =>
       athlete.name.toLowerCase().includes(athleteSearch.toLowerCase()) ||
@@ -1897,93 +2055,18 @@ function CopyMoveModal({
           </div>
 
           {/* Select Target Date */}
-          {mode === 'copy' && (
-            <div>
-              <label className="flex items-center gap-2 text-gray-400 mb-2">
-                <input
-                  type="checkbox"
-                  checked={copyToMultipleDates}
-                  onChange={(e) => {
-                    setCopyToMultipleDates(e.target.checked);
-                    if (!e.target.checked) {
-                      setSelectedDays(new Set());
-                    }
-                  }}
-                  className="rounded border-zinc-700 bg-black text-[#F56E0F] focus:ring-[#F56E0F]"
-                />
-                Recurring weekly schedule
-              </label>
-            </div>
-          )}
-
-          {copyToMultipleDates && mode === 'copy' ? (
-            <div className="space-y-4">
-              <div>
-                <label className="block text-gray-400 mb-3">Select Days of Week</label>
-                <div className="grid grid-cols-7 gap-2">
-                  {weekDays.map((day) => (
-                    <button
-                      key={day.value}
-                      type="button"
-                      onClick={() => toggleDay(day.value)}
-                      className={`py-2 px-1 rounded-lg text-sm font-medium transition-all ${
-                        selectedDays.has(day.value)
-                          ? 'bg-[#F56E0F] text-white border-2 border-[#F56E0F]'
-                          : 'bg-black border-2 border-zinc-800 text-gray-400 hover:border-zinc-700'
-                      }`}
-                    >
-                      <div className="text-xs opacity-70">{day.short}</div>
-                    </button>
-                  ))}
-                </div>
-                {selectedDays.size === 0 && (
-                  <p className="text-xs text-gray-500 mt-2">Select at least one day</p>
-                )}
-              </div>
-              
-              <div>
-                <label className="block text-gray-400 mb-2">Start Date</label>
-                <input
-                  type="date"
-                  value={targetDate}
-                  onChange={(e) => setTargetDate(e.target.value)}
-                  className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                  style={{ colorScheme: 'dark' }}
-                />
-                <p className="text-xs text-gray-500 mt-1">Workouts will start from this date</p>
-              </div>
-
-              <div>
-                <label className="block text-gray-400 mb-2">Number of Weeks</label>
-                <input
-                  type="number"
-                  min="1"
-                  max="52"
-                  value={numberOfWeeks}
-                  onChange={(e) => setNumberOfWeeks(Math.max(1, Math.min(52, parseInt(e.target.value) || 1)))}
-                  className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  {selectedDays.size > 0 && numberOfWeeks > 0 && (
-                    <>Will create {selectedDays.size * numberOfWeeks} workout{selectedDays.size * numberOfWeeks !== 1 ? 's' : ''}</>
-                  )}
-                </p>
-              </div>
-            </div>
-          ) : (
-            <div>
-              <label className="block text-gray-400 mb-2">
-                {mode === 'copy' ? 'Copy to Date' : 'Move to Date'}
-              </label>
-              <input
-                type="date"
-                value={targetDate}
-                onChange={(e) => setTargetDate(e.target.value)}
-                className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                style={{ colorScheme: 'dark' }}
-              />
-            </div>
-          )}
+          <div>
+            <label className="block text-gray-400 mb-2">
+              {mode === 'copy' ? 'Copy to Date' : 'Move to Date'}
+            </label>
+            <input
+              type="date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+              className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
+              style={{ colorScheme: 'dark' }}
+            />
+          </div>
         </div>
 
         <div className="flex gap-3 mt-6">
@@ -1995,7 +2078,7 @@ function CopyMoveModal({
           </button>
           <button
             onClick={onConfirm}
-            disabled={!targetAthlete || (!copyToMultipleDates && !targetDate) || (copyToMultipleDates && (selectedDays.size === 0 || numberOfWeeks < 1))}
+            disabled={!targetAthlete || !targetDate}
             className="flex-1 bg-[#F56E0F] hover:bg-[#E05D00] disabled:bg-zinc-800 disabled:text-gray-600 disabled:cursor-not-allowed text-white py-2 rounded-lg transition-colors"
           >
             {mode === 'copy' ? 'Copy' : 'Move'} {selectedCount} Workout{selectedCount !== 1 ? 's' : ''}
@@ -0,0 +1,403 @@
+import { useState } from 'react';
+import { ExercisePrescription, PrescriptionKind, DistanceUnit, LoadUnit, ProgressionRule } from '../utils/api';
+
+interface PrescriptionEditorProps {
+  value: ExercisePrescription;
+  onChange: (value: ExercisePrescription) => void;
+}
+
+const KIND_OPTIONS: Array<{ kind: PrescriptionKind; label: string }> = [
+  { kind: 'reps', label: 'Reps' },
+  { kind: 'range', label: 'Range' },
+  { kind: 'scheme', label: 'Per set' },
+  { kind: 'amrap', label: 'AMRAP' },
+  { kind: 'time', label: 'Time' },
+  { kind: 'distance', label: 'Distance' },
+];
+
+const PROGRESSION_OPTIONS: Array<{ value: ProgressionRule['type'] | 'none'; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'load', label: '+Load' },
+  { value: 'reps', label: '+Reps' },
+  { value: 'wave', label: 'Wave' },
+];
+
+const DISTANCE_UNITS: DistanceUnit[] = ['m', 'yd', 'km', 'mi'];
+const LOAD_UNITS: LoadUnit[] = ['lb', 'kg'];
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Parse "5/3/1" (or "5, 3, 1") into numbers, ignoring incomplete entries
+function parseList(text: string): number[] {
+  return text
+    .split(/[/,]/)
+    .map((part) => parseFloat(part.trim()))
+    .filter((n) => !isNaN(n));
+}
+
+function parseOptionalNumber(text: string): number | undefined {
+  const parsed = parseFloat(text);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function ToggleGroup<T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: Array<{ value: T; label: string }>;
+  selected: T | undefined;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onSelect(option.value)}
+          className={`px-3 py-1 rounded-lg text-sm transition-colors border ${
+            selected === option.value
+              ? 'bg-[#F56E0F] border-[#F56E0F] text-white'
+              : 'bg-black border-zinc-800 text-gray-400 hover:border-zinc-600'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function PrescriptionEditor({ value, onChange }: PrescriptionEditorProps) {
+  // List inputs keep their raw text so partial entries like "5/" can be typed
+  const [schemeText, setSchemeText] = useState((value.scheme || []).join('/'));
+  const [loadText, setLoadText] = useState(
+    value.setLoads && value.setLoads.length > 0
+      ? value.setLoads.join('/')
+      : value.load !== undefined ? `${value.load}` : ''
+  );
+  const [waveText, setWaveText] = useState(
+    value.progression?.type === 'wave' ? value.progression.percents.join('/') : ''
+  );
+
+  const update = (changes: Partial<ExercisePrescription>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  // Starting values for a newly picked rule, based on the prescription as written
+  const defaultProgression = (type: ProgressionRule['type']): ProgressionRule => {
+    const increment = value.loadType === 'percent1RM' ? 2.5 : value.unit === 'kg' ? 2.5 : 5;
+    switch (type) {
+      case 'load':
+        return { type, increment };
+      case 'reps':
+        return { type, ceiling: (value.reps ?? value.repsMax ?? 8) + 2, increment };
+      case 'wave':
+        setWaveText(value.loadType === 'percent1RM' ? '70/75/80' : '90/95/100');
+        return value.loadType === 'percent1RM'
+          ? { type, percents: [70, 75, 80], increment }
+          : { type, percents: [90, 95, 100], increment };
+    }
+  };
+
+  const incrementUnit = value.loadType === 'percent1RM' ? '% 1RM' : value.unit || 'lb';
+
+  const handleLoadTextChange = (text: string) => {
+    setLoadText(text);
+    const loads = parseList(text);
+    if (text.includes('/') && loads.length > 1) {
+      update({ load: undefined, setLoads: loads });
+    } else {
+      update({ load: loads[0], setLoads: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-gray-400 mb-2">Prescription</label>
+        <ToggleGroup
+          options={KIND_OPTIONS.map((o) => ({ value: o.kind, label: o.label }))}
+          selected={value.kind}
+          onSelect={(kind) => update({ kind })}
+        />
+      </div>
+
+      {value.kind === 'reps' && (
+        <div>
+          <label className="block text-gray-400 mb-2">Reps</label>
+          <input
+            type="number"
+            min="1"
+            value={value.reps ?? ''}
+            onChange={(e) => update({ reps: parseOptionalNumber(e.target.value) })}
+            className={inputClass}
+            required
+          />
+        </div>
+      )}
+
+      {value.kind === 'range' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-gray-400 mb-2">Min reps</label>
+            <input
+              type="number"
+              min="1"
+              value={value.repsMin ?? ''}
+              onChange={(e) => update({ repsMin: parseOptionalNumber(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 mb-2">Max reps</label>
+            <input
+              type="number"
+              min={value.repsMin ?? 1}
+              value={value.repsMax ?? ''}
+              onChange={(e) => update({ repsMax: parseOptionalNumber(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+      )}
+
+      {value.kind === 'scheme' && (
+        <div>
+          <label className="block text-gray-400 mb-2">Reps per set</label>
+          <input
+            type="text"
+            value={schemeText}
+            onChange={(e) => {
+              setSchemeText(e.target.value);
+              update({ scheme: parseList(e.target.value).map(Math.round) });
+            }}
+            className={inputClass}
+            placeholder="e.g., 5/3/1 or 12/10/8/6"
+            required
+          />
+        </div>
+      )}
+
+      {value.kind === 'time' && (
+        <div>
+          <label className="block text-gray-400 mb-2">Hold (seconds)</label>
+          <input
+            type="number"
+            min="1"
+            value={value.seconds ?? ''}
+            onChange={(e) => update({ seconds: parseOptionalNumber(e.target.value) })}
+            className={inputClass}
+            required
+          />
+        </div>
+      )}
+
+      {value.kind === 'distance' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-gray-400 mb-2">Distance</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={value.distance ?? ''}
+              onChange={(e) => update({ distance: parseOptionalNumber(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 mb-2">Unit</label>
+            <ToggleGroup
+              options={DISTANCE_UNITS.map((u) => ({ value: u, label: u }))}
+              selected={value.distanceUnit || 'm'}
+              onSelect={(distanceUnit) => update({ distanceUnit })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-gray-400 mb-2">Load</label>
+        <ToggleGroup
+          options={[
+            { value: 'none', label: 'None' },
+            { value: 'weight', label: 'Weight' },
+            { value: 'percent1RM', label: '% 1RM' },
+          ]}
+          selected={value.loadType || 'none'}
+          onSelect={(loadType) =>
+            update(loadType === 'none'
+              ? { loadType: undefined, load: undefined, setLoads: undefined }
+              : { loadType })
+          }
+        />
+        {value.loadType && (
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <input
+              type="text"
+              value={loadText}
+              onChange={(e) => handleLoadTextChange(e.target.value)}
+              className={inputClass}
+              placeholder={value.loadType === 'percent1RM' ? 'e.g., 75 or 65/75/85' : 'e.g., 185 or 135/155/175'}
+            />
+            {value.loadType === 'weight' ? (
+              <ToggleGroup
+                options={LOAD_UNITS.map((u) => ({ value: u, label: u }))}
+                selected={value.unit || 'lb'}
+                onSelect={(unit) => update({ unit })}
+              />
+            ) : (
+              <span className="self-center text-gray-500 text-sm">% of 1RM</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-gray-400 mb-2">RPE</label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            step="0.5"
+            value={value.rpe ?? ''}
+            onChange={(e) => update({ rpe: parseOptionalNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-400 mb-2">RIR</label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            value={value.rir ?? ''}
+            onChange={(e) => update({ rir: parseOptionalNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-400 mb-2">Tempo</label>
+          <input
+            type="text"
+            value={value.tempo || ''}
+            onChange={(e) => update({ tempo: e.target.value.trim() || undefined })}
+            className={inputClass}
+            placeholder="3-1-1-0"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-gray-400 mb-2">Weekly progression</label>
+        <ToggleGroup
+          options={PROGRESSION_OPTIONS}
+          selected={value.progression?.type || 'none'}
+          onSelect={(type) => update({ progression: type === 'none' ? undefined : defaultProgression(type) })}
+        />
+        {value.progression?.type === 'load' && (
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Add each week ({incrementUnit})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={value.progression.increment}
+                onChange={(e) => update({ progression: { type: 'load', increment: parseOptionalNumber(e.target.value) ?? 0 } })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+        {value.progression?.type === 'reps' && (
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">+1 rep a week up to</label>
+              <input
+                type="number"
+                min="1"
+                value={value.progression.ceiling}
+                onChange={(e) =>
+                  update({ progression: { ...value.progression as Extract<ProgressionRule, { type: 'reps' }>, ceiling: parseOptionalNumber(e.target.value) ?? 0 } })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Then add ({incrementUnit})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={value.progression.increment}
+                onChange={(e) =>
+                  update({ progression: { ...value.progression as Extract<ProgressionRule, { type: 'reps' }>, increment: parseOptionalNumber(e.target.value) ?? 0 } })
+                }
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+        {value.progression?.type === 'wave' && (
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">
+                {value.loadType === 'percent1RM' ? 'Top set % 1RM by week' : '% of load by week'}
+              </label>
+              <input
+                type="text"
+                value={waveText}
+                onChange={(e) => {
+                  setWaveText(e.target.value);
+                  update({ progression: { ...value.progression as Extract<ProgressionRule, { type: 'wave' }>, percents: parseList(e.target.value) } });
+                }}
+                className={inputClass}
+                placeholder="e.g., 70/75/80"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Add after each wave ({incrementUnit})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={value.progression.increment ?? ''}
+                onChange={(e) =>
+                  update({ progression: { ...value.progression as Extract<ProgressionRule, { type: 'wave' }>, increment: parseOptionalNumber(e.target.value) } })
+                }
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+        {value.progression && (
+          <p className="text-xs text-gray-500 mt-2">
+            {value.progression.type !== 'reps' && !value.loadType
+              ? 'Set a load above for this rule to change anything. '
+              : ''}
+            Applied week by week when this workout is scheduled through a program.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-gray-400 mb-2">Notes (optional)</label>
+        <input
+          type="text"
+          value={value.note || ''}
+          onChange={(e) => update({ note: e.target.value || undefined })}
+          className={inputClass}
+          placeholder="e.g., each side, bodyweight"
+        />
+      </div>
+    </div>
+  );
+}
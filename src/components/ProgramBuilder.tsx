@@ -0,0 +1,466 @@
+import { useState, useEffect } from 'react';
+import { Plus, Layers, Pencil, Trash2, CalendarPlus, Copy, X } from 'lucide-react';
+import { programsApi, workoutsApi, Program, ProgramDay, Workout, DeloadRule } from '../utils/api';
+import { isDeloadWeek } from '../utils/progression';
+import { AssignProgramModal } from './AssignProgramModal';
+
+interface ProgramDraft {
+  id?: string;
+  name: string;
+  description: string;
+  weeks: number;
+  daysPerWeek: number;
+  deload?: DeloadRule;
+  days: Record<string, string>; // "week-day" -> template workout ID
+}
+
+const MAX_WEEKS = 52;
+
+const DEFAULT_DELOAD: DeloadRule = { every: 4, loadPercent: 60, setsPercent: 50 };
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+function dayKey(week: number, day: number): string {
+  return `${week}-${day}`;
+}
+
+function toDraft(program?: Program): ProgramDraft {
+  if (!program) {
+    return { name: '', description: '', weeks: 4, daysPerWeek: 3, days: {} };
+  }
+  const days: Record<string, string> = {};
+  program.days.forEach((d) => {
+    days[dayKey(d.week, d.day)] = d.workoutId;
+  });
+  return {
+    id: program.id,
+    name: program.name,
+    description: program.description || '',
+    weeks: program.weeks,
+    daysPerWeek: program.daysPerWeek,
+    deload: program.deload,
+    days,
+  };
+}
+
+function fromDraft(draft: ProgramDraft): Omit<Program, 'id' | 'createdAt' | 'updatedAt'> {
+  const days: ProgramDay[] = [];
+  for (let week = 1; week <= draft.weeks; week++) {
+    for (let day = 1; day <= draft.daysPerWeek; day++) {
+      const workoutId = draft.days[dayKey(week, day)];
+      if (workoutId) days.push({ week, day, workoutId });
+    }
+  }
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    weeks: draft.weeks,
+    daysPerWeek: draft.daysPerWeek,
+    deload: draft.deload,
+    days,
+  };
+}
+
+export function ProgramBuilder() {
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [templates, setTemplates] = useState<Workout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProgramDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [assigningProgram, setAssigningProgram] = useState<Program | null>(null);
+  const [assignedMessage, setAssignedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [programData, templateData] = await Promise.all([
+        programsApi.getAll(),
+        workoutsApi.getAll({ templatesOnly: true }),
+      ]);
+      setPrograms(programData);
+      setTemplates(templateData);
+    } catch (err: any) {
+      console.error('Failed to load programs:', err);
+      setError(err.message || 'Failed to load programs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const templateName = (workoutId: string) =>
+    templates.find((t) => t.id === workoutId)?.name || 'Missing template';
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    try {
+      setIsSaving(true);
+      const program = fromDraft(draft);
+      if (draft.id) {
+        const updated = await programsApi.update(draft.id, program);
+        setPrograms(programs.map((p) => (p.id === updated.id ? updated : p)));
+      } else {
+        const created = await programsApi.create(program);
+        setPrograms([created, ...programs]);
+      }
+      setDraft(null);
+    } catch (err: any) {
+      console.error('Failed to save program:', err);
+      alert(err.message || 'Failed to save program. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (program: Program) => {
+    if (!confirm(`Delete "${program.name}"? Workouts already assigned from it are kept.`)) return;
+    try {
+      await programsApi.delete(program.id);
+      setPrograms(programs.filter((p) => p.id !== program.id));
+    } catch (err: any) {
+      console.error('Failed to delete program:', err);
+      alert(err.message || 'Failed to delete program. Please try again.');
+    }
+  };
+
+  // Fill every later week with week 1's templates
+  const copyFirstWeek = () => {
+    if (!draft) return;
+    const days = { ...draft.days };
+    for (let week = 2; week <= draft.weeks; week++) {
+      for (let day = 1; day <= draft.daysPerWeek; day++) {
+        const workoutId = draft.days[dayKey(1, day)];
+        if (workoutId) {
+          days[dayKey(week, day)] = workoutId;
+        } else {
+          delete days[dayKey(week, day)];
+        }
+      }
+    }
+    setDraft({ ...draft, days });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-white">Loading programs...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-500/10 border border-red-500 rounded-lg p-6">
+        <p className="text-red-400 mb-4">{error}</p>
+        <button
+          onClick={loadData}
+          className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (draft) {
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h2 className="text-white text-3xl mb-2">{draft.id ? 'Edit Program' : 'New Program'}</h2>
+            <p className="text-gray-400">Pick a template workout for each training day</p>
+          </div>
+          <button onClick={() => setDraft(null)} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="bg-[#1B1B1E] border border-zinc-800 rounded-2xl p-6 space-y-4 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-gray-400 mb-2">Program Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Off-season Strength"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-gray-400 mb-2">Weeks</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_WEEKS}
+                  value={draft.weeks}
+                  onChange={(e) =>
+                    setDraft({ ...draft, weeks: Math.max(1, Math.min(MAX_WEEKS, parseInt(e.target.value) || 1)) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-400 mb-2">Days / week</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="7"
+                  value={draft.daysPerWeek}
+                  onChange={(e) =>
+                    setDraft({ ...draft, daysPerWeek: Math.max(1, Math.min(7, parseInt(e.target.value) || 1)) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-400 mb-2">Description (optional)</label>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-gray-400 mb-2">
+              <input
+                type="checkbox"
+                checked={!!draft.deload}
+                onChange={(e) => setDraft({ ...draft, deload: e.target.checked ? DEFAULT_DELOAD : undefined })}
+                className="accent-[#F56E0F]"
+              />
+              Deload weeks
+            </label>
+            {draft.deload && (
+              <div className="grid grid-cols-3 gap-4">
+                {([
+                  { field: 'every', label: 'Every N weeks', min: 2, max: MAX_WEEKS },
+                  { field: 'loadPercent', label: 'Load %', min: 1, max: 100 },
+                  { field: 'setsPercent', label: 'Sets %', min: 1, max: 100 },
+                ] as const).map(({ field, label, min, max }) => (
+                  <div key={field}>
+                    <span className="block text-xs text-gray-500 mb-1">{label}</span>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={draft.deload![field]}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          deload: { ...draft.deload!, [field]: Math.max(min, Math.min(max, parseInt(e.target.value) || min)) },
+                        })
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {templates.length === 0 && (
+          <p className="text-gray-500 text-sm mb-4">
+            No template workouts yet. Create templates in the Workouts tab first.
+          </p>
+        )}
+
+        <div className="bg-[#1B1B1E] border border-zinc-800 rounded-2xl p-6 mb-6 overflow-x-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-white text-lg">Schedule</h3>
+            {draft.weeks > 1 && (
+              <button
+                type="button"
+                onClick={copyFirstWeek}
+                className="flex items-center gap-2 text-sm text-gray-400 hover:text-[#F56E0F] transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                Copy week 1 to all weeks
+              </button>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left text-gray-500 font-normal pb-2 pr-3">Week</th>
+                {Array.from({ length: draft.daysPerWeek }, (_, i) => (
+                  <th key={i} className="text-left text-gray-500 font-normal pb-2 pr-3">Day {i + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: draft.weeks }, (_, weekIndex) => (
+                <tr key={weekIndex}>
+                  <td className="text-white py-1 pr-3 whitespace-nowrap">
+                    {weekIndex + 1}
+                    {isDeloadWeek(weekIndex + 1, draft.deload) && (
+                      <span className="ml-2 text-xs text-[#F56E0F]">Deload</span>
+                    )}
+                  </td>
+                  {Array.from({ length: draft.daysPerWeek }, (_, dayIndex) => {
+                    const key = dayKey(weekIndex + 1, dayIndex + 1);
+                    return (
+                      <td key={dayIndex} className="py-1 pr-3 min-w-[160px]">
+                        <select
+                          value={draft.days[key] || ''}
+                          onChange={(e) => {
+                            const days = { ...draft.days };
+                            if (e.target.value) {
+                              days[key] = e.target.value;
+                            } else {
+                              delete days[key];
+                            }
+                            setDraft({ ...draft, days });
+                          }}
+                          className="w-full bg-black border border-zinc-800 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-[#F56E0F]"
+                        >
+                          <option value="">Rest</option>
+                          {templates.map((template) => (
+                            <option key={template.id} value={template.id}>{template.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-white py-2 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim() || isSaving}
+            className="flex-1 bg-[#F56E0F] hover:bg-[#E05D00] disabled:bg-zinc-800 disabled:text-gray-600 disabled:cursor-not-allowed text-white py-2 rounded-lg transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save Program'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-white text-3xl mb-2">Programs</h2>
+          <p className="text-gray-400">Build multi-week programs from template workouts and assign them</p>
+        </div>
+        <button
+          onClick={() => setDraft(toDraft())}
+          className="flex items-center gap-2 bg-[#F56E0F] hover:bg-[#E05D00] text-white px-6 py-3 rounded-xl transition-all shadow-lg shadow-[#F56E0F]/20"
+        >
+          <Plus className="w-5 h-5" />
+          Program
+        </button>
+      </div>
+
+      {assignedMessage && (
+        <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg p-3 mb-4 flex items-center justify-between">
+          <p className="text-emerald-400 text-sm">{assignedMessage}</p>
+          <button onClick={() => setAssignedMessage(null)} className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {programs.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">No programs yet</div>
+      ) : (
+        <div className="space-y-4">
+          {programs.map((program) => (
+            <div
+              key={program.id}
+              className="bg-[#1B1B1E] border border-zinc-800 rounded-2xl p-6 transition-all hover:border-[#F56E0F]/30"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  <div className="w-12 h-12 bg-gradient-to-br from-[#F56E0F] to-orange-600 rounded-xl flex items-center justify-center flex-shrink-0">
+                    <Layers className="w-6 h-6 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-white text-xl mb-1 truncate">{program.name}</h3>
+                    <p className="text-xs text-gray-400">
+                      {program.weeks} week{program.weeks !== 1 ? 's' : ''} × {program.daysPerWeek} day{program.daysPerWeek !== 1 ? 's' : ''}
+                      {' · '}
+                      {program.days.length} workout{program.days.length !== 1 ? 's' : ''}
+                      {program.deload ? ` · deload every ${program.deload.every} weeks` : ''}
+                      {program.description ? ` · ${program.description}` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => setAssigningProgram(program)}
+                    className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-gray-300 px-3 py-2 rounded-lg transition-colors text-sm"
+                  >
+                    <CalendarPlus className="w-4 h-4" />
+                    <span className="hidden sm:inline">Assign</span>
+                  </button>
+                  <button
+                    onClick={() => setDraft(toDraft(program))}
+                    className="text-gray-400 hover:text-[#F56E0F] transition-colors p-2"
+                    title="Edit program"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(program)}
+                    className="text-gray-400 hover:text-red-400 transition-colors p-2"
+                    title="Delete program"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {program.days.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {program.days
+                    .filter((d) => d.week === 1)
+                    .map((d) => (
+                      <span key={d.day} className="text-xs bg-black border border-zinc-800 rounded-full px-3 py-1 text-gray-400">
+                        Day {d.day}: {templateName(d.workoutId)}
+                      </span>
+                    ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {assigningProgram && (
+        <AssignProgramModal
+          program={assigningProgram}
+          onAssigned={(assignment) => {
+            setAssigningProgram(null);
+            setAssignedMessage(
+              `Assigned "${assigningProgram.name}": ${assignment.workoutIds.length} workout${assignment.workoutIds.length !== 1 ? 's' : ''} created`
+            );
+          }}
+          onClose={() => setAssigningProgram(null)}
+        />
+      )}
+    </div>
+  );
+}
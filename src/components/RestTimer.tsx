@@ -0,0 +1,60 @@
+import { Timer, X } from 'lucide-react';
+import { useRestTimer, adjustRestTimer, stopRestTimer } from '../utils/restTimer';
+
+function formatRemaining(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+interface RestTimerProps {
+  // Sit above a fixed bottom navigation bar
+  raised?: boolean;
+}
+
+// Floating rest countdown; rendered on workout pages so it stays visible across navigation
+export function RestTimer({ raised = false }: RestTimerProps) {
+  const { timer, remainingSeconds } = useRestTimer();
+
+  if (!timer) return null;
+
+  const progress = timer.duration > 0 ? (remainingSeconds / timer.duration) * 100 : 0;
+
+  return (
+    <div className={`fixed ${raised ? 'bottom-24' : 'bottom-4'} left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md`}>
+      <div className="bg-[#1B1B1E] border border-[#F56E0F]/50 rounded-xl shadow-lg shadow-black/50 overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-3">
+          <Timer className="w-5 h-5 text-[#F56E0F] flex-shrink-0" />
+          <div className="flex-1">
+            <p className="text-xs text-gray-400 uppercase tracking-wider">Rest</p>
+            <p className="text-white text-2xl tabular-nums">{formatRemaining(remainingSeconds)}</p>
+          </div>
+          <button
+            onClick={() => adjustRestTimer(-15)}
+            className="px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-gray-300 text-sm transition-colors"
+          >
+            -15s
+          </button>
+          <button
+            onClick={() => adjustRestTimer(15)}
+            className="px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-gray-300 text-sm transition-colors"
+          >
+            +15s
+          </button>
+          <button
+            onClick={stopRestTimer}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title="Skip rest"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="h-1 bg-zinc-800">
+          <div
+            className="h-full bg-gradient-to-r from-[#F56E0F] to-orange-500 transition-all duration-300"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { workoutsApi } from '../utils/api';
+import { SESSION_RPE_SCALE, getSessionDurationMinutes, getSessionRpeLabel } from '../utils/sessionFeedback';
+
+interface SessionFeedbackSheetProps {
+  workoutId: string;
+  athleteId: string;
+  // Called after the feedback is saved or skipped
+  onDone: () => void;
+}
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Completion sheet: how hard the session was (CR-10), how long it took and anything for the coach
+export function SessionFeedbackSheet({ workoutId, athleteId, onDone }: SessionFeedbackSheetProps) {
+  const [sessionRpe, setSessionRpe] = useState<number | null>(null);
+  const [durationText, setDurationText] = useState(() => {
+    const timed = getSessionDurationMinutes(workoutId);
+    return timed !== undefined ? String(timed) : '';
+  });
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const durationMinutes = durationText.trim() ? parseInt(durationText) : undefined;
+  const durationValid = durationMinutes === undefined || (durationMinutes >= 1 && durationMinutes <= 600);
+
+  const handleSave = async () => {
+    if (sessionRpe === null || !durationValid) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      await workoutsApi.saveSessionFeedback(workoutId, athleteId, {
+        sessionRpe,
+        durationMinutes,
+        comment: comment.trim() || undefined,
+      });
+      onDone();
+    } catch (err: any) {
+      console.error('Error saving session feedback:', err);
+      setError(err.message || 'Failed to save session feedback');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#1B1B1E] border border-zinc-800 rounded-xl p-5 w-full max-w-md text-left space-y-4">
+      <div>
+        <p className="text-white mb-2">How hard was this session?</p>
+        <div className="grid grid-cols-6 gap-2">
+          {SESSION_RPE_SCALE.map((point) => (
+            <button
+              key={point.value}
+              onClick={() => setSessionRpe(point.value)}
+              className={`py-2 rounded-lg text-sm transition-colors ${
+                sessionRpe === point.value
+                  ? 'bg-[#F56E0F] text-white'
+                  : 'bg-zinc-900 text-gray-300 hover:bg-zinc-800'
+              }`}
+            >
+              {point.value}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-400 mt-2 h-5">
+          {sessionRpe !== null ? getSessionRpeLabel(sessionRpe) : '0 = rest, 10 = maximal'}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Duration (minutes)</label>
+        <input
+          type="number"
+          min="1"
+          max="600"
+          value={durationText}
+          onChange={(e) => setDurationText(e.target.value)}
+          className={inputClass}
+          placeholder="e.g. 60"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Comment for your coach</label>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          className={`${inputClass} resize-none`}
+          rows={3}
+          maxLength={2000}
+          placeholder="How did it feel? Anything sore?"
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={onDone}
+          className="flex-1 py-3 rounded-lg bg-zinc-900 text-gray-300 hover:bg-zinc-800 transition-colors"
+        >
+          Skip
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={sessionRpe === null || !durationValid || isSaving}
+          className="flex-1 py-3 rounded-lg bg-[#F56E0F] hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { authApi } from '../utils/api';
+import { setAuthToken } from '../utils/auth';
+
+interface SetPasswordModalProps {
+  email: string;
+  // Changing an existing password asks for the current one
+  hasPassword: boolean;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// An athlete sets (or changes) their password, so they can sign in with their email without a login link
+export function SetPasswordModal({ email, hasPassword, onSaved, onClose }: SetPasswordModalProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const session = await authApi.setPassword({ currentPassword: hasPassword ? currentPassword : undefined, newPassword });
+      setAuthToken(session.token);
+      onSaved();
+    } catch (err: any) {
+      console.error('Failed to save password:', err);
+      setError(err.message || 'Failed to save password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white text-xl">{hasPassword ? 'Change Password' : 'Set a Password'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Sign in with <span className="text-white">{email}</span> and this password on any device.
+        </p>
+
+        <form onSubmit={handleSave} className="space-y-3">
+          {hasPassword && (
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClass}
+              placeholder="Current password"
+              autoComplete="current-password"
+              required
+            />
+          )}
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className={inputClass}
+            placeholder={`New password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Confirm new password"
+            autoComplete="new-password"
+            required
+          />
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <div className="flex gap-3 pt-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-2 rounded-lg bg-zinc-800 text-gray-300 hover:bg-zinc-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 py-2 rounded-lg bg-[#F56E0F] hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
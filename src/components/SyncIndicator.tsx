@@ -0,0 +1,28 @@
+import { CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { useSyncStatus, flushQueue } from '../utils/syncQueue';
+
+// Floating pill shown while logged sets/notes are waiting to sync or the app is offline; tapping it
+// retries the sync right away. Hidden when everything is up to date.
+export function SyncIndicator() {
+  const { online, pending, syncing } = useSyncStatus();
+
+  if (online && pending === 0) return null;
+
+  const Icon = syncing ? RefreshCw : online ? CloudUpload : CloudOff;
+  const label = syncing
+    ? 'Syncing...'
+    : pending > 0
+      ? `${pending} unsynced`
+      : 'Offline';
+
+  return (
+    <button
+      onClick={() => flushQueue()}
+      className="fixed top-4 right-4 z-40 flex items-center gap-2 px-3 py-1.5 rounded-full bg-[#1B1B1E] border border-[#F56E0F]/50 text-sm text-gray-300 shadow-lg shadow-black/50"
+      title={online ? 'Sync now' : 'Changes will sync when you reconnect'}
+    >
+      <Icon className={`w-4 h-4 text-[#F56E0F] ${syncing ? 'animate-spin' : ''}`} />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { X, ArrowLeft, ChevronRight, MessageSquare } from 'lucide-react';
+import {
+  athletesApi,
+  teamsApi,
+  workoutsApi,
+  AthleteCompliance,
+  ExerciseCompletionStatus,
+  TeamCompliance,
+  Workout,
+  WorkoutCompliance,
+} from '../utils/api';
+import { formatLoggedSet } from '../utils/effort';
+
+interface TeamComplianceModalProps {
+  team: { id: string; name: string };
+  onClose: () => void;
+}
+
+// Format date as YYYY-MM-DD in local timezone
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatPercent(value: number | undefined): string {
+  return value === undefined ? '—' : `${value}%`;
+}
+
+// Green from 90%, yellow from 70%, red below
+function getPercentColor(value: number | undefined): string {
+  if (value === undefined) return 'text-gray-500';
+  if (value >= 90) return 'text-green-400';
+  if (value >= 70) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+const STATUS_STYLES: Record<WorkoutCompliance['status'], { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'text-green-400' },
+  partial: { label: 'Partial', className: 'text-yellow-400' },
+  missed: { label: 'Missed', className: 'text-red-400' },
+  upcoming: { label: 'Upcoming', className: 'text-gray-500' },
+};
+
+const inputClass =
+  'bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Coach view of a team's compliance over a date range: completed workouts, completed sets and
+// missed sessions per athlete, drilling down to an athlete's workouts and what they logged.
+export function TeamComplianceModal({ team, onClose }: TeamComplianceModalProps) {
+  const [from, setFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - 27);
+    return formatLocalDate(start);
+  });
+  const [to, setTo] = useState(formatLocalDate(new Date()));
+  const [compliance, setCompliance] = useState<TeamCompliance | null>(null);
+  const [athlete, setAthlete] = useState<{ id: string; name: string } | null>(null);
+  const [athleteCompliance, setAthleteCompliance] = useState<AthleteCompliance | null>(null);
+  const [workout, setWorkout] = useState<Workout | null>(null);
+  const [workoutLog, setWorkoutLog] = useState<Record<string, ExerciseCompletionStatus>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCompliance = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setCompliance(await teamsApi.getCompliance(team.id, from, to));
+      } catch (err) {
+        console.error('Failed to load team compliance:', err);
+        setError('Failed to load compliance');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCompliance();
+  }, [team.id, from, to]);
+
+  useEffect(() => {
+    if (!athlete) return;
+    const loadAthleteCompliance = async () => {
+      try {
+        setAthleteCompliance(null);
+        setError(null);
+        setAthleteCompliance(await athletesApi.getCompliance(athlete.id, from, to));
+      } catch (err) {
+        console.error('Failed to load athlete compliance:', err);
+        setError('Failed to load workouts');
+      }
+    };
+    loadAthleteCompliance();
+  }, [athlete, from, to]);
+
+  const openWorkout = async (workoutId: string) => {
+    if (!athlete) return;
+    try {
+      setError(null);
+      const [data, log] = await Promise.all([
+        workoutsApi.getById(workoutId),
+        workoutsApi.getCompletionStatus(workoutId, athlete.id),
+      ]);
+      setWorkout(data);
+      setWorkoutLog(log);
+    } catch (err) {
+      console.error('Failed to load workout:', err);
+      setError('Failed to load workout');
+    }
+  };
+
+  const goBack = () => {
+    if (workout) {
+      setWorkout(null);
+      setWorkoutLog({});
+    } else {
+      setAthlete(null);
+      setAthleteCompliance(null);
+    }
+  };
+
+  // Lowest workout compliance first, so athletes falling behind are at the top
+  const rows = compliance
+    ? [...compliance.athletes].sort((a, b) => (a.workoutCompliance ?? 101) - (b.workoutCompliance ?? 101))
+    : [];
+
+  const title = workout
+    ? `${athlete?.name} · ${workout.name}`
+    : athlete
+      ? `${athlete.name} · Compliance`
+      : `${team.name} · Compliance`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3 min-w-0">
+            {athlete && (
+              <button onClick={goBack} className="text-gray-400 hover:text-white transition-colors" title="Back">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            )}
+            <h3 className="text-white text-xl truncate">{title}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!workout && (
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+              className={inputClass}
+              style={{ colorScheme: 'dark' }}
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+              className={inputClass}
+              style={{ colorScheme: 'dark' }}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {workout ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400">{workout.date}</p>
+            {workout.blocks.map((block) => (
+              <div key={block.id}>
+                <h4 className="text-white mb-2">{block.name}</h4>
+                <div className="space-y-2">
+                  {block.exercises.map((exercise) => {
+                    const log = workoutLog[exercise.id];
+                    return (
+                      <div key={exercise.id} className="bg-black border border-zinc-800 rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-3">
+                          <p className="text-white text-sm">{exercise.exerciseName}</p>
+                          <span className="text-xs text-gray-400 whitespace-nowrap">
+                            {log ? log.completedSets : 0}/{exercise.sets} sets
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {exercise.sets} x {exercise.reps}{exercise.weight ? ` @ ${exercise.weight}` : ''}
+                        </p>
+                        {log?.sets && log.sets.length > 0 ? (
+                          <p className="mt-1 text-xs text-gray-400">
+                            Logged: <span className="text-white">{log.sets.map(formatLoggedSet).join(', ')}</span>
+                          </p>
+                        ) : (
+                          <p className="mt-1 text-xs text-gray-500">Nothing logged</p>
+                        )}
+                        {log?.notes && (
+                          <div className="mt-1 flex items-start gap-1 text-xs text-gray-300">
+                            <MessageSquare className="w-3 h-3 mt-0.5 text-gray-500 flex-shrink-0" />
+                            <span className="italic whitespace-pre-wrap">{log.notes}</span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : athlete ? (
+          !athleteCompliance ? (
+            <p className="text-gray-400 text-sm">Loading workouts...</p>
+          ) : athleteCompliance.workouts.length === 0 ? (
+            <p className="text-gray-500 text-sm">No workouts assigned in this range.</p>
+          ) : (
+            <div className="space-y-2">
+              {athleteCompliance.workouts.map((w) => (
+                <button
+                  key={w.workoutId}
+                  onClick={() => openWorkout(w.workoutId)}
+                  className="w-full flex items-center justify-between gap-3 bg-black border border-zinc-800 hover:border-zinc-700 rounded-lg p-3 text-left transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">{w.workoutName}</p>
+                    <p className="text-xs text-gray-500">{w.date}</p>
+                  </div>
+                  <div className="flex items-center gap-4 flex-shrink-0 text-sm">
+                    <span className="text-gray-400">{w.completedSets}/{w.prescribedSets} sets</span>
+                    <span className={STATUS_STYLES[w.status].className}>{STATUS_STYLES[w.status].label}</span>
+                    <ChevronRight className="w-4 h-4 text-gray-500" />
+                  </div>
+                </button>
+              ))}
+            </div>
+          )
+        ) : loading ? (
+          <p className="text-gray-400 text-sm">Loading compliance...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-gray-500 text-sm">No athletes in this team yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-zinc-800">
+                  <th className="py-2 pr-4 font-normal">Athlete</th>
+                  <th className="py-2 pr-4 font-normal">Workouts</th>
+                  <th className="py-2 pr-4 font-normal">Sets</th>
+                  <th className="py-2 pr-4 font-normal">Missed</th>
+                  <th className="py-2 pr-4 font-normal">Partial</th>
+                  <th className="py-2 pr-4 font-normal">Upcoming</th>
+                  <th className="py-2 font-normal"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.athleteId}
+                    onClick={() => setAthlete({ id: row.athleteId, name: row.athleteName })}
+                    className="border-b border-zinc-800/50 cursor-pointer hover:bg-zinc-800/40 transition-colors"
+                  >
+                    <td className="py-2 pr-4 text-white whitespace-nowrap">{row.athleteName}</td>
+                    <td className={`py-2 pr-4 whitespace-nowrap ${getPercentColor(row.workoutCompliance)}`}>
+                      {formatPercent(row.workoutCompliance)}
+                      <span className="text-gray-500"> ({row.completed}/{row.due})</span>
+                    </td>
+                    <td className={`py-2 pr-4 whitespace-nowrap ${getPercentColor(row.setCompliance)}`}>
+                      {formatPercent(row.setCompliance)}
+                      <span className="text-gray-500"> ({row.completedSets}/{row.prescribedSets})</span>
+                    </td>
+                    <td className={`py-2 pr-4 ${row.missed > 0 ? 'text-red-400' : 'text-gray-300'}`}>{row.missed}</td>
+                    <td className="py-2 pr-4 text-gray-300">{row.partial}</td>
+                    <td className="py-2 pr-4 text-gray-500">{row.assigned - row.due}</td>
+                    <td className="py-2 text-gray-500">
+                      <ChevronRight className="w-4 h-4" />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Plus, Users, Calendar, Trash2, ChevronRight, UserPlus, Search, X, Dumbbell } from 'lucide-react';
-import { teamsApi, athletesApi, workoutsApi, Team, Athlete, Workout } from '../utils/api';
+import { Plus, Users, Calendar, Trash2, ChevronRight, UserPlus, Search, X, Dumbbell, HeartPulse, ClipboardCheck, Link2, Link2Off } from 'lucide-react';
+import { teamsApi, athletesApi, workoutsApi, Team, Athlete, Workout, ExercisePrescription } from '../utils/api';
+import { parsePrescription } from '../utils/prescription';
 import { ExerciseAutocomplete } from './ExerciseAutocomplete';
 import { WorkoutTemplateAutocomplete } from './WorkoutTemplateAutocomplete';
+import { TeamWellnessModal } from './TeamWellnessModal';
+import { TeamComplianceModal } from './TeamComplianceModal';
 
 interface Athlete {
   id: string;
@@ -30,6 +33,7 @@ interface WorkoutExercise {
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
 }
 
 interface Team {
@@ -39,6 +43,7 @@ interface Team {
   athletes: Athlete[];
   workouts: TeamWorkout[];
   createdAt: string;
+  nameLoginEnabled?: boolean;
 }
 
 export function TeamManager() {
@@ -54,6 +59,8 @@ export function TeamManager() {
   const [newTeam, setNewTeam] = useState({ name: '', description: '' });
   const [athleteSearch, setAthleteSearch] = useState('');
   const [expandedTeams, setExpandedTeams] = useState<Set<string>>(new Set());
+  const [wellnessTeam, setWellnessTeam] = useState<Team | null>(null);
+  const [complianceTeam, setComplianceTeam] = useState<Team | null>(null);
 
   // Load teams and athletes on mount
   useEffect(() => {
@@ -124,6 +131,21 @@ export function TeamManager() {
     }
   };
 
+  // Name links sign athletes in by name alone; a team can turn them off for its athletes
+  const handleToggleNameLogin = async (team: Team) => {
+    const enabled = team.nameLoginEnabled === false;
+    if (!enabled && !confirm(`Turn off name links for ${team.name}? Its athletes will need their login links to sign in.`)) {
+      return;
+    }
+    try {
+      await teamsApi.update(team.id, { nameLoginEnabled: enabled });
+      setTeams(teams.map(t => (t.id === team.id ? { ...t, nameLoginEnabled: enabled } : t)));
+    } catch (err: any) {
+      console.error('Failed to update team:', err);
+      alert(err.message || 'Failed to update team. Please try again.');
+    }
+  };
+
   const handleDeleteTeam = async (teamId: string) => {
     if (!confirm('Are you sure you want to delete this team?')) {
       return;
@@ -257,9 +279,15 @@ export function TeamManager() {
           block.id === blockId
             ? {
                 ...block,
-                exercises: block.exercises.map((e) =>
-                  e.id === exerciseId ? { ...e, [field]: value } : e
-                ),
+                exercises: block.exercises.map((e) => {
+                  if (e.id !== exerciseId) return e;
+                  const updated = { ...e, [field]: value };
+                  // Reps/weight are edited as text here, so re-derive the structured prescription
+                  if (field === 'reps' || field === 'weight') {
+                    updated.prescription = parsePrescription(updated.reps, updated.weight) || undefined;
+                  }
+                  return updated;
+                }),
               }
             : block
         ),
@@ -364,12 +392,35 @@ export function TeamManager() {
                     </div>
                   </div>
                 </div>
-                <button
-                  onClick={() => handleDeleteTeam(team.id)}
-                  className="text-gray-400 hover:text-red-500 transition-colors p-2 rounded-lg hover:bg-red-500/10 flex-shrink-0"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => setComplianceTeam(team)}
+                    className="text-gray-400 hover:text-[#F56E0F] transition-colors p-2 rounded-lg hover:bg-[#F56E0F]/10"
+                    title="Compliance"
+                  >
+                    <ClipboardCheck className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleNameLogin(team)}
+                    className="text-gray-400 hover:text-[#F56E0F] transition-colors p-2 rounded-lg hover:bg-[#F56E0F]/10"
+                    title={team.nameLoginEnabled === false ? 'Name links are off - click to allow them' : 'Name links are on - click to turn them off'}
+                  >
+                    {team.nameLoginEnabled === false ? <Link2Off className="w-5 h-5" /> : <Link2 className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => setWellnessTeam(team)}
+                    className="text-gray-400 hover:text-[#F56E0F] transition-colors p-2 rounded-lg hover:bg-[#F56E0F]/10"
+                    title="Wellness check-ins"
+                  >
+                    <HeartPulse className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTeam(team.id)}
+                    className="text-gray-400 hover:text-red-500 transition-colors p-2 rounded-lg hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -517,6 +568,14 @@ export function TeamManager() {
         )}
       </div>
 
+      {wellnessTeam && (
+        <TeamWellnessModal team={wellnessTeam} onClose={() => setWellnessTeam(null)} />
+      )}
+
+      {complianceTeam && (
+        <TeamComplianceModal team={complianceTeam} onClose={() => setComplianceTeam(null)} />
+      )}
+
       {/* Create Team Modal */}
       {showTeamModal && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -766,7 +825,11 @@ export function TeamManager() {
                                 <h5 className="text-white">{exercise.exerciseName}</h5>
                                 <p className="text-sm text-gray-500">
                                   {exercise.sets} sets x {exercise.reps} reps
-                                  {exercise.weight ? ` x ${exercise.weight} lbs` : ''}
+                                  {exercise.weight
+                                    ? exercise.prescription?.loadType === 'percent1RM'
+                                      ? ` @ ${exercise.weight} (each athlete's own max)`
+                                      : ` x ${exercise.weight} lbs`
+                                    : ''}
                                 </p>
                               </div>
                             </div>
@@ -811,13 +874,13 @@ export function TeamManager() {
                             />
                           </div>
                           <div className="mt-2">
-                            <label className="block text-gray-400 mb-2">Weight (lbs)</label>
+                            <label className="block text-gray-400 mb-2">Weight (lbs or % 1RM)</label>
                             <input
                               type="text"
                               value={exercise.weight || ''}
                               onChange={(e) => updateExercise(block.id, exercise.id, 'weight', e.target.value)}
                               className="w-full bg-black border border-zinc-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-[#F56E0F] focus:ring-2 focus:ring-[#F56E0F]/20 transition-all"
-                              placeholder="e.g., 100"
+                              placeholder="e.g., 100 or 75%"
                             />
                           </div>
                         </div>
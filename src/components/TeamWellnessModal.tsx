@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { X, Settings, AlertTriangle } from 'lucide-react';
+import { teamsApi, TeamWellness, WellnessQuestion } from '../utils/api';
+import { WELLNESS_QUESTIONS, WELLNESS_QUESTION_INFO, getReadinessColor, isPoorAnswer } from '../utils/wellness';
+
+interface TeamWellnessModalProps {
+  team: { id: string; name: string };
+  onClose: () => void;
+}
+
+// Format date as YYYY-MM-DD in local timezone
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+// Coach view of a team's daily check-ins: one row per athlete, low readiness flagged first.
+// The coach also picks which questions the team's athletes are asked.
+export function TeamWellnessModal({ team, onClose }: TeamWellnessModalProps) {
+  const [date, setDate] = useState(formatLocalDate(new Date()));
+  const [wellness, setWellness] = useState<TeamWellness | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingQuestions, setEditingQuestions] = useState(false);
+  const [selectedQuestions, setSelectedQuestions] = useState<WellnessQuestion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadWellness = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await teamsApi.getWellness(team.id, date);
+        setWellness(data);
+        setSelectedQuestions(data.questions);
+      } catch (err) {
+        console.error('Failed to load team wellness:', err);
+        setError('Failed to load check-ins');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadWellness();
+  }, [team.id, date]);
+
+  const toggleQuestion = (question: WellnessQuestion) => {
+    setSelectedQuestions(
+      selectedQuestions.includes(question)
+        ? selectedQuestions.filter((q) => q !== question)
+        : WELLNESS_QUESTIONS.filter((q) => q === question || selectedQuestions.includes(q))
+    );
+  };
+
+  const handleSaveQuestions = async () => {
+    if (!wellness || selectedQuestions.length === 0) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      const questions = await teamsApi.setWellnessQuestions(team.id, selectedQuestions);
+      setWellness({ ...wellness, questions });
+      setEditingQuestions(false);
+    } catch (err: any) {
+      console.error('Failed to save wellness questions:', err);
+      setError(err.message || 'Failed to save questions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Flagged athletes first, then the rest, then those who haven't checked in
+  const rows = wellness
+    ? [...wellness.athletes].sort((a, b) => {
+        const rank = (row: typeof a) => (!row.checkin ? 2 : row.checkin.lowReadiness ? 0 : 1);
+        return rank(a) - rank(b);
+      })
+    : [];
+  const flaggedCount = rows.filter((row) => row.checkin?.lowReadiness).length;
+  const missingCount = rows.filter((row) => !row.checkin).length;
+  const columns = wellness?.questions || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white text-xl">{team.name} · Wellness</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
+            style={{ colorScheme: 'dark' }}
+          />
+          {wellness && (
+            <p className="text-sm text-gray-400">
+              <span className={flaggedCount > 0 ? 'text-red-400' : ''}>{flaggedCount} low readiness</span>
+              {' · '}
+              {missingCount} not checked in
+            </p>
+          )}
+          <button
+            onClick={() => setEditingQuestions(!editingQuestions)}
+            className="ml-auto flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            Questions
+          </button>
+        </div>
+
+        {editingQuestions && (
+          <div className="bg-black border border-zinc-800 rounded-lg p-4 mb-4">
+            <p className="text-sm text-gray-400 mb-3">Questions this team's athletes are asked each day</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+              {WELLNESS_QUESTIONS.map((question) => (
+                <label key={question} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedQuestions.includes(question)}
+                    onChange={() => toggleQuestion(question)}
+                    className="rounded border-zinc-700 bg-black text-[#F56E0F] focus:ring-[#F56E0F]"
+                  />
+                  {WELLNESS_QUESTION_INFO[question].label}
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleSaveQuestions}
+              disabled={isSaving || selectedQuestions.length === 0}
+              className="bg-[#F56E0F] hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save Questions'}
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading check-ins...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-gray-500 text-sm">No athletes in this team yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-zinc-800">
+                  <th className="py-2 pr-4 font-normal">Athlete</th>
+                  <th className="py-2 pr-4 font-normal">Readiness</th>
+                  {columns.map((question) => (
+                    <th key={question} className="py-2 pr-4 font-normal whitespace-nowrap">
+                      {WELLNESS_QUESTION_INFO[question].shortLabel}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ athleteId, athleteName, checkin }) => (
+                  <tr
+                    key={athleteId}
+                    className={`border-b border-zinc-800/50 ${checkin?.lowReadiness ? 'bg-red-500/10' : ''}`}
+                  >
+                    <td className="py-2 pr-4 text-white whitespace-nowrap">
+                      <span className="flex items-center gap-2">
+                        {checkin?.lowReadiness && <AlertTriangle className="w-4 h-4 text-red-400" />}
+                        {athleteName}
+                      </span>
+                    </td>
+                    {checkin ? (
+                      <>
+                        <td className={`py-2 pr-4 ${getReadinessColor(checkin)}`}>{checkin.readiness ?? '—'}</td>
+                        {columns.map((question) => {
+                          const value = checkin[question];
+                          const poor = typeof value === 'number' ? isPoorAnswer(question, value) : !!value;
+                          return (
+                            <td key={question} className={`py-2 pr-4 ${poor ? 'text-red-400' : 'text-gray-300'}`}>
+                              {value ?? '—'}
+                            </td>
+                          );
+                        })}
+                      </>
+                    ) : (
+                      <td colSpan={columns.length + 1} className="py-2 pr-4 text-gray-500">
+                        Not checked in
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
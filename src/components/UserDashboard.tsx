@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, Dumbbell, ChevronRight, Bed, Check } from 'lucide-react';
+import { Calendar, Dumbbell, ChevronRight, Bed, Check, HeartPulse, KeyRound } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { workoutsApi, Workout } from '../utils/api';
+import { workoutsApi, athletesApi, authApi, Workout, WellnessCheckin, WellnessQuestion } from '../utils/api';
 import { createTokenPreservingNavigate } from '../utils/tokenNavigation';
 import { NavigationState } from '../utils/navigation';
 import { SequenceLogoText } from './SequenceLogoText';
+import { SyncIndicator } from './SyncIndicator';
+import { WellnessCheckinModal } from './WellnessCheckinModal';
+import { SetPasswordModal } from './SetPasswordModal';
+import { getReadinessColor } from '../utils/wellness';
 
 interface UserDashboardProps {
   user: { id: string; name: string; role: 'admin' | 'user' };
@@ -25,12 +29,25 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
   const navigate = createTokenPreservingNavigate(navigateBase);
   const location = useLocation();
   const [selectedDate, setSelectedDate] = useState(new Date());
+  // The calendar month on screen, for loads started from timers and listeners
+  const selectedDateRef = useRef(selectedDate);
+  selectedDateRef.current = selectedDate;
   const [workouts, setWorkouts] = useState<ScheduledWorkout[]>([]);
   const [fullWorkouts, setFullWorkouts] = useState<Workout[]>([]); // Store full workout data
   const [loading, setLoading] = useState(true);
   const [workoutCompletionStatus, setWorkoutCompletionStatus] = useState<Record<string, boolean>>({});
   const [completionStatusMap, setCompletionStatusMap] = useState<Record<string, Record<string, any>>>({});
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Store full completion status
+  // Today's wellness check-in. checkedInToday also covers a check-in queued while offline.
+  const [wellnessQuestions, setWellnessQuestions] = useState<WellnessQuestion[]>([]);
+  const [todaysCheckin, setTodaysCheckin] = useState<WellnessCheckin | undefined>(undefined);
+  const [checkedInToday, setCheckedInToday] = useState(false);
+  const [showCheckin, setShowCheckin] = useState(false);
+  const afterCheckin = useRef<(() => void) | null>(null); // e.g. open today's workout
+  // Email/password sign-in; null until /auth/me answers (e.g. while offline), or when this session
+  // can't set a password (a name link)
+  const [account, setAccount] = useState<{ email: string; hasPassword: boolean } | null>(null);
+  const [showSetPassword, setShowSetPassword] = useState(false);
 
   // Helper function to format date as YYYY-MM-DD in local timezone
   const formatLocalDate = (date: Date): string => {
@@ -51,6 +68,37 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
     loadWorkouts();
   }, [user.id]);
 
+  // Whether the athlete has a password yet
+  useEffect(() => {
+    authApi
+      .me()
+      .then(({ user: sessionUser, hasPassword, canSetPassword }) => {
+        if (sessionUser.role === 'user' && sessionUser.email && canSetPassword) {
+          setAccount({ email: sessionUser.email, hasPassword: !!hasPassword });
+        }
+      })
+      .catch((err) => console.error('Failed to load account:', err));
+  }, [user.id]);
+
+  // Load today's check-in and the questions the athlete's teams ask
+  useEffect(() => {
+    const loadCheckin = async () => {
+      try {
+        const today = formatLocalDate(new Date());
+        const [questions, checkins] = await Promise.all([
+          athletesApi.getWellnessQuestions(user.id),
+          athletesApi.getWellness(user.id, { from: today, to: today }),
+        ]);
+        setWellnessQuestions(questions);
+        setTodaysCheckin(checkins[0]);
+        setCheckedInToday(checkins.length > 0);
+      } catch (err) {
+        console.error('Failed to load wellness check-in:', err);
+      }
+    };
+    loadCheckin();
+  }, [user.id]);
+
   // Refresh completion status whenever the calendar becomes visible
   useEffect(() => {
     // Function to refresh completion status
@@ -58,9 +106,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
       if (fullWorkouts.length === 0) return;
       
       try {
-        // Use the fast completions endpoint instead of checking each workout
-        const completions = await workoutsApi.getCompletions(user.id);
-        setWorkoutCompletionStatus(completions);
+        await refreshCompletionStatuses();
       } catch (err) {
         console.error('Failed to refresh completion status:', err);
       }
@@ -107,11 +153,9 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
       
       // Calculate if workout is completed
       const allExercises = workout.blocks.flatMap(block => block.exercises);
-      const isCompleted = allExercises.length > 0 && allExercises.every(exercise => {
-        const exerciseName = exercise.exerciseName || (exercise as any).name || '';
-        const exerciseStatus = completionStatus[exerciseName];
-        return exerciseStatus?.status === 'completed';
-      });
+      const isCompleted = allExercises.length > 0 && allExercises.every(exercise =>
+        completionStatus[exercise.id]?.status === 'completed'
+      );
       
       // Immediately update the completion status (no delay!)
       setWorkoutCompletionStatus(prev => ({
@@ -127,17 +171,11 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
       // Clear the state
       window.history.replaceState({ ...locationState, workout: undefined, completionStatus: undefined }, '');
       
-      // Refresh ALL workouts' completion status after a delay to allow background completion check to finish
+      // Refresh the month's completion status after a delay to allow background completion check to finish
       // Keep the optimistic update until the refresh completes
       if (fullWorkouts.length > 0) {
         setTimeout(() => {
-          workoutsApi.getCompletions(user.id).then(completions => {
-            // Merge with existing state to preserve optimistic updates
-            setWorkoutCompletionStatus(prev => ({
-              ...prev,
-              ...completions
-            }));
-          }).catch(err => {
+          refreshCompletionStatuses().catch(err => {
             console.error('Failed to refresh completion status:', err);
           });
         }, 1000); // 1 second delay to allow background completion check to finish
@@ -167,14 +205,45 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
     }
   }, [location.state, fullWorkouts, user.id]);
 
+  // Load completion for each month the calendar moves to
+  useEffect(() => {
+    if (fullWorkouts.length === 0) return;
+    refreshCompletionStatuses(selectedDate).catch(err => {
+      console.error('Failed to load completion status:', err);
+    });
+  }, [selectedDate.getFullYear(), selectedDate.getMonth()]);
+
+  // Whether each workout in a calendar month is complete, and each exercise's status (handed to the
+  // workout view), in one request
+  const loadCompletionStatuses = async (month: Date = selectedDateRef.current) => {
+    const statuses = await workoutsApi.getCompletionStatuses(user.id, {
+      from: formatLocalDate(new Date(month.getFullYear(), month.getMonth(), 1)),
+      to: formatLocalDate(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+    });
+    const completions: Record<string, boolean> = {};
+    const exerciseStatuses: Record<string, Record<string, any>> = {};
+    Object.entries(statuses).forEach(([workoutId, status]) => {
+      completions[workoutId] = status.completed;
+      exerciseStatuses[workoutId] = status.exercises;
+    });
+    return { completions, exerciseStatuses };
+  };
+
+  // Reload a month's completion, keeping what's loaded for the months before it
+  const refreshCompletionStatuses = async (month?: Date) => {
+    const { completions, exerciseStatuses } = await loadCompletionStatuses(month);
+    setWorkoutCompletionStatus(prev => ({ ...prev, ...completions }));
+    setCompletionStatusMap(prev => ({ ...prev, ...exerciseStatuses }));
+  };
+
   const loadWorkouts = async () => {
     try {
       setLoading(true);
       
       // Load workouts and completions in parallel - much faster!
-      const [data, completions] = await Promise.all([
+      const [data, { completions, exerciseStatuses }] = await Promise.all([
         workoutsApi.getAll({ athleteId: user.id }),
-        workoutsApi.getCompletions(user.id)
+        loadCompletionStatuses()
       ]);
       
       setFullWorkouts(data); // Store full workout data
@@ -188,8 +257,9 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
       }));
       setWorkouts(scheduledWorkouts);
       
-      // Set completion status from the fast completions endpoint
+      // Set completion status from the batched completion-status request
       setWorkoutCompletionStatus(completions);
+      setCompletionStatusMap(exerciseStatuses);
       
       // Show calendar immediately with completion status already loaded
       setLoading(false);
@@ -202,6 +272,43 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
 
   const todaysWorkout = workouts.find((w) => w.date === formatLocalDate(new Date()));
 
+  const openTodaysWorkout = () => {
+    if (!todaysWorkout) return;
+    // Get full workout data and completion status from cache
+    const fullWorkout = fullWorkouts.find(w => w.id === todaysWorkout.id);
+    const completionStatus = completionStatusMap[todaysWorkout.id];
+
+    navigate(`/workout/${todaysWorkout.id}`, { 
+      state: { 
+        workout: fullWorkout || null,
+        completionStatus: completionStatus || null
+      } 
+    });
+  };
+
+  // Ask for the check-in before the day's first workout (it can be skipped)
+  const handleTodaysWorkoutClick = () => {
+    if (!checkedInToday && wellnessQuestions.length > 0) {
+      afterCheckin.current = openTodaysWorkout;
+      setShowCheckin(true);
+      return;
+    }
+    openTodaysWorkout();
+  };
+
+  const closeCheckin = () => {
+    setShowCheckin(false);
+    const next = afterCheckin.current;
+    afterCheckin.current = null;
+    next?.();
+  };
+
+  const handleCheckinSaved = (checkin?: WellnessCheckin) => {
+    setTodaysCheckin(checkin);
+    setCheckedInToday(true);
+    closeCheckin();
+  };
+
   // Sort workouts by date (upcoming first) and filter to only future/current workouts
   const today = formatLocalDate(new Date());
   const sortedWorkouts = [...workouts]
@@ -312,10 +419,73 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
           </div>
         </div>
 
-        <div className="mb-3">
+        <div className="mb-3 flex items-end justify-between gap-4">
           <h2 className="text-white text-4xl tracking-tight">{user.name}</h2>
+          {account?.hasPassword && (
+            <button
+              onClick={() => setShowSetPassword(true)}
+              className="text-sm text-gray-400 hover:text-white transition-colors whitespace-nowrap"
+            >
+              Change password
+            </button>
+          )}
         </div>
 
+        {/* Athletes who signed in with a link can set a password to sign in without it */}
+        {account && !account.hasPassword && (
+          <div className="mb-6">
+            <button
+              onClick={() => setShowSetPassword(true)}
+              className="w-full flex items-center justify-between bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 hover:border-zinc-700 transition-colors"
+            >
+              <div className="flex items-center gap-3 text-left">
+                <KeyRound className="w-5 h-5 text-gray-400" />
+                <div>
+                  <p className="text-white">Set your password</p>
+                  <p className="text-sm text-gray-400">Sign in with your email, no login link needed</p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+        )}
+
+        {/* Daily wellness check-in */}
+        {wellnessQuestions.length > 0 && (
+          <div className="mb-6">
+            {checkedInToday ? (
+              <div className="flex items-center justify-between bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3">
+                <div className="flex items-center gap-2 text-sm text-gray-300">
+                  <HeartPulse className="w-4 h-4 text-emerald-400" />
+                  Checked in today
+                  {todaysCheckin?.readiness !== undefined && (
+                    <span className={getReadinessColor(todaysCheckin)}>· Readiness {todaysCheckin.readiness}</span>
+                  )}
+                </div>
+                {todaysCheckin && (
+                  <button onClick={() => setShowCheckin(true)} className="text-sm text-gray-400 hover:text-white">
+                    Edit
+                  </button>
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowCheckin(true)}
+                className="w-full flex items-center justify-between bg-zinc-900 border border-[#F56E0F]/50 rounded-xl px-4 py-3 hover:border-[#F56E0F] transition-colors"
+              >
+                <div className="flex items-center gap-3 text-left">
+                  <HeartPulse className="w-5 h-5 text-[#F56E0F]" />
+                  <div>
+                    <p className="text-white">Daily check-in</p>
+                    <p className="text-sm text-gray-400">Let your coach know how you're feeling</p>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Today's Workout or Rest Day */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-4">
@@ -327,18 +497,7 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
 
           {todaysWorkout ? (
             <div
-              onClick={() => {
-                // Get full workout data and completion status from cache
-                const fullWorkout = fullWorkouts.find(w => w.id === todaysWorkout.id);
-                const completionStatus = completionStatusMap[todaysWorkout.id];
-                
-                navigate(`/workout/${todaysWorkout.id}`, { 
-                  state: { 
-                    workout: fullWorkout || null,
-                    completionStatus: completionStatus || null
-                  } 
-                });
-              }}
+              onClick={handleTodaysWorkoutClick}
               className="bg-[#F56E0F]/30 border border-[#F56E0F] rounded-xl p-6 cursor-pointer hover:bg-[#F56E0F]/40 transition-all transform hover:scale-[1.02]"
             >
               <div className="flex items-start justify-between gap-4">
@@ -505,6 +664,32 @@ export function UserDashboard({ user, onLogout }: UserDashboardProps) {
           </div>
         </div>
       </div>
+
+      {showCheckin && (
+        <WellnessCheckinModal
+          athleteId={user.id}
+          date={formatLocalDate(new Date())}
+          questions={wellnessQuestions}
+          existing={todaysCheckin}
+          onSaved={handleCheckinSaved}
+          onClose={closeCheckin}
+          skipLabel={afterCheckin.current ? 'Skip' : 'Cancel'}
+        />
+      )}
+
+      {showSetPassword && account && (
+        <SetPasswordModal
+          email={account.email}
+          hasPassword={account.hasPassword}
+          onSaved={() => {
+            setAccount({ ...account, hasPassword: true });
+            setShowSetPassword(false);
+          }}
+          onClose={() => setShowSetPassword(false)}
+        />
+      )}
+
+      <SyncIndicator />
     </motion.div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { athletesApi, WellnessAnswers, WellnessCheckin, WellnessQuestion } from '../utils/api';
+import { WELLNESS_QUESTION_INFO, isScaleQuestion } from '../utils/wellness';
+
+interface WellnessCheckinModalProps {
+  athleteId: string;
+  date: string; // YYYY-MM-DD
+  questions: WellnessQuestion[];
+  existing?: WellnessCheckin;
+  onSaved: (checkin?: WellnessCheckin) => void;
+  // Close without saving; skipLabel names the button (e.g. "Skip" when opened before a workout)
+  onClose: () => void;
+  skipLabel?: string;
+}
+
+const inputClass =
+  'w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]';
+
+// Daily readiness questionnaire, asked before the first workout of the day
+export function WellnessCheckinModal({
+  athleteId,
+  date,
+  questions,
+  existing,
+  onSaved,
+  onClose,
+  skipLabel = 'Cancel',
+}: WellnessCheckinModalProps) {
+  const [answers, setAnswers] = useState<WellnessAnswers>(() => {
+    if (!existing) return {};
+    const { sleepHours, sleepQuality, soreness, stress, mood, energy, painLocation } = existing;
+    return { sleepHours, sleepQuality, soreness, stress, mood, energy, painLocation };
+  });
+  const [sleepText, setSleepText] = useState(existing?.sleepHours !== undefined ? String(existing.sleepHours) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setAnswer = (question: WellnessQuestion, value: number | string | undefined) => {
+    setAnswers({ ...answers, [question]: value });
+  };
+
+  const sleepHours = sleepText.trim() ? parseFloat(sleepText) : undefined;
+  const sleepValid = sleepHours === undefined || (sleepHours >= 0 && sleepHours <= 24);
+  const answeredScales = questions.filter((q) => isScaleQuestion(q) && answers[q] !== undefined).length;
+  const canSave = sleepValid && (answeredScales > 0 || sleepHours !== undefined);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      const result = await athletesApi.saveWellness(athleteId, {
+        date,
+        ...answers,
+        sleepHours,
+        painLocation: answers.painLocation?.trim() || undefined,
+      });
+      // Queued offline: there's no server copy (with readiness) to show yet
+      onSaved('queued' in result ? undefined : result);
+    } catch (err: any) {
+      console.error('Error saving wellness check-in:', err);
+      setError(err.message || 'Failed to save check-in');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-white text-xl">Daily Check-in</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-5">How are you feeling today? Your coach sees your answers.</p>
+
+        <div className="space-y-5">
+          {questions.map((question) => {
+            const info = WELLNESS_QUESTION_INFO[question];
+
+            if (question === 'sleepHours') {
+              return (
+                <div key={question}>
+                  <label className="block text-white mb-2">{info.label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={sleepText}
+                    onChange={(e) => setSleepText(e.target.value)}
+                    className={inputClass}
+                    placeholder="e.g. 7.5"
+                  />
+                </div>
+              );
+            }
+
+            if (question === 'painLocation') {
+              return (
+                <div key={question}>
+                  <label className="block text-white mb-2">{info.label}</label>
+                  <input
+                    type="text"
+                    value={answers.painLocation || ''}
+                    onChange={(e) => setAnswer(question, e.target.value)}
+                    className={inputClass}
+                    maxLength={200}
+                    placeholder="Leave blank if nothing hurts"
+                  />
+                </div>
+              );
+            }
+
+            return (
+              <div key={question}>
+                <label className="block text-white mb-2">{info.label}</label>
+                <div className="grid grid-cols-5 gap-2">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setAnswer(question, answers[question] === value ? undefined : value)}
+                      className={`py-2 rounded-lg text-sm transition-colors ${
+                        answers[question] === value
+                          ? 'bg-[#F56E0F] text-white'
+                          : 'bg-black border border-zinc-800 text-gray-300 hover:border-zinc-700'
+                      }`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{info.low}</span>
+                  <span>{info.high}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 rounded-lg bg-zinc-800 text-gray-300 hover:bg-zinc-700 transition-colors"
+          >
+            {skipLabel}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving}
+            className="flex-1 py-2 rounded-lg bg-[#F56E0F] hover:bg-orange-600 disabled:bg-zinc-800 disabled:text-gray-600 text-white transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
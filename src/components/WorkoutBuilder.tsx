@@ -1,7 +1,11 @@
-import { useState, useEffect } from 'react';
-import { Plus, Trash2, ChevronDown, ChevronRight, GripVertical, Pencil } from 'lucide-react';
-import { workoutsApi, Workout } from '../utils/api';
+import { useState, useEffect, Fragment } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronRight, GripVertical, Pencil, Timer } from 'lucide-react';
+import { workoutsApi, Workout, ExercisePrescription, ExerciseGroup } from '../utils/api';
+import { getPrescription, toPrescriptionFields, formatPrescriptionExtras, formatDuration } from '../utils/prescription';
+import { getExerciseGroup, getExerciseLabels, getGroupMembers, normalizeGroups, toggleLinkWithNext, updateGroup } from '../utils/exerciseGroups';
 import { ExerciseAutocomplete } from './ExerciseAutocomplete';
+import { PrescriptionEditor } from './PrescriptionEditor';
+import { ExerciseGroupHeader, ExerciseLinkToggle } from './ExerciseGroupControls';
 import {
   DndContext,
   closestCenter,
@@ -24,39 +28,53 @@ import { CSS } from '@dnd-kit/utilities';
 
 interface WorkoutExercise {
   id: string;
+  exerciseId?: string;
   exerciseName: string;
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
   videoUrl?: string;
+  groupId?: string;
+  restSeconds?: number;
 }
 
 interface Block {
   id: string;
   name: string;
   exercises: WorkoutExercise[];
+  groups?: ExerciseGroup[];
+  restSeconds?: number;
 }
 
 interface Exercise {
   id: string;
+  exerciseId?: string;
   name?: string;
   exerciseName?: string;
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
   videoUrl?: string;
+  groupId?: string;
+  restSeconds?: number;
 }
 
 // Sortable Exercise Component for inline display
 function SortableExercise({
   exercise,
   index,
+  label,
+  grouped,
   onEdit,
   onRemove,
   isDraggingAny,
 }: {
   exercise: Exercise;
   index: number;
+  label?: string;
+  grouped?: boolean;
   onEdit: () => void;
   onRemove: () => void;
   isDraggingAny: boolean;
@@ -82,7 +100,7 @@ function SortableExercise({
     <div
       ref={setNodeRef}
       style={style}
-      className="bg-black/40 border border-zinc-700 rounded-lg p-3"
+      className={`bg-black/40 border border-zinc-700 rounded-lg p-3 ${grouped ? 'border-l-2 border-l-[#F56E0F]' : ''}`}
     >
       <div className="flex items-center gap-2">
         <button
@@ -93,10 +111,19 @@ function SortableExercise({
           <GripVertical className="w-4 h-4" />
         </button>
         <div className="flex-1">
-          <div className="text-white text-sm font-medium">{exerciseName}</div>
+          <div className="text-white text-sm font-medium">
+            {label && <span className="text-[#F56E0F] mr-1.5">{label}</span>}
+            {exerciseName}
+          </div>
           <div className="text-xs text-gray-400 mt-1">
             {exercise.sets} sets × {exercise.reps} reps
             {exercise.weight && ` @ ${exercise.weight}`}
+            {exercise.prescription && formatPrescriptionExtras(exercise.prescription) && (
+              <span className="text-gray-500"> · {formatPrescriptionExtras(exercise.prescription)}</span>
+            )}
+            {exercise.restSeconds !== undefined && (
+              <span className="text-gray-500"> · {formatDuration(exercise.restSeconds)} rest</span>
+            )}
           </div>
         </div>
         <button
@@ -130,6 +157,9 @@ function SortableBlock({
   onExerciseRemove,
   onAddExercise,
   onExerciseDragEnd,
+  onToggleLink,
+  onGroupChange,
+  onRestChange,
   activeExerciseId,
   setActiveExerciseId,
   isDraggingAny,
@@ -145,6 +175,9 @@ function SortableBlock({
   onExerciseRemove: (exerciseId: string) => void;
   onAddExercise: () => void;
   onExerciseDragEnd: (event: DragEndEvent, blockId: string, workoutId: string) => void;
+  onToggleLink: (index: number) => void;
+  onGroupChange: (groupId: string, changes: Partial<ExerciseGroup>) => void;
+  onRestChange: (restSeconds: number | undefined) => void;
   activeExerciseId: string | null;
   setActiveExerciseId: (id: string | null) => void;
   isDraggingAny: boolean;
@@ -172,6 +205,10 @@ function SortableBlock({
     opacity: isDragging ? 0 : 1,
   };
 
+  // Lettered labels (A1/A2...) and group headers use the displayed exercises with the block's groups
+  const groupedBlock = { exercises, groups: block.groups };
+  const exerciseLabels = getExerciseLabels(groupedBlock);
+
   return (
     <div ref={setNodeRef} style={style} className="bg-black/30 border border-zinc-800 rounded-lg overflow-hidden">
       {/* Block Header */}
@@ -197,6 +234,7 @@ function SortableBlock({
               <h4 className="text-white">{block.name}</h4>
               <p className="text-xs text-gray-500">
                 {block.exercises.length} exercise{block.exercises.length !== 1 ? 's' : ''}
+                {block.restSeconds ? ` • ${formatDuration(block.restSeconds)} rest` : ''}
               </p>
             </div>
           </button>
@@ -212,6 +250,25 @@ function SortableBlock({
       {/* Exercises in Block */}
       {isExpanded && (
         <div className="border-t border-zinc-800 p-3 space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Timer className="w-3.5 h-3.5" />
+            <span>Rest between sets</span>
+            <input
+              key={block.restSeconds ?? 'none'}
+              type="number"
+              min="0"
+              step="15"
+              defaultValue={block.restSeconds ?? ''}
+              onBlur={(e) => {
+                const value = parseInt(e.target.value);
+                const restSeconds = isNaN(value) ? undefined : value;
+                if (restSeconds !== block.restSeconds) onRestChange(restSeconds);
+              }}
+              className="w-20 bg-black border border-zinc-800 rounded px-2 py-1 text-white focus:outline-none focus:border-[#F56E0F]"
+              placeholder="--"
+            />
+            <span>s</span>
+          </div>
           <DndContext
             sensors={exerciseSensors}
             collisionDetection={closestCenter}
@@ -229,16 +286,38 @@ function SortableBlock({
               items={exercises.map((e) => e.id)}
               strategy={verticalListSortingStrategy}
             >
-              {exercises.map((exercise, index) => (
-                <SortableExercise
-                  key={exercise.id}
-                  exercise={exercise}
-                  index={index}
-                  onEdit={() => onExerciseEdit(exercise)}
-                  onRemove={() => onExerciseRemove(exercise.id)}
-                  isDraggingAny={isDraggingAny}
-                />
-              ))}
+              {exercises.map((exercise, index) => {
+                const group = getExerciseGroup(groupedBlock, exercise);
+                const startsGroup = !!group && exercises[index - 1]?.groupId !== exercise.groupId;
+                const next = exercises[index + 1];
+                return (
+                  <Fragment key={exercise.id}>
+                    {group && startsGroup && (
+                      <ExerciseGroupHeader
+                        group={group}
+                        letter={exerciseLabels[exercise.id].charAt(0)}
+                        memberCount={getGroupMembers(groupedBlock, exercise.id).length}
+                        onChange={(changes) => onGroupChange(group.id, changes)}
+                      />
+                    )}
+                    <SortableExercise
+                      exercise={exercise}
+                      index={index}
+                      label={exerciseLabels[exercise.id]}
+                      grouped={!!group}
+                      onEdit={() => onExerciseEdit(exercise)}
+                      onRemove={() => onExerciseRemove(exercise.id)}
+                      isDraggingAny={isDraggingAny}
+                    />
+                    {next && !isDraggingAny && (
+                      <ExerciseLinkToggle
+                        linked={!!group && next.groupId === exercise.groupId}
+                        onToggle={() => onToggleLink(index)}
+                      />
+                    )}
+                  </Fragment>
+                );
+              })}
             </SortableContext>
             <DragOverlay>
               {activeExerciseId ? (
@@ -391,7 +470,11 @@ export function WorkoutBuilder() {
         blocks: [...workout.blocks, newBlock],
       });
       setWorkouts(workouts.map((w) => (w.id === workoutId ? updated : w)));
-      setExpandedBlocks(new Set([...expandedBlocks, newBlock.id]));
+      // The server assigns the new block's ID, so expand the one it returned
+      const savedBlock = updated.blocks[updated.blocks.length - 1];
+      if (savedBlock) {
+        setExpandedBlocks(new Set([...expandedBlocks, savedBlock.id]));
+      }
       setShowBlockModal(false);
     } catch (err: any) {
       console.error('Failed to add block:', err);
@@ -427,11 +510,15 @@ export function WorkoutBuilder() {
 
     const newExercise: WorkoutExercise = {
       id: exercise.id,
+      exerciseId: exercise.exerciseId,
       exerciseName: exercise.name || exercise.exerciseName || '',
       sets: exercise.sets,
       reps: exercise.reps,
       weight: exercise.weight,
+      prescription: exercise.prescription,
       videoUrl: exercise.videoUrl,
+      groupId: exercise.groupId,
+      restSeconds: exercise.restSeconds,
     };
 
     try {
@@ -460,11 +547,15 @@ export function WorkoutBuilder() {
 
     const exerciseData: WorkoutExercise = {
       id: updatedExercise.id,
+      exerciseId: updatedExercise.exerciseId,
       exerciseName: updatedExercise.name || updatedExercise.exerciseName || '',
       sets: updatedExercise.sets,
       reps: updatedExercise.reps,
       weight: updatedExercise.weight,
+      prescription: updatedExercise.prescription,
       videoUrl: updatedExercise.videoUrl,
+      groupId: updatedExercise.groupId,
+      restSeconds: updatedExercise.restSeconds,
     };
 
     try {
@@ -501,7 +592,7 @@ export function WorkoutBuilder() {
         date: workout.date,
         blocks: workout.blocks.map((b) =>
           b.id === blockId
-            ? { ...b, exercises: b.exercises.filter((e) => e.id !== exerciseId) }
+            ? normalizeGroups({ ...b, exercises: b.exercises.filter((e) => e.id !== exerciseId) })
             : b
         ),
       });
@@ -512,6 +603,62 @@ export function WorkoutBuilder() {
     }
   };
 
+  const handleToggleExerciseLink = async (workoutId: string, blockId: string, index: number) => {
+    const workout = workouts.find((w) => w.id === workoutId);
+    if (!workout) return;
+
+    try {
+      const updated = await workoutsApi.update(workoutId, {
+        name: workout.name,
+        date: workout.date,
+        blocks: workout.blocks.map((b) => (b.id === blockId ? toggleLinkWithNext(b, index) : b)),
+      });
+      setWorkouts(workouts.map((w) => (w.id === workoutId ? updated : w)));
+    } catch (err: any) {
+      console.error('Failed to update superset:', err);
+      alert(err.message || 'Failed to update superset. Please try again.');
+    }
+  };
+
+  const handleUpdateExerciseGroup = async (
+    workoutId: string,
+    blockId: string,
+    groupId: string,
+    changes: Partial<ExerciseGroup>
+  ) => {
+    const workout = workouts.find((w) => w.id === workoutId);
+    if (!workout) return;
+
+    try {
+      const updated = await workoutsApi.update(workoutId, {
+        name: workout.name,
+        date: workout.date,
+        blocks: workout.blocks.map((b) => (b.id === blockId ? updateGroup(b, groupId, changes) : b)),
+      });
+      setWorkouts(workouts.map((w) => (w.id === workoutId ? updated : w)));
+    } catch (err: any) {
+      console.error('Failed to update superset:', err);
+      alert(err.message || 'Failed to update superset. Please try again.');
+    }
+  };
+
+  const handleUpdateBlockRest = async (workoutId: string, blockId: string, restSeconds: number | undefined) => {
+    const workout = workouts.find((w) => w.id === workoutId);
+    if (!workout) return;
+
+    try {
+      const updated = await workoutsApi.update(workoutId, {
+        name: workout.name,
+        date: workout.date,
+        blocks: workout.blocks.map((b) => (b.id === blockId ? { ...b, restSeconds } : b)),
+      });
+      setWorkouts(workouts.map((w) => (w.id === workoutId ? updated : w)));
+    } catch (err: any) {
+      console.error('Failed to update block rest:', err);
+      alert(err.message || 'Failed to update block rest. Please try again.');
+    }
+  };
+
   const getTotalExerciseCount = (workout: Workout) => {
     return workout.blocks.reduce((total, block) => total + block.exercises.length, 0);
   };
@@ -572,7 +719,7 @@ export function WorkoutBuilder() {
           date: workout.date,
           blocks: workout.blocks.map((b) =>
             b.id === blockId
-              ? { ...b, exercises: arrayMove(b.exercises, oldIndex, newIndex) }
+              ? normalizeGroups({ ...b, exercises: arrayMove(b.exercises, oldIndex, newIndex) })
               : b
           ),
         });
@@ -703,12 +850,16 @@ export function WorkoutBuilder() {
                             onRemove={() => handleRemoveBlock(workout.id, block.id)}
                             exercises={block.exercises.map((e) => ({
                               id: e.id,
+                              exerciseId: e.exerciseId,
                               name: e.exerciseName,
                               exerciseName: e.exerciseName,
                               sets: e.sets,
                               reps: e.reps,
                               weight: e.weight,
+                              prescription: e.prescription,
                               videoUrl: e.videoUrl,
+                              groupId: e.groupId,
+                              restSeconds: e.restSeconds,
                             }))}
                             onExerciseEdit={(exercise) => {
                               setEditingExercise({ workoutId: workout.id, blockId: block.id, exercise });
@@ -721,6 +872,9 @@ export function WorkoutBuilder() {
                               setShowExerciseModal(true);
                             }}
                             onExerciseDragEnd={handleExerciseDragEnd}
+                            onToggleLink={(index) => handleToggleExerciseLink(workout.id, block.id, index)}
+                            onGroupChange={(groupId, changes) => handleUpdateExerciseGroup(workout.id, block.id, groupId, changes)}
+                            onRestChange={(restSeconds) => handleUpdateBlockRest(workout.id, block.id, restSeconds)}
                             activeExerciseId={activeExerciseId}
                             setActiveExerciseId={setActiveExerciseId}
                             isDraggingAny={isDraggingAny}
@@ -919,29 +1073,48 @@ function AddExerciseModal({ onAdd, onEdit, editingExercise, onClose }: AddExerci
   const [formData, setFormData] = useState({
     name: editingExercise?.exercise.name || editingExercise?.exercise.exerciseName || '',
     sets: editingExercise?.exercise.sets || 3,
-    reps: editingExercise?.exercise.reps || '8-10',
-    weight: editingExercise?.exercise.weight || '',
     videoUrl: editingExercise?.exercise.videoUrl || '',
   });
+  const [restSeconds, setRestSeconds] = useState(
+    editingExercise?.exercise.restSeconds !== undefined ? `${editingExercise.exercise.restSeconds}` : ''
+  );
+  const [prescription, setPrescription] = useState<ExercisePrescription>(() => {
+    if (!editingExercise) return { kind: 'range', repsMin: 8, repsMax: 10 };
+    const { exercise } = editingExercise;
+    // Keep unparseable legacy text visible as a note rather than dropping it
+    return getPrescription({ ...exercise, weight: exercise.weight || undefined })
+      || { kind: 'reps', note: [exercise.reps, exercise.weight].filter(Boolean).join(' ') };
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const prescriptionFields = toPrescriptionFields(prescription);
+    const rest = parseInt(restSeconds);
     if (editingExercise) {
+      const { exercise } = editingExercise;
+      const originalName = exercise.name || exercise.exerciseName || '';
       onEdit(editingExercise.workoutId, editingExercise.blockId, {
-        id: editingExercise.exercise.id,
+        id: exercise.id,
+        // A different name means a different exercise; the server relinks it by name
+        exerciseId: formData.name === originalName ? exercise.exerciseId : undefined,
+        groupId: exercise.groupId,
         ...formData,
+        ...prescriptionFields,
+        restSeconds: isNaN(rest) ? undefined : rest,
       });
     } else {
       onAdd({
         id: Date.now().toString(),
         ...formData,
+        ...prescriptionFields,
+        restSeconds: isNaN(rest) ? undefined : rest,
       });
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
-      <div className="bg-[#1B1B1E] border border-[#262626] rounded-lg p-6 w-full max-w-md">
+      <div className="bg-[#1B1B1E] border border-[#262626] rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <h3 className="text-white text-xl mb-4">{editingExercise ? 'Edit Exercise' : 'Add Exercise'}</h3>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -953,38 +1126,28 @@ function AddExerciseModal({ onAdd, onEdit, editingExercise, onClose }: AddExerci
               className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
             />
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-gray-400 mb-2">Sets</label>
-              <input
-                type="number"
-                value={formData.sets}
-                onChange={(e) => setFormData({ ...formData, sets: parseInt(e.target.value) })}
-                className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                required
-                min="1"
-              />
-            </div>
-            <div>
-              <label className="block text-gray-400 mb-2">Reps</label>
-              <input
-                type="text"
-                value={formData.reps}
-                onChange={(e) => setFormData({ ...formData, reps: e.target.value })}
-                className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-                placeholder="e.g., 8-10"
-                required
-              />
-            </div>
+          <div>
+            <label className="block text-gray-400 mb-2">Sets</label>
+            <input
+              type="number"
+              value={formData.sets}
+              onChange={(e) => setFormData({ ...formData, sets: parseInt(e.target.value) })}
+              className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
+              required
+              min="1"
+            />
           </div>
+          <PrescriptionEditor value={prescription} onChange={setPrescription} />
           <div>
-            <label className="block text-gray-400 mb-2">Weight</label>
+            <label className="block text-gray-400 mb-2">Rest between sets (seconds, optional)</label>
             <input
-              type="text"
-              value={formData.weight}
-              onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+              type="number"
+              value={restSeconds}
+              onChange={(e) => setRestSeconds(e.target.value)}
               className="w-full bg-black border border-zinc-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-[#F56E0F]"
-              placeholder="e.g., 185 lbs"
+              min="0"
+              step="15"
+              placeholder="Uses the block's rest if empty"
             />
           </div>
           <div>
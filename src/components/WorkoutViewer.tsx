@@ -6,14 +6,23 @@ import { NavigationState } from '../utils/navigation';
 import { ChevronLeft, Heart, Activity, Dumbbell, ChevronRight, CheckCircle2, Circle, PlayCircle } from 'lucide-react';
 import { SequenceLogoText } from './SequenceLogoText';
 import { LoadingScreen } from './LoadingScreen';
-import { workoutsApi, Workout } from '../utils/api';
+import { RestTimer } from './RestTimer';
+import { SyncIndicator } from './SyncIndicator';
+import { workoutsApi, athletesApi, Workout, ExercisePrescription, ExerciseGroup, AthleteMax } from '../utils/api';
+import { formatPrescriptionExtras, formatDuration } from '../utils/prescription';
+import { findCurrentMax, formatResolvedLoad } from '../utils/maxes';
+import { getExerciseLabels, getExerciseSegments, getGroupName } from '../utils/exerciseGroups';
 
 interface Exercise {
   id: string;
+  exerciseId?: string;
   exerciseName: string;
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
+  groupId?: string;
+  restSeconds?: number;
   status?: 'completed' | 'in-progress' | 'not-started';
 }
 
@@ -21,6 +30,8 @@ interface Block {
   id: string;
   name: string;
   exercises: Exercise[];
+  groups?: ExerciseGroup[];
+  restSeconds?: number;
 }
 
 interface Workout {
@@ -54,6 +65,8 @@ export function WorkoutViewer({ userId, onBack }: WorkoutViewerProps) {
     maxReps?: number;
   }>>({});
   
+  const [maxes, setMaxes] = useState<AthleteMax[]>([]);
+  
   // Track if we have initial data from navigation state
   const [hasInitialData, setHasInitialData] = useState(false);
 
@@ -133,6 +146,14 @@ export function WorkoutViewer({ userId, onBack }: WorkoutViewerProps) {
     }
   }, [workoutId, userId, loadCompletionStatus, hasInitialData]);
 
+  // Load the athlete's maxes so % 1RM loads show their own numbers (team workouts included)
+  useEffect(() => {
+    if (!userId) return;
+    athletesApi.getMaxes(userId)
+      .then(setMaxes)
+      .catch((err) => console.error('Failed to load maxes:', err));
+  }, [userId]);
+
   // Reload completion status when navigating back to workout (location change)
   // Removed visibility change and focus listeners - they cause unnecessary re-fetches
   // The completion status will be refreshed when navigating back naturally
@@ -241,6 +262,109 @@ export function WorkoutViewer({ userId, onBack }: WorkoutViewerProps) {
   ).length;
   const isWorkoutComplete = totalExercises > 0 && completedExercises === totalExercises;
 
+  const renderExerciseCard = (exercise: Exercise, blockIndex: number, label?: string) => {
+    const restSeconds = exercise.restSeconds ?? workout.blocks[blockIndex].restSeconds;
+    const exerciseStatus = completionStatus[exercise.id]?.status || exercise.status || 'not-started';
+    const statusData = completionStatus[exercise.id];
+    const resolvedLoad = exercise.prescription
+      ? formatResolvedLoad(exercise.prescription, findCurrentMax(maxes, exercise))
+      : null;
+    
+    return (
+      <div
+        key={exercise.id}
+        onClick={() => {
+          const token = searchParams.get('token');
+          const playerName = getPlayerFromUrl();
+          const url = playerName
+            ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(exercise.id)}`, playerName)
+            : token 
+              ? `/exercise/${workout.id}/${encodeURIComponent(exercise.id)}?token=${token}`
+              : `/exercise/${workout.id}/${encodeURIComponent(exercise.id)}`;
+          // Pass workout data via state to prevent flash
+          navigate(url, { state: { workout } });
+        }}
+        className={`
+          bg-[#1B1B1E] border ${getBlockBorderColor(blockIndex)}
+          rounded-xl p-4 cursor-pointer
+          transition-all duration-200
+          hover:border-[#F56E0F]/50 hover:shadow-lg hover:shadow-[#F56E0F]/10
+          hover:translate-y-[-2px]
+          ${exerciseStatus === 'in-progress' ? 'ring-2 ring-[#F56E0F]/30 border-[#F56E0F]/50' : ''}
+        `}
+      >
+        <div className="flex items-center gap-4">
+          {/* Status Indicator */}
+          <div className="flex-shrink-0">
+            {getStatusIndicator(exerciseStatus)}
+          </div>
+
+          {/* Exercise Icon */}
+          <div className={`
+            flex-shrink-0 w-12 h-12 rounded-lg 
+            ${exerciseStatus === 'in-progress' ? 'bg-[#F56E0F]/10 text-[#F56E0F]' : 'bg-black text-gray-500'}
+            flex items-center justify-center
+            border border-gray-800
+          `}>
+            {getStatusIcon(exercise)}
+          </div>
+
+          {/* Exercise Info */}
+          <div className="flex-1 min-w-0">
+            <h3 className={`
+              mb-1 truncate
+              ${exerciseStatus === 'in-progress' ? 'text-white' : 'text-gray-300'}
+            `}>
+              {label && <span className="text-[#F56E0F] mr-2">{label}</span>}
+              {exercise.exerciseName}
+            </h3>
+            <p className="text-gray-500 text-sm">
+              {formatSetsReps(exercise, statusData)}
+              {exercise.weight && ` @ ${resolvedLoad ? `${resolvedLoad} (${exercise.weight})` : exercise.weight}`}
+              {exercise.prescription && formatPrescriptionExtras(exercise.prescription) && (
+                ` · ${formatPrescriptionExtras(exercise.prescription)}`
+              )}
+              {restSeconds ? ` · ${formatDuration(restSeconds)} rest` : ''}
+            </p>
+          </div>
+
+          {/* Chevron */}
+          <div className="flex-shrink-0">
+            <ChevronRight className="w-5 h-5 text-gray-600" />
+          </div>
+        </div>
+
+        {/* Set Progress Indicators */}
+        {(statusData?.totalSets || exercise.sets) > 0 && (
+          <div className="mt-3 pt-3 border-t border-gray-800">
+            <div className="flex items-center gap-2">
+              {Array.from({ length: statusData?.totalSets || exercise.sets }, (_, index) => {
+                const setNumber = index + 1;
+                const completedSets = statusData?.completedSets || 0;
+                const isCompleted = setNumber <= completedSets;
+                
+                return (
+                  <div
+                    key={setNumber}
+                    className={`h-2 rounded-full transition-all ${
+                      isCompleted
+                        ? 'bg-gradient-to-r from-[#F56E0F] to-orange-500'
+                        : 'bg-gray-700'
+                    }`}
+                    style={{
+                      width: '100%',
+                      flex: '1 1 0%',
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -312,118 +436,45 @@ export function WorkoutViewer({ userId, onBack }: WorkoutViewerProps) {
       {/* Exercise List */}
       <div>
         <div className="max-w-3xl mx-auto px-4 py-6 space-y-8">
-          {workout.blocks.map((block, blockIndex) => (
-            <div key={block.id} className="space-y-3">
-              {/* Block Header */}
-              <div className="flex items-center gap-3 mb-4">
-                <div className={`px-4 py-1.5 ${getBlockColor(blockIndex)} rounded-full`}>
-                  <span className="text-black uppercase tracking-wider text-sm">
-                    {block.name}
-                  </span>
+          {workout.blocks.map((block, blockIndex) => {
+            const exerciseLabels = getExerciseLabels(block);
+            return (
+              <div key={block.id} className="space-y-3">
+                {/* Block Header */}
+                <div className="flex items-center gap-3 mb-4">
+                  <div className={`px-4 py-1.5 ${getBlockColor(blockIndex)} rounded-full`}>
+                    <span className="text-black uppercase tracking-wider text-sm">
+                      {block.name}
+                    </span>
+                  </div>
+                  <div className="flex-1 h-px bg-gradient-to-r from-gray-700 to-transparent"></div>
                 </div>
-                <div className="flex-1 h-px bg-gradient-to-r from-gray-700 to-transparent"></div>
-              </div>
-
-              {/* Exercise Cards */}
-              <div className="space-y-3">
-                {block.exercises.map((exercise) => {
-                  const exerciseStatus = completionStatus[exercise.exerciseName]?.status || exercise.status || 'not-started';
-                  const statusData = completionStatus[exercise.exerciseName];
-                  
-                  return (
-                    <div
-                      key={exercise.id}
-                      onClick={() => {
-                        const token = searchParams.get('token');
-                        const playerName = getPlayerFromUrl();
-                        const url = playerName
-                          ? addPlayerToUrl(`/exercise/${workout.id}/${encodeURIComponent(exercise.exerciseName)}`, playerName)
-                          : token 
-                            ? `/exercise/${workout.id}/${encodeURIComponent(exercise.exerciseName)}?token=${token}`
-                            : `/exercise/${workout.id}/${encodeURIComponent(exercise.exerciseName)}`;
-                        // Pass workout data via state to prevent flash
-                        navigate(url, { state: { workout } });
-                      }}
-                      className={`
-                        bg-[#1B1B1E] border ${getBlockBorderColor(blockIndex)}
-                        rounded-xl p-4 cursor-pointer
-                        transition-all duration-200
-                        hover:border-[#F56E0F]/50 hover:shadow-lg hover:shadow-[#F56E0F]/10
-                        hover:translate-y-[-2px]
-                        ${exerciseStatus === 'in-progress' ? 'ring-2 ring-[#F56E0F]/30 border-[#F56E0F]/50' : ''}
-                      `}
-                    >
-                      <div className="flex items-center gap-4">
-                        {/* Status Indicator */}
-                        <div className="flex-shrink-0">
-                          {getStatusIndicator(exerciseStatus)}
-                        </div>
 
-                        {/* Exercise Icon */}
-                        <div className={`
-                          flex-shrink-0 w-12 h-12 rounded-lg 
-                          ${exerciseStatus === 'in-progress' ? 'bg-[#F56E0F]/10 text-[#F56E0F]' : 'bg-black text-gray-500'}
-                          flex items-center justify-center
-                          border border-gray-800
-                        `}>
-                          {getStatusIcon(exercise)}
-                        </div>
-
-                        {/* Exercise Info */}
-                        <div className="flex-1 min-w-0">
-                          <h3 className={`
-                            mb-1 truncate
-                            ${exerciseStatus === 'in-progress' ? 'text-white' : 'text-gray-300'}
-                          `}>
-                            {exercise.exerciseName}
-                          </h3>
-                          <p className="text-gray-500 text-sm">
-                            {formatSetsReps(exercise, statusData)}
-                            {exercise.weight && ` @ ${exercise.weight}`}
-                          </p>
-                        </div>
-
-                        {/* Chevron */}
-                        <div className="flex-shrink-0">
-                          <ChevronRight className="w-5 h-5 text-gray-600" />
-                        </div>
+                {/* Exercise Cards (supersets/circuits are grouped with lettered labels) */}
+                <div className="space-y-3">
+                  {getExerciseSegments(block).map((segment) => {
+                    if (!segment.group) {
+                      return renderExerciseCard(segment.exercises[0], blockIndex, exerciseLabels[segment.exercises[0].id]);
+                    }
+                    return (
+                      <div key={segment.group.id} className="border-l-2 border-[#F56E0F]/50 pl-3 space-y-2">
+                        <p className="text-xs text-[#F56E0F] uppercase tracking-wider">
+                          {getGroupName(segment.group, segment.exercises.length)} · {segment.group.rounds} round{segment.group.rounds !== 1 ? 's' : ''}
+                          {segment.group.restBetweenRounds ? ` · ${segment.group.restBetweenRounds}s rest between rounds` : ''}
+                        </p>
+                        {segment.exercises.map((exercise) => renderExerciseCard(exercise, blockIndex, exerciseLabels[exercise.id]))}
                       </div>
-
-                      {/* Set Progress Indicators */}
-                      {(statusData?.totalSets || exercise.sets) > 0 && (
-                        <div className="mt-3 pt-3 border-t border-gray-800">
-                          <div className="flex items-center gap-2">
-                            {Array.from({ length: statusData?.totalSets || exercise.sets }, (_, index) => {
-                              const setNumber = index + 1;
-                              const completedSets = statusData?.completedSets || 0;
-                              const isCompleted = setNumber <= completedSets;
-                              
-                              return (
-                                <div
-                                  key={setNumber}
-                                  className={`h-2 rounded-full transition-all ${
-                                    isCompleted
-                                      ? 'bg-gradient-to-r from-[#F56E0F] to-orange-500'
-                                      : 'bg-gray-700'
-                                  }`}
-                                  style={{
-                                    width: '100%',
-                                    flex: '1 1 0%',
-                                  }}
-                                />
-                              );
-                            })}
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+                    );
+                  })}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
+
+      <RestTimer />
+      <SyncIndicator />
     </motion.div>
   );
 }
\ No newline at end of file
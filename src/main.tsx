@@ -5,4 +5,13 @@
   import "./styles/globals.css";
 
   createRoot(document.getElementById("root")!).render(<App />);
+
+  // Offline support for the installed app (dev builds skip it so HMR isn't served stale files)
+  if ("serviceWorker" in navigator && import.meta.env.PROD) {
+    window.addEventListener("load", () => {
+      navigator.serviceWorker.register("/sw.js").catch((err) => {
+        console.error("Service worker registration failed:", err);
+      });
+    });
+  }
   
\ No newline at end of file
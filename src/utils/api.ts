@@ -1,3 +1,7 @@
+import { getCachedResponse, putCachedResponse } from './offlineStore';
+import { queueWrite } from './syncQueue';
+import { getAuthHeaders } from './auth';
+
 // In production, use relative URLs (same origin as frontend)
 // In development, use VITE_API_URL or default to localhost
 const getApiBaseUrl = () => {
@@ -24,22 +28,114 @@ export interface Athlete {
   name: string;
   email: string;
   createdAt?: string;
-  loginToken?: string;
+  hasPin?: boolean; // their name link asks for a PIN
+}
+
+// An athlete's login link. Only the active one carries its token; older ones stay listed as a log.
+export interface LoginLink {
+  token?: string;
+  tokenPreview: string;
+  singleUse: boolean; // a magic link: works once, then the device keeps a longer session
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  status: 'active' | 'used' | 'expired' | 'revoked';
+}
+
+export type PrescriptionKind = 'reps' | 'range' | 'scheme' | 'amrap' | 'time' | 'distance';
+export type LoadUnit = 'lb' | 'kg';
+export type DistanceUnit = 'm' | 'yd' | 'km' | 'mi';
+
+// Structured prescription for a workout exercise. The reps/weight text on
+// WorkoutExercise is kept as a formatted summary for older clients.
+export interface ExercisePrescription {
+  kind: PrescriptionKind;
+  reps?: number; // kind 'reps'
+  repsMin?: number; // kind 'range'
+  repsMax?: number;
+  scheme?: number[]; // kind 'scheme': reps per set (5/3/1, pyramids)
+  seconds?: number; // kind 'time'
+  distance?: number; // kind 'distance'
+  distanceUnit?: DistanceUnit;
+  loadType?: 'weight' | 'percent1RM';
+  load?: number; // same load for every set
+  setLoads?: number[]; // per-set loads (overrides load)
+  unit?: LoadUnit;
+  rpe?: number;
+  rir?: number;
+  tempo?: string; // e.g. 3-1-1-0
+  note?: string; // anything that didn't fit the structure (e.g. "each side", "BW")
+  progression?: ProgressionRule; // week-over-week change when scheduled through a program
+}
+
+// How a prescription changes each week of a program (load values are in the prescription's
+// unit, or percentage points for % 1RM loads)
+export type ProgressionRule =
+  | { type: 'load'; increment: number } // +increment every week
+  | { type: 'reps'; ceiling: number; increment: number } // +1 rep a week up to ceiling, then +increment and back to the starting reps
+  | { type: 'wave'; percents: number[]; increment?: number }; // cycle through percents, +increment after each wave
+
+// Every Nth week of a program is a deload: loads and sets cut to the given percentages
+export interface DeloadRule {
+  every: number;
+  loadPercent: number;
+  setsPercent: number;
 }
 
 export interface WorkoutExercise {
   id: string;
+  exerciseId?: string; // exercise library ID; unset for custom exercises not in the library
   exerciseName: string;
   sets: number;
   reps: string;
   weight?: string;
+  prescription?: ExercisePrescription;
+  groupId?: string; // ExerciseGroup.id within the block (superset/circuit)
+  restSeconds?: number; // rest between sets; falls back to the block's
   videoUrl?: string;
 }
 
+// Superset/circuit grouping of consecutive exercises within a block
+export interface ExerciseGroup {
+  id: string;
+  type: 'superset' | 'circuit';
+  rounds: number;
+  restBetweenRounds?: number; // seconds
+}
+
 export interface Block {
   id: string;
   name: string;
   exercises: WorkoutExercise[];
+  groups?: ExerciseGroup[];
+  restSeconds?: number; // default rest between sets for the block's exercises
+}
+
+// A logged set for an athlete
+export interface ExerciseSet {
+  set: number;
+  weight: string;
+  reps: string;
+  completed: boolean;
+  restSeconds?: number; // actual rest taken before this set
+  rpe?: number; // 6-10 in half steps
+  rir?: number; // reps in reserve
+}
+
+// Per-exercise status of an athlete's workout, keyed by block-exercise ID
+export interface ExerciseCompletionStatus {
+  status: 'completed' | 'in-progress' | 'not-started';
+  completedSets: number;
+  totalSets: number;
+  sets?: ExerciseSet[]; // what was logged (shown to coaches)
+  notes?: string; // the athlete's notes on the exercise
+}
+
+// One workout's completion for an athlete, from the batched completion-status request
+export interface WorkoutCompletionStatus {
+  completed: boolean; // every exercise has all of its logged sets completed
+  exercises: Record<string, ExerciseCompletionStatus>; // keyed by block-exercise ID
 }
 
 export interface Workout {
@@ -56,10 +152,181 @@ export interface Team {
   name: string;
   description: string;
   createdAt: string;
+  nameLoginEnabled?: boolean; // false when the team's athletes can't sign in with name links
   athletes: Athlete[];
   workouts: any[];
 }
 
+// A training day in a program, pointing at a template workout (week and day are 1-based)
+export interface ProgramDay {
+  week: number;
+  day: number;
+  workoutId: string;
+}
+
+// A multi-week program: weeks x daysPerWeek training days; days without an entry are empty
+export interface Program {
+  id: string;
+  name: string;
+  description?: string;
+  weeks: number;
+  daysPerWeek: number;
+  days: ProgramDay[];
+  deload?: DeloadRule;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProgramAssignment {
+  id: string;
+  programId: string;
+  athleteId?: string;
+  teamId?: string;
+  startDate: string;
+  weekdays: number[]; // weekday (0 = Sunday) for each training day, in day order
+  workoutIds: string[]; // workouts created for the assignment
+}
+
+// A dated 1RM for one exercise; the newest entry per exercise is the athlete's current max
+export interface AthleteMax {
+  id: string;
+  athleteId: string;
+  exerciseId?: string; // Exercise.id in the library, when the exercise is in it
+  exerciseName: string;
+  value: number;
+  unit: LoadUnit;
+  type: 'tested' | 'estimated';
+  date: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+export type AthleteMaxInput = Pick<AthleteMax, 'exerciseName' | 'value' | 'unit' | 'type' | 'date'> & {
+  exerciseId?: string;
+};
+
+// A personal record set by a logged set. value is the weight lifted for rep maxes and the
+// estimated 1RM for e1RM; previousValue is the best it beat.
+export interface PersonalRecord {
+  id: string;
+  athleteId: string;
+  exerciseId?: string;
+  exerciseName: string;
+  type: '1RM' | '3RM' | '5RM' | 'e1RM';
+  value: number;
+  previousValue?: number;
+  weight: number;
+  reps: number;
+  formula?: 'epley' | 'brzycki'; // e1RM only
+  workoutId: string;
+  blockExerciseId: string;
+  setNumber: number;
+  date: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+// One earlier session of an exercise ("last time"): the completed sets of a workout exercise
+export interface ExerciseHistorySession {
+  workoutId: string;
+  workoutName: string;
+  blockExerciseId: string;
+  exerciseName: string;
+  date: string; // YYYY-MM-DD
+  sets: ExerciseSet[];
+}
+
+export type WellnessQuestion = 'sleepHours' | 'sleepQuality' | 'soreness' | 'stress' | 'mood' | 'energy' | 'painLocation';
+
+// Daily check-in answers; scale questions are 1-5
+export interface WellnessAnswers {
+  sleepHours?: number;
+  sleepQuality?: number;
+  soreness?: number; // 5 = very sore
+  stress?: number; // 5 = very stressed
+  mood?: number;
+  energy?: number;
+  painLocation?: string;
+}
+
+export interface WellnessCheckin extends WellnessAnswers {
+  id: string;
+  athleteId: string;
+  date: string; // YYYY-MM-DD
+  readiness?: number; // 0-100, computed by the server
+  lowReadiness: boolean; // readiness below the threshold or pain reported
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A team's check-ins for one day, for the coach grid
+export interface TeamWellness {
+  date: string;
+  questions: WellnessQuestion[];
+  athletes: Array<{ athleteId: string; athleteName: string; checkin?: WellnessCheckin }>;
+}
+
+// Given by the athlete on the completion sheet
+export interface SessionFeedback {
+  sessionRpe: number; // CR-10 scale, 0-10
+  durationMinutes?: number;
+  comment?: string;
+}
+
+// A completed workout with its session feedback; load = session RPE x duration (sRPE method)
+export interface WorkoutSession extends Partial<SessionFeedback> {
+  workoutId: string;
+  athleteId: string;
+  workoutName: string;
+  date: string; // YYYY-MM-DD
+  completedAt: string;
+  load?: number;
+}
+
+// One day's training load from session feedback (sRPE x minutes) and completed sets (weight x reps)
+export interface DailyLoad {
+  date: string; // YYYY-MM-DD
+  sessionLoad: number;
+  tonnage: number;
+}
+
+export interface TeamLoad {
+  from: string;
+  to: string;
+  athletes: Array<{ athleteId: string; athleteName: string; days: DailyLoad[] }>;
+}
+
+// How much of an assigned workout the athlete did. Completed sets are capped at the prescribed sets.
+export interface WorkoutCompliance {
+  workoutId: string;
+  workoutName: string;
+  date: string; // YYYY-MM-DD
+  status: 'completed' | 'partial' | 'missed' | 'upcoming';
+  prescribedSets: number;
+  completedSets: number;
+}
+
+// Over the workouts that are due (past, or already started); percentages are undefined when none are
+export interface ComplianceSummary {
+  assigned: number;
+  due: number;
+  completed: number;
+  partial: number;
+  missed: number;
+  prescribedSets: number;
+  completedSets: number;
+  workoutCompliance?: number;
+  setCompliance?: number;
+}
+
+export interface AthleteCompliance extends ComplianceSummary {
+  workouts: WorkoutCompliance[];
+}
+
+export interface TeamCompliance {
+  from: string;
+  to: string;
+  athletes: Array<ComplianceSummary & { athleteId: string; athleteName: string }>;
+}
+
 // Generic fetch wrapper
 async function apiRequest<T>(
   endpoint: string,
@@ -71,6 +338,7 @@ async function apiRequest<T>(
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...getAuthHeaders(),
       ...options.headers,
     },
   });
@@ -88,10 +356,26 @@ async function apiRequest<T>(
   return response.json();
 }
 
+// GET for data the athlete app needs without a connection: the last response is kept in
+// IndexedDB and returned when the request can't reach the server
+async function cachedRequest<T>(endpoint: string): Promise<T> {
+  try {
+    const data = await apiRequest<T>(endpoint);
+    putCachedResponse(endpoint, data).catch(() => {});
+    return data;
+  } catch (err) {
+    // fetch rejects with a TypeError on network failure; HTTP errors are passed through
+    if (!(err instanceof TypeError)) throw err;
+    const cached = await getCachedResponse<T>(endpoint).catch(() => undefined);
+    if (cached === undefined) throw err;
+    return cached;
+  }
+}
+
 // Exercises API
 export const exercisesApi = {
-  getAll: () => apiRequest<Exercise[]>('/exercises'),
-  getById: (id: string) => apiRequest<Exercise>(`/exercises/${id}`),
+  getAll: () => cachedRequest<Exercise[]>('/exercises'),
+  getById: (id: string) => cachedRequest<Exercise>(`/exercises/${id}`),
   create: (exercise: Omit<Exercise, 'id'>) => 
     apiRequest<Exercise>('/exercises', {
       method: 'POST',
@@ -117,7 +401,8 @@ export const athletesApi = {
       method: 'POST',
       body: JSON.stringify(athlete),
     }),
-  update: (id: string, athlete: Partial<Athlete & { password?: string }>) =>
+  // pin sets the athlete's name-link PIN (4-8 digits); null removes it
+  update: (id: string, athlete: Partial<Omit<Athlete, 'hasPin'> & { password?: string; pin?: string | null }>) =>
     apiRequest<Athlete>(`/athletes/${id}`, {
       method: 'PUT',
       body: JSON.stringify(athlete),
@@ -126,6 +411,70 @@ export const athletesApi = {
     apiRequest<void>(`/athletes/${id}`, {
       method: 'DELETE',
     }),
+  getMaxes: (athleteId: string) => cachedRequest<AthleteMax[]>(`/athletes/${athleteId}/maxes`),
+  createMax: (athleteId: string, max: AthleteMaxInput) =>
+    apiRequest<AthleteMax>(`/athletes/${athleteId}/maxes`, {
+      method: 'POST',
+      body: JSON.stringify(max),
+    }),
+  updateMax: (athleteId: string, maxId: string, max: AthleteMaxInput) =>
+    apiRequest<AthleteMax>(`/athletes/${athleteId}/maxes/${maxId}`, {
+      method: 'PUT',
+      body: JSON.stringify(max),
+    }),
+  deleteMax: (athleteId: string, maxId: string) =>
+    apiRequest<void>(`/athletes/${athleteId}/maxes/${maxId}`, {
+      method: 'DELETE',
+    }),
+  getLoginLinks: (athleteId: string) => apiRequest<LoginLink[]>(`/athletes/${athleteId}/login-links`),
+  // Issues a new link; the athlete's previous one stops working
+  regenerateLoginLink: (athleteId: string, options: { singleUse?: boolean; expiresInDays?: number } = {}) =>
+    apiRequest<LoginLink>(`/athletes/${athleteId}/login-link`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }),
+  revokeLoginLink: (athleteId: string) =>
+    apiRequest<void>(`/athletes/${athleteId}/login-link`, {
+      method: 'DELETE',
+    }),
+  getRecords: (athleteId: string, workoutId?: string) =>
+    cachedRequest<PersonalRecord[]>(
+      `/athletes/${athleteId}/records${workoutId ? `?workoutId=${workoutId}` : ''}`
+    ),
+  getExerciseHistory: (
+    athleteId: string,
+    exercise: { exerciseId?: string; exerciseName: string },
+    options?: { excludeWorkoutId?: string; limit?: number }
+  ) => {
+    const params = new URLSearchParams();
+    if (exercise.exerciseId) params.append('exerciseId', exercise.exerciseId);
+    params.append('exerciseName', exercise.exerciseName);
+    if (options?.excludeWorkoutId) params.append('excludeWorkoutId', options.excludeWorkoutId);
+    if (options?.limit) params.append('limit', String(options.limit));
+    return cachedRequest<ExerciseHistorySession[]>(`/athletes/${athleteId}/history?${params.toString()}`);
+  },
+  getWellness: (athleteId: string, range?: { from?: string; to?: string }) => {
+    const params = new URLSearchParams();
+    if (range?.from) params.append('from', range.from);
+    if (range?.to) params.append('to', range.to);
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return cachedRequest<WellnessCheckin[]>(`/athletes/${athleteId}/wellness${query}`);
+  },
+  getWellnessQuestions: (athleteId: string) =>
+    cachedRequest<WellnessQuestion[]>(`/athletes/${athleteId}/wellness/questions`),
+  saveWellness: (athleteId: string, checkin: WellnessAnswers & { date: string }) =>
+    queueWrite<WellnessCheckin>(`${API_BASE_URL}/athletes/${athleteId}/wellness`, 'POST', checkin),
+  getSessions: (athleteId: string, range?: { from?: string; to?: string }) => {
+    const params = new URLSearchParams();
+    if (range?.from) params.append('from', range.from);
+    if (range?.to) params.append('to', range.to);
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return apiRequest<WorkoutSession[]>(`/athletes/${athleteId}/sessions${query}`);
+  },
+  getLoad: (athleteId: string, from: string, to: string) =>
+    apiRequest<DailyLoad[]>(`/athletes/${athleteId}/load?from=${from}&to=${to}`),
+  getCompliance: (athleteId: string, from: string, to: string) =>
+    apiRequest<AthleteCompliance>(`/athletes/${athleteId}/compliance?from=${from}&to=${to}`),
 };
 
 // Workouts API
@@ -136,9 +485,9 @@ export const workoutsApi = {
     if (filters?.teamId) params.append('teamId', filters.teamId);
     if (filters?.templatesOnly) params.append('templatesOnly', 'true');
     const query = params.toString() ? `?${params.toString()}` : '';
-    return apiRequest<Workout[]>(`/workouts${query}`);
+    return cachedRequest<Workout[]>(`/workouts${query}`);
   },
-  getById: (id: string) => apiRequest<Workout>(`/workouts/${id}`),
+  getById: (id: string) => cachedRequest<Workout>(`/workouts/${id}`),
   create: (workout: Omit<Workout, 'id'>) =>
     apiRequest<Workout>('/workouts', {
       method: 'POST',
@@ -153,40 +502,52 @@ export const workoutsApi = {
     apiRequest<void>(`/workouts/${id}`, {
       method: 'DELETE',
     }),
-  saveExerciseSets: (
+  saveExerciseSets: async (
     workoutId: string,
     exerciseId: string,
     athleteId: string,
-    sets: Array<{ set: number; weight: string; reps: string; completed: boolean }>
-  ) =>
-    apiRequest<{ success: boolean }>(`/workouts/${workoutId}/exercises/${exerciseId}/sets`, {
-      method: 'POST',
-      body: JSON.stringify({ athleteId, sets }),
-    }),
+    sets: ExerciseSet[]
+  ): Promise<{ success: boolean; records?: PersonalRecord[]; queued?: boolean }> => {
+    const endpoint = `/workouts/${workoutId}/exercises/${exerciseId}/sets`;
+    // Update the cached copy first so the sets are there offline before they've synced
+    await putCachedResponse(`${endpoint}?athleteId=${athleteId}`, sets).catch(() => {});
+    return queueWrite(`${API_BASE_URL}${endpoint}`, 'POST', { athleteId, sets });
+  },
   getExerciseSets: (workoutId: string, exerciseId: string, athleteId: string) =>
-    apiRequest<Array<{ set: number; weight: string; reps: string; completed: boolean }>>(
+    cachedRequest<ExerciseSet[]>(
       `/workouts/${workoutId}/exercises/${exerciseId}/sets?athleteId=${athleteId}`
     ),
+  // Per-exercise completion, keyed by block-exercise ID
   getCompletionStatus: (workoutId: string, athleteId: string) =>
-    apiRequest<Record<string, { status: 'completed' | 'in-progress' | 'not-started'; completedSets: number; totalSets: number }>>(
+    cachedRequest<Record<string, ExerciseCompletionStatus>>(
       `/workouts/${workoutId}/completion?athleteId=${athleteId}`
     ),
   getCompletions: (athleteId: string) =>
-    apiRequest<Record<string, boolean>>(
+    cachedRequest<Record<string, boolean>>(
       `/workouts?completions=true&athleteId=${athleteId}`
     ),
-  saveExerciseNotes: (
+  // Completion of many workouts in one request: those in a date range (default: all assigned) or a list of IDs
+  getCompletionStatuses: (athleteId: string, filters?: { from?: string; to?: string; workoutIds?: string[] }) => {
+    const params = new URLSearchParams({ completionStatus: 'true', athleteId });
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+    if (filters?.workoutIds) params.append('workoutIds', filters.workoutIds.join(','));
+    return cachedRequest<Record<string, WorkoutCompletionStatus>>(`/workouts?${params.toString()}`);
+  },
+  saveExerciseNotes: async (
     workoutId: string,
     exerciseId: string,
     athleteId: string,
     notes: string
-  ) =>
-    apiRequest<{ success: boolean }>(`/workouts/${workoutId}/exercises/${exerciseId}/notes`, {
-      method: 'POST',
-      body: JSON.stringify({ athleteId, notes }),
-    }),
+  ): Promise<{ success: boolean; queued?: boolean }> => {
+    const endpoint = `/workouts/${workoutId}/exercises/${exerciseId}/notes`;
+    await putCachedResponse(`${endpoint}?athleteId=${athleteId}`, { notes }).catch(() => {});
+    return queueWrite(`${API_BASE_URL}${endpoint}`, 'POST', { athleteId, notes });
+  },
+  saveSessionFeedback: (workoutId: string, athleteId: string, feedback: SessionFeedback) =>
+    queueWrite<WorkoutSession>(`${API_BASE_URL}/workouts/${workoutId}/feedback`, 'POST', { athleteId, ...feedback }),
   getExerciseNotes: (workoutId: string, exerciseId: string, athleteId: string) =>
-    apiRequest<{ notes: string }>(
+    cachedRequest<{ notes: string }>(
       `/workouts/${workoutId}/exercises/${exerciseId}/notes?athleteId=${athleteId}`
     ),
 };
@@ -218,4 +579,97 @@ export const teamsApi = {
     apiRequest<void>(`/teams/${teamId}/athletes?athleteId=${athleteId}`, {
       method: 'DELETE',
     }),
+  getWellness: (teamId: string, date: string) =>
+    apiRequest<TeamWellness>(`/teams/${teamId}/wellness?date=${date}`),
+  getLoad: (teamId: string, from: string, to: string) =>
+    apiRequest<TeamLoad>(`/teams/${teamId}/load?from=${from}&to=${to}`),
+  getCompliance: (teamId: string, from: string, to: string) =>
+    apiRequest<TeamCompliance>(`/teams/${teamId}/compliance?from=${from}&to=${to}`),
+  setWellnessQuestions: (teamId: string, questions: WellnessQuestion[]) =>
+    apiRequest<WellnessQuestion[]>(`/teams/${teamId}/wellness/questions`, {
+      method: 'PUT',
+      body: JSON.stringify({ questions }),
+    }),
+};
+
+// Programs API
+export const programsApi = {
+  getAll: () => apiRequest<Program[]>('/programs'),
+  getById: (id: string) => apiRequest<Program>(`/programs/${id}`),
+  create: (program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>) =>
+    apiRequest<Program>('/programs', {
+      method: 'POST',
+      body: JSON.stringify(program),
+    }),
+  update: (id: string, program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>) =>
+    apiRequest<Program>(`/programs/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(program),
+    }),
+  delete: (id: string) =>
+    apiRequest<void>(`/programs/${id}`, {
+      method: 'DELETE',
+    }),
+  // Creates the program's dated workouts for the athlete or team
+  assign: (id: string, assignment: Omit<ProgramAssignment, 'id' | 'programId' | 'workoutIds'>) =>
+    apiRequest<ProgramAssignment>(`/programs/${id}/assign`, {
+      method: 'POST',
+      body: JSON.stringify(assignment),
+    }),
+};
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email?: string;
+  role: 'admin' | 'user';
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  token: string;
+}
+
+// Auth API - coach accounts and the signed-in session
+export const authApi = {
+  coachLogin: (email: string, password: string) =>
+    apiRequest<AuthSession>('/auth/coach-login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    }),
+  athleteLogin: (email: string, password: string) =>
+    apiRequest<AuthSession>('/auth/athlete-login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    }),
+  // hasPassword and canSetPassword are only set for athletes. Only sessions from a login link or a
+  // password can set a first password.
+  me: () => apiRequest<{ user: AuthUser; hasPassword?: boolean; canSetPassword?: boolean }>('/auth/me'),
+  // The signed-in athlete sets their password; changing one needs the current password. Their other
+  // sessions end, and the response carries a new token for this one.
+  setPassword: (passwords: { currentPassword?: string; newPassword: string }) =>
+    apiRequest<AuthSession>('/auth/password', {
+      method: 'PUT',
+      body: JSON.stringify(passwords),
+    }),
+  // Emails a reset code if an athlete uses this email; the response is the same either way
+  requestPasswordReset: (email: string) =>
+    apiRequest<{ message: string }>('/auth/password/reset', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }),
+  confirmPasswordReset: (reset: { email: string; code: string; newPassword: string }) =>
+    apiRequest<AuthSession>('/auth/password/reset/confirm', {
+      method: 'POST',
+      body: JSON.stringify(reset),
+    }),
+  // Whether the first coach account still needs to be created
+  getSetupStatus: () => apiRequest<{ needsSetup: boolean }>('/auth/coaches'),
+  // The first coach (first-run setup, with the server's COACH_SETUP_SECRET as setupSecret) is signed
+  // in straight away and gets a token; later coaches don't
+  createCoach: (coach: { name: string; email: string; password: string; setupSecret?: string }) =>
+    apiRequest<{ user: AuthUser; token?: string }>('/auth/coaches', {
+      method: 'POST',
+      body: JSON.stringify(coach),
+    }),
 };
@@ -0,0 +1,56 @@
+/**
+ * The session token issued at sign-in (coach email/password or an athlete's login link). Kept on
+ * this device and sent as a Bearer token with every API request; the server decides what it may do.
+ */
+
+const TOKEN_KEY = 'sequence_auth_token';
+
+// Kept in memory too, so requests still carry it when storage is unavailable
+let currentToken: string | null = null;
+
+export function getAuthToken(): string | null {
+  if (currentToken) return currentToken;
+  try {
+    currentToken = localStorage.getItem(TOKEN_KEY);
+  } catch {
+    // Storage unavailable - only the in-memory token is used
+  }
+  return currentToken;
+}
+
+export function setAuthToken(token: string) {
+  currentToken = token;
+  try {
+    localStorage.setItem(TOKEN_KEY, token);
+  } catch {
+    // Storage unavailable - signed in until the page is reloaded
+  }
+}
+
+export function clearAuthToken() {
+  currentToken = null;
+  try {
+    localStorage.removeItem(TOKEN_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
+
+// Authorization header for the current session, if signed in
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// The signed-in user's ID from the session token, or null. Not verified here; it only keeps each
+// user's offline data on this device apart (see offlineStore).
+export function getSessionUserId(): string | null {
+  const payload = getAuthToken()?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
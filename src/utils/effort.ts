@@ -0,0 +1,28 @@
+import { ExerciseSet } from './api';
+
+/**
+ * Optional effort logged per set: RPE (rate of perceived exertion) and RIR (reps in reserve)
+ */
+
+export const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+export const RIR_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+/**
+ * Effort text for a set (e.g. "RPE 8 · 2 RIR"), or '' when none was logged
+ */
+export function formatSetEffort(set: Pick<ExerciseSet, 'rpe' | 'rir'>): string {
+  const parts: string[] = [];
+  if (set.rpe !== undefined && set.rpe !== null) parts.push(`RPE ${set.rpe}`);
+  if (set.rir !== undefined && set.rir !== null) parts.push(`${set.rir} RIR`);
+  return parts.join(' · ');
+}
+
+/**
+ * Compact text for a logged set (e.g. "185×5 @8", "185×5 2 RIR")
+ */
+export function formatLoggedSet(set: ExerciseSet): string {
+  let text = `${set.weight || '—'}×${set.reps || '—'}`;
+  if (set.rpe !== undefined && set.rpe !== null) text += ` @${set.rpe}`;
+  if (set.rir !== undefined && set.rir !== null) text += ` ${set.rir} RIR`;
+  return text;
+}
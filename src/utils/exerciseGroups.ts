@@ -0,0 +1,230 @@
+import { ExerciseGroup } from './api';
+
+/**
+ * Helper functions for supersets/circuits (exercise groups within a block)
+ */
+
+interface GroupableExercise {
+  id: string;
+  groupId?: string;
+  sets?: number;
+}
+
+interface GroupableBlock<E extends GroupableExercise> {
+  exercises: E[];
+  groups?: ExerciseGroup[];
+}
+
+const DEFAULT_REST_BETWEEN_ROUNDS = 90;
+
+function createGroupId(): string {
+  return `group_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+}
+
+/**
+ * Get the group an exercise belongs to, if it's a valid group in the block
+ */
+export function getExerciseGroup<E extends GroupableExercise>(block: GroupableBlock<E>, exercise: E): ExerciseGroup | undefined {
+  if (!exercise.groupId) return undefined;
+  return (block.groups || []).find((g) => g.id === exercise.groupId);
+}
+
+/**
+ * Get the exercises grouped with the given one (in block order), or [] if it isn't grouped
+ */
+export function getGroupMembers<E extends GroupableExercise>(block: GroupableBlock<E>, exerciseId: string): E[] {
+  const exercise = block.exercises.find((e) => e.id === exerciseId);
+  if (!exercise || !getExerciseGroup(block, exercise)) return [];
+  return block.exercises.filter((e) => e.groupId === exercise.groupId);
+}
+
+/**
+ * Keep each group to a single contiguous run of at least two exercises and drop unused groups
+ */
+export function normalizeGroups<E extends GroupableExercise, B extends GroupableBlock<E>>(block: B): B {
+  const groupIds = new Set((block.groups || []).map((g) => g.id));
+  const seenRuns = new Set<string>();
+
+  // Exercises in a second run of the same group (e.g. after reordering) leave the group
+  let exercises = block.exercises.map((exercise, index) => {
+    if (!exercise.groupId || !groupIds.has(exercise.groupId)) {
+      return exercise.groupId ? { ...exercise, groupId: undefined } : exercise;
+    }
+    const startsRun = index === 0 || block.exercises[index - 1].groupId !== exercise.groupId;
+    if (startsRun && seenRuns.has(exercise.groupId)) {
+      return { ...exercise, groupId: undefined };
+    }
+    seenRuns.add(exercise.groupId);
+    return exercise;
+  });
+
+  // Re-check runs after removals, then ungroup single exercises
+  const counts = new Map<string, number>();
+  exercises.forEach((e) => {
+    if (e.groupId) counts.set(e.groupId, (counts.get(e.groupId) || 0) + 1);
+  });
+  exercises = exercises.map((e) =>
+    e.groupId && (counts.get(e.groupId) || 0) < 2 ? { ...e, groupId: undefined } : e
+  );
+
+  const usedGroupIds = new Set(exercises.map((e) => e.groupId).filter(Boolean));
+  return {
+    ...block,
+    exercises,
+    groups: (block.groups || []).filter((g) => usedGroupIds.has(g.id)),
+  };
+}
+
+/**
+ * Link the exercise at index with the next one, or unlink them if they're already grouped
+ */
+export function toggleLinkWithNext<E extends GroupableExercise, B extends GroupableBlock<E>>(block: B, index: number): B {
+  const current = block.exercises[index];
+  const next = block.exercises[index + 1];
+  if (!current || !next) return block;
+
+  const groups = [...(block.groups || [])];
+  const currentGroup = getExerciseGroup(block, current);
+  const nextGroup = getExerciseGroup(block, next);
+
+  let exercises: E[];
+  if (currentGroup && currentGroup === nextGroup) {
+    // Split the group: everything after index moves to a copy of the group
+    const splitGroup = { ...currentGroup, id: createGroupId() };
+    groups.push(splitGroup);
+    exercises = block.exercises.map((e, i) =>
+      i > index && e.groupId === currentGroup.id ? { ...e, groupId: splitGroup.id } : e
+    );
+  } else {
+    let target = currentGroup || nextGroup;
+    if (!target) {
+      target = {
+        id: createGroupId(),
+        type: 'superset',
+        rounds: current.sets || 3,
+        restBetweenRounds: DEFAULT_REST_BETWEEN_ROUNDS,
+      };
+      groups.push(target);
+    }
+    // Merging two groups moves the whole second group over
+    const targetId = target.id;
+    exercises = block.exercises.map((e, i) => {
+      if (i === index || i === index + 1) return { ...e, groupId: targetId };
+      if (nextGroup && nextGroup !== target && e.groupId === nextGroup.id) return { ...e, groupId: targetId };
+      return e;
+    });
+  }
+
+  return normalizeGroups<E, B>({ ...block, exercises, groups });
+}
+
+/**
+ * Update a group's type, rounds or rest
+ */
+export function updateGroup<B extends GroupableBlock<GroupableExercise>>(block: B, groupId: string, changes: Partial<ExerciseGroup>): B {
+  return {
+    ...block,
+    groups: (block.groups || []).map((g) => (g.id === groupId ? { ...g, ...changes, id: g.id } : g)),
+  };
+}
+
+/**
+ * Display name for a group, e.g. "Superset", "Tri-set", "Circuit"
+ */
+export function getGroupName(group: ExerciseGroup, memberCount: number): string {
+  if (group.type === 'circuit') return 'Circuit';
+  if (memberCount === 3) return 'Tri-set';
+  if (memberCount >= 4) return 'Giant set';
+  return 'Superset';
+}
+
+/**
+ * Lettered labels for exercises in a block with groups (A1/A2, B, C1/C2/C3).
+ * Returns an empty map for blocks without groups.
+ */
+export function getExerciseLabels<E extends GroupableExercise>(block: GroupableBlock<E>): Record<string, string> {
+  const labels: Record<string, string> = {};
+  if (!block.exercises.some((e) => getExerciseGroup(block, e))) return labels;
+
+  let letterIndex = -1;
+  let memberNumber = 0;
+  block.exercises.forEach((exercise, index) => {
+    const grouped = !!getExerciseGroup(block, exercise);
+    const continuesGroup = grouped && index > 0 && block.exercises[index - 1].groupId === exercise.groupId;
+    if (!continuesGroup) {
+      letterIndex++;
+      memberNumber = 0;
+    }
+    memberNumber++;
+    const letter = String.fromCharCode(65 + (letterIndex % 26));
+    labels[exercise.id] = grouped ? `${letter}${memberNumber}` : letter;
+  });
+  return labels;
+}
+
+/**
+ * Previous/next exercise for set-by-set navigation through grouped exercises.
+ * Within a group, next goes to the following member and wraps back to the first member until
+ * every round is done; outside groups it's the previous/next exercise in the workout.
+ * completedSets is the number of completed sets of the current exercise (its finished rounds).
+ */
+export function getAdjacentExercises<E extends GroupableExercise>(
+  blocks: GroupableBlock<E>[],
+  exerciseId: string,
+  completedSets: number
+): { previous?: E; next?: E; group?: ExerciseGroup; round?: number } {
+  const flat: E[] = [];
+  blocks.forEach((block) => flat.push(...block.exercises));
+  const index = flat.findIndex((e) => e.id === exerciseId);
+  if (index === -1) return {};
+
+  const block = blocks.find((b) => b.exercises.some((e) => e.id === exerciseId))!;
+  const group = getExerciseGroup(block, flat[index]);
+  const members = getGroupMembers(block, exerciseId);
+
+  if (!group || members.length < 2) {
+    return { previous: flat[index - 1], next: flat[index + 1] };
+  }
+
+  const memberIndex = members.findIndex((e) => e.id === exerciseId);
+  const firstIndex = flat.indexOf(members[0]);
+  const lastIndex = flat.indexOf(members[members.length - 1]);
+  const rounds = group.rounds || flat[index].sets || 1;
+
+  let next: E | undefined;
+  if (memberIndex < members.length - 1) {
+    next = members[memberIndex + 1];
+  } else if (completedSets < rounds) {
+    next = members[0];
+  } else {
+    next = flat[lastIndex + 1];
+  }
+
+  let previous: E | undefined;
+  if (memberIndex > 0) {
+    previous = members[memberIndex - 1];
+  } else if (completedSets > 0) {
+    previous = members[members.length - 1];
+  } else {
+    previous = flat[firstIndex - 1];
+  }
+
+  return { previous, next, group, round: Math.min(completedSets + 1, rounds) };
+}
+
+/**
+ * Split a block's exercises into display segments: each group's run, or a single ungrouped exercise
+ */
+export function getExerciseSegments<E extends GroupableExercise>(block: GroupableBlock<E>): Array<{ group?: ExerciseGroup; exercises: E[] }> {
+  const segments: Array<{ group?: ExerciseGroup; exercises: E[] }> = [];
+  block.exercises.forEach((exercise, index) => {
+    const group = getExerciseGroup(block, exercise);
+    const last = segments[segments.length - 1];
+    if (group && last?.group === group && block.exercises[index - 1]?.groupId === exercise.groupId) {
+      last.exercises.push(exercise);
+    } else {
+      segments.push({ group, exercises: [exercise] });
+    }
+  });
+  return segments;
+}
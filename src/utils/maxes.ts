@@ -0,0 +1,61 @@
+import { AthleteMax, ExercisePrescription } from './api';
+
+/**
+ * Helpers for athlete maxes: finding an athlete's current max for an exercise and turning
+ * % 1RM loads into that athlete's numbers
+ */
+
+function normalizeName(name: string): string {
+  return (name || '').trim().toLowerCase();
+}
+
+/**
+ * The athlete's current max for an exercise: the newest entry linked to the same library exercise,
+ * falling back to a name match for custom exercises
+ */
+export function findCurrentMax(
+  maxes: AthleteMax[],
+  exercise: { exerciseId?: string; exerciseName: string }
+): AthleteMax | undefined {
+  const newestFirst = [...maxes].sort(
+    (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+  );
+  if (exercise.exerciseId) {
+    const linked = newestFirst.find((max) => max.exerciseId === exercise.exerciseId);
+    if (linked) return linked;
+  }
+  return newestFirst.find((max) => normalizeName(max.exerciseName) === normalizeName(exercise.exerciseName));
+}
+
+/**
+ * A percentage of a max, rounded to the nearest plate jump (5 lb / 2.5 kg)
+ */
+export function resolvePercentLoad(percent: number, max: AthleteMax): number {
+  const step = max.unit === 'kg' ? 2.5 : 5;
+  return Math.round((max.value * percent) / 100 / step) * step;
+}
+
+/**
+ * The athlete's weights for a % 1RM prescription (e.g. "185 lb" or "155/170/185 lb"),
+ * or null when the load isn't a percentage or there's no max to resolve it against
+ */
+export function formatResolvedLoad(prescription: ExercisePrescription, max: AthleteMax | undefined): string | null {
+  if (prescription.loadType !== 'percent1RM' || !max) return null;
+  const percents = prescription.setLoads && prescription.setLoads.length > 0
+    ? prescription.setLoads
+    : prescription.load !== undefined ? [prescription.load] : [];
+  if (percents.length === 0) return null;
+  return `${percents.map((percent) => resolvePercentLoad(percent, max)).join('/')} ${max.unit}`;
+}
+
+/**
+ * Short description of a max (e.g. "1RM 225 lb · tested Mar 3")
+ */
+export function formatMax(max: AthleteMax): string {
+  const date = new Date(`${max.date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  return `1RM ${max.value} ${max.unit} · ${max.type} ${date}`;
+}
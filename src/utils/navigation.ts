@@ -3,6 +3,7 @@ import { workoutsApi, Workout } from './api';
 // Types for navigation state
 export interface NavigationState {
   workout?: Workout;
+  // Keyed by block-exercise ID
   completionStatus?: Record<string, {
     status: 'completed' | 'in-progress' | 'not-started';
     completedSets: number;
@@ -0,0 +1,165 @@
+import { getSessionUserId } from './auth';
+
+/**
+ * IndexedDB storage for offline use: cached API responses (assigned workouts, logged sets,
+ * exercise library/video metadata) and the outbox of writes waiting to be synced. Both belong to
+ * the signed-in user, so someone else signing in on the same device never sees or sends them.
+ */
+
+const DB_NAME = 'sequence-offline';
+const DB_VERSION = 3;
+const RESPONSES_STORE = 'responses';
+const OUTBOX_STORE = 'outbox';
+
+export interface OutboxEntry {
+  seq?: number; // assigned by IndexedDB; writes replay in this order
+  userId: string; // who queued it; only they send it
+  idempotencyKey: string;
+  url: string;
+  method: string;
+  body: string;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          db.createObjectStore(RESPONSES_STORE);
+        } else if (event.oldVersion < 2) {
+          // Responses cached before they were kept per user can't be told apart
+          request.transaction!.objectStore(RESPONSES_STORE).clear();
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        } else if (event.oldVersion < 3) {
+          // Writes queued before entries had a user can't be sent on anyone's behalf
+          const cursorRequest = request.transaction!.objectStore(OUTBOX_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            if (!cursor.value.userId) cursor.delete();
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Let a later call try again (e.g. storage was briefly blocked)
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against one store and resolve with its result
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Cached responses are keyed by user, then endpoint
+function responseKeyPrefix(userId: string | null): string {
+  return `${userId ?? 'signed-out'}|`;
+}
+
+/**
+ * Last response the signed-in user got from an API endpoint, or undefined
+ */
+export async function getCachedResponse<T>(endpoint: string): Promise<T | undefined> {
+  const key = responseKeyPrefix(getSessionUserId()) + endpoint;
+  const entry = await withStore<{ data: T; cachedAt: number } | undefined>(RESPONSES_STORE, 'readonly', (store) =>
+    store.get(key)
+  );
+  return entry?.data;
+}
+
+export async function putCachedResponse<T>(endpoint: string, data: T): Promise<void> {
+  const key = responseKeyPrefix(getSessionUserId()) + endpoint;
+  await withStore(RESPONSES_STORE, 'readwrite', (store) => store.put({ data, cachedAt: Date.now() }, key));
+}
+
+/**
+ * Remove every response cached for a user (on sign-out)
+ */
+export async function clearCachedResponses(userId: string): Promise<void> {
+  const prefix = responseKeyPrefix(userId);
+  await withStore(RESPONSES_STORE, 'readwrite', (store) =>
+    store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+}
+
+export async function addToOutbox(entry: Omit<OutboxEntry, 'seq'>): Promise<number> {
+  return (await withStore(OUTBOX_STORE, 'readwrite', (store) => store.add(entry))) as number;
+}
+
+// Walk the outbox oldest first over the writes a user queued (after seq `afterSeq`, if given), until
+// visit returns false
+async function forEachOutboxEntry(
+  userId: string,
+  visit: (entry: OutboxEntry) => boolean,
+  afterSeq?: number
+): Promise<void> {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, 'readonly');
+    const range = afterSeq === undefined ? undefined : IDBKeyRange.lowerBound(afterSeq, true);
+    const request = transaction.objectStore(OUTBOX_STORE).openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const entry: OutboxEntry = cursor.value;
+      if (entry.userId !== userId || visit(entry)) {
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * The oldest write the user queued (after seq `afterSeq`, if given), or undefined when there's none
+ */
+export async function getNextOutboxEntry(userId: string, afterSeq?: number): Promise<OutboxEntry | undefined> {
+  let next: OutboxEntry | undefined;
+  await forEachOutboxEntry(userId, (entry) => {
+    next = entry;
+    return false;
+  }, afterSeq);
+  return next;
+}
+
+export async function removeFromOutbox(seq: number): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(seq));
+}
+
+export async function countOutbox(userId: string): Promise<number> {
+  let count = 0;
+  await forEachOutboxEntry(userId, () => {
+    count++;
+    return true;
+  });
+  return count;
+}
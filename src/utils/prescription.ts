@@ -0,0 +1,203 @@
+import { ExercisePrescription, DistanceUnit, LoadUnit, AthleteMax } from './api';
+import { resolvePercentLoad } from './maxes';
+
+/**
+ * Helper functions for structured exercise prescriptions
+ */
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+const DISTANCE_UNITS: Record<string, DistanceUnit> = {
+  m: 'm', meter: 'm', meters: 'm',
+  yd: 'yd', yds: 'yd', yard: 'yd', yards: 'yd',
+  km: 'km',
+  mi: 'mi', mile: 'mi', miles: 'mi',
+};
+
+function parseUnit(text: string | undefined): LoadUnit | undefined {
+  if (!text) return undefined;
+  return text.toLowerCase().startsWith('kg') ? 'kg' : 'lb';
+}
+
+/**
+ * Parse legacy free-text reps/weight into a prescription.
+ * Returns null when the reps text doesn't match any known format.
+ */
+export function parsePrescription(repsText: string, weightText?: string): ExercisePrescription | null {
+  let reps = (repsText || '').trim();
+  let weight = (weightText || '').trim();
+  const extras: Partial<ExercisePrescription> = {};
+
+  // RPE/RIR/tempo can be written in either field
+  const pullExtra = (pattern: RegExp, apply: (value: string) => void) => {
+    const strip = (text: string) => {
+      const match = text.match(pattern);
+      if (!match) return text;
+      apply(match[1]);
+      return text.replace(match[0], '').replace(/^[\s@,]+|[\s@,]+$/g, '');
+    };
+    reps = strip(reps);
+    weight = strip(weight);
+  };
+  pullExtra(/@?\s*rpe\s*(\d+(?:\.5)?)/i, (v) => { extras.rpe = parseFloat(v); });
+  pullExtra(/rir\s*(\d+)/i, (v) => { extras.rir = parseInt(v); });
+  pullExtra(/tempo\s*([\dx]+(?:-[\dx]+){2,3})/i, (v) => { extras.tempo = v.toUpperCase(); });
+
+  let prescription: ExercisePrescription | null = null;
+  let match: RegExpMatchArray | null;
+
+  if ((match = reps.match(/^(\d+)$/))) {
+    prescription = { kind: 'reps', reps: parseInt(match[1]) };
+  } else if ((match = reps.match(/^(\d+)\s*[-–]\s*(\d+)$/))) {
+    prescription = { kind: 'range', repsMin: parseInt(match[1]), repsMax: parseInt(match[2]) };
+  } else if (/^\d+(\s*[/,]\s*\d+)+$/.test(reps)) {
+    prescription = { kind: 'scheme', scheme: reps.split(/[/,]/).map((r) => parseInt(r.trim())) };
+  } else if (/^(amrap|max)$/i.test(reps)) {
+    prescription = { kind: 'amrap' };
+  } else if ((match = reps.match(/^(\d+):(\d{2})$/))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) * 60 + parseInt(match[2]) };
+  } else if ((match = reps.match(/^(\d+)\s*(s|sec|secs|seconds)$/i))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) };
+  } else if ((match = reps.match(/^(\d+)\s*(min|mins|minutes)$/i))) {
+    prescription = { kind: 'time', seconds: parseInt(match[1]) * 60 };
+  } else if ((match = reps.match(new RegExp(`^${NUMBER}\\s*([a-z]+)$`, 'i'))) && DISTANCE_UNITS[match[2].toLowerCase()]) {
+    prescription = {
+      kind: 'distance',
+      distance: parseFloat(match[1]),
+      distanceUnit: DISTANCE_UNITS[match[2].toLowerCase()],
+    };
+  }
+
+  if (!prescription) return null;
+
+  if (weight) {
+    const unitPattern = '\\s*(lbs?|kgs?)?';
+    if ((match = weight.match(new RegExp(`^${NUMBER}\\s*%(?:\\s*(?:of\\s*)?1rm)?$`, 'i')))) {
+      prescription.loadType = 'percent1RM';
+      prescription.load = parseFloat(match[1]);
+    } else if ((match = weight.match(new RegExp(`^(\\d+(?:\\.\\d+)?(?:\\s*/\\s*\\d+(?:\\.\\d+)?)+)\\s*%(?:\\s*(?:of\\s*)?1rm)?$`, 'i')))) {
+      prescription.loadType = 'percent1RM';
+      prescription.setLoads = match[1].split('/').map((l) => parseFloat(l.trim()));
+    } else if ((match = weight.match(new RegExp(`^${NUMBER}${unitPattern}$`, 'i')))) {
+      prescription.loadType = 'weight';
+      prescription.load = parseFloat(match[1]);
+      prescription.unit = parseUnit(match[2]);
+    } else if ((match = weight.match(new RegExp(`^(\\d+(?:\\.\\d+)?(?:\\s*/\\s*\\d+(?:\\.\\d+)?)+)${unitPattern}$`, 'i')))) {
+      prescription.loadType = 'weight';
+      prescription.setLoads = match[1].split('/').map((l) => parseFloat(l.trim()));
+      prescription.unit = parseUnit(match[2]);
+    } else {
+      prescription.note = weight;
+    }
+  }
+
+  return { ...prescription, ...extras };
+}
+
+/**
+ * Get the prescription for an exercise, falling back to parsing its reps/weight text
+ */
+export function getPrescription(exercise: { reps: string; weight?: string; prescription?: ExercisePrescription }): ExercisePrescription | null {
+  return exercise.prescription || parsePrescription(exercise.reps, exercise.weight);
+}
+
+/**
+ * Format a duration in seconds (e.g. "45s", "1:30", "2 min")
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest === 0 ? `${minutes} min` : `${minutes}:${rest.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format the reps part of a prescription (e.g. "8-10", "5/3/1", "AMRAP", "30s", "400m")
+ */
+export function formatPrescriptionReps(prescription: ExercisePrescription): string {
+  switch (prescription.kind) {
+    case 'reps':
+      return `${prescription.reps ?? ''}`;
+    case 'range':
+      return `${prescription.repsMin ?? ''}-${prescription.repsMax ?? ''}`;
+    case 'scheme':
+      return (prescription.scheme || []).join('/');
+    case 'amrap':
+      return 'AMRAP';
+    case 'time':
+      return formatDuration(prescription.seconds || 0);
+    case 'distance':
+      return `${prescription.distance ?? ''}${prescription.distanceUnit || 'm'}`;
+  }
+}
+
+/**
+ * Format the load part of a prescription (e.g. "185 lb", "75% 1RM", "65/75/85% 1RM")
+ */
+export function formatPrescriptionLoad(prescription: ExercisePrescription): string {
+  const values = prescription.setLoads && prescription.setLoads.length > 0
+    ? prescription.setLoads.join('/')
+    : prescription.load !== undefined ? `${prescription.load}` : '';
+  if (!values || !prescription.loadType) return '';
+
+  if (prescription.loadType === 'percent1RM') {
+    return `${values}% 1RM`;
+  }
+  return prescription.unit ? `${values} ${prescription.unit}` : values;
+}
+
+/**
+ * Format intensity/tempo targets and notes (e.g. "RPE 8 · Tempo 3-1-1-0")
+ */
+export function formatPrescriptionExtras(prescription: ExercisePrescription): string {
+  const parts: string[] = [];
+  if (prescription.rpe !== undefined) parts.push(`RPE ${prescription.rpe}`);
+  if (prescription.rir !== undefined) parts.push(`RIR ${prescription.rir}`);
+  if (prescription.tempo) parts.push(`Tempo ${prescription.tempo}`);
+  if (prescription.note) parts.push(prescription.note);
+  return parts.join(' · ');
+}
+
+/**
+ * Get the reps/weight targets for a single set (0-based), used to prefill set rows.
+ * Percentages are resolved against the athlete's max when one is given.
+ */
+export function getSetTarget(
+  prescription: ExercisePrescription,
+  setIndex: number,
+  max?: AthleteMax
+): { reps: string; weight: string } {
+  let reps = formatPrescriptionReps(prescription);
+  if (prescription.kind === 'scheme' && prescription.scheme && prescription.scheme.length > 0) {
+    reps = `${prescription.scheme[Math.min(setIndex, prescription.scheme.length - 1)]}`;
+  } else if (prescription.kind === 'amrap') {
+    reps = '';
+  }
+
+  // Percentages can't be prefilled without the athlete's max
+  let weight = '';
+  if (prescription.loadType === 'weight' || (prescription.loadType === 'percent1RM' && max)) {
+    let load: number | undefined;
+    if (prescription.setLoads && prescription.setLoads.length > 0) {
+      load = prescription.setLoads[Math.min(setIndex, prescription.setLoads.length - 1)];
+    } else {
+      load = prescription.load;
+    }
+    if (load !== undefined) {
+      weight = `${prescription.loadType === 'percent1RM' && max ? resolvePercentLoad(load, max) : load}`;
+    }
+  }
+
+  return { reps, weight };
+}
+
+/**
+ * Build the WorkoutExercise reps/weight summary text for a prescription
+ */
+export function toPrescriptionFields(prescription: ExercisePrescription): { reps: string; weight?: string; prescription: ExercisePrescription } {
+  return {
+    reps: formatPrescriptionReps(prescription),
+    weight: formatPrescriptionLoad(prescription) || undefined,
+    prescription,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Helpers for multi-week programs: weekday labels and the dates an assignment produces
+ */
+
+export const WEEKDAYS = [
+  { value: 0, short: 'Sun', label: 'Sunday' },
+  { value: 1, short: 'Mon', label: 'Monday' },
+  { value: 2, short: 'Tue', label: 'Tuesday' },
+  { value: 3, short: 'Wed', label: 'Wednesday' },
+  { value: 4, short: 'Thu', label: 'Thursday' },
+  { value: 5, short: 'Fri', label: 'Friday' },
+  { value: 6, short: 'Sat', label: 'Saturday' },
+];
+
+// Sensible default weekday for each training day, by days per week
+const DEFAULT_WEEKDAYS: Record<number, number[]> = {
+  1: [1],
+  2: [1, 4],
+  3: [1, 3, 5],
+  4: [1, 2, 4, 5],
+  5: [1, 2, 3, 4, 5],
+  6: [1, 2, 3, 4, 5, 6],
+  7: [1, 2, 3, 4, 5, 6, 0],
+};
+
+export function getDefaultWeekdays(daysPerWeek: number): number[] {
+  return DEFAULT_WEEKDAYS[daysPerWeek] || DEFAULT_WEEKDAYS[3];
+}
+
+/**
+ * Dates for each training day of each week (dates[week - 1][day - 1]), matching the server.
+ * Week 1's first day is the first of its weekday on or after startDate, each following day is the
+ * next of its weekday, and later weeks repeat week 1 shifted by 7 days.
+ * Returns null if the weekdays don't fit in a single week.
+ */
+export function getProgramDates(startDate: string, weeks: number, weekdays: number[]): string[][] | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return null;
+
+  const firstWeek: Date[] = [];
+  let cursor = new Date(`${startDate}T00:00:00Z`);
+  for (const weekday of weekdays) {
+    const date = new Date(cursor);
+    date.setUTCDate(date.getUTCDate() + ((weekday - cursor.getUTCDay() + 7) % 7));
+    firstWeek.push(date);
+    cursor = new Date(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  const span = firstWeek.length > 0
+    ? (firstWeek[firstWeek.length - 1].getTime() - firstWeek[0].getTime()) / 86400000
+    : 0;
+  if (span >= 7) return null;
+
+  return Array.from({ length: weeks }, (_, weekIndex) =>
+    firstWeek.map((date) => {
+      const shifted = new Date(date);
+      shifted.setUTCDate(shifted.getUTCDate() + weekIndex * 7);
+      return shifted.toISOString().split('T')[0];
+    })
+  );
+}
+
+/**
+ * Short display form of a YYYY-MM-DD date, e.g. "Mon, Mar 3"
+ */
+export function formatProgramDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
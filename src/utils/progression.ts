@@ -0,0 +1,165 @@
+import { ExercisePrescription, ProgressionRule, DeloadRule } from './api';
+import { formatPrescriptionReps, formatPrescriptionLoad } from './prescription';
+
+/**
+ * Week-over-week progression for program workouts. Mirrors the server's progression service,
+ * which applies the same rules when an assignment creates the dated workouts.
+ */
+
+interface ProgressableExercise {
+  sets: number;
+  reps: string;
+  weight?: string;
+  prescription?: ExercisePrescription;
+}
+
+export function isDeloadWeek(week: number, deload?: DeloadRule): boolean {
+  return !!deload && deload.every > 1 && week % deload.every === 0;
+}
+
+/**
+ * Number of progression steps applied in a (1-based) week. Deload weeks don't advance
+ * progression: they repeat the previous week's step at reduced load and volume.
+ */
+export function getProgressionStep(week: number, deload?: DeloadRule): number {
+  if (!deload || deload.every <= 1) return week - 1;
+  return week - 1 - Math.floor(week / deload.every);
+}
+
+function round(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+// Rounded to hundredths so repeated increments don't pick up float noise
+function addToLoads(prescription: ExercisePrescription, delta: number): ExercisePrescription {
+  if (!prescription.loadType || delta === 0) return prescription;
+  const add = (value: number) => Math.round((value + delta) * 100) / 100;
+  return {
+    ...prescription,
+    load: prescription.load !== undefined ? add(prescription.load) : undefined,
+    setLoads: prescription.setLoads?.map(add),
+  };
+}
+
+// Scaled weights snap to plate jumps (5 lb / 2.5 kg), percentages to half a point
+function scaleLoads(prescription: ExercisePrescription, factor: number): ExercisePrescription {
+  if (!prescription.loadType) return prescription;
+  const step = prescription.loadType === 'percent1RM' ? 0.5 : prescription.unit === 'kg' ? 2.5 : 5;
+  const scale = (value: number) => round(value * factor, step);
+  return {
+    ...prescription,
+    load: prescription.load !== undefined ? scale(prescription.load) : undefined,
+    setLoads: prescription.setLoads?.map(scale),
+  };
+}
+
+function topLoad(prescription: ExercisePrescription): number | undefined {
+  if (prescription.setLoads && prescription.setLoads.length > 0) return Math.max(...prescription.setLoads);
+  return prescription.load;
+}
+
+function topReps(prescription: ExercisePrescription): number | undefined {
+  if (prescription.kind === 'reps') return prescription.reps;
+  if (prescription.kind === 'range') return prescription.repsMax;
+  if (prescription.kind === 'scheme' && prescription.scheme && prescription.scheme.length > 0) {
+    return Math.max(...prescription.scheme);
+  }
+  return undefined;
+}
+
+function addReps(prescription: ExercisePrescription, delta: number): ExercisePrescription {
+  if (delta === 0) return prescription;
+  switch (prescription.kind) {
+    case 'reps':
+      return { ...prescription, reps: (prescription.reps || 0) + delta };
+    case 'range':
+      return {
+        ...prescription,
+        repsMin: prescription.repsMin !== undefined ? prescription.repsMin + delta : undefined,
+        repsMax: prescription.repsMax !== undefined ? prescription.repsMax + delta : undefined,
+      };
+    case 'scheme':
+      return { ...prescription, scheme: prescription.scheme?.map((reps) => reps + delta) };
+    default:
+      return prescription;
+  }
+}
+
+/**
+ * Apply a progression rule for the given number of steps (0 = the prescription as written)
+ */
+export function applyProgressionRule(
+  prescription: ExercisePrescription,
+  rule: ProgressionRule,
+  step: number
+): ExercisePrescription {
+  if (step <= 0) return prescription;
+
+  switch (rule.type) {
+    case 'load':
+      return addToLoads(prescription, rule.increment * step);
+    case 'reps': {
+      const startReps = topReps(prescription);
+      if (startReps === undefined) return addToLoads(prescription, rule.increment * step);
+      // e.g. 8 reps with a ceiling of 10: 8, 9, 10, then 8 with +increment
+      const cycleLength = Math.max(1, rule.ceiling - startReps + 1);
+      const cycles = Math.floor(step / cycleLength);
+      return addToLoads(addReps(prescription, step % cycleLength), rule.increment * cycles);
+    }
+    case 'wave': {
+      if (rule.percents.length === 0) return prescription;
+      const percent = rule.percents[step % rule.percents.length];
+      const waveIncrease = (rule.increment || 0) * Math.floor(step / rule.percents.length);
+      // % 1RM waves are absolute (the top set lands on the wave's percentage);
+      // weight waves are a percentage of the load as written
+      if (prescription.loadType === 'percent1RM') {
+        const top = topLoad(prescription);
+        return top === undefined ? prescription : addToLoads(prescription, percent + waveIncrease - top);
+      }
+      return addToLoads(scaleLoads(prescription, percent / 100), waveIncrease);
+    }
+  }
+}
+
+/**
+ * Sets, reps/weight text and prescription of an exercise for a (1-based) program week.
+ * The progression rule is dropped from the result: scheduled workouts hold concrete targets.
+ */
+export function applyProgression<E extends ProgressableExercise>(exercise: E, week: number, deload?: DeloadRule): E {
+  const rule = exercise.prescription?.progression;
+  const deloading = isDeloadWeek(week, deload);
+  if (!exercise.prescription || (!rule && !deloading)) return exercise;
+
+  const { progression: _rule, ...base } = exercise.prescription;
+  let prescription: ExercisePrescription = rule
+    ? applyProgressionRule(base, rule, getProgressionStep(week, deload))
+    : base;
+  let sets = exercise.sets;
+  if (deloading && deload) {
+    prescription = scaleLoads(prescription, deload.loadPercent / 100);
+    sets = Math.max(1, Math.round((exercise.sets * deload.setsPercent) / 100));
+  }
+
+  return {
+    ...exercise,
+    sets,
+    reps: formatPrescriptionReps(prescription),
+    weight: formatPrescriptionLoad(prescription) || undefined,
+    prescription,
+  };
+}
+
+/**
+ * Short description of a progression rule (e.g. "+5 lb/week", "+1 rep/week to 10, then +5 lb")
+ */
+export function formatProgressionRule(rule: ProgressionRule, prescription?: ExercisePrescription): string {
+  const unit = prescription?.loadType === 'percent1RM' ? '%' : ` ${prescription?.unit || 'lb'}`;
+  switch (rule.type) {
+    case 'load':
+      return `+${rule.increment}${unit}/week`;
+    case 'reps':
+      return `+1 rep/week to ${rule.ceiling}, then +${rule.increment}${unit}`;
+    case 'wave':
+      return `Wave ${rule.percents.join('/')}%${rule.increment ? `, +${rule.increment}${unit} per wave` : ''}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { PersonalRecord } from './api';
+
+/**
+ * Helpers for personal records detected from logged sets
+ */
+
+const RECORD_ORDER: PersonalRecord['type'][] = ['1RM', '3RM', '5RM', 'e1RM'];
+
+/**
+ * Badge text for a record (e.g. "5RM 225", "e1RM 262.5 (225×5)")
+ */
+export function formatRecord(record: PersonalRecord): string {
+  if (record.type === 'e1RM') return `e1RM ${record.value} (${record.weight}×${record.reps})`;
+  return `${record.type} ${record.value}`;
+}
+
+/**
+ * Records in display order: 1RM, 3RM, 5RM, then e1RM
+ */
+export function sortRecords(records: PersonalRecord[]): PersonalRecord[] {
+  return [...records].sort((a, b) => RECORD_ORDER.indexOf(a.type) - RECORD_ORDER.indexOf(b.type));
+}
+
+/**
+ * Records grouped by the workout exercise that set them, keyed `${workoutId}:${blockExerciseId}`
+ */
+export function groupRecordsByExercise(records: PersonalRecord[]): Map<string, PersonalRecord[]> {
+  const grouped = new Map<string, PersonalRecord[]>();
+  records.forEach((record) => {
+    const key = `${record.workoutId}:${record.blockExerciseId}`;
+    grouped.set(key, [...(grouped.get(key) || []), record]);
+  });
+  return grouped;
+}
+
+/**
+ * The current best of each record type per exercise (library exercise, or name for custom ones),
+ * from an athlete's PR history
+ */
+export function getCurrentBests(records: PersonalRecord[]): Array<{ exerciseName: string; records: PersonalRecord[] }> {
+  const byExercise = new Map<string, { exerciseName: string; bests: Map<string, PersonalRecord> }>();
+  records.forEach((record) => {
+    const key = record.exerciseId || record.exerciseName.trim().toLowerCase();
+    const entry = byExercise.get(key) || { exerciseName: record.exerciseName, bests: new Map() };
+    const best = entry.bests.get(record.type);
+    if (!best || record.value > best.value) entry.bests.set(record.type, record);
+    byExercise.set(key, entry);
+  });
+  return Array.from(byExercise.values())
+    .map((entry) => ({ exerciseName: entry.exerciseName, records: sortRecords(Array.from(entry.bests.values())) }))
+    .sort((a, b) => a.exerciseName.localeCompare(b.exerciseName));
+}
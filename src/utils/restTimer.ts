@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { ExerciseGroup } from './api';
+import { getExerciseGroup, getGroupMembers } from './exerciseGroups';
+
+/**
+ * Rest timer shared across pages. State lives at module level (and in localStorage) so the
+ * countdown keeps running while the athlete navigates between exercises or reloads the page.
+ */
+
+export interface RestTimerState {
+  workoutId: string;
+  exerciseId: string;
+  startedAt: number; // ms timestamp of the set tick that started the rest
+  endsAt: number; // ms timestamp
+  duration: number; // seconds
+}
+
+const STORAGE_KEY = 'sequence_rest_timer';
+const LAST_SET_KEY = 'sequence_last_set_completed';
+
+// Gaps longer than this between ticks aren't recorded as rest (athlete left and came back)
+const MAX_RECORDED_REST_SECONDS = 30 * 60;
+
+let current: RestTimerState | null = loadState();
+let finishTimeout: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(state: RestTimerState | null) => void>();
+
+function loadState(): RestTimerState | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const state = JSON.parse(stored) as RestTimerState;
+    return state.endsAt > Date.now() ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+function setState(state: RestTimerState | null) {
+  current = state;
+  try {
+    if (state) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode) - the timer still works for this page load
+  }
+  scheduleFinish();
+  listeners.forEach((listener) => listener(current));
+}
+
+function scheduleFinish() {
+  if (finishTimeout) {
+    clearTimeout(finishTimeout);
+    finishTimeout = null;
+  }
+  if (!current) return;
+  finishTimeout = setTimeout(() => {
+    alertRestFinished();
+    setState(null);
+  }, Math.max(0, current.endsAt - Date.now()));
+}
+
+/**
+ * Vibrate (where supported) and play a short beep when rest is over
+ */
+export function alertRestFinished() {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate([200, 100, 200]);
+  }
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+    const context = new AudioContextClass();
+    [0, 0.25].forEach((offset) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.3, context.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.01, context.currentTime + offset + 0.2);
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.2);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (err) {
+    console.error('Failed to play rest timer sound:', err);
+  }
+}
+
+/**
+ * Start (or restart) the rest countdown
+ */
+export function startRestTimer(workoutId: string, exerciseId: string, seconds: number) {
+  const now = Date.now();
+  setState({ workoutId, exerciseId, startedAt: now, endsAt: now + seconds * 1000, duration: seconds });
+}
+
+/**
+ * Add (or remove, with a negative value) time from the running countdown
+ */
+export function adjustRestTimer(seconds: number) {
+  if (!current) return;
+  const endsAt = current.endsAt + seconds * 1000;
+  if (endsAt <= Date.now()) {
+    setState(null);
+    return;
+  }
+  setState({ ...current, endsAt, duration: Math.max(0, current.duration + seconds) });
+}
+
+export function stopRestTimer() {
+  setState(null);
+}
+
+/**
+ * Record a set tick and return the actual rest taken since the previous tick in the same workout
+ * (undefined for the first set or after a long break)
+ */
+export function recordSetCompleted(workoutId: string): number | undefined {
+  const now = Date.now();
+  let restSeconds: number | undefined;
+  try {
+    const stored = localStorage.getItem(LAST_SET_KEY);
+    const last = stored ? (JSON.parse(stored) as { workoutId: string; completedAt: number }) : null;
+    if (last && last.workoutId === workoutId) {
+      const elapsed = Math.round((now - last.completedAt) / 1000);
+      if (elapsed >= 0 && elapsed <= MAX_RECORDED_REST_SECONDS) {
+        restSeconds = elapsed;
+      }
+    }
+    localStorage.setItem(LAST_SET_KEY, JSON.stringify({ workoutId, completedAt: now }));
+  } catch {
+    // Storage unavailable - rest just isn't recorded
+  }
+  return restSeconds;
+}
+
+interface RestExercise {
+  id: string;
+  groupId?: string;
+  restSeconds?: number;
+}
+
+/**
+ * Prescribed rest after a set of this exercise. In a superset/circuit the rest between rounds
+ * applies after the last exercise of the round; otherwise the exercise's rest, falling back to
+ * the block's.
+ */
+export function getPrescribedRest(
+  block: { exercises: RestExercise[]; groups?: ExerciseGroup[]; restSeconds?: number },
+  exercise: RestExercise
+): number | undefined {
+  const group = getExerciseGroup(block, exercise);
+  if (group) {
+    const members = getGroupMembers(block, exercise.id);
+    if (members[members.length - 1]?.id !== exercise.id) {
+      return exercise.restSeconds;
+    }
+    return group.restBetweenRounds ?? exercise.restSeconds ?? block.restSeconds;
+  }
+  return exercise.restSeconds ?? block.restSeconds;
+}
+
+/**
+ * Subscribe to the rest timer; re-renders while the countdown is running
+ */
+export function useRestTimer(): { timer: RestTimerState | null; remainingSeconds: number } {
+  const [timer, setTimer] = useState<RestTimerState | null>(current);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    listeners.add(setTimer);
+    setTimer(current);
+    return () => {
+      listeners.delete(setTimer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const remainingSeconds = timer ? Math.max(0, Math.ceil((timer.endsAt - now) / 1000)) : 0;
+  return { timer, remainingSeconds };
+}
+
+// Resume a countdown persisted by a previous page load
+scheduleFinish();
@@ -0,0 +1,86 @@
+import { WorkoutSession } from './api';
+
+/**
+ * Session feedback given on the completion sheet: session RPE on Foster's CR-10 scale and the
+ * session's duration, timed from the athlete's first set tick to their last.
+ */
+
+// Foster's modified CR-10 scale; unlabelled points sit between the neighbouring descriptors
+export const SESSION_RPE_SCALE: Array<{ value: number; label?: string }> = [
+  { value: 0, label: 'Rest' },
+  { value: 1, label: 'Very, very easy' },
+  { value: 2, label: 'Easy' },
+  { value: 3, label: 'Moderate' },
+  { value: 4, label: 'Somewhat hard' },
+  { value: 5, label: 'Hard' },
+  { value: 6 },
+  { value: 7, label: 'Very hard' },
+  { value: 8 },
+  { value: 9 },
+  { value: 10, label: 'Maximal' },
+];
+
+/**
+ * Descriptor for a CR-10 value; unlabelled points read as the descriptor below them plus (e.g. "Hard+")
+ */
+export function getSessionRpeLabel(value: number): string {
+  const labelled = SESSION_RPE_SCALE.filter((point) => point.label && point.value <= value);
+  const below = labelled[labelled.length - 1];
+  if (!below) return '';
+  return below.value === value ? below.label! : `${below.label}+`;
+}
+
+const TIMING_KEY = 'sequence_session_timing';
+
+interface SessionTiming {
+  workoutId: string;
+  firstSetAt: number; // ms timestamps
+  lastSetAt: number;
+}
+
+function loadTiming(): SessionTiming | null {
+  try {
+    const stored = localStorage.getItem(TIMING_KEY);
+    return stored ? (JSON.parse(stored) as SessionTiming) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a set tick for the session timer. Ticking a set in a different workout starts a new session.
+ */
+export function recordSessionTick(workoutId: string) {
+  const now = Date.now();
+  const timing = loadTiming();
+  const next: SessionTiming =
+    timing && timing.workoutId === workoutId
+      ? { ...timing, lastSetAt: now }
+      : { workoutId, firstSetAt: now, lastSetAt: now };
+  try {
+    localStorage.setItem(TIMING_KEY, JSON.stringify(next));
+  } catch {
+    // Storage unavailable - the athlete enters the duration themselves
+  }
+}
+
+/**
+ * Minutes from the first to the last set tick of the workout, or undefined if it wasn't timed
+ */
+export function getSessionDurationMinutes(workoutId: string): number | undefined {
+  const timing = loadTiming();
+  if (!timing || timing.workoutId !== workoutId) return undefined;
+  const minutes = Math.round((timing.lastSetAt - timing.firstSetAt) / 60000);
+  return minutes > 0 ? minutes : undefined;
+}
+
+/**
+ * Short summary for coaches, e.g. "sRPE 7 · 55 min · load 385"
+ */
+export function formatSessionFeedback(session: WorkoutSession): string {
+  const parts: string[] = [];
+  if (session.sessionRpe !== undefined) parts.push(`sRPE ${session.sessionRpe}`);
+  if (session.durationMinutes !== undefined) parts.push(`${session.durationMinutes} min`);
+  if (session.load !== undefined) parts.push(`load ${session.load}`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { addToOutbox, countOutbox, getNextOutboxEntry, removeFromOutbox } from './offlineStore';
+import { getAuthHeaders, getSessionUserId } from './auth';
+
+/**
+ * Offline write queue. Athlete writes (logged sets, notes) go to an IndexedDB outbox first and are
+ * sent in order; each carries an idempotency key so a write whose response was lost isn't applied
+ * twice when it's retried. While offline the outbox keeps them until the connection comes back.
+ * Writes are sent only while the athlete who queued them is signed in, and one the server turns away
+ * with a 401 waits for a later run instead of holding up the rest.
+ */
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number; // writes not yet accepted by the server
+  syncing: boolean;
+}
+
+// Returned for a write that was queued but couldn't be sent yet
+export interface QueuedResult {
+  success: true;
+  queued: true;
+}
+
+const RETRY_DELAY_MS = 15000;
+// How long signing out waits for queued writes to be sent
+const SIGN_OUT_FLUSH_TIMEOUT_MS = 5000;
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+};
+const listeners = new Set<(status: SyncStatus) => void>();
+
+// Callers waiting for their write's server response, by idempotency key
+const waiting = new Map<string, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function setStatus(changes: Partial<SyncStatus>) {
+  status = { ...status, ...changes };
+  listeners.forEach((listener) => listener(status));
+}
+
+async function refreshPending() {
+  try {
+    const userId = getSessionUserId();
+    setStatus({ pending: userId ? await countOutbox(userId) : 0 });
+  } catch {
+    // IndexedDB unavailable - nothing is ever queued
+  }
+}
+
+function newIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Writes that are still queued when a flush stops resolve as queued; they'll sync later
+function settleWaitingAsQueued() {
+  waiting.forEach(({ resolve }) => resolve({ success: true, queued: true } as QueuedResult));
+  waiting.clear();
+}
+
+function settleAsQueued(idempotencyKey: string) {
+  waiting.get(idempotencyKey)?.resolve({ success: true, queued: true } as QueuedResult);
+  waiting.delete(idempotencyKey);
+}
+
+function scheduleRetry() {
+  if (retryTimeout) return;
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    flushQueue();
+  }, RETRY_DELAY_MS);
+}
+
+// Server errors and throttling are worth retrying, and hold up the writes behind them; other 4xx
+// responses never will succeed. 401 (session not accepted) is handled apart.
+function isRetryableStatus(httpStatus: number): boolean {
+  return httpStatus >= 500 || httpStatus === 408 || httpStatus === 429;
+}
+
+async function runFlush() {
+  const userId = getSessionUserId();
+  if (!userId) return;
+
+  // Writes the server turned away with a 401 in this run are kept for a later one, after the rest
+  let parkedAfterSeq: number | undefined;
+
+  setStatus({ syncing: true });
+  try {
+    for (;;) {
+      // Signed out (or in as someone else) part-way: their writes wait for them
+      if (getSessionUserId() !== userId) break;
+      const entry = await getNextOutboxEntry(userId, parkedAfterSeq);
+      if (!entry || entry.seq === undefined) break;
+
+      let response: Response;
+      try {
+        response = await fetch(entry.url, {
+          method: entry.method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': entry.idempotencyKey,
+            ...getAuthHeaders(),
+          },
+          body: entry.body,
+        });
+      } catch {
+        // Network failure: keep the write and everything after it for the next attempt
+        setStatus({ online: navigator.onLine });
+        settleWaitingAsQueued();
+        scheduleRetry();
+        return;
+      }
+
+      if (!status.online) setStatus({ online: true });
+
+      // Session not accepted: keep the write until the athlete signs in again, without holding up
+      // the ones behind it
+      if (response.status === 401) {
+        settleAsQueued(entry.idempotencyKey);
+        parkedAfterSeq = entry.seq;
+        continue;
+      }
+
+      if (!response.ok && isRetryableStatus(response.status)) {
+        settleWaitingAsQueued();
+        scheduleRetry();
+        return;
+      }
+
+      await removeFromOutbox(entry.seq);
+      await refreshPending();
+
+      const body = await response.json().catch(() => ({}));
+      const waiter = waiting.get(entry.idempotencyKey);
+      waiting.delete(entry.idempotencyKey);
+      if (response.ok) {
+        waiter?.resolve(body);
+      } else {
+        // Rejected by the server (e.g. validation): dropped so it doesn't block later writes
+        console.error(`Dropped queued ${entry.method} ${entry.url}:`, body.error || response.status);
+        waiter?.reject(new Error(body.error || `HTTP error! status: ${response.status}`));
+      }
+    }
+    if (parkedAfterSeq !== undefined) scheduleRetry();
+  } catch (err) {
+    console.error('Error syncing queued writes:', err);
+    settleWaitingAsQueued();
+    scheduleRetry();
+  } finally {
+    setStatus({ syncing: false });
+  }
+}
+
+/**
+ * Send queued writes in order. Safe to call at any time; concurrent calls share one run.
+ */
+export function flushQueue(): Promise<void> {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = runFlush().finally(() => {
+    flushing = null;
+    if (flushAgain) {
+      flushAgain = false;
+      flushQueue();
+    }
+  });
+  return flushing;
+}
+
+/**
+ * Send what's queued before the athlete signs out, giving up after a few seconds. Anything left
+ * stays queued for them and is sent the next time they sign in on this device.
+ */
+export function flushBeforeSignOut(): Promise<void> {
+  return Promise.race([
+    flushQueue(),
+    new Promise<void>((resolve) => setTimeout(resolve, SIGN_OUT_FLUSH_TIMEOUT_MS)),
+  ]);
+}
+
+/**
+ * Queue a write and try to send it. Resolves with the server's response once it's sent, or with
+ * { queued: true } when it's stored for later (offline, server unavailable). Without IndexedDB
+ * (or a session to queue it for) the write is sent directly.
+ */
+export async function queueWrite<T>(url: string, method: string, body: unknown): Promise<T | QueuedResult> {
+  const userId = getSessionUserId();
+  const entry = {
+    idempotencyKey: newIdempotencyKey(),
+    url,
+    method,
+    body: JSON.stringify(body),
+    createdAt: Date.now(),
+  };
+
+  // Registered before the write is stored, so a flush already in progress can't miss it
+  const result = new Promise<T | QueuedResult>((resolve, reject) => {
+    waiting.set(entry.idempotencyKey, { resolve, reject });
+  });
+
+  try {
+    if (!userId) throw new Error('Not signed in');
+    await addToOutbox({ ...entry, userId });
+  } catch {
+    waiting.delete(entry.idempotencyKey);
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.idempotencyKey, ...getAuthHeaders() },
+      body: entry.body,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    return data as T;
+  }
+
+  await refreshPending();
+  flushQueue();
+  return result;
+}
+
+/**
+ * Online state and number of unsynced writes, updated as the queue changes
+ */
+export function useSyncStatus(): SyncStatus {
+  const [current, setCurrent] = useState<SyncStatus>(status);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(status);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    flushQueue();
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+
+  // Sync anything left over from a previous session
+  refreshPending().then(() => {
+    if (status.pending > 0) flushQueue();
+  });
+}
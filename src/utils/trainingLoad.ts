@@ -0,0 +1,124 @@
+import { DailyLoad } from './api';
+
+/**
+ * Training load monitoring. From each day's load (session RPE x minutes, or set tonnage):
+ * - acute load: total over the last 7 days
+ * - chronic load: weekly average over the last 28 days (which include the acute week)
+ * - ACWR: acute / chronic; well above 1 means a spike on what the athlete is used to
+ * - monotony: mean / standard deviation of the last 7 daily loads; strain: acute load x monotony
+ */
+
+export type LoadMetric = 'sessionLoad' | 'tonnage';
+
+export interface SafeBand {
+  low: number;
+  high: number;
+}
+
+export interface LoadPoint {
+  date: string; // YYYY-MM-DD
+  load: number;
+  acute: number;
+  chronic: number;
+  acwr?: number; // undefined without any chronic load
+  monotony?: number; // undefined when every day of the week had the same load
+  strain?: number;
+}
+
+export type LoadStatus = 'low' | 'ok' | 'high';
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 28;
+export const DEFAULT_SAFE_BAND: SafeBand = { low: 0.8, high: 1.3 };
+
+const SAFE_BAND_KEY = 'sequence_acwr_band';
+
+export const LOAD_METRIC_LABELS: Record<LoadMetric, string> = {
+  sessionLoad: 'Session load (sRPE x min)',
+  tonnage: 'Tonnage',
+};
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * First day whose load is needed to chart from `from`: the chronic window reaches back 28 days
+ */
+export function getLoadHistoryStart(from: string): string {
+  return addDays(from, -(CHRONIC_DAYS - 1));
+}
+
+/**
+ * Rolling load metrics for each day from `from` to `to`. `days` should cover
+ * getLoadHistoryStart(from) onwards; days missing from it count as rest days.
+ */
+export function computeLoadSeries(days: DailyLoad[], metric: LoadMetric, from: string, to: string): LoadPoint[] {
+  const loadByDate = new Map(days.map((day) => [day.date, day[metric]]));
+  const start = getLoadHistoryStart(from);
+
+  const daily: Array<{ date: string; load: number }> = [];
+  for (let date = start; date <= to; date = addDays(date, 1)) {
+    daily.push({ date, load: loadByDate.get(date) || 0 });
+  }
+
+  const points: LoadPoint[] = [];
+  for (let i = CHRONIC_DAYS - 1; i < daily.length; i++) {
+    const week = daily.slice(i - ACUTE_DAYS + 1, i + 1).map((d) => d.load);
+    const acute = week.reduce((sum, load) => sum + load, 0);
+    const chronic = daily.slice(i - CHRONIC_DAYS + 1, i + 1).reduce((sum, d) => sum + d.load, 0) / (CHRONIC_DAYS / ACUTE_DAYS);
+
+    const mean = acute / ACUTE_DAYS;
+    const sd = Math.sqrt(week.reduce((sum, load) => sum + (load - mean) ** 2, 0) / ACUTE_DAYS);
+    const monotony = sd > 0 ? mean / sd : undefined;
+
+    points.push({
+      date: daily[i].date,
+      load: daily[i].load,
+      acute,
+      chronic,
+      acwr: chronic > 0 ? acute / chronic : undefined,
+      monotony,
+      strain: monotony !== undefined ? acute * monotony : undefined,
+    });
+  }
+  return points;
+}
+
+export function getLoadStatus(acwr: number | undefined, band: SafeBand): LoadStatus | undefined {
+  if (acwr === undefined) return undefined;
+  if (acwr < band.low) return 'low';
+  if (acwr > band.high) return 'high';
+  return 'ok';
+}
+
+export function getLoadStatusColor(status: LoadStatus | undefined): string {
+  if (status === 'high') return 'text-red-400';
+  if (status === 'low') return 'text-yellow-400';
+  if (status === 'ok') return 'text-green-400';
+  return 'text-gray-500';
+}
+
+/**
+ * The coach's ACWR safe band, saved on this device
+ */
+export function loadSafeBand(): SafeBand {
+  try {
+    const stored = localStorage.getItem(SAFE_BAND_KEY);
+    if (!stored) return DEFAULT_SAFE_BAND;
+    const band = JSON.parse(stored);
+    return band.low > 0 && band.high > band.low ? { low: band.low, high: band.high } : DEFAULT_SAFE_BAND;
+  } catch {
+    return DEFAULT_SAFE_BAND;
+  }
+}
+
+export function saveSafeBand(band: SafeBand) {
+  try {
+    localStorage.setItem(SAFE_BAND_KEY, JSON.stringify(band));
+  } catch {
+    // Storage unavailable - the band applies until the page is reloaded
+  }
+}
@@ -0,0 +1,54 @@
+import { WellnessCheckin, WellnessQuestion } from './api';
+
+/**
+ * Daily wellness check-in questions. Scale questions are answered 1-5; `low`/`high` describe the
+ * ends of the scale. Soreness and stress are the two where a high answer is bad.
+ */
+
+export interface WellnessQuestionInfo {
+  label: string;
+  shortLabel: string; // coach grid column
+  low?: string;
+  high?: string;
+  higherIsBetter?: boolean;
+}
+
+export const WELLNESS_QUESTIONS: WellnessQuestion[] = [
+  'sleepHours',
+  'sleepQuality',
+  'soreness',
+  'stress',
+  'mood',
+  'energy',
+  'painLocation',
+];
+
+export const WELLNESS_QUESTION_INFO: Record<WellnessQuestion, WellnessQuestionInfo> = {
+  sleepHours: { label: 'Hours of sleep', shortLabel: 'Sleep (h)' },
+  sleepQuality: { label: 'Sleep quality', shortLabel: 'Sleep', low: 'Very poor', high: 'Excellent', higherIsBetter: true },
+  soreness: { label: 'Muscle soreness', shortLabel: 'Soreness', low: 'None', high: 'Very sore', higherIsBetter: false },
+  stress: { label: 'Stress', shortLabel: 'Stress', low: 'Relaxed', high: 'Very stressed', higherIsBetter: false },
+  mood: { label: 'Mood', shortLabel: 'Mood', low: 'Very low', high: 'Great', higherIsBetter: true },
+  energy: { label: 'Energy', shortLabel: 'Energy', low: 'Exhausted', high: 'Full of energy', higherIsBetter: true },
+  painLocation: { label: 'Any pain? Where?', shortLabel: 'Pain' },
+};
+
+export function isScaleQuestion(question: WellnessQuestion): boolean {
+  return WELLNESS_QUESTION_INFO[question].higherIsBetter !== undefined;
+}
+
+/**
+ * Whether a scale answer is at the bad end (1-2 when higher is better, 4-5 otherwise)
+ */
+export function isPoorAnswer(question: WellnessQuestion, value: number | undefined): boolean {
+  const { higherIsBetter } = WELLNESS_QUESTION_INFO[question];
+  if (value === undefined || higherIsBetter === undefined) return false;
+  return higherIsBetter ? value <= 2 : value >= 4;
+}
+
+// Tailwind text colour for a readiness score
+export function getReadinessColor(checkin: WellnessCheckin): string {
+  if (checkin.lowReadiness) return 'text-red-400';
+  if (checkin.readiness !== undefined && checkin.readiness < 75) return 'text-yellow-400';
+  return 'text-emerald-400';
+}
@@ -0,0 +1,257 @@
+-- Structured exercise prescriptions (rep ranges, per-set schemes, AMRAP, holds, distance,
+-- %1RM, RPE/RIR, tempo, unit). reps/weight stay as a formatted text summary.
+ALTER TABLE block_exercises ADD COLUMN IF NOT EXISTS prescription JSONB;
+
+-- Parse legacy free-text reps/weight into a prescription (same formats as parsePrescription
+-- in src/utils/prescription.ts). Returns NULL when the reps text isn't recognised.
+CREATE OR REPLACE FUNCTION parse_exercise_prescription(p_reps TEXT, p_weight TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_reps TEXT := btrim(COALESCE(p_reps, ''));
+  v_weight TEXT := btrim(COALESCE(p_weight, ''));
+  v_match TEXT[];
+  v_result JSONB;
+  v_extras JSONB := '{}'::JSONB;
+  v_loads JSONB;
+  v_distance_unit TEXT;
+BEGIN
+  -- RPE/RIR/tempo can be written in either field
+  v_match := regexp_match(v_reps || ' ' || v_weight, '@?\s*rpe\s*(\d+(\.5)?)', 'i');
+  IF v_match IS NOT NULL THEN
+    v_extras := v_extras || jsonb_build_object('rpe', v_match[1]::NUMERIC);
+    v_reps := regexp_replace(v_reps, '@?\s*rpe\s*\d+(\.5)?', '', 'i');
+    v_weight := regexp_replace(v_weight, '@?\s*rpe\s*\d+(\.5)?', '', 'i');
+  END IF;
+
+  v_match := regexp_match(v_reps || ' ' || v_weight, 'rir\s*(\d+)', 'i');
+  IF v_match IS NOT NULL THEN
+    v_extras := v_extras || jsonb_build_object('rir', v_match[1]::INTEGER);
+    v_reps := regexp_replace(v_reps, 'rir\s*\d+', '', 'i');
+    v_weight := regexp_replace(v_weight, 'rir\s*\d+', '', 'i');
+  END IF;
+
+  v_match := regexp_match(v_reps || ' ' || v_weight, 'tempo\s*([0-9xX]+(-[0-9xX]+){2,3})', 'i');
+  IF v_match IS NOT NULL THEN
+    v_extras := v_extras || jsonb_build_object('tempo', upper(v_match[1]));
+    v_reps := regexp_replace(v_reps, 'tempo\s*[0-9xX]+(-[0-9xX]+){2,3}', '', 'i');
+    v_weight := regexp_replace(v_weight, 'tempo\s*[0-9xX]+(-[0-9xX]+){2,3}', '', 'i');
+  END IF;
+
+  v_reps := regexp_replace(v_reps, '^[\s@,]+|[\s@,]+$', '', 'g');
+  v_weight := regexp_replace(v_weight, '^[\s@,]+|[\s@,]+$', '', 'g');
+
+  IF v_reps ~ '^\d+$' THEN
+    v_result := jsonb_build_object('kind', 'reps', 'reps', v_reps::INTEGER);
+  ELSIF v_reps ~ '^\d+\s*[-–]\s*\d+$' THEN
+    v_match := regexp_match(v_reps, '^(\d+)\s*[-–]\s*(\d+)$');
+    v_result := jsonb_build_object('kind', 'range', 'repsMin', v_match[1]::INTEGER, 'repsMax', v_match[2]::INTEGER);
+  ELSIF v_reps ~ '^\d+(\s*[/,]\s*\d+)+$' THEN
+    v_result := jsonb_build_object(
+      'kind', 'scheme',
+      'scheme', (
+        SELECT jsonb_agg(btrim(part)::INTEGER ORDER BY idx)
+        FROM regexp_split_to_table(v_reps, '[/,]') WITH ORDINALITY AS t(part, idx)
+      )
+    );
+  ELSIF v_reps ~* '^(amrap|max)$' THEN
+    v_result := jsonb_build_object('kind', 'amrap');
+  ELSIF v_reps ~ '^\d+:\d{2}$' THEN
+    v_match := regexp_match(v_reps, '^(\d+):(\d{2})$');
+    v_result := jsonb_build_object('kind', 'time', 'seconds', v_match[1]::INTEGER * 60 + v_match[2]::INTEGER);
+  ELSIF v_reps ~* '^\d+\s*(s|sec|secs|seconds)$' THEN
+    v_result := jsonb_build_object('kind', 'time', 'seconds', (regexp_match(v_reps, '^(\d+)'))[1]::INTEGER);
+  ELSIF v_reps ~* '^\d+\s*(min|mins|minutes)$' THEN
+    v_result := jsonb_build_object('kind', 'time', 'seconds', (regexp_match(v_reps, '^(\d+)'))[1]::INTEGER * 60);
+  ELSE
+    v_match := regexp_match(v_reps, '^(\d+(\.\d+)?)\s*([a-zA-Z]+)$');
+    IF v_match IS NOT NULL THEN
+      v_distance_unit := CASE lower(v_match[3])
+        WHEN 'm' THEN 'm' WHEN 'meter' THEN 'm' WHEN 'meters' THEN 'm'
+        WHEN 'yd' THEN 'yd' WHEN 'yds' THEN 'yd' WHEN 'yard' THEN 'yd' WHEN 'yards' THEN 'yd'
+        WHEN 'km' THEN 'km'
+        WHEN 'mi' THEN 'mi' WHEN 'mile' THEN 'mi' WHEN 'miles' THEN 'mi'
+      END;
+      IF v_distance_unit IS NOT NULL THEN
+        v_result := jsonb_build_object('kind', 'distance', 'distance', v_match[1]::NUMERIC, 'distanceUnit', v_distance_unit);
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_result IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_weight <> '' THEN
+    -- "75%", "65/75/85% 1RM" or "185", "135/155/175 lbs"
+    v_match := regexp_match(v_weight, '^([0-9./ ]*[0-9])\s*%(\s*(of\s*)?1rm)?$', 'i');
+    IF v_match IS NOT NULL THEN
+      v_result := v_result || jsonb_build_object('loadType', 'percent1RM');
+    ELSE
+      v_match := regexp_match(v_weight, '^([0-9./ ]*[0-9])\s*(lbs?|kgs?)?$', 'i');
+      IF v_match IS NOT NULL THEN
+        v_result := v_result || jsonb_build_object(
+          'loadType', 'weight',
+          'unit', CASE WHEN v_match[2] IS NULL THEN NULL WHEN lower(v_match[2]) LIKE 'kg%' THEN 'kg' ELSE 'lb' END
+        );
+      END IF;
+    END IF;
+
+    IF v_match IS NOT NULL AND v_match[1] ~ '^\d+(\.\d+)?(\s*/\s*\d+(\.\d+)?)*$' THEN
+      v_loads := (
+        SELECT jsonb_agg(btrim(part)::NUMERIC ORDER BY idx)
+        FROM regexp_split_to_table(v_match[1], '/') WITH ORDINALITY AS t(part, idx)
+      );
+      IF jsonb_array_length(v_loads) > 1 THEN
+        v_result := v_result || jsonb_build_object('setLoads', v_loads);
+      ELSE
+        v_result := v_result || jsonb_build_object('load', v_loads->0);
+      END IF;
+    ELSE
+      v_result := (v_result - 'loadType' - 'unit') || jsonb_build_object('note', v_weight);
+    END IF;
+  END IF;
+
+  RETURN jsonb_strip_nulls(v_result || v_extras);
+END;
+$$;
+
+-- Backfill existing exercises and report rows that couldn't be parsed (they keep their text)
+DO $$
+DECLARE
+  v_unparsed INTEGER;
+BEGIN
+  UPDATE block_exercises
+  SET prescription = parse_exercise_prescription(reps, weight)
+  WHERE prescription IS NULL;
+
+  SELECT COUNT(*) INTO v_unparsed FROM block_exercises WHERE prescription IS NULL;
+  IF v_unparsed > 0 THEN
+    RAISE NOTICE '% block_exercises rows could not be parsed into a prescription and keep their reps/weight text', v_unparsed;
+  END IF;
+END;
+$$;
+
+-- save_workout now also writes the prescription
+CREATE OR REPLACE FUNCTION save_workout(
+  p_workout_id TEXT,
+  p_workout JSONB,
+  p_create BOOLEAN DEFAULT FALSE
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_block JSONB;
+  v_block_index INTEGER;
+  v_block_id TEXT;
+  v_exercise JSONB;
+  v_exercise_index INTEGER;
+  v_exercise_id TEXT;
+  v_stored_block_ids TEXT[];
+  v_stored_exercise_ids TEXT[];
+  v_kept_block_ids TEXT[] := '{}';
+  v_kept_exercise_ids TEXT[] := '{}';
+BEGIN
+  IF p_create THEN
+    INSERT INTO workouts (id, name, date, athlete_id, team_id)
+    VALUES (
+      p_workout_id,
+      p_workout->>'name',
+      p_workout->>'date',
+      NULLIF(p_workout->>'athleteId', ''),
+      NULLIF(p_workout->>'teamId', '')
+    );
+  ELSE
+    UPDATE workouts
+    SET name = p_workout->>'name',
+        date = p_workout->>'date',
+        athlete_id = NULLIF(p_workout->>'athleteId', ''),
+        team_id = NULLIF(p_workout->>'teamId', '')
+    WHERE id = p_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Workout not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_stored_block_ids
+  FROM blocks
+  WHERE workout_id = p_workout_id;
+
+  SELECT COALESCE(array_agg(be.id), '{}') INTO v_stored_exercise_ids
+  FROM block_exercises be
+  JOIN blocks b ON b.id = be.block_id
+  WHERE b.workout_id = p_workout_id;
+
+  FOR v_block, v_block_index IN
+    SELECT value, (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(COALESCE(p_workout->'blocks', '[]'::JSONB)) WITH ORDINALITY
+  LOOP
+    v_block_id := v_block->>'id';
+
+    IF v_block_id IS NOT NULL
+       AND v_block_id = ANY(v_stored_block_ids)
+       AND NOT (v_block_id = ANY(v_kept_block_ids)) THEN
+      UPDATE blocks
+      SET name = v_block->>'name', order_index = v_block_index
+      WHERE id = v_block_id;
+    ELSE
+      v_block_id := p_workout_id || '_block_' || gen_random_uuid()::TEXT;
+      INSERT INTO blocks (id, workout_id, name, order_index)
+      VALUES (v_block_id, p_workout_id, v_block->>'name', v_block_index);
+    END IF;
+
+    v_kept_block_ids := array_append(v_kept_block_ids, v_block_id);
+
+    FOR v_exercise, v_exercise_index IN
+      SELECT value, (ordinality - 1)::INTEGER
+      FROM jsonb_array_elements(COALESCE(v_block->'exercises', '[]'::JSONB)) WITH ORDINALITY
+    LOOP
+      v_exercise_id := v_exercise->>'id';
+
+      IF v_exercise_id IS NOT NULL
+         AND v_exercise_id = ANY(v_stored_exercise_ids)
+         AND NOT (v_exercise_id = ANY(v_kept_exercise_ids)) THEN
+        -- block_id is updated too so exercises can move between blocks without losing history
+        UPDATE block_exercises
+        SET block_id = v_block_id,
+            exercise_name = v_exercise->>'exerciseName',
+            sets = (v_exercise->>'sets')::INTEGER,
+            reps = v_exercise->>'reps',
+            weight = NULLIF(v_exercise->>'weight', ''),
+            prescription = NULLIF(v_exercise->'prescription', 'null'::JSONB),
+            order_index = v_exercise_index
+        WHERE id = v_exercise_id;
+      ELSE
+        v_exercise_id := p_workout_id || '_ex_' || gen_random_uuid()::TEXT;
+        INSERT INTO block_exercises (id, block_id, exercise_name, sets, reps, weight, prescription, order_index)
+        VALUES (
+          v_exercise_id,
+          v_block_id,
+          v_exercise->>'exerciseName',
+          (v_exercise->>'sets')::INTEGER,
+          v_exercise->>'reps',
+          NULLIF(v_exercise->>'weight', ''),
+          NULLIF(v_exercise->'prescription', 'null'::JSONB),
+          v_exercise_index
+        );
+      END IF;
+
+      v_kept_exercise_ids := array_append(v_kept_exercise_ids, v_exercise_id);
+    END LOOP;
+  END LOOP;
+
+  -- Delete exercises before blocks so that moved exercises aren't caught by the block cascade
+  DELETE FROM block_exercises
+  WHERE id = ANY(v_stored_exercise_ids)
+    AND NOT (id = ANY(v_kept_exercise_ids));
+
+  DELETE FROM blocks
+  WHERE id = ANY(v_stored_block_ids)
+    AND NOT (id = ANY(v_kept_block_ids));
+
+  RETURN p_workout_id;
+END;
+$$;
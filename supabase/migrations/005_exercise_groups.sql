@@ -0,0 +1,136 @@
+-- Supersets/circuits within a block. The block stores its group definitions
+-- ([{ id, type, rounds, restBetweenRounds }]) and each exercise references its group by id.
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS exercise_groups JSONB;
+ALTER TABLE block_exercises ADD COLUMN IF NOT EXISTS group_id TEXT;
+
+-- save_workout now also writes exercise groups and group membership
+CREATE OR REPLACE FUNCTION save_workout(
+  p_workout_id TEXT,
+  p_workout JSONB,
+  p_create BOOLEAN DEFAULT FALSE
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_block JSONB;
+  v_block_index INTEGER;
+  v_block_id TEXT;
+  v_exercise JSONB;
+  v_exercise_index INTEGER;
+  v_exercise_id TEXT;
+  v_stored_block_ids TEXT[];
+  v_stored_exercise_ids TEXT[];
+  v_kept_block_ids TEXT[] := '{}';
+  v_kept_exercise_ids TEXT[] := '{}';
+BEGIN
+  IF p_create THEN
+    INSERT INTO workouts (id, name, date, athlete_id, team_id)
+    VALUES (
+      p_workout_id,
+      p_workout->>'name',
+      p_workout->>'date',
+      NULLIF(p_workout->>'athleteId', ''),
+      NULLIF(p_workout->>'teamId', '')
+    );
+  ELSE
+    UPDATE workouts
+    SET name = p_workout->>'name',
+        date = p_workout->>'date',
+        athlete_id = NULLIF(p_workout->>'athleteId', ''),
+        team_id = NULLIF(p_workout->>'teamId', '')
+    WHERE id = p_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Workout not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_stored_block_ids
+  FROM blocks
+  WHERE workout_id = p_workout_id;
+
+  SELECT COALESCE(array_agg(be.id), '{}') INTO v_stored_exercise_ids
+  FROM block_exercises be
+  JOIN blocks b ON b.id = be.block_id
+  WHERE b.workout_id = p_workout_id;
+
+  FOR v_block, v_block_index IN
+    SELECT value, (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(COALESCE(p_workout->'blocks', '[]'::JSONB)) WITH ORDINALITY
+  LOOP
+    v_block_id := v_block->>'id';
+
+    IF v_block_id IS NOT NULL
+       AND v_block_id = ANY(v_stored_block_ids)
+       AND NOT (v_block_id = ANY(v_kept_block_ids)) THEN
+      UPDATE blocks
+      SET name = v_block->>'name',
+          order_index = v_block_index,
+          exercise_groups = NULLIF(NULLIF(v_block->'groups', 'null'::JSONB), '[]'::JSONB)
+      WHERE id = v_block_id;
+    ELSE
+      v_block_id := p_workout_id || '_block_' || gen_random_uuid()::TEXT;
+      INSERT INTO blocks (id, workout_id, name, order_index, exercise_groups)
+      VALUES (
+        v_block_id,
+        p_workout_id,
+        v_block->>'name',
+        v_block_index,
+        NULLIF(NULLIF(v_block->'groups', 'null'::JSONB), '[]'::JSONB)
+      );
+    END IF;
+
+    v_kept_block_ids := array_append(v_kept_block_ids, v_block_id);
+
+    FOR v_exercise, v_exercise_index IN
+      SELECT value, (ordinality - 1)::INTEGER
+      FROM jsonb_array_elements(COALESCE(v_block->'exercises', '[]'::JSONB)) WITH ORDINALITY
+    LOOP
+      v_exercise_id := v_exercise->>'id';
+
+      IF v_exercise_id IS NOT NULL
+         AND v_exercise_id = ANY(v_stored_exercise_ids)
+         AND NOT (v_exercise_id = ANY(v_kept_exercise_ids)) THEN
+        -- block_id is updated too so exercises can move between blocks without losing history
+        UPDATE block_exercises
+        SET block_id = v_block_id,
+            exercise_name = v_exercise->>'exerciseName',
+            sets = (v_exercise->>'sets')::INTEGER,
+            reps = v_exercise->>'reps',
+            weight = NULLIF(v_exercise->>'weight', ''),
+            prescription = NULLIF(v_exercise->'prescription', 'null'::JSONB),
+            group_id = NULLIF(v_exercise->>'groupId', ''),
+            order_index = v_exercise_index
+        WHERE id = v_exercise_id;
+      ELSE
+        v_exercise_id := p_workout_id || '_ex_' || gen_random_uuid()::TEXT;
+        INSERT INTO block_exercises (id, block_id, exercise_name, sets, reps, weight, prescription, group_id, order_index)
+        VALUES (
+          v_exercise_id,
+          v_block_id,
+          v_exercise->>'exerciseName',
+          (v_exercise->>'sets')::INTEGER,
+          v_exercise->>'reps',
+          NULLIF(v_exercise->>'weight', ''),
+          NULLIF(v_exercise->'prescription', 'null'::JSONB),
+          NULLIF(v_exercise->>'groupId', ''),
+          v_exercise_index
+        );
+      END IF;
+
+      v_kept_exercise_ids := array_append(v_kept_exercise_ids, v_exercise_id);
+    END LOOP;
+  END LOOP;
+
+  -- Delete exercises before blocks so that moved exercises aren't caught by the block cascade
+  DELETE FROM block_exercises
+  WHERE id = ANY(v_stored_exercise_ids)
+    AND NOT (id = ANY(v_kept_exercise_ids));
+
+  DELETE FROM blocks
+  WHERE id = ANY(v_stored_block_ids)
+    AND NOT (id = ANY(v_kept_block_ids));
+
+  RETURN p_workout_id;
+END;
+$$;
@@ -0,0 +1,134 @@
+-- Multi-week training programs: N weeks x M training days, each day pointing at a template workout.
+-- Assigning a program to an athlete or team materializes dated workouts from those templates.
+CREATE TABLE IF NOT EXISTS programs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  weeks INTEGER NOT NULL CHECK (weeks > 0),
+  days_per_week INTEGER NOT NULL CHECK (days_per_week BETWEEN 1 AND 7),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Days without a row (or whose template was deleted) are empty and get no workout
+CREATE TABLE IF NOT EXISTS program_days (
+  program_id TEXT NOT NULL,
+  week INTEGER NOT NULL,
+  day INTEGER NOT NULL,
+  workout_id TEXT,
+  PRIMARY KEY (program_id, week, day),
+  FOREIGN KEY (program_id) REFERENCES programs(id) ON DELETE CASCADE,
+  FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_days_workout_id ON program_days(workout_id);
+
+CREATE TABLE IF NOT EXISTS program_assignments (
+  id TEXT PRIMARY KEY,
+  program_id TEXT NOT NULL,
+  athlete_id TEXT,
+  team_id TEXT,
+  start_date TEXT NOT NULL,
+  weekdays JSONB NOT NULL, -- weekday (0 = Sunday) for each training day, in day order
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (program_id) REFERENCES programs(id) ON DELETE CASCADE,
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_assignments_program_id ON program_assignments(program_id);
+
+ALTER TABLE workouts
+  ADD COLUMN IF NOT EXISTS program_assignment_id TEXT REFERENCES program_assignments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workouts_program_assignment_id ON workouts(program_assignment_id);
+
+-- Atomic create/update of a program and its day grid, called over RPC from api/programs.
+-- The day grid is replaced as a whole; days outside weeks x days_per_week are dropped.
+CREATE OR REPLACE FUNCTION save_program(
+  p_program_id TEXT,
+  p_program JSONB,
+  p_create BOOLEAN DEFAULT FALSE
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_weeks INTEGER := (p_program->>'weeks')::INTEGER;
+  v_days_per_week INTEGER := (p_program->>'daysPerWeek')::INTEGER;
+BEGIN
+  IF p_create THEN
+    INSERT INTO programs (id, name, description, weeks, days_per_week)
+    VALUES (
+      p_program_id,
+      p_program->>'name',
+      NULLIF(p_program->>'description', ''),
+      v_weeks,
+      v_days_per_week
+    );
+  ELSE
+    UPDATE programs
+    SET name = p_program->>'name',
+        description = NULLIF(p_program->>'description', ''),
+        weeks = v_weeks,
+        days_per_week = v_days_per_week,
+        updated_at = NOW()
+    WHERE id = p_program_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Program not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  DELETE FROM program_days WHERE program_id = p_program_id;
+
+  INSERT INTO program_days (program_id, week, day, workout_id)
+  SELECT DISTINCT ON ((d->>'week')::INTEGER, (d->>'day')::INTEGER)
+    p_program_id,
+    (d->>'week')::INTEGER,
+    (d->>'day')::INTEGER,
+    d->>'workoutId'
+  FROM jsonb_array_elements(COALESCE(p_program->'days', '[]'::JSONB)) AS d
+  WHERE NULLIF(d->>'workoutId', '') IS NOT NULL
+    AND (d->>'week')::INTEGER BETWEEN 1 AND v_weeks
+    AND (d->>'day')::INTEGER BETWEEN 1 AND v_days_per_week;
+
+  RETURN p_program_id;
+END;
+$$;
+
+-- Record a program assignment and create all of its workouts in one transaction, so a failure
+-- part-way doesn't leave a half-scheduled program. p_workouts are save_workout payloads with an
+-- extra "id" field; api/programs resolves templates and dates before calling this.
+CREATE OR REPLACE FUNCTION assign_program(
+  p_assignment JSONB,
+  p_workouts JSONB
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assignment_id TEXT := p_assignment->>'id';
+  v_workout JSONB;
+BEGIN
+  INSERT INTO program_assignments (id, program_id, athlete_id, team_id, start_date, weekdays)
+  VALUES (
+    v_assignment_id,
+    p_assignment->>'programId',
+    NULLIF(p_assignment->>'athleteId', ''),
+    NULLIF(p_assignment->>'teamId', ''),
+    p_assignment->>'startDate',
+    p_assignment->'weekdays'
+  );
+
+  FOR v_workout IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_workouts, '[]'::JSONB))
+  LOOP
+    PERFORM save_workout(v_workout->>'id', v_workout, TRUE);
+
+    UPDATE workouts
+    SET program_assignment_id = v_assignment_id
+    WHERE id = v_workout->>'id';
+  END LOOP;
+
+  RETURN v_assignment_id;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Scheduled deloads for programs: every Nth week runs at reduced load and volume.
+-- Shape: { "every": 4, "loadPercent": 60, "setsPercent": 50 }. Per-exercise progression rules
+-- live in block_exercises.prescription (the "progression" key) and need no schema change.
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS deload JSONB;
+
+CREATE OR REPLACE FUNCTION save_program(
+  p_program_id TEXT,
+  p_program JSONB,
+  p_create BOOLEAN DEFAULT FALSE
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_weeks INTEGER := (p_program->>'weeks')::INTEGER;
+  v_days_per_week INTEGER := (p_program->>'daysPerWeek')::INTEGER;
+  v_deload JSONB := NULLIF(p_program->'deload', 'null'::JSONB);
+BEGIN
+  IF p_create THEN
+    INSERT INTO programs (id, name, description, weeks, days_per_week, deload)
+    VALUES (
+      p_program_id,
+      p_program->>'name',
+      NULLIF(p_program->>'description', ''),
+      v_weeks,
+      v_days_per_week,
+      v_deload
+    );
+  ELSE
+    UPDATE programs
+    SET name = p_program->>'name',
+        description = NULLIF(p_program->>'description', ''),
+        weeks = v_weeks,
+        days_per_week = v_days_per_week,
+        deload = v_deload,
+        updated_at = NOW()
+    WHERE id = p_program_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Program not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  DELETE FROM program_days WHERE program_id = p_program_id;
+
+  INSERT INTO program_days (program_id, week, day, workout_id)
+  SELECT DISTINCT ON ((d->>'week')::INTEGER, (d->>'day')::INTEGER)
+    p_program_id,
+    (d->>'week')::INTEGER,
+    (d->>'day')::INTEGER,
+    d->>'workoutId'
+  FROM jsonb_array_elements(COALESCE(p_program->'days', '[]'::JSONB)) AS d
+  WHERE NULLIF(d->>'workoutId', '') IS NOT NULL
+    AND (d->>'week')::INTEGER BETWEEN 1 AND v_weeks
+    AND (d->>'day')::INTEGER BETWEEN 1 AND v_days_per_week;
+
+  RETURN p_program_id;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Athlete maxes: dated, tested or estimated 1RMs per exercise. The newest entry for an exercise
+-- is the athlete's current max and resolves % 1RM loads when they view a workout.
+CREATE TABLE IF NOT EXISTS athlete_maxes (
+  id TEXT PRIMARY KEY,
+  athlete_id TEXT NOT NULL,
+  exercise_id TEXT,
+  exercise_name TEXT NOT NULL,
+  value NUMERIC NOT NULL CHECK (value > 0),
+  unit TEXT NOT NULL DEFAULT 'lb' CHECK (unit IN ('lb', 'kg')),
+  type TEXT NOT NULL DEFAULT 'tested' CHECK (type IN ('tested', 'estimated')),
+  date TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
+  FOREIGN KEY (exercise_id) REFERENCES exercises(id) ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_athlete_maxes_athlete_id ON athlete_maxes(athlete_id, date DESC);
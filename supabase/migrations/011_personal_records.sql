@@ -0,0 +1,26 @@
+-- Personal-record history, detected from logged sets whenever an athlete's sets are saved
+-- (api/workouts/_records.ts). record_type is 1RM/3RM/5RM (heaviest weight for at least that many
+-- reps, value = weight) or e1RM (best estimated 1RM, value = estimate, formula = epley/brzycki).
+CREATE TABLE IF NOT EXISTS personal_records (
+  id TEXT PRIMARY KEY,
+  athlete_id TEXT NOT NULL,
+  exercise_id TEXT,
+  exercise_name TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('1RM', '3RM', '5RM', 'e1RM')),
+  value NUMERIC NOT NULL,
+  previous_value NUMERIC,
+  weight NUMERIC NOT NULL,
+  reps INTEGER NOT NULL,
+  formula TEXT,
+  workout_id TEXT NOT NULL,
+  block_exercise_id TEXT NOT NULL,
+  set_number INTEGER NOT NULL,
+  date TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE,
+  FOREIGN KEY (exercise_id) REFERENCES exercises(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  FOREIGN KEY (workout_id) REFERENCES workouts(id) ON DELETE CASCADE,
+  FOREIGN KEY (block_exercise_id) REFERENCES block_exercises(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_records_athlete_id ON personal_records(athlete_id, workout_id);
@@ -0,0 +1,5 @@
+-- Optional effort per logged set: RPE (6-10 in half steps) and reps in reserve
+ALTER TABLE exercise_sets ADD COLUMN IF NOT EXISTS rpe NUMERIC(3,1)
+  CHECK (rpe IS NULL OR (rpe BETWEEN 6 AND 10 AND rpe * 2 = FLOOR(rpe * 2)));
+ALTER TABLE exercise_sets ADD COLUMN IF NOT EXISTS rir INTEGER
+  CHECK (rir IS NULL OR rir BETWEEN 0 AND 10);
@@ -0,0 +1,10 @@
+-- Responses to writes sent with an Idempotency-Key header (queued offline writes from the athlete
+-- app). A retried write whose key is already here gets the stored response instead of being
+-- applied again. Keys older than a week are pruned when new ones are saved.
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key TEXT PRIMARY KEY,
+  response JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
@@ -0,0 +1,9 @@
+-- Session feedback given when an athlete completes a workout: session RPE on the CR-10 scale,
+-- duration in minutes (auto-timed from the first to the last set tick) and a comment.
+-- Training load reported to coaches is session_rpe x duration_minutes.
+ALTER TABLE workout_completions ADD COLUMN IF NOT EXISTS session_rpe INTEGER
+  CHECK (session_rpe IS NULL OR session_rpe BETWEEN 0 AND 10);
+ALTER TABLE workout_completions ADD COLUMN IF NOT EXISTS duration_minutes INTEGER
+  CHECK (duration_minutes IS NULL OR duration_minutes BETWEEN 1 AND 600);
+ALTER TABLE workout_completions ADD COLUMN IF NOT EXISTS session_comment TEXT;
+ALTER TABLE workout_completions ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMP;
@@ -0,0 +1,25 @@
+-- Daily wellness check-ins, one per athlete per day (id = athleteId_date). Scale answers are 1-5;
+-- readiness (0-100) is computed from the answers when the check-in is saved
+-- (api/teams/_wellness.ts) and flagged to coaches below 60.
+CREATE TABLE IF NOT EXISTS wellness_checkins (
+  id TEXT PRIMARY KEY,
+  athlete_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  sleep_hours NUMERIC(3,1) CHECK (sleep_hours IS NULL OR sleep_hours BETWEEN 0 AND 24),
+  sleep_quality INTEGER CHECK (sleep_quality IS NULL OR sleep_quality BETWEEN 1 AND 5),
+  soreness INTEGER CHECK (soreness IS NULL OR soreness BETWEEN 1 AND 5),
+  stress INTEGER CHECK (stress IS NULL OR stress BETWEEN 1 AND 5),
+  mood INTEGER CHECK (mood IS NULL OR mood BETWEEN 1 AND 5),
+  energy INTEGER CHECK (energy IS NULL OR energy BETWEEN 1 AND 5),
+  pain_location TEXT,
+  readiness INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (athlete_id, date),
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_wellness_checkins_date ON wellness_checkins(date);
+
+-- Questions a team asks (JSON array of question keys; NULL = all of them)
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS wellness_questions JSONB;
@@ -0,0 +1,10 @@
+-- Coach accounts for the admin dashboard. Emails are stored lower-cased; passwords as scrypt
+-- hashes (api/_helpers/auth.ts). The first coach is created from the login page while the table
+-- is empty.
+CREATE TABLE IF NOT EXISTS coaches (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
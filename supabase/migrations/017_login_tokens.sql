@@ -0,0 +1,22 @@
+-- Athlete login links (api/athletes/_loginTokens.ts). Each link expires and may be single-use;
+-- issuing a new one revokes the old, and old rows are kept so coaches can see when each was last
+-- used. athletes.login_token still holds the active one.
+CREATE TABLE IF NOT EXISTS athlete_login_tokens (
+  token TEXT PRIMARY KEY,
+  athlete_id TEXT NOT NULL,
+  single_use BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_athlete_login_tokens_athlete_id ON athlete_login_tokens(athlete_id);
+
+-- Existing links stop working 30 days after this runs instead of never
+INSERT INTO athlete_login_tokens (token, athlete_id, expires_at)
+SELECT login_token, id, NOW() + INTERVAL '30 days'
+FROM athletes
+WHERE login_token IS NOT NULL
+ON CONFLICT (token) DO NOTHING;
@@ -0,0 +1,12 @@
+-- Name links (api/auth/by-name.ts). Athletes are looked up by name_lower, so the case-insensitive
+-- match is a single indexed query. Coaches can give an athlete a PIN (scrypt hash, see
+-- api/_helpers/auth.ts) that wrong guesses lock out for a while, and a team can turn name links
+-- off for its athletes.
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS name_lower TEXT GENERATED ALWAYS AS (lower(name)) STORED;
+CREATE INDEX IF NOT EXISTS idx_athletes_name_lower ON athletes(name_lower);
+
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS login_pin_hash TEXT;
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS pin_failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMP;
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS name_login_enabled BOOLEAN NOT NULL DEFAULT TRUE;
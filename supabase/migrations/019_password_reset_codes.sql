@@ -0,0 +1,18 @@
+-- Password reset codes emailed to athletes (api/auth/_passwords.ts). Codes are stored hashed, and
+-- requesting a new one replaces the athlete's previous code. athletes.password_hash now holds
+-- scrypt hashes (see 021 for plain-text passwords saved before this).
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id TEXT PRIMARY KEY,
+  athlete_id TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (athlete_id) REFERENCES athletes(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_athlete_id ON password_reset_codes(athlete_id);
+
+-- Athletes sign in by email case-insensitively, looked up by email_lower
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS email_lower TEXT GENERATED ALWAYS AS (lower(email)) STORED;
+CREATE INDEX IF NOT EXISTS idx_athletes_email_lower ON athletes(email_lower);
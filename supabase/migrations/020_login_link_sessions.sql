@@ -0,0 +1,45 @@
+-- Revoking or replacing an athlete's login link signs them out everywhere: sessions issued before
+-- athletes.sessions_valid_after are rejected (api/_helpers/auth.ts).
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS sessions_valid_after TIMESTAMPTZ;
+
+-- Revoke the athlete's login link(s) and end their sessions, in one transaction
+CREATE OR REPLACE FUNCTION revoke_login_tokens(p_athlete_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE athlete_login_tokens
+  SET revoked_at = NOW()
+  WHERE athlete_id = p_athlete_id AND revoked_at IS NULL;
+
+  UPDATE athletes
+  SET login_token = NULL, sessions_valid_after = NOW()
+  WHERE id = p_athlete_id;
+END;
+$$;
+
+-- Replace the athlete's login link with a new one (api/athletes/_loginTokens.ts). Runs in a single
+-- transaction, so a failure part-way leaves the old link working.
+CREATE OR REPLACE FUNCTION issue_login_token(
+  p_athlete_id TEXT,
+  p_token TEXT,
+  p_single_use BOOLEAN,
+  p_expires_at TIMESTAMP
+) RETURNS SETOF athlete_login_tokens
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE athlete_login_tokens
+  SET revoked_at = NOW()
+  WHERE athlete_id = p_athlete_id AND revoked_at IS NULL;
+
+  UPDATE athletes
+  SET login_token = p_token, sessions_valid_after = NOW()
+  WHERE id = p_athlete_id;
+
+  RETURN QUERY
+  INSERT INTO athlete_login_tokens (token, athlete_id, single_use, expires_at, created_at)
+  VALUES (p_token, p_athlete_id, p_single_use, p_expires_at, NOW())
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Athlete passwords saved before they were hashed are plain text, and scrypt isn't available in
+-- SQL to hash them here. Clear them instead: those athletes set a new password from their login
+-- link or with an emailed reset code (api/auth/_passwords.ts), and only hashes are ever compared.
+UPDATE athletes
+SET password_hash = NULL
+WHERE password_hash IS NOT NULL AND password_hash NOT LIKE 'scrypt:%';
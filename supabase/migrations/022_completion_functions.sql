@@ -0,0 +1,81 @@
+-- Completion and compliance aggregated in the database (api/workouts/_completion.ts and
+-- api/workouts/_compliance.ts). Each returns one JSONB value, so a month of workouts or a team's
+-- date range comes back whole instead of through row-capped selects and long lists of IDs.
+
+-- Every exercise in the given workouts, in order, with the sets and notes the athlete logged
+CREATE OR REPLACE FUNCTION get_completion_logs(p_athlete_id TEXT, p_workout_ids TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', be.id,
+    'workout_id', b.workout_id,
+    'reps', be.reps,
+    'prescription', be.prescription,
+    'sets', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'set_number', s.set_number,
+        'weight', s.weight,
+        'reps', s.reps,
+        'completed', s.completed,
+        'rpe', s.rpe,
+        'rir', s.rir
+      ) ORDER BY s.set_number)
+      FROM exercise_sets s
+      WHERE s.block_exercise_id = be.id AND s.workout_id = b.workout_id AND s.athlete_id = p_athlete_id
+    ), '[]'::jsonb),
+    'notes', (
+      SELECT n.notes
+      FROM exercise_notes n
+      WHERE n.block_exercise_id = be.id AND n.workout_id = b.workout_id AND n.athlete_id = p_athlete_id
+    )
+  ) ORDER BY b.workout_id, b.order_index, be.order_index), '[]'::jsonb)
+  FROM blocks b
+  JOIN block_exercises be ON be.block_id = b.id
+  WHERE b.workout_id = ANY(p_workout_ids);
+$$;
+
+-- Each athlete's assigned workouts (direct and through any of their teams) between two dates, oldest
+-- first, with prescribed sets and completed sets capped at each exercise's prescribed sets
+CREATE OR REPLACE FUNCTION get_workout_compliance(p_athlete_ids TEXT[], p_from TEXT, p_to TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH assigned AS (
+    SELECT DISTINCT a.athlete_id, w.id, w.name, w.date, w.created_at
+    FROM unnest(p_athlete_ids) AS a(athlete_id)
+    JOIN workouts w
+      ON w.athlete_id = a.athlete_id
+      OR w.team_id IN (SELECT ta.team_id FROM team_athletes ta WHERE ta.athlete_id = a.athlete_id)
+    WHERE w.date BETWEEN p_from AND p_to
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'athlete_id', a.athlete_id,
+    'workout_id', a.id,
+    'workout_name', a.name,
+    'date', a.date,
+    'prescribed_sets', COALESCE(e.prescribed_sets, 0),
+    'completed_sets', COALESCE(e.completed_sets, 0),
+    'completed', EXISTS (
+      SELECT 1 FROM workout_completions c WHERE c.athlete_id = a.athlete_id AND c.workout_id = a.id
+    )
+  ) ORDER BY a.date, a.created_at), '[]'::jsonb)
+  FROM assigned a
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(be.sets) AS prescribed_sets,
+      SUM(LEAST(be.sets, (
+        SELECT COUNT(*)
+        FROM exercise_sets s
+        WHERE s.block_exercise_id = be.id
+          AND s.workout_id = a.id
+          AND s.athlete_id = a.athlete_id
+          AND s.completed = 1
+      ))) AS completed_sets
+    FROM blocks b
+    JOIN block_exercises be ON be.block_id = b.id
+    WHERE b.workout_id = a.id
+  ) e ON TRUE;
+$$;
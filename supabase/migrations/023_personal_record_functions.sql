@@ -0,0 +1,63 @@
+-- Exercise history and PR detection (api/workouts/_records.ts and api/workouts/_history.ts).
+
+-- One athlete's completed sets of an exercise across all of their workouts: block exercises linked
+-- to the same library exercise, or with the same name (case-insensitive). Filtered through the
+-- join, so it doesn't depend on how many block exercises other athletes have for it.
+CREATE OR REPLACE FUNCTION get_athlete_exercise_sets(
+  p_athlete_id TEXT,
+  p_exercise_id TEXT,
+  p_exercise_name TEXT
+) RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'workout_id', s.workout_id,
+    'block_exercise_id', s.block_exercise_id,
+    'set_number', s.set_number,
+    'weight', s.weight,
+    'reps', s.reps,
+    'rest_seconds', s.rest_seconds,
+    'rpe', s.rpe,
+    'rir', s.rir,
+    'exercise_name', be.exercise_name,
+    'workout_name', w.name,
+    'date', w.date,
+    'workout_created_at', w.created_at
+  ) ORDER BY s.set_number), '[]'::jsonb)
+  FROM exercise_sets s
+  JOIN block_exercises be ON be.id = s.block_exercise_id
+  JOIN workouts w ON w.id = s.workout_id
+  WHERE s.athlete_id = p_athlete_id
+    AND s.completed = 1
+    AND (
+      be.exercise_id = p_exercise_id
+      OR (trim(p_exercise_name) <> '' AND lower(trim(be.exercise_name)) = lower(trim(p_exercise_name)))
+    );
+$$;
+
+-- Replace the PRs of one athlete's workout exercise with freshly detected ones, in one transaction,
+-- so a failed detection leaves the earlier rows in place. p_records is an array of personal_records
+-- rows as JSON.
+CREATE OR REPLACE FUNCTION replace_personal_records(
+  p_athlete_id TEXT,
+  p_workout_id TEXT,
+  p_block_exercise_id TEXT,
+  p_records JSONB
+) RETURNS SETOF personal_records
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM personal_records
+  WHERE athlete_id = p_athlete_id AND workout_id = p_workout_id AND block_exercise_id = p_block_exercise_id;
+
+  RETURN QUERY
+  INSERT INTO personal_records
+    (id, athlete_id, exercise_id, exercise_name, record_type, value, previous_value, weight, reps, formula,
+     workout_id, block_exercise_id, set_number, date)
+  SELECT r.id, p_athlete_id, r.exercise_id, r.exercise_name, r.record_type, r.value, r.previous_value, r.weight,
+    r.reps, r.formula, p_workout_id, p_block_exercise_id, r.set_number, r.date
+  FROM jsonb_populate_recordset(NULL::personal_records, p_records) r
+  RETURNING *;
+END;
+$$;
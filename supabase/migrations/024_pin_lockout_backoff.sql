@@ -0,0 +1,3 @@
+-- Name-link PIN lockouts in a row (api/auth/_nameLogin.ts): each doubles the next, up to a day,
+-- until the right PIN is entered or a coach sets a new one
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS pin_lockouts INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- Idempotency keys belong to the athlete whose write they cover (api/_helpers/idempotency.ts), so
+-- a key sent by anyone else never returns that athlete's stored response. Keys saved before they
+-- had an athlete can't be scoped and are dropped; they only cover retries for a week anyway.
+DELETE FROM idempotency_keys;
+
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS athlete_id TEXT NOT NULL
+  REFERENCES athletes(id) ON DELETE CASCADE;
+ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+ALTER TABLE idempotency_keys ADD PRIMARY KEY (athlete_id, key);
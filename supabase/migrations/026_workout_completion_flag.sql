@@ -0,0 +1,47 @@
+-- A workout that stops being complete (sets unticked) is unmarked instead of deleted, so its session
+-- feedback survives, and feedback sent before the sets save is kept without counting as a completion.
+ALTER TABLE workout_completions ADD COLUMN IF NOT EXISTS completed INTEGER NOT NULL DEFAULT 1;
+
+-- Same as in 022_completion_functions.sql, counting only rows that are marked complete
+CREATE OR REPLACE FUNCTION get_workout_compliance(p_athlete_ids TEXT[], p_from TEXT, p_to TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH assigned AS (
+    SELECT DISTINCT a.athlete_id, w.id, w.name, w.date, w.created_at
+    FROM unnest(p_athlete_ids) AS a(athlete_id)
+    JOIN workouts w
+      ON w.athlete_id = a.athlete_id
+      OR w.team_id IN (SELECT ta.team_id FROM team_athletes ta WHERE ta.athlete_id = a.athlete_id)
+    WHERE w.date BETWEEN p_from AND p_to
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'athlete_id', a.athlete_id,
+    'workout_id', a.id,
+    'workout_name', a.name,
+    'date', a.date,
+    'prescribed_sets', COALESCE(e.prescribed_sets, 0),
+    'completed_sets', COALESCE(e.completed_sets, 0),
+    'completed', EXISTS (
+      SELECT 1 FROM workout_completions c
+      WHERE c.athlete_id = a.athlete_id AND c.workout_id = a.id AND c.completed = 1
+    )
+  ) ORDER BY a.date, a.created_at), '[]'::jsonb)
+  FROM assigned a
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(be.sets) AS prescribed_sets,
+      SUM(LEAST(be.sets, (
+        SELECT COUNT(*)
+        FROM exercise_sets s
+        WHERE s.block_exercise_id = be.id
+          AND s.workout_id = a.id
+          AND s.athlete_id = a.athlete_id
+          AND s.completed = 1
+      ))) AS completed_sets
+    FROM blocks b
+    JOIN block_exercises be ON be.block_id = b.id
+    WHERE b.workout_id = a.id
+  ) e ON TRUE;
+$$;
@@ -0,0 +1,47 @@
+-- Daily training load (api/workouts/_load.ts), summed in the database from the given athletes' own
+-- session feedback and completed sets, so a team's date range doesn't go through row-capped selects
+-- and long lists of workout IDs.
+
+-- One entry per athlete and workout date that has any load, by athlete then date. Session load is
+-- session RPE x minutes; tonnage is weight x reps over sets with a positive weight and reps, read
+-- from the leading number of each like parseFloat/parseInt would.
+CREATE OR REPLACE FUNCTION get_daily_loads(p_athlete_ids TEXT[], p_from TEXT, p_to TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH sessions AS (
+    SELECT c.athlete_id, w.date, SUM(c.session_rpe * c.duration_minutes) AS session_load
+    FROM workout_completions c
+    JOIN workouts w ON w.id = c.workout_id
+    WHERE c.athlete_id = ANY(p_athlete_ids)
+      AND w.date BETWEEN p_from AND p_to
+      AND c.session_rpe IS NOT NULL
+      AND c.duration_minutes IS NOT NULL
+    GROUP BY c.athlete_id, w.date
+  ),
+  tonnage AS (
+    SELECT s.athlete_id, w.date, SUM(v.weight * v.reps) AS tonnage
+    FROM exercise_sets s
+    JOIN workouts w ON w.id = s.workout_id
+    CROSS JOIN LATERAL (
+      SELECT
+        substring(s.weight FROM '^\s*([0-9]+\.?[0-9]*|\.[0-9]+)')::numeric AS weight,
+        substring(s.reps FROM '^\s*([0-9]+)')::numeric AS reps
+    ) v
+    WHERE s.athlete_id = ANY(p_athlete_ids)
+      AND w.date BETWEEN p_from AND p_to
+      AND s.completed = 1
+      AND v.weight > 0
+      AND v.reps > 0
+    GROUP BY s.athlete_id, w.date
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'athlete_id', COALESCE(se.athlete_id, t.athlete_id),
+    'date', COALESCE(se.date, t.date),
+    'session_load', COALESCE(se.session_load, 0),
+    'tonnage', COALESCE(t.tonnage, 0)
+  ) ORDER BY COALESCE(se.athlete_id, t.athlete_id), COALESCE(se.date, t.date)), '[]'::jsonb)
+  FROM sessions se
+  FULL JOIN tonnage t ON t.athlete_id = se.athlete_id AND t.date = se.date;
+$$;
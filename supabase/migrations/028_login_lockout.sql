@@ -0,0 +1,6 @@
+-- Email-and-password sign-ins lock the account for a while after repeated wrong passwords
+-- (api/auth/_loginLockout.ts)
+ALTER TABLE coaches ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE coaches ADD COLUMN IF NOT EXISTS login_locked_until TIMESTAMPTZ;
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE athletes ADD COLUMN IF NOT EXISTS login_locked_until TIMESTAMPTZ;